@@ -0,0 +1,45 @@
+/**
+ * Web Push handlers, pulled into the generated Workbox service worker via
+ * workbox.importScripts in vite.config.ts.
+ *
+ * Payload (sent by backend/src/services/pushService.js):
+ *   { id, type, title, body, url }
+ */
+
+self.addEventListener('push', (event) => {
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { title: 'VCA', body: event.data ? event.data.text() : '' };
+  }
+
+  const title = payload.title || 'VCA';
+  event.waitUntil(
+    self.registration.showNotification(title, {
+      body: payload.body || '',
+      icon: '/pwa-192x192.png',
+      badge: '/pwa-192x192.png',
+      tag: payload.id || undefined,
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      // Reuse an open app window if there is one
+      for (const client of windows) {
+        if ('focus' in client) {
+          client.navigate(url);
+          return client.focus();
+        }
+      }
+      return self.clients.openWindow(url);
+    })
+  );
+});
@@ -41,6 +41,7 @@ const AdminProduction = lazy(() => import('@/pages/admin/ProductionPage'));
 const AdminProjectDetail = lazy(() => import('@/pages/admin/ProjectDetailPage'));
 const AdminTeam = lazy(() => import('@/pages/admin/TeamPage'));
 const AdminAnalytics = lazy(() => import('@/pages/admin/AnalyticsPage'));
+const AdminTalent = lazy(() => import('@/pages/admin/TalentPage'));
 const AdminNewScript = lazy(() => import('@/pages/admin/NewScriptPage'));
 
 // Script Writer pages
@@ -181,6 +182,7 @@ export default function App() {
             <Route path="production" element={<AdminProduction />} />
             <Route path="project/:id" element={<AdminProjectDetail />} />
             <Route path="team" element={<AdminTeam />} />
+            <Route path="talent" element={<AdminTalent />} />
             <Route path="analytics" element={<AdminAnalytics />} />
             <Route path="new-script" element={<AdminNewScript />} />
             <Route path="settings" element={<SettingsPage />} />
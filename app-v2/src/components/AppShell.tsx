@@ -1,5 +1,6 @@
 import { Outlet } from 'react-router-dom';
 import BottomNav from './BottomNav';
+import UploadQueueTray from './UploadQueueTray';
 import type { UserRole } from '@/types';
 
 interface AppShellProps {
@@ -14,6 +15,9 @@ export default function AppShell({ role }: AppShellProps) {
         <Outlet />
       </main>
 
+      {/* Background uploads (survive reloads and lost connections) */}
+      <UploadQueueTray />
+
       {/* Bottom navigation */}
       <BottomNav role={role} />
     </div>
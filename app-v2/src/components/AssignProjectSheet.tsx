@@ -0,0 +1,96 @@
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { assignmentService } from '@/services/assignmentService';
+import type { AssignableRole, ViralAnalysis } from '@/types';
+
+interface AssignProjectSheetProps {
+  project: Pick<ViralAnalysis, 'id' | 'title' | 'priority' | 'deadline' | 'profile_id' | 'created_at'>;
+  role: AssignableRole;
+  /** Whoever has the project now, if anyone */
+  currentUserId?: string;
+  onClose: () => void;
+}
+
+/**
+ * Admin override: everyone in the role ranked the way auto-assign would
+ * rank them, with the reasons, and a tap to give them the project
+ */
+export default function AssignProjectSheet({ project, role, currentUserId, onClose }: AssignProjectSheetProps) {
+  const qc = useQueryClient();
+
+  const { data: ranked = [], isLoading } = useQuery({
+    queryKey: queryKeys.admin.assignCandidates(project.id, role),
+    queryFn: () => assignmentService.rankForProject(project, role),
+  });
+
+  const assignMutation = useMutation({
+    mutationFn: (userId: string) => assignmentService.assignManually(project.id, role, userId),
+    onSuccess: () => {
+      toast.success(currentUserId ? 'Project reassigned' : 'Project assigned');
+      qc.invalidateQueries({ queryKey: queryKeys.admin.all });
+      onClose();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to assign project'),
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">
+              {role === 'VIDEOGRAPHER' ? 'Assign Videographer' : 'Assign Editor'}
+            </h3>
+            <p className="text-xs text-gray-500 truncate">{project.title || 'Untitled'}</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center shrink-0">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 text-purple-500 animate-spin" />
+            </div>
+          ) : ranked.length === 0 ? (
+            <p className="text-sm text-gray-400 text-center py-6">Nobody in this role can take it (everyone skipped it)</p>
+          ) : (
+            <div className="space-y-2">
+              {ranked.map(({ candidate, reasons }, index) => {
+                const isCurrent = candidate.userId === currentUserId;
+                return (
+                  <button
+                    key={candidate.userId}
+                    onClick={() => assignMutation.mutate(candidate.userId)}
+                    disabled={isCurrent || assignMutation.isPending}
+                    className={`w-full text-left p-3 rounded-lg border ${
+                      isCurrent ? 'border-purple-500 bg-purple-50' : 'border-gray-200 bg-white'
+                    } disabled:cursor-default`}
+                  >
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-medium text-gray-900 truncate">{candidate.name}</span>
+                      {isCurrent ? (
+                        <span className="flex items-center gap-1 text-xs text-purple-700"><Check className="w-3 h-3" />Assigned</span>
+                      ) : index === 0 && (
+                        <span className="text-xs text-purple-700">Best match</span>
+                      )}
+                    </span>
+                    <span className="block text-xs text-gray-500 mt-0.5">{reasons.join(' · ')}</span>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Minus, Plus, Wand2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { assignmentService } from '@/services/assignmentService';
+import type { AssignableRole } from '@/types';
+
+interface AutoAssignSheetProps {
+  onClose: () => void;
+}
+
+const ROLES: { role: AssignableRole; label: string; queue: string }[] = [
+  { role: 'VIDEOGRAPHER', label: 'Videographers', queue: 'Planning' },
+  { role: 'EDITOR', label: 'Editors', queue: 'Ready for edit' },
+];
+
+/**
+ * Per-role auto-assign switch and limit, plus a preview of who would get
+ * which waiting project right now
+ */
+export default function AutoAssignSheet({ onClose }: AutoAssignSheetProps) {
+  const qc = useQueryClient();
+  const [role, setRole] = useState<AssignableRole>('VIDEOGRAPHER');
+
+  const { data: settings = [] } = useQuery({
+    queryKey: queryKeys.admin.assignmentSettings(),
+    queryFn: () => assignmentService.getSettings(),
+  });
+  const current = settings.find((s) => s.role === role);
+
+  const { data: proposals = [], isLoading: previewLoading } = useQuery({
+    queryKey: queryKeys.admin.autoAssignPreview(role),
+    queryFn: () => assignmentService.previewAutoAssign(role),
+  });
+
+  const settingsMutation = useMutation({
+    mutationFn: (updates: { autoAssign?: boolean; maxActive?: number }) => assignmentService.updateSettings(role, updates),
+    onSuccess: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.admin.assignmentSettings() });
+      qc.invalidateQueries({ queryKey: queryKeys.admin.autoAssignPreview(role) });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save settings'),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => assignmentService.runAutoAssign(role),
+    onSuccess: ({ assigned, skipped }) => {
+      toast.success(`Assigned ${assigned.length} project${assigned.length === 1 ? '' : 's'}` +
+        (skipped > 0 ? ` (${skipped} already taken)` : ''));
+      qc.invalidateQueries({ queryKey: queryKeys.admin.all });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Auto-assign failed'),
+  });
+
+  const roleInfo = ROLES.find((r) => r.role === role)!;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">Auto-assign</h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {ROLES.map((r) => (
+              <button
+                key={r.role}
+                onClick={() => setRole(r.role)}
+                className={`py-2 rounded-lg text-sm font-medium ${
+                  role === r.role ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {r.label}
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center justify-between gap-3">
+            <span>
+              <span className="block text-sm font-medium text-gray-900">Assign automatically</span>
+              <span className="block text-xs text-gray-500">
+                New {roleInfo.queue.toLowerCase()} projects go straight to someone instead of waiting to be picked
+              </span>
+            </span>
+            <input
+              type="checkbox"
+              checked={current?.auto_assign || false}
+              disabled={!current || settingsMutation.isPending}
+              onChange={(e) => settingsMutation.mutate({ autoAssign: e.target.checked })}
+              className="w-5 h-5 accent-purple-500"
+            />
+          </label>
+
+          <div className="flex items-center justify-between gap-3">
+            <span>
+              <span className="block text-sm font-medium text-gray-900">Max active per person</span>
+              <span className="block text-xs text-gray-500">Nobody is auto-assigned past this</span>
+            </span>
+            <span className="flex items-center gap-2">
+              <button
+                onClick={() => settingsMutation.mutate({ maxActive: (current?.max_active || 1) - 1 })}
+                disabled={!current || current.max_active <= 1 || settingsMutation.isPending}
+                className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center disabled:opacity-40"
+              >
+                <Minus className="w-4 h-4" />
+              </button>
+              <span className="w-6 text-center font-semibold">{current?.max_active ?? '–'}</span>
+              <button
+                onClick={() => settingsMutation.mutate({ maxActive: (current?.max_active || 0) + 1 })}
+                disabled={!current || settingsMutation.isPending}
+                className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center disabled:opacity-40"
+              >
+                <Plus className="w-4 h-4" />
+              </button>
+            </span>
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-1.5">If it ran now</p>
+            {previewLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 text-purple-500 animate-spin" />
+              </div>
+            ) : proposals.length === 0 ? (
+              <p className="text-sm text-gray-400">Nothing to assign — the queue is empty or everyone is at the limit</p>
+            ) : (
+              <div className="space-y-2">
+                {proposals.map((proposal) => (
+                  <div key={proposal.project.id} className="p-3 bg-gray-50 rounded-lg">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="truncate text-gray-900">{proposal.project.title || 'Untitled'}</span>
+                      <span className="font-medium text-purple-700 shrink-0">→ {proposal.name}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-0.5">{proposal.reasons.join(' · ')}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={() => runMutation.mutate()}
+            disabled={proposals.length === 0 || runMutation.isPending}
+            className="w-full h-11 flex items-center justify-center gap-2 bg-purple-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {runMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Wand2 className="w-4 h-4" />}
+            Assign {proposals.length} now
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -1,47 +1,86 @@
 import { Link, useLocation } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { Home, FolderOpen, CheckCircle, Plus, FileText, Users, Video } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+import { queryKeys } from '@/lib/queryKeys';
+import { commentService } from '@/services/commentService';
 import type { UserRole } from '@/types';
 
 interface BottomNavProps {
   role: UserRole;
 }
 
+interface NavItem {
+  icon: LucideIcon;
+  label: string;
+  href: string;
+  /** Show the unread comment count on this item */
+  showUnread?: boolean;
+}
+
+function NavItemLink({ item, isActive, unreadCount }: { item: NavItem; isActive: boolean; unreadCount: number }) {
+  return (
+    <Link
+      to={item.href}
+      className={`flex flex-col items-center gap-0.5 p-2 min-w-[64px] transition-colors ${
+        isActive ? 'text-primary' : 'text-gray-400'
+      }`}
+    >
+      <span className="relative">
+        <item.icon className="w-6 h-6" />
+        {item.showUnread && unreadCount > 0 && (
+          <span className="absolute -top-1.5 -right-2.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </span>
+      <span className="text-[11px] font-medium">{item.label}</span>
+    </Link>
+  );
+}
+
 export default function BottomNav({ role }: BottomNavProps) {
   const location = useLocation();
 
   // Normalize role to lowercase for comparison
   const normalizedRole = role?.toLowerCase();
 
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: queryKeys.comments.unreadCount(),
+    queryFn: () => commentService.getUnreadCount(),
+    refetchInterval: 1000 * 60, // 1 minute
+  });
+
   // Different nav items based on role
-  const getNavItems = () => {
+  const getNavItems = (): NavItem[] => {
     switch (normalizedRole) {
       case 'script_writer':
         return [
           { icon: Home, label: 'Home', href: '/writer' },
-          { icon: FolderOpen, label: 'Scripts', href: '/writer/scripts' },
+          { icon: FolderOpen, label: 'Scripts', href: '/writer/scripts', showUnread: true },
         ];
       case 'videographer':
         return [
           { icon: Home, label: 'Home', href: '/videographer' },
           { icon: FolderOpen, label: 'Available', href: '/videographer/available' },
-          { icon: CheckCircle, label: 'Shoots', href: '/videographer/my-projects' },
+          { icon: CheckCircle, label: 'Shoots', href: '/videographer/my-projects', showUnread: true },
         ];
       case 'editor':
         return [
           { icon: Home, label: 'Home', href: '/editor' },
-          { icon: FolderOpen, label: 'Queue', href: '/editor/my-projects' },
+          { icon: FolderOpen, label: 'Queue', href: '/editor/my-projects', showUnread: true },
           { icon: CheckCircle, label: 'Done', href: '/editor/completed' },
         ];
       case 'posting_manager':
         return [
           { icon: Home, label: 'Home', href: '/posting' },
-          { icon: FolderOpen, label: 'To Post', href: '/posting/to-post' },
+          { icon: FolderOpen, label: 'To Post', href: '/posting/to-post', showUnread: true },
           { icon: CheckCircle, label: 'Posted', href: '/posting/posted' },
         ];
       case 'admin':
       case 'super_admin':
         return [
-          { icon: Home, label: 'Home', href: '/admin' },
+          { icon: Home, label: 'Home', href: '/admin', showUnread: true },
           { icon: FileText, label: 'Pending', href: '/admin/pending' },
           { icon: Video, label: 'Edited', href: '/admin/edited-review' },
           { icon: Users, label: 'Team', href: '/admin/team' },
@@ -79,18 +118,7 @@ export default function BottomNav({ role }: BottomNavProps) {
         <div className="flex items-center justify-evenly px-4 py-2 pb-safe">
           {navItems.map((item) => {
             const isActive = location.pathname === item.href || location.pathname.startsWith(item.href + '/');
-            return (
-              <Link
-                key={item.href}
-                to={item.href}
-                className={`flex flex-col items-center gap-0.5 p-2 min-w-[64px] transition-colors ${
-                  isActive ? 'text-primary' : 'text-gray-400'
-                }`}
-              >
-                <item.icon className="w-6 h-6" />
-                <span className="text-[11px] font-medium">{item.label}</span>
-              </Link>
-            );
+            return <NavItemLink key={item.href} item={item} isActive={isActive} unreadCount={unreadCount} />;
           })}
         </div>
       </nav>
@@ -105,18 +133,7 @@ export default function BottomNav({ role }: BottomNavProps) {
         <div className="flex flex-1 justify-evenly">
           {navItems.slice(0, Math.ceil(navItems.length / 2)).map((item) => {
             const isActive = location.pathname === item.href || location.pathname.startsWith(item.href + '/');
-            return (
-              <Link
-                key={item.href}
-                to={item.href}
-                className={`flex flex-col items-center gap-0.5 p-2 min-w-[64px] transition-colors ${
-                  isActive ? 'text-primary' : 'text-gray-400'
-                }`}
-              >
-                <item.icon className="w-6 h-6" />
-                <span className="text-[11px] font-medium">{item.label}</span>
-              </Link>
-            );
+            return <NavItemLink key={item.href} item={item} isActive={isActive} unreadCount={unreadCount} />;
           })}
         </div>
 
@@ -137,18 +154,7 @@ export default function BottomNav({ role }: BottomNavProps) {
         <div className="flex flex-1 justify-evenly">
           {navItems.slice(Math.ceil(navItems.length / 2)).map((item) => {
             const isActive = location.pathname === item.href || location.pathname.startsWith(item.href + '/');
-            return (
-              <Link
-                key={item.href}
-                to={item.href}
-                className={`flex flex-col items-center gap-0.5 p-2 min-w-[64px] transition-colors ${
-                  isActive ? 'text-primary' : 'text-gray-400'
-                }`}
-              >
-                <item.icon className="w-6 h-6" />
-                <span className="text-[11px] font-medium">{item.label}</span>
-              </Link>
-            );
+            return <NavItemLink key={item.href} item={item} isActive={isActive} unreadCount={unreadCount} />;
           })}
         </div>
       </div>
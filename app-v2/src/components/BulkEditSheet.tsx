@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { describeBulkResult, type BulkResult } from '@/lib/bulkActions';
+import { adminService } from '@/services/adminService';
+import { assignmentService } from '@/services/assignmentService';
+import { bulkActionService, type BulkProject } from '@/services/bulkActionService';
+import BulkResultSummary from '@/components/BulkResultSummary';
+import type { AssignableRole, Priority } from '@/types';
+
+interface BulkEditSheetProps {
+  projects: BulkProject[];
+  onClose: () => void;
+  /** Called once a run has finished, whatever the outcome */
+  onDone: () => void;
+}
+
+type Tab = 'details' | 'assign' | 'profile';
+
+const TABS: { id: Tab; label: string }[] = [
+  { id: 'details', label: 'Priority & deadline' },
+  { id: 'assign', label: 'Reassign' },
+  { id: 'profile', label: 'Profile' },
+];
+
+const PRIORITIES: Priority[] = ['URGENT', 'HIGH', 'NORMAL', 'LOW'];
+
+/**
+ * Change priority/deadline, the videographer or editor, or the profile of
+ * the selected production projects, then show how each one went
+ */
+export default function BulkEditSheet({ projects, onClose, onDone }: BulkEditSheetProps) {
+  const qc = useQueryClient();
+  const [tab, setTab] = useState<Tab>('details');
+  const [priority, setPriority] = useState<Priority | ''>('');
+  const [deadline, setDeadline] = useState('');
+  const [clearDeadline, setClearDeadline] = useState(false);
+  const [role, setRole] = useState<AssignableRole>('VIDEOGRAPHER');
+  const [userId, setUserId] = useState('');
+  const [profileId, setProfileId] = useState('');
+  const [result, setResult] = useState<BulkResult | null>(null);
+
+  const { data: candidates = [] } = useQuery({
+    queryKey: queryKeys.admin.assignCandidates('bulk', role),
+    queryFn: () => assignmentService.getCandidates(role),
+    enabled: tab === 'assign',
+  });
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: queryKeys.admin.profiles(),
+    queryFn: () => adminService.getProfiles(),
+    enabled: tab === 'profile',
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => {
+      switch (tab) {
+        case 'details':
+          return bulkActionService.updateDetails(projects, {
+            ...(priority && { priority }),
+            ...(clearDeadline ? { deadline: null } : deadline ? { deadline } : {}),
+          });
+        case 'assign':
+          return bulkActionService.reassign(projects, role, userId);
+        case 'profile':
+          return bulkActionService.assignProfile(projects, profileId);
+      }
+    },
+    onSuccess: (outcome) => {
+      setResult(outcome);
+      const message = describeBulkResult(outcome, 'Updated');
+      if (outcome.failed.length > 0) toast.error(message);
+      else toast.success(message);
+      qc.invalidateQueries({ queryKey: queryKeys.admin.all });
+      onDone();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Bulk update failed'),
+  });
+
+  const canSubmit = {
+    details: !!priority || !!deadline || clearDeadline,
+    assign: !!userId,
+    profile: !!profileId,
+  }[tab];
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {result ? 'Update results' : `Edit ${projects.length} project${projects.length === 1 ? '' : 's'}`}
+          </h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {result ? (
+            <BulkResultSummary result={result} />
+          ) : (
+            <>
+              <div className="grid grid-cols-3 gap-2">
+                {TABS.map((t) => (
+                  <button
+                    key={t.id}
+                    onClick={() => setTab(t.id)}
+                    className={`py-2 rounded-lg text-xs font-medium ${
+                      tab === t.id ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-600'
+                    }`}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+
+              {tab === 'details' && (
+                <>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1.5">Priority</label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {PRIORITIES.map((p) => (
+                        <button
+                          key={p}
+                          onClick={() => setPriority(priority === p ? '' : p)}
+                          className={`py-2 rounded-lg text-xs font-medium ${
+                            priority === p ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-600'
+                          }`}
+                        >
+                          {p.charAt(0) + p.slice(1).toLowerCase()}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1.5">Deadline</label>
+                    <input
+                      type="date"
+                      value={deadline}
+                      disabled={clearDeadline}
+                      onChange={(e) => setDeadline(e.target.value)}
+                      className="w-full h-11 px-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500 disabled:opacity-50"
+                    />
+                    <label className="flex items-center gap-2 mt-2 text-xs text-gray-600">
+                      <input
+                        type="checkbox"
+                        checked={clearDeadline}
+                        onChange={(e) => setClearDeadline(e.target.checked)}
+                        className="accent-purple-500"
+                      />
+                      Remove the deadline
+                    </label>
+                  </div>
+                </>
+              )}
+
+              {tab === 'assign' && (
+                <>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['VIDEOGRAPHER', 'EDITOR'] as AssignableRole[]).map((r) => (
+                      <button
+                        key={r}
+                        onClick={() => { setRole(r); setUserId(''); }}
+                        className={`py-2 rounded-lg text-sm font-medium ${
+                          role === r ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-600'
+                        }`}
+                      >
+                        {r === 'VIDEOGRAPHER' ? 'Videographer' : 'Editor'}
+                      </button>
+                    ))}
+                  </div>
+                  <div className="space-y-2">
+                    {candidates.map((candidate) => (
+                      <button
+                        key={candidate.userId}
+                        onClick={() => setUserId(candidate.userId)}
+                        className={`w-full text-left p-3 rounded-lg border ${
+                          userId === candidate.userId ? 'border-purple-500 bg-purple-50' : 'border-gray-200'
+                        }`}
+                      >
+                        <span className="block text-sm font-medium text-gray-900">{candidate.name}</span>
+                        <span className="block text-xs text-gray-500">
+                          {candidate.activeCount} active project{candidate.activeCount === 1 ? '' : 's'}
+                        </span>
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Projects waiting to be picked are picked for them; projects already in progress change hands.
+                  </p>
+                </>
+              )}
+
+              {tab === 'profile' && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1.5">Profile</label>
+                  <select
+                    value={profileId}
+                    onChange={(e) => setProfileId(e.target.value)}
+                    className="w-full h-11 px-3 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="">Choose a profile</option>
+                    {profiles.filter((p) => p.is_active).map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1.5">Projects without a content ID get one from this profile.</p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          {result ? (
+            <button onClick={onClose} className="w-full h-11 bg-gray-100 rounded-lg text-sm font-semibold text-gray-700">
+              Done
+            </button>
+          ) : (
+            <button
+              onClick={() => runMutation.mutate()}
+              disabled={!canSubmit || runMutation.isPending}
+              className="w-full h-11 flex items-center justify-center gap-2 bg-purple-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+            >
+              {runMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              Apply to {projects.length}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
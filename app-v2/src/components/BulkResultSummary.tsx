@@ -0,0 +1,44 @@
+import { CheckCircle, XCircle } from 'lucide-react';
+import type { BulkResult } from '@/lib/bulkActions';
+
+interface BulkResultSummaryProps {
+  result: BulkResult;
+}
+
+/**
+ * Per-item outcome of a bulk action: what went through and why the rest didn't
+ */
+export default function BulkResultSummary({ result }: BulkResultSummaryProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="bg-green-50 rounded-lg p-3 text-center">
+          <p className="text-xl font-bold text-green-600">{result.succeeded.length}</p>
+          <p className="text-[10px] text-gray-500 uppercase">Done</p>
+        </div>
+        <div className={`${result.failed.length > 0 ? 'bg-red-50' : 'bg-gray-50'} rounded-lg p-3 text-center`}>
+          <p className={`text-xl font-bold ${result.failed.length > 0 ? 'text-red-600' : 'text-gray-400'}`}>{result.failed.length}</p>
+          <p className="text-[10px] text-gray-500 uppercase">Failed</p>
+        </div>
+      </div>
+
+      <ul className="space-y-1.5">
+        {result.failed.map((item) => (
+          <li key={item.id} className="flex items-start gap-2 text-sm">
+            <XCircle className="w-4 h-4 text-red-500 shrink-0 mt-0.5" />
+            <span className="min-w-0">
+              <span className="block text-gray-900 truncate">{item.title}</span>
+              <span className="block text-xs text-red-600">{item.error}</span>
+            </span>
+          </li>
+        ))}
+        {result.succeeded.map((item) => (
+          <li key={item.id} className="flex items-center gap-2 text-sm">
+            <CheckCircle className="w-4 h-4 text-green-500 shrink-0" />
+            <span className="text-gray-700 truncate">{item.title || 'Untitled'}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
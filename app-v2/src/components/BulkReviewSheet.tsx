@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, Loader2, X, XCircle } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { FEEDBACK_TEMPLATES, describeBulkResult, fillFeedbackTemplate, type BulkResult } from '@/lib/bulkActions';
+import { adminService } from '@/services/adminService';
+import { bulkActionService, type BulkScript } from '@/services/bulkActionService';
+import BulkResultSummary from '@/components/BulkResultSummary';
+
+interface BulkReviewSheetProps {
+  scripts: BulkScript[];
+  onClose: () => void;
+  /** Called once a run has finished, whatever the outcome */
+  onDone: () => void;
+}
+
+/**
+ * Approve or reject the selected pending scripts with one shared feedback
+ * text, then show how each one went
+ */
+export default function BulkReviewSheet({ scripts, onClose, onDone }: BulkReviewSheetProps) {
+  const qc = useQueryClient();
+  const [decision, setDecision] = useState<'APPROVED' | 'REJECTED'>('APPROVED');
+  const [feedback, setFeedback] = useState('');
+  const [profileId, setProfileId] = useState('');
+  const [result, setResult] = useState<BulkResult | null>(null);
+
+  const { data: profiles = [] } = useQuery({
+    queryKey: queryKeys.admin.profiles(),
+    queryFn: () => adminService.getProfiles(),
+  });
+  const activeProfiles = profiles.filter((p) => p.is_active);
+
+  const reviewMutation = useMutation({
+    mutationFn: () => bulkActionService.reviewScripts(scripts, {
+      status: decision,
+      feedbackTemplate: feedback,
+      profileId: decision === 'APPROVED' && profileId ? profileId : undefined,
+    }),
+    onSuccess: (outcome) => {
+      setResult(outcome);
+      const message = describeBulkResult(outcome, decision === 'APPROVED' ? 'Approved' : 'Rejected', 'script');
+      if (outcome.failed.length > 0) toast.error(message);
+      else toast.success(message);
+      qc.invalidateQueries({ queryKey: queryKeys.admin.all });
+      onDone();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Bulk review failed'),
+  });
+
+  const canSubmit = decision === 'APPROVED' || feedback.trim().length > 0;
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">
+            {result ? 'Review results' : `Review ${scripts.length} script${scripts.length === 1 ? '' : 's'}`}
+          </h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {result ? (
+            <BulkResultSummary result={result} />
+          ) : (
+            <>
+              <div className="grid grid-cols-2 gap-2">
+                <button
+                  onClick={() => setDecision('APPROVED')}
+                  className={`py-2.5 rounded-lg text-sm font-medium flex items-center justify-center gap-1.5 ${
+                    decision === 'APPROVED' ? 'bg-green-500 text-white' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Approve
+                </button>
+                <button
+                  onClick={() => setDecision('REJECTED')}
+                  className={`py-2.5 rounded-lg text-sm font-medium flex items-center justify-center gap-1.5 ${
+                    decision === 'REJECTED' ? 'bg-red-500 text-white' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  <XCircle className="w-4 h-4" />
+                  Reject
+                </button>
+              </div>
+
+              {decision === 'APPROVED' && (
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 mb-1.5">Profile (generates content IDs)</label>
+                  <select
+                    value={profileId}
+                    onChange={(e) => setProfileId(e.target.value)}
+                    className="w-full h-11 px-3 border border-gray-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  >
+                    <option value="">Keep each script's profile</option>
+                    {activeProfiles.map((profile) => (
+                      <option key={profile.id} value={profile.id}>{profile.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1.5">
+                  Feedback {decision === 'REJECTED' ? '(required)' : '(optional)'}
+                </label>
+                <div className="flex gap-1.5 overflow-x-auto hide-scrollbar mb-2">
+                  {FEEDBACK_TEMPLATES.map((template) => (
+                    <button
+                      key={template.id}
+                      onClick={() => setFeedback(template.text)}
+                      className="px-2.5 py-1 rounded-full bg-gray-100 text-xs text-gray-600 whitespace-nowrap"
+                    >
+                      {template.label}
+                    </button>
+                  ))}
+                </div>
+                <textarea
+                  value={feedback}
+                  onChange={(e) => setFeedback(e.target.value)}
+                  rows={4}
+                  placeholder="Shared feedback — {title} and {writer} are filled in for each script"
+                  className="w-full p-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                {feedback.trim() && scripts[0] && (
+                  <p className="text-xs text-gray-500 mt-1.5">
+                    <span className="font-medium">Preview:</span> {fillFeedbackTemplate(feedback.trim(), scripts[0])}
+                  </p>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          {result ? (
+            <button onClick={onClose} className="w-full h-11 bg-gray-100 rounded-lg text-sm font-semibold text-gray-700">
+              Done
+            </button>
+          ) : (
+            <button
+              onClick={() => reviewMutation.mutate()}
+              disabled={!canSubmit || reviewMutation.isPending}
+              className={`w-full h-11 flex items-center justify-center gap-2 rounded-lg text-sm font-semibold text-white disabled:opacity-50 ${
+                decision === 'APPROVED' ? 'bg-green-500' : 'bg-red-500'
+              }`}
+            >
+              {reviewMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+              {decision === 'APPROVED' ? 'Approve' : 'Reject'} {scripts.length}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,34 @@
+import { Users } from 'lucide-react';
+import { CastMemberLabels } from '@/types';
+import type { CastComposition, CastMemberKey } from '@/types';
+
+interface CastSummaryProps {
+  cast: CastComposition;
+}
+
+/**
+ * Read-only chips for a cast composition, e.g. "Woman ×2 · Owner"
+ */
+export default function CastSummary({ cast }: CastSummaryProps) {
+  const members = (Object.entries(CastMemberLabels) as [CastMemberKey, string][])
+    .filter(([key]) => cast[key] > 0);
+
+  if (members.length === 0 && !cast.include_owner) {
+    return <p className="text-xs text-gray-400">No cast listed on these scripts</p>;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <Users className="w-3.5 h-3.5 text-gray-400" />
+      {cast.include_owner && (
+        <span className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full">Owner</span>
+      )}
+      {members.map(([key, label]) => (
+        <span key={key} className="px-2 py-0.5 bg-blue-50 text-blue-700 text-xs rounded-full">
+          {label} ×{cast[key]}
+        </span>
+      ))}
+      <span className="text-xs text-gray-500">{cast.total} people</span>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { diffWords } from '@/lib/textDiff';
+
+interface DiffTextProps {
+  before: string;
+  after: string;
+}
+
+/**
+ * Word-level diff: removed words struck through in red, added words in green
+ */
+export default function DiffText({ before, after }: DiffTextProps) {
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap leading-relaxed">
+      {diffWords(before, after).map((part, index) => {
+        if (part.type === 'removed') {
+          return <del key={index} className="bg-red-50 text-red-600">{part.text}</del>;
+        }
+        if (part.type === 'added') {
+          return <ins key={index} className="bg-green-50 text-green-700 no-underline">{part.text}</ins>;
+        }
+        return <span key={index}>{part.text}</span>;
+      })}
+    </p>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import FileReviewStatus from '@/components/FileReviewStatus';
+import { productionFilesService } from '@/services/productionFilesService';
+import type { ProductionFile } from '@/types';
+
+interface FileReviewControlsProps {
+  file: Pick<ProductionFile, 'id' | 'approval_status' | 'review_notes'>;
+  onReviewed: (file: ProductionFile) => void;
+}
+
+/**
+ * Admin approve / reject buttons for a single production file.
+ * Rejecting asks for a reason, which the uploader sees.
+ */
+export default function FileReviewControls({ file, onReviewed }: FileReviewControlsProps) {
+  const [rejecting, setRejecting] = useState(false);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const review = async (action: 'approve' | 'reject') => {
+    try {
+      setSaving(true);
+      const updated = action === 'approve'
+        ? await productionFilesService.approveFile(file.id)
+        : await productionFilesService.rejectFile(file.id, reason);
+      onReviewed(updated);
+      setRejecting(false);
+      setReason('');
+      toast.success(action === 'approve' ? 'File approved' : 'File rejected, uploader notified');
+    } catch (error) {
+      console.error(`Failed to ${action} file:`, error);
+      toast.error(error instanceof Error ? error.message : `Failed to ${action} file`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex items-center gap-1.5">
+        <div className="flex-1 min-w-0">
+          <FileReviewStatus file={file} />
+        </div>
+        {file.approval_status !== 'approved' && (
+          <button
+            onClick={() => review('approve')}
+            disabled={saving}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-green-50 text-green-700 text-xs font-medium disabled:opacity-50"
+          >
+            <Check className="w-3.5 h-3.5" />
+            Approve
+          </button>
+        )}
+        {file.approval_status !== 'rejected' && !rejecting && (
+          <button
+            onClick={() => setRejecting(true)}
+            disabled={saving}
+            className="flex items-center gap-1 px-2 py-1 rounded-lg bg-red-50 text-red-600 text-xs font-medium disabled:opacity-50"
+          >
+            <X className="w-3.5 h-3.5" />
+            Reject
+          </button>
+        )}
+      </div>
+
+      {rejecting && (
+        <div className="mt-2">
+          <textarea
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            rows={2}
+            autoFocus
+            placeholder="What needs to be re-shot or fixed?"
+            className="w-full px-3 py-2 border border-gray-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-red-400"
+          />
+          <div className="flex justify-end gap-2 mt-1.5">
+            <button
+              onClick={() => { setRejecting(false); setReason(''); }}
+              className="px-3 py-1.5 text-xs font-medium text-gray-500"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => review('reject')}
+              disabled={!reason.trim() || saving}
+              className="px-3 py-1.5 bg-red-500 text-white rounded-lg text-xs font-medium disabled:opacity-50 flex items-center gap-1"
+            >
+              {saving && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+              Reject File
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
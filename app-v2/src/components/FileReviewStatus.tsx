@@ -0,0 +1,43 @@
+import { CheckCircle, Clock, XCircle } from 'lucide-react';
+import type { ProductionFile } from '@/types';
+
+interface FileReviewStatusProps {
+  file: Pick<ProductionFile, 'approval_status' | 'review_notes'>;
+  /** Hide the "Not reviewed" label, e.g. on the uploader's own file list */
+  hidePending?: boolean;
+}
+
+/**
+ * Approval badge for one production file, with the reviewer's note when rejected
+ */
+export default function FileReviewStatus({ file, hidePending = false }: FileReviewStatusProps) {
+  if (file.approval_status === 'approved') {
+    return (
+      <span className="inline-flex items-center gap-1 text-xs font-medium text-green-600">
+        <CheckCircle className="w-3.5 h-3.5" />
+        Approved
+      </span>
+    );
+  }
+
+  if (file.approval_status === 'rejected') {
+    return (
+      <div className="text-xs text-red-600">
+        <span className="inline-flex items-center gap-1 font-medium">
+          <XCircle className="w-3.5 h-3.5" />
+          Rejected
+        </span>
+        {file.review_notes && <p className="mt-0.5 text-red-500">{file.review_notes}</p>}
+      </div>
+    );
+  }
+
+  if (hidePending) return null;
+
+  return (
+    <span className="inline-flex items-center gap-1 text-xs text-gray-400">
+      <Clock className="w-3.5 h-3.5" />
+      Not reviewed
+    </span>
+  );
+}
@@ -1,6 +1,7 @@
 import { useNavigate, useLocation } from 'react-router-dom';
 import { ChevronLeft, LogOut } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
+import NotificationBell from '@/components/NotificationBell';
 
 interface HeaderProps {
   title: string;
@@ -62,6 +63,7 @@ export default function Header({ title, subtitle, showBack, showLogout, rightAct
         {/* Right side */}
         <div className="flex items-center gap-2">
           {rightAction}
+          {!isSettingsPage && <NotificationBell />}
           {showLogout && (
             <button
               onClick={handleLogout}
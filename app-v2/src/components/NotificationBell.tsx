@@ -0,0 +1,201 @@
+import { useEffect, useRef, useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlarmClock, AtSign, Bell, CheckCheck, CheckCircle, Film, Loader2, Newspaper, RotateCcw, UserCheck, XCircle } from 'lucide-react';
+import { queryKeys } from '@/lib/queryKeys';
+import { notificationService } from '@/services/notificationService';
+import type { AppNotification, NotificationType } from '@/types';
+
+const TYPE_ICONS: Record<NotificationType, { icon: typeof Bell; color: string }> = {
+  SCRIPT_APPROVED: { icon: CheckCircle, color: 'text-green-500 bg-green-50' },
+  SCRIPT_REJECTED: { icon: XCircle, color: 'text-red-500 bg-red-50' },
+  PROJECT_AVAILABLE: { icon: Film, color: 'text-blue-500 bg-blue-50' },
+  EDIT_APPROVED: { icon: CheckCircle, color: 'text-green-500 bg-green-50' },
+  EDIT_REJECTED: { icon: XCircle, color: 'text-red-500 bg-red-50' },
+  FILE_REJECTED: { icon: XCircle, color: 'text-red-500 bg-red-50' },
+  PROJECT_ASSIGNED: { icon: UserCheck, color: 'text-blue-500 bg-blue-50' },
+  SLA_OVERDUE: { icon: AlarmClock, color: 'text-orange-500 bg-orange-50' },
+  SCRIPT_RESUBMITTED: { icon: RotateCcw, color: 'text-yellow-600 bg-yellow-50' },
+  MENTION: { icon: AtSign, color: 'text-purple-500 bg-purple-50' },
+  DAILY_DIGEST: { icon: Newspaper, color: 'text-gray-600 bg-gray-100' },
+};
+
+function timeAgo(dateString: string): string {
+  const seconds = Math.floor((Date.now() - new Date(dateString).getTime()) / 1000);
+  if (seconds < 60) return 'just now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d ago`;
+  return new Date(dateString).toLocaleDateString();
+}
+
+/**
+ * Where a notification should take the user, based on the section they are in
+ */
+function getNotificationLink(notification: AppNotification, roleBase: string): string | null {
+  const id = notification.analysis_id;
+  if (!id) return null;
+
+  if (notification.type === 'PROJECT_AVAILABLE' && (roleBase === 'videographer' || roleBase === 'editor')) {
+    return `/${roleBase}/available`;
+  }
+
+  if (notification.type === 'SCRIPT_RESUBMITTED' && roleBase === 'admin') {
+    return `/admin/review/${id}`;
+  }
+
+  switch (roleBase) {
+    case 'admin':
+    case 'videographer':
+    case 'editor':
+      return `/${roleBase}/project/${id}`;
+    case 'posting':
+      return `/posting/post/${id}`;
+    case 'writer':
+      return `/writer/scripts/${id}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Bell button with unread count and a dropdown inbox
+ */
+export default function NotificationBell() {
+  const qc = useQueryClient();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const roleBase = location.pathname.split('/')[1] || '';
+
+  const { data: unreadCount = 0 } = useQuery({
+    queryKey: queryKeys.notifications.unreadCount(),
+    queryFn: () => notificationService.getUnreadCount(),
+    refetchInterval: 1000 * 60, // 1 minute
+  });
+
+  const { data: notifications = [], isLoading } = useQuery({
+    queryKey: queryKeys.notifications.inbox(),
+    queryFn: () => notificationService.getNotifications(),
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: queryKeys.notifications.all });
+  };
+
+  const markRead = useMutation({
+    mutationFn: (id: string) => notificationService.markRead(id),
+    onSettled: invalidate,
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: () => notificationService.markAllRead(),
+    onSettled: invalidate,
+  });
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleOpenNotification = (notification: AppNotification) => {
+    if (!notification.read_at) markRead.mutate(notification.id);
+    const link = getNotificationLink(notification, roleBase);
+    setOpen(false);
+    if (link) navigate(link);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="relative w-10 h-10 flex items-center justify-center rounded-full bg-gray-100 active:bg-gray-200 transition-colors"
+        title="Notifications"
+      >
+        <Bell className="w-5 h-5 text-gray-600" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+            {unreadCount > 99 ? '99+' : unreadCount}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {open && (
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95, y: -10 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.95, y: -10 }}
+            transition={{ duration: 0.15 }}
+            className="absolute right-0 top-12 w-80 max-w-[calc(100vw-2rem)] bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
+          >
+            <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100">
+              <h3 className="font-semibold text-gray-900">Notifications</h3>
+              {unreadCount > 0 && (
+                <button
+                  onClick={() => markAllRead.mutate()}
+                  disabled={markAllRead.isPending}
+                  className="text-xs font-medium text-primary flex items-center gap-1 disabled:opacity-50"
+                >
+                  <CheckCheck className="w-3.5 h-3.5" />
+                  Mark all read
+                </button>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              {isLoading ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+                </div>
+              ) : notifications.length === 0 ? (
+                <p className="text-sm text-gray-400 text-center py-8">You're all caught up</p>
+              ) : (
+                notifications.map((notification) => {
+                  const { icon: Icon, color } = TYPE_ICONS[notification.type] || TYPE_ICONS.PROJECT_AVAILABLE;
+                  const unread = !notification.read_at;
+                  return (
+                    <button
+                      key={notification.id}
+                      onClick={() => handleOpenNotification(notification)}
+                      className={`w-full text-left flex gap-3 px-4 py-3 border-b border-gray-50 last:border-0 hover:bg-gray-50 ${
+                        unread ? 'bg-primary/5' : ''
+                      }`}
+                    >
+                      <div className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 ${color}`}>
+                        <Icon className="w-4 h-4" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <p className={`text-sm ${unread ? 'font-semibold text-gray-900' : 'text-gray-700'}`}>
+                          {notification.title}
+                        </p>
+                        {notification.body && (
+                          <p className="text-xs text-gray-500 truncate">{notification.body}</p>
+                        )}
+                        <p className="text-[11px] text-gray-400 mt-0.5">{timeAgo(notification.created_at)}</p>
+                      </div>
+                      {unread && <span className="w-2 h-2 rounded-full bg-primary mt-2 shrink-0" />}
+                    </button>
+                  );
+                })
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Link } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { GripVertical, Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { BOARD_COLUMNS, groupByColumn, planDrop } from '@/lib/productionBoard';
+import { getNextStages } from '@/lib/productionStages';
+import { formatHours, hoursInStage } from '@/lib/stageSla';
+import { productionBoardService, type BoardMoveInput } from '@/services/productionBoardService';
+import AssignProjectSheet from '@/components/AssignProjectSheet';
+import SlaBadge from '@/components/SlaBadge';
+import { ProductionStageLabels } from '@/types';
+import type { AssignableRole, ProductionStageV2, UserProfile, ViralAnalysis } from '@/types';
+
+interface ProductionBoardProps {
+  projects: ViralAnalysis[];
+}
+
+const COLUMN_COLORS: Record<ProductionStageV2, string> = {
+  PLANNING: 'bg-blue-500',
+  SHOOTING: 'bg-orange-500',
+  READY_FOR_EDIT: 'bg-purple-500',
+  EDITING: 'bg-pink-500',
+  EDIT_REVIEW: 'bg-amber-500',
+  READY_TO_POST: 'bg-green-500',
+  POSTED: 'bg-cyan-500',
+};
+
+const PRIORITY_STYLES: Record<string, string> = {
+  URGENT: 'bg-red-100 text-red-700',
+  HIGH: 'bg-orange-100 text-orange-700',
+  LOW: 'bg-gray-100 text-gray-500',
+};
+
+type Prompt = { project: ViralAnalysis; to: ProductionStageV2; type: 'reason' | 'posted_url' };
+
+function initials(person: Pick<UserProfile, 'email' | 'full_name'>): string {
+  if (person.full_name) return person.full_name.split(' ').map((n) => n[0]).join('').toUpperCase().slice(0, 2);
+  return person.email?.slice(0, 2).toUpperCase() || '??';
+}
+
+/**
+ * Kanban view of the production pipeline. Cards can be dragged to another
+ * column (or moved with the per-card menu on touch screens); every move is
+ * checked against the stage transitions and asks for an assignee, a reason
+ * or the posted URL when the move needs one.
+ */
+export default function ProductionBoard({ projects }: ProductionBoardProps) {
+  const qc = useQueryClient();
+  const columns = groupByColumn(projects);
+  const [dragging, setDragging] = useState<ViralAnalysis | null>(null);
+  const [dropTarget, setDropTarget] = useState<ProductionStageV2 | null>(null);
+  const [assigning, setAssigning] = useState<{ project: ViralAnalysis; role: AssignableRole } | null>(null);
+  const [prompt, setPrompt] = useState<Prompt | null>(null);
+
+  const moveMutation = useMutation({
+    mutationFn: ({ project, to, input }: { project: ViralAnalysis; to: ProductionStageV2; input?: BoardMoveInput }) =>
+      productionBoardService.moveProject(project.id, project.production_stage, to, input),
+    onSuccess: (_data, { to }) => {
+      toast.success(`Moved to ${ProductionStageLabels[to]}`);
+      setPrompt(null);
+      qc.invalidateQueries({ queryKey: queryKeys.admin.all });
+      qc.invalidateQueries({ queryKey: queryKeys.sla.all });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to move project'),
+  });
+
+  const handleMove = (project: ViralAnalysis, to: ProductionStageV2) => {
+    const plan = planDrop(project.production_stage, to);
+    switch (plan.type) {
+      case 'none':
+        return;
+      case 'invalid':
+        toast.error(plan.message);
+        return;
+      case 'assign':
+        setAssigning({ project, role: plan.role });
+        return;
+      case 'reason':
+      case 'posted_url':
+        setPrompt({ project, to, type: plan.type });
+        return;
+      case 'move':
+        moveMutation.mutate({ project, to });
+    }
+  };
+
+  return (
+    <div className="flex gap-3 overflow-x-auto hide-scrollbar -mx-4 px-4 pb-2">
+      {BOARD_COLUMNS.map((stage) => {
+        const cards = columns[stage];
+        const canDrop = dragging ? planDrop(dragging.production_stage, stage).type !== 'invalid' : false;
+
+        return (
+          <section
+            key={stage}
+            onDragOver={(e) => {
+              if (!dragging) return;
+              e.preventDefault();
+              setDropTarget(stage);
+            }}
+            onDragLeave={() => setDropTarget((current) => (current === stage ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault();
+              setDropTarget(null);
+              if (dragging) handleMove(dragging, stage);
+              setDragging(null);
+            }}
+            className={`w-64 shrink-0 rounded-xl p-2 transition-colors ${
+              dropTarget === stage ? (canDrop ? 'bg-purple-100' : 'bg-red-50') : 'bg-gray-50'
+            }`}
+          >
+            <h2 className="flex items-center gap-2 px-1 mb-2 text-sm font-semibold text-gray-800">
+              <span className={`w-2 h-2 rounded-full ${COLUMN_COLORS[stage]}`} />
+              {ProductionStageLabels[stage]}
+              <span className="ml-auto text-xs font-medium text-gray-500">{cards.length}</span>
+            </h2>
+
+            <div className="space-y-2 min-h-[4rem]">
+              {cards.map((project) => (
+                <BoardCard
+                  key={project.id}
+                  project={project}
+                  isDragging={dragging?.id === project.id}
+                  onDragStart={() => setDragging(project)}
+                  onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                  onMove={(to) => handleMove(project, to)}
+                />
+              ))}
+              {cards.length === 0 && (
+                <p className="text-xs text-gray-400 text-center py-4">
+                  {stage === 'POSTED' ? 'Drop here to mark as posted' : 'No projects'}
+                </p>
+              )}
+            </div>
+          </section>
+        );
+      })}
+
+      {assigning && (
+        <AssignProjectSheet
+          project={assigning.project}
+          role={assigning.role}
+          onClose={() => setAssigning(null)}
+        />
+      )}
+      {prompt && (
+        <MovePromptSheet
+          prompt={prompt}
+          isPending={moveMutation.isPending}
+          onSubmit={(input) => moveMutation.mutate({ project: prompt.project, to: prompt.to, input })}
+          onClose={() => setPrompt(null)}
+        />
+      )}
+    </div>
+  );
+}
+
+interface BoardCardProps {
+  project: ViralAnalysis;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnd: () => void;
+  onMove: (to: ProductionStageV2) => void;
+}
+
+function BoardCard({ project, isDragging, onDragStart, onDragEnd, onMove }: BoardCardProps) {
+  const people = [project.videographer, project.editor, project.posting_manager].filter(Boolean) as UserProfile[];
+  const hours = hoursInStage(project);
+  const nextStages = getNextStages(project.production_stage, 'ADMIN');
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', project.id);
+        onDragStart();
+      }}
+      onDragEnd={onDragEnd}
+      className={`bg-white rounded-lg border border-gray-100 p-3 cursor-grab active:cursor-grabbing ${isDragging ? 'opacity-50' : ''}`}
+    >
+      <div className="flex items-start gap-1.5">
+        <GripVertical className="w-4 h-4 text-gray-300 shrink-0 mt-0.5" />
+        <div className="min-w-0 flex-1">
+          <p className="text-xs text-gray-400 font-mono">{project.content_id || 'No ID'}</p>
+          <Link to={`/admin/project/${project.id}`} className="block text-sm font-medium text-gray-900 truncate">
+            {project.title || 'Untitled Project'}
+          </Link>
+        </div>
+        {project.priority && PRIORITY_STYLES[project.priority] && (
+          <span className={`px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase shrink-0 ${PRIORITY_STYLES[project.priority]}`}>
+            {project.priority}
+          </span>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <div className="flex -space-x-1.5">
+          {people.map((person) => (
+            <span
+              key={person.id}
+              title={person.full_name || person.email}
+              className="w-6 h-6 rounded-full bg-purple-500 border-2 border-white flex items-center justify-center text-white text-[9px] font-semibold"
+            >
+              {initials(person)}
+            </span>
+          ))}
+        </div>
+        {hours !== null && <span className="text-[11px] text-gray-500">{formatHours(hours)} in stage</span>}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-2">
+        <SlaBadge project={project} />
+        {nextStages.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onMove(e.target.value as ProductionStageV2)}
+            className="ml-auto text-xs text-purple-600 bg-transparent focus:outline-none"
+            aria-label="Move to stage"
+          >
+            <option value="">Move to…</option>
+            {nextStages.map((stage) => (
+              <option key={stage} value={stage}>{ProductionStageLabels[stage]}</option>
+            ))}
+          </select>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface MovePromptSheetProps {
+  prompt: Prompt;
+  isPending: boolean;
+  onSubmit: (input: BoardMoveInput) => void;
+  onClose: () => void;
+}
+
+function MovePromptSheet({ prompt, isPending, onSubmit, onClose }: MovePromptSheetProps) {
+  const [value, setValue] = useState('');
+  const isReason = prompt.type === 'reason';
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div className="min-w-0">
+            <h3 className="text-lg font-semibold text-gray-900">{isReason ? 'Send back to editing' : 'Mark as posted'}</h3>
+            <p className="text-xs text-gray-500 truncate">{prompt.project.title || 'Untitled'}</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center shrink-0">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="p-4">
+          {isReason ? (
+            <textarea
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="What needs to change?"
+              rows={4}
+              className="w-full p-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          ) : (
+            <input
+              type="url"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="https://instagram.com/reel/..."
+              className="w-full h-11 px-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={() => onSubmit(isReason ? { reason: value } : { postedUrl: value })}
+            disabled={!value.trim() || isPending}
+            className="w-full h-11 flex items-center justify-center gap-2 bg-purple-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            {isReason ? 'Send back' : 'Mark posted'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,361 @@
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, MessageSquare, Mic, Reply, Send, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import VoiceRecorder from '@/components/VoiceRecorder';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import { adminService } from '@/services/adminService';
+import { commentService, extractMentions, mentionHandle } from '@/services/commentService';
+import type { MentionCandidate } from '@/services/commentService';
+import type { ProjectComment } from '@/types';
+
+interface ProjectCommentsProps {
+  analysisId: string;
+}
+
+// "@" followed by what the user has typed so far, right before the caret
+const MENTION_QUERY = /(^|\s)@([^\s@]*(?: [^\s@]*)?)$/;
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** Render "@Name" tokens for the members a comment mentions in bold */
+function CommentBody({ body, members }: { body: string; members: MentionCandidate[] }) {
+  const handles = members.map((m) => `@${mentionHandle(m)}`).sort((a, b) => b.length - a.length);
+  if (handles.length === 0) return <>{body}</>;
+
+  const escaped = handles.map((h) => h.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = body.split(new RegExp(`(${escaped.join('|')})`, 'g'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        handles.includes(part)
+          ? <span key={i} className="font-semibold text-primary">{part}</span>
+          : <span key={i}>{part}</span>
+      )}
+    </>
+  );
+}
+
+// ─── Composer ──────────────────────────────────────────────────────────────────
+
+interface ComposerProps {
+  analysisId: string;
+  parentId?: string;
+  members: MentionCandidate[];
+  placeholder?: string;
+  autoFocus?: boolean;
+  onDone?: () => void;
+}
+
+function CommentComposer({ analysisId, parentId, members, placeholder, autoFocus, onDone }: ComposerProps) {
+  const qc = useQueryClient();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState('');
+  const [picked, setPicked] = useState<MentionCandidate[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [showVoice, setShowVoice] = useState(false);
+  const [voiceNote, setVoiceNote] = useState<Blob | null>(null);
+  const [voicePending, setVoicePending] = useState(false);
+
+  const suggestions = mentionQuery === null
+    ? []
+    : members
+        .filter((m) => {
+          const q = mentionQuery.toLowerCase();
+          return mentionHandle(m).toLowerCase().includes(q) || m.email.toLowerCase().includes(q);
+        })
+        .slice(0, 5);
+
+  const mutation = useMutation({
+    mutationFn: () =>
+      commentService.addComment({
+        analysisId,
+        parentId,
+        body,
+        mentions: extractMentions(body, picked),
+        voiceNote,
+      }),
+    onSuccess: () => {
+      setBody('');
+      setPicked([]);
+      setVoiceNote(null);
+      setShowVoice(false);
+      onDone?.();
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || 'Failed to post comment');
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.comments.project(analysisId) });
+      qc.invalidateQueries({ queryKey: queryKeys.comments.unreadCount() });
+    },
+  });
+
+  const handleChange = (value: string) => {
+    setBody(value);
+    const caret = textareaRef.current?.selectionStart ?? value.length;
+    const match = value.slice(0, caret).match(MENTION_QUERY);
+    setMentionQuery(match ? match[2] : null);
+  };
+
+  const insertMention = (member: MentionCandidate) => {
+    const caret = textareaRef.current?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(MENTION_QUERY, `$1@${mentionHandle(member)} `);
+    const next = before + body.slice(caret);
+    setBody(next);
+    setPicked((prev) => (prev.some((m) => m.id === member.id) ? prev : [...prev, member]));
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const canSubmit = (body.trim().length > 0 || !!voiceNote) && !voicePending && !mutation.isPending;
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <textarea
+          ref={textareaRef}
+          value={body}
+          autoFocus={autoFocus}
+          onChange={(e) => handleChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setMentionQuery(null);
+            if (e.key === 'Enter' && suggestions.length > 0 && mentionQuery !== null) {
+              e.preventDefault();
+              insertMention(suggestions[0]);
+            }
+          }}
+          placeholder={placeholder || 'Add a comment — type @ to mention someone'}
+          rows={2}
+          className="w-full p-3 pr-10 border-2 border-gray-200 rounded-xl text-sm resize-none focus:border-primary focus:outline-none"
+        />
+        <button
+          type="button"
+          onClick={() => setShowVoice((v) => !v)}
+          className={`absolute right-2 top-2 p-1.5 rounded-lg ${showVoice ? 'text-primary bg-primary/10' : 'text-gray-400'}`}
+          aria-label="Attach voice note"
+        >
+          <Mic className="w-4 h-4" />
+        </button>
+
+        {suggestions.length > 0 && (
+          <div className="absolute left-0 right-0 bottom-full mb-1 bg-white border border-gray-200 rounded-xl shadow-lg z-20 overflow-hidden">
+            {suggestions.map((member) => (
+              <button
+                key={member.id}
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  insertMention(member);
+                }}
+                className="w-full text-left px-3 py-2 hover:bg-gray-50 flex flex-col"
+              >
+                <span className="text-sm font-medium text-gray-900">{mentionHandle(member)}</span>
+                <span className="text-xs text-gray-500">{member.email}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {showVoice && (
+        <VoiceRecorder
+          label="Voice note"
+          value={voiceNote}
+          onChange={setVoiceNote}
+          onPendingChange={setVoicePending}
+        />
+      )}
+
+      <div className="flex justify-end gap-2">
+        {onDone && (
+          <button
+            type="button"
+            onClick={onDone}
+            className="px-3 py-2 text-sm text-gray-500"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => mutation.mutate()}
+          disabled={!canSubmit}
+          className="px-4 py-2 bg-primary text-white text-sm font-medium rounded-xl flex items-center gap-1.5 disabled:opacity-50"
+        >
+          {mutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
+          {parentId ? 'Reply' : 'Post'}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// ─── Thread ────────────────────────────────────────────────────────────────────
+
+interface CommentItemProps {
+  comment: ProjectComment;
+  members: MentionCandidate[];
+  currentUserId?: string;
+  onReply?: () => void;
+  onDelete: (id: string) => void;
+}
+
+function CommentItem({ comment, members, currentUserId, onReply, onDelete }: CommentItemProps) {
+  const authorName = comment.author?.full_name || comment.author?.email || 'Unknown';
+  const isMine = !!currentUserId && comment.author_id === currentUserId;
+
+  if (comment.is_deleted) {
+    return <p className="text-xs italic text-gray-400 py-1">Comment deleted</p>;
+  }
+
+  return (
+    <div className="flex gap-2.5">
+      <div className="w-8 h-8 rounded-full bg-gray-100 text-gray-600 text-xs font-semibold flex items-center justify-center shrink-0">
+        {authorName.charAt(0).toUpperCase()}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline gap-2">
+          <span className="text-sm font-medium text-gray-900 truncate">{authorName}</span>
+          <span className="text-[11px] text-gray-400 shrink-0">{formatTimestamp(comment.created_at)}</span>
+        </div>
+        {comment.body && (
+          <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+            <CommentBody body={comment.body} members={members.filter((m) => comment.mentions.includes(m.id))} />
+          </p>
+        )}
+        {comment.voice_note_url && (
+          <audio controls src={comment.voice_note_url} className="w-full h-9 mt-1.5" />
+        )}
+        <div className="flex gap-3 mt-1">
+          {onReply && (
+            <button onClick={onReply} className="text-xs text-gray-500 flex items-center gap-1">
+              <Reply className="w-3 h-3" />
+              Reply
+            </button>
+          )}
+          {isMine && (
+            <button onClick={() => onDelete(comment.id)} className="text-xs text-gray-400 flex items-center gap-1">
+              <Trash2 className="w-3 h-3" />
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Comment thread for a project with replies, voice notes and @mentions.
+ * Opening the thread marks it as read for the unread badge in BottomNav.
+ */
+export default function ProjectComments({ analysisId }: ProjectCommentsProps) {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const { data: comments = [], isLoading, isError, refetch } = useQuery({
+    queryKey: queryKeys.comments.project(analysisId),
+    queryFn: () => commentService.getComments(analysisId),
+    enabled: !!analysisId,
+  });
+
+  const { data: members = [] } = useQuery({
+    queryKey: queryKeys.admin.team(),
+    queryFn: () => adminService.getTeamMembers(),
+    staleTime: 1000 * 60 * 5,
+  });
+
+  // Mark as read when opened and whenever new comments arrive
+  useEffect(() => {
+    if (!analysisId || isLoading) return;
+    commentService.markRead(analysisId).then(() => {
+      qc.invalidateQueries({ queryKey: queryKeys.comments.unreadCount() });
+    });
+  }, [analysisId, isLoading, comments.length]);
+
+  const deleteMutation = useMutation({
+    mutationFn: (commentId: string) => commentService.deleteComment(commentId),
+    onError: () => {
+      toast.error('Failed to delete comment');
+    },
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.comments.project(analysisId) });
+    },
+  });
+
+  const mentionable = members.filter((m) => m.id !== user?.id);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-4 space-y-4">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-1.5">
+        <MessageSquare className="w-3.5 h-3.5" />
+        Comments {comments.length > 0 && `(${comments.length})`}
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        </div>
+      ) : isError ? (
+        <button onClick={() => refetch()} className="text-sm text-red-500">
+          Failed to load comments — tap to retry
+        </button>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-400">No comments yet. Start the conversation.</p>
+      ) : (
+        <div className="space-y-4">
+          {comments.map((comment) => (
+            <div key={comment.id} className="space-y-3">
+              <CommentItem
+                comment={comment}
+                members={members}
+                currentUserId={user?.id}
+                onReply={() => setReplyingTo(replyingTo === comment.id ? null : comment.id)}
+                onDelete={(id) => deleteMutation.mutate(id)}
+              />
+
+              {((comment.replies && comment.replies.length > 0) || replyingTo === comment.id) && (
+                <div className="ml-10 pl-3 border-l-2 border-gray-100 space-y-3">
+                  {comment.replies?.map((reply) => (
+                    <CommentItem
+                      key={reply.id}
+                      comment={reply}
+                      members={members}
+                      currentUserId={user?.id}
+                      onDelete={(id) => deleteMutation.mutate(id)}
+                    />
+                  ))}
+                  {replyingTo === comment.id && (
+                    <CommentComposer
+                      analysisId={analysisId}
+                      parentId={comment.id}
+                      members={mentionable}
+                      placeholder={`Reply to ${comment.author?.full_name || 'comment'}`}
+                      autoFocus
+                      onDone={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CommentComposer analysisId={analysisId} members={mentionable} />
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowRight, History, Loader2 } from 'lucide-react';
+import { queryKeys } from '@/lib/queryKeys';
+import { activityService } from '@/services/activityService';
+import { ProductionStageLabels, ProjectEventLabels } from '@/types';
+import type { ProjectEvent, ProjectEventChange } from '@/types';
+
+interface ProjectTimelineProps {
+  analysisId: string;
+  /** Refetch when this changes (e.g. project.updated_at after an action) */
+  refreshKey?: string | number;
+}
+
+const EVENT_DOT_COLORS: Record<string, string> = {
+  SCRIPT_APPROVED: 'bg-green-500',
+  SCRIPT_REJECTED: 'bg-red-500',
+  PROJECT_PICKED: 'bg-blue-500',
+  SHOOT_COMPLETED: 'bg-orange-500',
+  EDIT_SUBMITTED: 'bg-pink-500',
+  EDIT_APPROVED: 'bg-green-500',
+  EDIT_REJECTED: 'bg-red-500',
+  POSTING_DETAILS_UPDATED: 'bg-cyan-500',
+  POSTED: 'bg-emerald-500',
+  SKIP_REMOVED: 'bg-gray-400',
+  FILE_APPROVED: 'bg-green-500',
+  FILE_REJECTED: 'bg-red-500',
+  PROJECT_ASSIGNED: 'bg-blue-500',
+  DETAILS_UPDATED: 'bg-gray-400',
+  SCRIPT_RESUBMITTED: 'bg-yellow-500',
+  SCRIPT_RESTORED: 'bg-indigo-500',
+};
+
+// Human-readable names for the fields services put in `changes`
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  overall_score: 'Score',
+  profile_id: 'Profile',
+  priority: 'Priority',
+  content_id: 'Content ID',
+  deadline: 'Deadline',
+  disapproval_count: 'Times sent back',
+  posting_platform: 'Platform',
+  posting_caption: 'Caption',
+  posting_heading: 'Heading',
+  posting_hashtags: 'Hashtags',
+  scheduled_post_time: 'Scheduled for',
+  posted_url: 'Posted URL',
+  rejection_reasons: 'Reasons',
+};
+
+const DATE_FIELDS = ['deadline', 'scheduled_post_time'];
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (DATE_FIELDS.includes(field) && typeof value === 'string') {
+    return new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  }
+  return String(value);
+}
+
+function formatTimestamp(dateString: string): string {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function ChangeRow({ field, change }: { field: string; change: ProjectEventChange }) {
+  return (
+    <div className="flex items-start gap-1.5 text-xs text-gray-600">
+      <span className="font-medium text-gray-500 shrink-0">{FIELD_LABELS[field] || field}:</span>
+      {change.from !== null && change.from !== undefined && (
+        <>
+          <span className="line-through text-gray-400 break-all">{formatValue(field, change.from)}</span>
+          <ArrowRight className="w-3 h-3 mt-0.5 shrink-0 text-gray-400" />
+        </>
+      )}
+      <span className="break-all">{formatValue(field, change.to)}</span>
+    </div>
+  );
+}
+
+function TimelineItem({ event, isLast }: { event: ProjectEvent; isLast: boolean }) {
+  const changes = Object.entries(event.changes || {});
+  const actorName = event.actor?.full_name || event.actor?.email || 'System';
+
+  return (
+    <li className="relative pl-6">
+      {!isLast && <span className="absolute left-[5px] top-4 bottom-0 w-px bg-gray-200" />}
+      <span className={`absolute left-0 top-1.5 w-[11px] h-[11px] rounded-full ring-2 ring-white ${EVENT_DOT_COLORS[event.event_type] || 'bg-gray-400'}`} />
+
+      <div className="pb-4">
+        <div className="flex items-baseline justify-between gap-2">
+          <p className="text-sm font-medium text-gray-900">
+            {ProjectEventLabels[event.event_type] || event.event_type}
+          </p>
+          <span className="text-[11px] text-gray-400 shrink-0">{formatTimestamp(event.created_at)}</span>
+        </div>
+        <p className="text-xs text-gray-500">by {actorName}</p>
+
+        {(event.from_stage || event.to_stage) && event.from_stage !== event.to_stage && (
+          <div className="flex items-center gap-1.5 mt-1.5 text-xs">
+            {event.from_stage && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">
+                {ProductionStageLabels[event.from_stage] || event.from_stage}
+              </span>
+            )}
+            {event.from_stage && event.to_stage && <ArrowRight className="w-3 h-3 text-gray-400" />}
+            {event.to_stage && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-900 text-white">
+                {ProductionStageLabels[event.to_stage] || event.to_stage}
+              </span>
+            )}
+          </div>
+        )}
+
+        {changes.length > 0 && (
+          <div className="mt-1.5 space-y-0.5">
+            {changes.map(([field, change]) => (
+              <ChangeRow key={field} field={field} change={change} />
+            ))}
+          </div>
+        )}
+
+        {event.note && (
+          <p className="mt-1.5 text-xs text-gray-600 bg-gray-50 rounded-lg px-2.5 py-1.5 whitespace-pre-wrap">
+            {event.note}
+          </p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Activity timeline for a project (project_events), newest first.
+ * Used on the admin, videographer, editor and posting detail pages.
+ */
+export default function ProjectTimeline({ analysisId, refreshKey }: ProjectTimelineProps) {
+  const { data: events = [], isLoading, isError, refetch } = useQuery({
+    queryKey: queryKeys.activity.project(analysisId),
+    queryFn: () => activityService.getProjectEvents(analysisId),
+    enabled: !!analysisId,
+  });
+
+  useEffect(() => {
+    if (refreshKey !== undefined) refetch();
+  }, [refreshKey]);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-4">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-3 flex items-center gap-1.5">
+        <History className="w-3.5 h-3.5" />
+        Activity
+      </h3>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+        </div>
+      ) : isError ? (
+        <button onClick={() => refetch()} className="text-sm text-red-500">
+          Failed to load activity — tap to retry
+        </button>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-gray-400">No activity recorded yet</p>
+      ) : (
+        <ol>
+          {events.map((event, i) => (
+            <TimelineItem key={event.id} event={event} isLast={i === events.length - 1} />
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
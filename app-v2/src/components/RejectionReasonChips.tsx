@@ -0,0 +1,28 @@
+import type { RejectionReason } from '@/types';
+
+interface RejectionReasonChipsProps {
+  codes: string[];
+  reasons: RejectionReason[];
+}
+
+/**
+ * Pill per rejection reason, with its description as a tooltip
+ */
+export default function RejectionReasonChips({ codes, reasons }: RejectionReasonChipsProps) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {codes.map((code) => {
+        const reason = reasons.find((r) => r.code === code);
+        return (
+          <span
+            key={code}
+            title={reason?.description || undefined}
+            className="px-2 py-0.5 rounded-full bg-red-50 text-red-700 text-xs font-medium"
+          >
+            {reason?.label || code}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
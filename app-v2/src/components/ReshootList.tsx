@@ -0,0 +1,77 @@
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertCircle, Loader2, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { productionFilesService } from '@/services/productionFilesService';
+
+/**
+ * Footage the current videographer uploaded that an admin rejected.
+ * Each entry links to the project's upload page; removing the rejected
+ * file (once the re-shoot is up) clears it from the list.
+ */
+export default function ReshootList() {
+  const qc = useQueryClient();
+
+  const { data: files = [] } = useQuery({
+    queryKey: queryKeys.productionFiles.myRejected(),
+    queryFn: () => productionFilesService.getMyRejectedFiles(),
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (fileId: string) => productionFilesService.softDeleteFile(fileId),
+    onSuccess: () => toast.success('Rejected file removed'),
+    onError: () => toast.error('Failed to remove file'),
+    onSettled: () => {
+      qc.invalidateQueries({ queryKey: queryKeys.productionFiles.myRejected() });
+      qc.invalidateQueries({ queryKey: queryKeys.videographer.all });
+    },
+  });
+
+  if (files.length === 0) return null;
+
+  return (
+    <section className="mb-6 animate-slide-up">
+      <div className="flex items-center gap-2 mb-3">
+        <h2 className="text-base font-semibold text-gray-800">🔁 Needs Re-shoot</h2>
+        <span className="px-1.5 py-0.5 bg-red-100 text-red-600 text-xs font-semibold rounded-full">{files.length}</span>
+      </div>
+
+      <div className="space-y-2">
+        {files.map((file) => (
+          <div key={file.id} className="bg-white rounded-xl border border-red-200 p-3">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 text-red-500 shrink-0 mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-gray-900 text-sm truncate">{file.file_name}</p>
+                <p className="text-xs text-gray-400 truncate">
+                  {file.analysis?.title || 'Untitled'}
+                  {file.analysis?.content_id && <span className="font-mono"> • {file.analysis.content_id}</span>}
+                </p>
+                {file.review_notes && <p className="text-xs text-red-600 mt-1">{file.review_notes}</p>}
+              </div>
+              <button
+                onClick={() => removeMutation.mutate(file.id)}
+                disabled={removeMutation.isPending}
+                className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center shrink-0 disabled:opacity-50"
+                title="Remove rejected file"
+              >
+                {removeMutation.isPending && removeMutation.variables === file.id ? (
+                  <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+                ) : (
+                  <Trash2 className="w-4 h-4 text-gray-400" />
+                )}
+              </button>
+            </div>
+            <Link
+              to={`/videographer/upload/${file.analysis_id}`}
+              className="block w-full mt-3 py-2 text-center bg-orange-500 text-white text-sm font-semibold rounded-lg active:bg-orange-600"
+            >
+              Upload Re-shoot
+            </Link>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,70 @@
+import { useQuery } from '@tanstack/react-query';
+import { RotateCcw } from 'lucide-react';
+import { queryKeys } from '@/lib/queryKeys';
+import { changedFields, takeSnapshot } from '@/lib/scriptSnapshot';
+import { scriptReviewService } from '@/services/scriptReviewService';
+import DiffText from '@/components/DiffText';
+import RejectionReasonChips from '@/components/RejectionReasonChips';
+import type { ViralAnalysis } from '@/types';
+
+interface ResubmissionChangesProps {
+  script: ViralAnalysis;
+}
+
+/**
+ * For a resubmitted script: why the last version was rejected and a
+ * word-level diff of what the writer changed since
+ */
+export default function ResubmissionChanges({ script }: ResubmissionChangesProps) {
+  const { data: rounds = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.rounds(script.id),
+    queryFn: () => scriptReviewService.getRounds(script.id),
+  });
+  const { data: reasons = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.reasons(),
+    queryFn: () => scriptReviewService.getReasons(),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const lastRound = rounds[rounds.length - 1];
+  if (!lastRound || lastRound.status !== 'REJECTED') return null;
+
+  const changes = changedFields(lastRound.snapshot, takeSnapshot(script));
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 mb-6 space-y-3">
+      <div className="flex items-center gap-2">
+        <RotateCcw className="w-4 h-4 text-yellow-700" />
+        <h2 className="text-sm font-semibold text-yellow-900">
+          Resubmitted — version {lastRound.round + 1}
+        </h2>
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-yellow-800 uppercase mb-1">Last rejection</p>
+        {lastRound.rejection_reasons.length > 0 && (
+          <div className="mb-1.5">
+            <RejectionReasonChips codes={lastRound.rejection_reasons} reasons={reasons} />
+          </div>
+        )}
+        {lastRound.feedback && <p className="text-sm text-yellow-900 whitespace-pre-wrap">{lastRound.feedback}</p>}
+      </div>
+
+      <div>
+        <p className="text-xs font-semibold text-yellow-800 uppercase mb-1">What changed</p>
+        {changes.length === 0 ? (
+          <p className="text-sm text-yellow-900">No changes to the script text</p>
+        ) : (
+          <div className="space-y-2">
+            {changes.map((change) => (
+              <div key={change.key} className="bg-white rounded-lg p-2.5">
+                <p className="text-[10px] font-semibold text-gray-400 uppercase mb-1">{change.label}</p>
+                <DiffText before={change.before} after={change.after} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
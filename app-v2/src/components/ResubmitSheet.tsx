@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { changedFields, takeSnapshot } from '@/lib/scriptSnapshot';
+import { scriptReviewService } from '@/services/scriptReviewService';
+import RejectionReasonChips from '@/components/RejectionReasonChips';
+import type { ScriptSnapshot, ViralAnalysis } from '@/types';
+
+interface ResubmitSheetProps {
+  script: ViralAnalysis;
+  onClose: () => void;
+  onResubmitted: (script: ViralAnalysis) => void;
+}
+
+const EDITABLE_FIELDS: { key: keyof ScriptSnapshot; label: string; rows?: number }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'reference_url', label: 'Reference URL' },
+  { key: 'hook', label: 'Hook', rows: 3 },
+  { key: 'script_body', label: 'Script', rows: 8 },
+  { key: 'script_cta', label: 'CTA', rows: 2 },
+  { key: 'why_viral', label: 'Why it works', rows: 3 },
+];
+
+/**
+ * Revise a rejected script next to the feedback it got and send it back
+ * for review. The rejected version stays in the review history.
+ */
+export default function ResubmitSheet({ script, onClose, onResubmitted }: ResubmitSheetProps) {
+  const qc = useQueryClient();
+  const original = takeSnapshot(script);
+  const [draft, setDraft] = useState<ScriptSnapshot>(original);
+  const [note, setNote] = useState('');
+
+  const { data: reasons = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.reasons(),
+    queryFn: () => scriptReviewService.getReasons(),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  const changed = changedFields(original, draft);
+
+  const resubmitMutation = useMutation({
+    mutationFn: () => scriptReviewService.resubmit(script.id, draft, note),
+    onSuccess: (updated) => {
+      toast.success('Sent back for review');
+      qc.invalidateQueries({ queryKey: queryKeys.scriptReview.rounds(script.id) });
+      qc.invalidateQueries({ queryKey: queryKeys.scriptRevisions.list(script.id) });
+      onResubmitted(updated);
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to resubmit'),
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Revise & Resubmit</h3>
+            <p className="text-xs text-gray-500">
+              Rejected {script.rejection_count || 1} time{(script.rejection_count || 1) === 1 ? '' : 's'}
+            </p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {(script.rejection_reasons?.length || script.feedback) && (
+            <div className="bg-red-50 border border-red-100 rounded-xl p-3 space-y-2">
+              {script.rejection_reasons && script.rejection_reasons.length > 0 && (
+                <RejectionReasonChips codes={script.rejection_reasons} reasons={reasons} />
+              )}
+              {script.feedback && <p className="text-sm text-red-900 whitespace-pre-wrap">{script.feedback}</p>}
+            </div>
+          )}
+
+          {EDITABLE_FIELDS.map(({ key, label, rows }) => {
+            const edited = changed.some((c) => c.key === key);
+            return (
+              <div key={key}>
+                <label className="block text-xs font-medium text-gray-600 mb-1.5">
+                  {label}
+                  {edited && <span className="ml-1.5 text-blue-500">· edited</span>}
+                </label>
+                {rows ? (
+                  <textarea
+                    value={draft[key] || ''}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                    rows={rows}
+                    className="w-full p-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                ) : (
+                  <input
+                    value={draft[key] || ''}
+                    onChange={(e) => setDraft((prev) => ({ ...prev, [key]: e.target.value }))}
+                    className="w-full h-11 px-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                )}
+              </div>
+            );
+          })}
+
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1.5">Note for the reviewer (optional)</label>
+            <textarea
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              rows={2}
+              placeholder="What did you change?"
+              className="w-full p-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={() => resubmitMutation.mutate()}
+            disabled={changed.length === 0 || resubmitMutation.isPending}
+            className="w-full h-11 flex items-center justify-center gap-2 bg-blue-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {resubmitMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            {changed.length === 0 ? 'Make a change to resubmit' : 'Resubmit for Review'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { CheckCircle, ChevronDown, Play, XCircle } from 'lucide-react';
+import { queryKeys } from '@/lib/queryKeys';
+import { SNAPSHOT_FIELDS } from '@/lib/scriptSnapshot';
+import { scriptReviewService } from '@/services/scriptReviewService';
+import RejectionReasonChips from '@/components/RejectionReasonChips';
+import VoiceNoteTranscript from '@/components/VoiceNoteTranscript';
+import type { RejectionReason, ScriptReviewRound } from '@/types';
+
+interface ReviewRoundsListProps {
+  analysisId: string;
+}
+
+function RoundCard({ round, reasons }: { round: ScriptReviewRound; reasons: RejectionReason[] }) {
+  const [expanded, setExpanded] = useState(false);
+  const rejected = round.status === 'REJECTED';
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-900 flex items-center gap-1.5">
+          {rejected
+            ? <XCircle className="w-4 h-4 text-red-500" />
+            : <CheckCircle className="w-4 h-4 text-green-500" />}
+          Version {round.round} · {rejected ? 'Rejected' : 'Approved'}
+        </span>
+        <span className="text-xs text-gray-400">
+          {new Date(round.reviewed_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+        </span>
+      </div>
+
+      {round.rejection_reasons.length > 0 && (
+        <div className="mb-2">
+          <RejectionReasonChips codes={round.rejection_reasons} reasons={reasons} />
+        </div>
+      )}
+      {round.feedback && <p className="text-sm text-gray-700 whitespace-pre-wrap mb-2">{round.feedback}</p>}
+      {round.feedback_voice_note_url && (
+        <button
+          onClick={() => new Audio(round.feedback_voice_note_url!).play()}
+          className="flex items-center gap-1.5 text-xs text-blue-500 mb-2"
+        >
+          <Play className="w-3.5 h-3.5" />
+          Play voice feedback
+        </button>
+      )}
+      <VoiceNoteTranscript transcript={round.feedback_voice_note_transcript} className="mb-2" />
+
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1 text-xs text-gray-500 font-medium"
+      >
+        <ChevronDown className={`w-3.5 h-3.5 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+        {expanded ? 'Hide this version' : 'View this version'}
+      </button>
+      {expanded && (
+        <dl className="mt-2 space-y-2 border-t border-gray-100 pt-2">
+          {SNAPSHOT_FIELDS.filter(({ key }) => round.snapshot[key]).map(({ key, label }) => (
+            <div key={key}>
+              <dt className="text-[10px] font-semibold text-gray-400 uppercase">{label}</dt>
+              <dd className="text-sm text-gray-700 whitespace-pre-wrap break-words">{round.snapshot[key]}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Earlier reviews of a script, newest first, each with the version that was
+ * reviewed and the feedback it got
+ */
+export default function ReviewRoundsList({ analysisId }: ReviewRoundsListProps) {
+  const { data: rounds = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.rounds(analysisId),
+    queryFn: () => scriptReviewService.getRounds(analysisId),
+  });
+  const { data: reasons = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.reasons(),
+    queryFn: () => scriptReviewService.getReasons(),
+    staleTime: 60 * 60 * 1000,
+  });
+
+  if (rounds.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium text-gray-700">Review history</h3>
+      {[...rounds].reverse().map((round) => (
+        <RoundCard key={round.id} round={round} reasons={reasons} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2, Pause, Play } from 'lucide-react';
+import { useVideoStreamUrl } from '@/hooks/useVideoStreamUrl';
+import { revisionLabel, type EditRevision } from '@/lib/editRevisions';
+import { formatDuration } from '@/lib/videoMetadata';
+import type { ProductionFile } from '@/types';
+
+// Re-sync the right-hand video when it drifts further than this from the left
+const MAX_DRIFT_SECONDS = 0.15;
+
+interface RevisionCompareProps {
+  /** Newest first, as returned by groupRevisions */
+  revisions: EditRevision<ProductionFile>[];
+}
+
+function RevisionVideo({
+  file,
+  videoRef,
+  onLoaded,
+}: {
+  file: ProductionFile;
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  onLoaded: (duration: number) => void;
+}) {
+  const { data: streamUrl, isError } = useVideoStreamUrl(file.file_id);
+
+  if (isError || !file.file_id) {
+    return (
+      <div className="aspect-[9/16] bg-gray-900 rounded-lg flex items-center justify-center text-xs text-gray-400 p-2 text-center">
+        Can't stream this file
+      </div>
+    );
+  }
+  if (!streamUrl) {
+    return (
+      <div className="aspect-[9/16] bg-gray-900 rounded-lg flex items-center justify-center">
+        <Loader2 className="w-5 h-5 text-white animate-spin" />
+      </div>
+    );
+  }
+  return (
+    <video
+      ref={videoRef}
+      src={streamUrl}
+      playsInline
+      muted
+      preload="metadata"
+      onLoadedMetadata={(e) => onLoaded(e.currentTarget.duration)}
+      className="w-full aspect-[9/16] bg-black rounded-lg object-contain"
+    />
+  );
+}
+
+function RevisionPicker({
+  revisions,
+  value,
+  onChange,
+}: {
+  revisions: EditRevision<ProductionFile>[];
+  value: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <select
+      value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full px-2 py-1 bg-white border border-gray-200 rounded-lg text-xs text-gray-700 mb-1.5"
+    >
+      {revisions.map((r) => (
+        <option key={r.number} value={r.number}>
+          {revisionLabel(r.number)}{r.rejectionReason ? ' (rejected)' : ''}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Two edited-video revisions side by side with one shared play button and
+ * scrubber. The left video drives the clock; the right one follows it.
+ */
+export default function RevisionCompare({ revisions }: RevisionCompareProps) {
+  const [leftNumber, setLeftNumber] = useState(revisions[1]?.number ?? revisions[0]?.number);
+  const [rightNumber, setRightNumber] = useState(revisions[0]?.number);
+  const leftRef = useRef<HTMLVideoElement>(null);
+  const rightRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(0);
+  const [time, setTime] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const left = revisions.find((r) => r.number === leftNumber);
+  const right = revisions.find((r) => r.number === rightNumber);
+
+  // Keep both videos on the same frame
+  useEffect(() => {
+    const leader = leftRef.current;
+    if (!leader) return;
+
+    const follow = () => {
+      setTime(leader.currentTime);
+      const follower = rightRef.current;
+      if (follower && Math.abs(follower.currentTime - leader.currentTime) > MAX_DRIFT_SECONDS) {
+        follower.currentTime = leader.currentTime;
+      }
+    };
+    const stop = () => {
+      setPlaying(false);
+      rightRef.current?.pause();
+    };
+
+    leader.addEventListener('timeupdate', follow);
+    leader.addEventListener('seeked', follow);
+    leader.addEventListener('ended', stop);
+    return () => {
+      leader.removeEventListener('timeupdate', follow);
+      leader.removeEventListener('seeked', follow);
+      leader.removeEventListener('ended', stop);
+    };
+  }, [leftNumber, duration]);
+
+  // Switching revisions starts both from the top
+  useEffect(() => {
+    setPlaying(false);
+    setTime(0);
+  }, [leftNumber, rightNumber]);
+
+  const togglePlay = async () => {
+    const videos = [leftRef.current, rightRef.current].filter((v): v is HTMLVideoElement => !!v);
+    if (playing) {
+      videos.forEach((v) => v.pause());
+      setPlaying(false);
+      return;
+    }
+    try {
+      await Promise.all(videos.map((v) => v.play()));
+      setPlaying(true);
+    } catch (error) {
+      console.error('Failed to play revisions:', error);
+    }
+  };
+
+  const scrub = (seconds: number) => {
+    [leftRef.current, rightRef.current].forEach((v) => {
+      if (v) v.currentTime = seconds;
+    });
+    setTime(seconds);
+  };
+
+  if (revisions.length < 2 || !left || !right) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-3">
+      <div className="grid grid-cols-2 gap-2">
+        {[
+          { side: 'left', revision: left, ref: leftRef, value: leftNumber, set: setLeftNumber },
+          { side: 'right', revision: right, ref: rightRef, value: rightNumber, set: setRightNumber },
+        ].map(({ side, revision, ref, value, set }) => (
+          <div key={side} className="min-w-0">
+            <RevisionPicker revisions={revisions} value={value} onChange={set} />
+            <RevisionVideo
+              key={revision.files[0].id}
+              file={revision.files[0]}
+              videoRef={ref}
+              onLoaded={(d) => {
+                if (side === 'left') setDuration(d);
+              }}
+            />
+            {revision.rejectionReason && (
+              <p className="text-[11px] text-red-600 mt-1.5 line-clamp-3">
+                Rejected: {revision.rejectionReason}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2 mt-3">
+        <button
+          onClick={togglePlay}
+          className="w-8 h-8 rounded-full bg-purple-500 flex items-center justify-center shrink-0"
+          title={playing ? 'Pause both' : 'Play both'}
+        >
+          {playing ? <Pause className="w-4 h-4 text-white" /> : <Play className="w-4 h-4 text-white" />}
+        </button>
+        <input
+          type="range"
+          min={0}
+          max={duration || 0}
+          step={0.01}
+          value={time}
+          onChange={(e) => scrub(Number(e.target.value))}
+          disabled={!duration}
+          className="flex-1 accent-purple-500"
+          aria-label="Scrub both revisions"
+        />
+        <span className="text-[11px] font-mono text-gray-500 shrink-0">
+          {formatDuration(time)} / {formatDuration(duration)}
+        </span>
+      </div>
+    </div>
+  );
+}
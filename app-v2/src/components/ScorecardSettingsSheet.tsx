@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { reviewScorecardService } from '@/services/reviewScorecardService';
+import type { ReviewCriterion } from '@/types';
+
+interface ScorecardSettingsSheetProps {
+  onClose: () => void;
+}
+
+interface CriterionDraft {
+  weight?: string;
+  is_active?: boolean;
+}
+
+/**
+ * The criteria scripts are scored on and how much each counts towards the
+ * overall score. Switching a criterion off keeps past scores.
+ */
+export default function ScorecardSettingsSheet({ onClose }: ScorecardSettingsSheetProps) {
+  const qc = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, CriterionDraft>>({});
+  const [newLabel, setNewLabel] = useState('');
+  const [newWeight, setNewWeight] = useState('1');
+
+  const { data: criteria = [], isLoading } = useQuery({
+    queryKey: queryKeys.scorecard.criteria(),
+    queryFn: () => reviewScorecardService.getCriteria(),
+  });
+
+  const current = (c: ReviewCriterion) => ({
+    weight: Number(drafts[c.key]?.weight ?? c.weight),
+    is_active: drafts[c.key]?.is_active ?? c.is_active,
+  });
+  const totalWeight = criteria.reduce((sum, c) => {
+    const { weight, is_active } = current(c);
+    return is_active && Number.isFinite(weight) ? sum + weight : sum;
+  }, 0);
+
+  const changed = criteria.filter((c) => {
+    const { weight, is_active } = current(c);
+    return weight !== c.weight || is_active !== c.is_active;
+  });
+
+  const updateDraft = (key: string, update: CriterionDraft) =>
+    setDrafts((prev) => ({ ...prev, [key]: { ...prev[key], ...update } }));
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const criterion of changed) {
+        await reviewScorecardService.updateCriterion(criterion.key, current(criterion));
+      }
+    },
+    onSuccess: () => {
+      toast.success('Scorecard saved');
+      qc.invalidateQueries({ queryKey: queryKeys.scorecard.all });
+      onClose();
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || 'Failed to save scorecard');
+      qc.invalidateQueries({ queryKey: queryKeys.scorecard.all });
+    },
+  });
+
+  const addMutation = useMutation({
+    mutationFn: () => reviewScorecardService.addCriterion({ label: newLabel, weight: Number(newWeight) }),
+    onSuccess: () => {
+      setNewLabel('');
+      setNewWeight('1');
+      qc.invalidateQueries({ queryKey: queryKeys.scorecard.criteria() });
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to add criterion'),
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Review Scorecard</h3>
+            <p className="text-xs text-gray-500">Criteria and their weight in the overall score</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 text-purple-500 animate-spin" />
+            </div>
+          ) : (
+            <>
+              {criteria.map((criterion) => {
+                const { weight, is_active } = current(criterion);
+                const share = is_active && totalWeight > 0 ? Math.round((weight / totalWeight) * 100) : 0;
+                return (
+                  <div
+                    key={criterion.key}
+                    className={`flex items-center gap-3 p-3 rounded-lg border border-gray-100 ${is_active ? '' : 'opacity-50'}`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={is_active}
+                      onChange={(e) => updateDraft(criterion.key, { is_active: e.target.checked })}
+                      className="accent-purple-500"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{criterion.label}</p>
+                      {criterion.description && (
+                        <p className="text-xs text-gray-500 truncate">{criterion.description}</p>
+                      )}
+                    </div>
+                    <span className="text-xs text-gray-400 w-9 text-right">{share}%</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={10}
+                      step={0.5}
+                      inputMode="decimal"
+                      value={drafts[criterion.key]?.weight ?? String(criterion.weight)}
+                      onChange={(e) => updateDraft(criterion.key, { weight: e.target.value })}
+                      disabled={!is_active}
+                      className="w-16 h-9 px-1 text-center border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                    />
+                  </div>
+                );
+              })}
+
+              <div className="flex items-center gap-2 pt-2">
+                <input
+                  value={newLabel}
+                  onChange={(e) => setNewLabel(e.target.value)}
+                  placeholder="New criterion"
+                  className="flex-1 h-9 px-3 border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  inputMode="decimal"
+                  value={newWeight}
+                  onChange={(e) => setNewWeight(e.target.value)}
+                  className="w-16 h-9 px-1 text-center border border-gray-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button
+                  onClick={() => addMutation.mutate()}
+                  disabled={!newLabel.trim() || addMutation.isPending}
+                  className="w-9 h-9 rounded-lg bg-purple-50 text-purple-600 flex items-center justify-center disabled:opacity-50"
+                >
+                  {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={changed.length === 0 || saveMutation.isPending}
+            className="w-full h-11 flex items-center justify-center gap-2 bg-purple-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,160 @@
+import { AlertTriangle, Timer } from 'lucide-react';
+import {
+  PLATFORM_TARGETS,
+  SCRIPT_LANGUAGES,
+  DEFAULT_SCRIPT_LANGUAGE,
+  estimateScriptTiming,
+  formatDuration,
+  type ScriptSectionKey,
+} from '@/lib/scriptTiming';
+import type { AnalysisFormData, Platform } from '@/types';
+
+type ScriptEditorValue = Pick<AnalysisFormData, 'hookText' | 'scriptBody' | 'scriptCta' | 'scriptLanguage' | 'platform'>;
+
+interface ScriptEditorProps {
+  value: ScriptEditorValue;
+  onChange: <K extends keyof ScriptEditorValue>(field: K, value: ScriptEditorValue[K]) => void;
+}
+
+const SECTIONS: {
+  key: ScriptSectionKey;
+  field: 'hookText' | 'scriptBody' | 'scriptCta';
+  label: string;
+  hint: string;
+  placeholder: string;
+  rows: number;
+}[] = [
+  {
+    key: 'hook',
+    field: 'hookText',
+    label: '🎣 Hook',
+    hint: 'The opening line that stops the scroll',
+    placeholder: 'E.g. Did you know 90% of people fail because of THIS one mistake?',
+    rows: 2,
+  },
+  {
+    key: 'body',
+    field: 'scriptBody',
+    label: '📝 Body / Script',
+    hint: 'Step-by-step content for the video',
+    placeholder: `Step 1: Open with the hook visual\nStep 2: Show the problem\nStep 3: Reveal the solution\nStep 4: End with proof/result`,
+    rows: 5,
+  },
+  {
+    key: 'cta',
+    field: 'scriptCta',
+    label: '📣 CTA',
+    hint: 'Call to action at the end',
+    placeholder: 'E.g. Follow for more tips like this every day',
+    rows: 2,
+  },
+];
+
+/**
+ * Hook, body and CTA fields with a spoken-duration estimate per section and
+ * a warning when the whole script runs past the target platform's length
+ */
+export default function ScriptEditor({ value, onChange }: ScriptEditorProps) {
+  const timing = estimateScriptTiming(
+    { hook: value.hookText, body: value.scriptBody, cta: value.scriptCta },
+    value.scriptLanguage,
+    value.platform,
+  );
+  const target = value.platform ? PLATFORM_TARGETS[value.platform as Platform] : undefined;
+  const progress = timing.targetSeconds ? Math.min(100, (timing.seconds / timing.targetSeconds) * 100) : 0;
+
+  return (
+    <div className="bg-yellow-50 border-2 border-dashed border-yellow-300 rounded-xl p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-yellow-800 uppercase tracking-wide">
+          ✨ Script
+        </p>
+        <span
+          className={`flex items-center gap-1 text-xs font-semibold ${
+            timing.overBy > 0 ? 'text-red-600' : 'text-yellow-800'
+          }`}
+        >
+          <Timer className="w-3.5 h-3.5" />
+          ~{formatDuration(timing.seconds)}
+          {timing.targetSeconds !== null && <span className="font-normal"> / {formatDuration(timing.targetSeconds)}</span>}
+        </span>
+      </div>
+
+      {/* Language and target platform */}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={value.scriptLanguage || DEFAULT_SCRIPT_LANGUAGE}
+          onChange={(e) => onChange('scriptLanguage', e.target.value)}
+          className="h-8 px-2 border-2 border-yellow-200 rounded-lg text-xs bg-white focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400"
+        >
+          {SCRIPT_LANGUAGES.map((language) => (
+            <option key={language.code} value={language.code}>{language.label}</option>
+          ))}
+        </select>
+        {(Object.keys(PLATFORM_TARGETS) as Platform[]).map((platform) => (
+          <button
+            key={platform}
+            type="button"
+            onClick={() => onChange('platform', value.platform === platform ? undefined : platform)}
+            className={`px-3 py-1.5 rounded-full font-medium text-xs transition-all active:scale-95 ${
+              value.platform === platform ? 'bg-yellow-400 text-yellow-950' : 'bg-white text-gray-600 border border-yellow-200'
+            }`}
+          >
+            {PLATFORM_TARGETS[platform].label}
+          </button>
+        ))}
+      </div>
+
+      {SECTIONS.map((section) => {
+        const sectionTiming = timing.sections.find((s) => s.key === section.key)!;
+        return (
+          <div key={section.key}>
+            <div className="flex items-baseline justify-between mb-1">
+              <label className="block text-xs font-semibold text-gray-900">
+                {section.label}
+              </label>
+              {sectionTiming.words > 0 && (
+                <span className="text-[11px] text-gray-500">
+                  {sectionTiming.words} word{sectionTiming.words === 1 ? '' : 's'} · {formatDuration(sectionTiming.seconds)}
+                </span>
+              )}
+            </div>
+            <p className="text-[11px] text-gray-500 mb-1.5">
+              {section.hint}
+            </p>
+            <textarea
+              value={value[section.field] || ''}
+              onChange={(e) => onChange(section.field, e.target.value)}
+              placeholder={section.placeholder}
+              rows={section.rows}
+              className="w-full px-3 py-2 border-2 border-yellow-200 rounded-lg text-sm bg-white focus:ring-2 focus:ring-yellow-400 focus:border-yellow-400 resize-none"
+            />
+          </div>
+        );
+      })}
+
+      {/* Length against the platform target */}
+      {target && timing.words > 0 && (
+        <div>
+          <div className="h-1.5 bg-yellow-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full rounded-full ${timing.overBy > 0 ? 'bg-red-500' : 'bg-yellow-400'}`}
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+          {timing.overBy > 0 ? (
+            <p className="flex items-start gap-1.5 text-[11px] text-red-600 mt-1.5">
+              <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+              About {formatDuration(timing.overBy)} longer than the {formatDuration(target.seconds)} target for {target.label}.
+              Trim the body to keep viewers watching.
+            </p>
+          ) : (
+            <p className="text-[11px] text-gray-500 mt-1.5">
+              {formatDuration(target.seconds - timing.seconds)} left of the {formatDuration(target.seconds)} target for {target.label}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { ChevronDown, History, Loader2, RotateCcw, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { SNAPSHOT_FIELDS, changedFields, takeSnapshot } from '@/lib/scriptSnapshot';
+import { scriptRevisionService } from '@/services/scriptRevisionService';
+import DiffText from '@/components/DiffText';
+import type { ScriptRevision, ScriptSnapshot, ViralAnalysis } from '@/types';
+
+interface ScriptHistorySheetProps {
+  script: ViralAnalysis;
+  /** Show the restore button on earlier versions */
+  canRestore: boolean;
+  onClose: () => void;
+  onRestored: (script: ViralAnalysis) => void;
+}
+
+interface RevisionCardProps {
+  revision: ScriptRevision;
+  previous?: ScriptRevision;
+  current: ScriptSnapshot;
+  canRestore: boolean;
+  restoring: boolean;
+  onRestore: () => void;
+}
+
+function RevisionCard({ revision, previous, current, canRestore, restoring, onRestore }: RevisionCardProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [compareTo, setCompareTo] = useState<'previous' | 'current'>('previous');
+  const isCurrent = changedFields(revision.snapshot, current).length === 0;
+
+  // Revision 1 has nothing before it, so show its full text as added
+  const base = compareTo === 'current' ? revision.snapshot : previous?.snapshot || {};
+  const target = compareTo === 'current' ? current : revision.snapshot;
+  const changes = changedFields(base, target);
+
+  return (
+    <div className={`border rounded-xl p-3 ${isCurrent ? 'border-gray-900' : 'border-gray-200'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium text-gray-900">
+          Version {revision.revision}
+          {isCurrent && <span className="ml-1.5 text-xs font-normal text-gray-500">· current</span>}
+        </span>
+        <span className="text-xs text-gray-400 shrink-0">
+          {new Date(revision.created_at).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500 mt-0.5">
+        {revision.revision === 1 && revision.changed_fields.length === 0
+          ? 'Original'
+          : revision.restored_from
+            ? `Restored from version ${revision.restored_from}`
+            : `Changed ${SNAPSHOT_FIELDS.filter(({ key }) => revision.changed_fields.includes(key)).map(({ label }) => label.toLowerCase()).join(', ')}`}
+        {revision.author && ` · ${revision.author.full_name || revision.author.email}`}
+      </p>
+
+      <div className="flex items-center gap-3 mt-2">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="flex items-center gap-1 text-xs text-gray-500 font-medium"
+        >
+          <ChevronDown className={`w-3.5 h-3.5 transition-transform ${expanded ? 'rotate-180' : ''}`} />
+          {expanded ? 'Hide changes' : 'Show changes'}
+        </button>
+        {canRestore && !isCurrent && (
+          <button
+            onClick={onRestore}
+            disabled={restoring}
+            className="ml-auto flex items-center gap-1 text-xs font-semibold text-gray-900 disabled:opacity-50"
+          >
+            {restoring ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RotateCcw className="w-3.5 h-3.5" />}
+            Restore
+          </button>
+        )}
+      </div>
+
+      {expanded && (
+        <div className="mt-2 border-t border-gray-100 pt-2 space-y-2">
+          {!isCurrent && (
+            <div className="flex gap-1">
+              {(['previous', 'current'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setCompareTo(option)}
+                  className={`px-2.5 py-1 rounded-full text-[11px] font-medium ${
+                    compareTo === option ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600'
+                  }`}
+                >
+                  {option === 'previous' ? 'vs. previous version' : 'vs. current script'}
+                </button>
+              ))}
+            </div>
+          )}
+          {changes.length === 0 ? (
+            <p className="text-sm text-gray-500">No text changes</p>
+          ) : (
+            changes.map((change) => (
+              <div key={change.key}>
+                <p className="text-[10px] font-semibold text-gray-400 uppercase mb-0.5">{change.label}</p>
+                <DiffText before={change.before} after={change.after} />
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Every saved version of a script's text, newest first, with word-level
+ * diffs and a restore button for earlier versions
+ */
+export default function ScriptHistorySheet({ script, canRestore, onClose, onRestored }: ScriptHistorySheetProps) {
+  const qc = useQueryClient();
+  const current = takeSnapshot(script);
+
+  const { data: revisions = [], isLoading } = useQuery({
+    queryKey: queryKeys.scriptRevisions.list(script.id),
+    queryFn: () => scriptRevisionService.getRevisions(script.id),
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: (revision: ScriptRevision) => scriptRevisionService.restore(script.id, revision.id),
+    onSuccess: (updated, revision) => {
+      toast.success(`Version ${revision.revision} restored`);
+      qc.invalidateQueries({ queryKey: queryKeys.scriptRevisions.list(script.id) });
+      onRestored(updated);
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to restore version'),
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-lg rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Version History</h3>
+            <p className="text-xs text-gray-500 truncate">{script.title || 'Untitled'}</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-gray-400" />
+            </div>
+          ) : revisions.length === 0 ? (
+            <div className="text-center py-8">
+              <History className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-500">No earlier versions yet</p>
+              <p className="text-xs text-gray-400 mt-1">Edits to the script text will show up here</p>
+            </div>
+          ) : (
+            revisions
+              .map((revision, index) => ({ revision, previous: revisions[index - 1] }))
+              .reverse()
+              .map(({ revision, previous }) => (
+                <RevisionCard
+                  key={revision.id}
+                  revision={revision}
+                  previous={previous}
+                  current={current}
+                  canRestore={canRestore}
+                  restoring={restoreMutation.isPending && restoreMutation.variables?.id === revision.id}
+                  onRestore={() => restoreMutation.mutate(revision)}
+                />
+              ))
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,238 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, Check, Loader2, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { aggregateCast, findShootDayConflicts, formatShootWindow } from '@/lib/shootDays';
+import { shootDayService, type ShootDayData } from '@/services/shootDayService';
+import { videographerService } from '@/services/videographerService';
+import CastSummary from '@/components/CastSummary';
+import type { ShootDay } from '@/types';
+
+interface ShootDayFormProps {
+  /** Edit this day; omit to plan a new one */
+  day?: ShootDay;
+  /** Pre-filled date for a new day (YYYY-MM-DD) */
+  defaultDate: string;
+  /** The videographer's other days, for the overlap warning */
+  existingDays: ShootDay[];
+  onClose: () => void;
+}
+
+/**
+ * Bottom-sheet form to plan or edit a shoot day
+ */
+export default function ShootDayForm({ day, defaultDate, existingDays, onClose }: ShootDayFormProps) {
+  const qc = useQueryClient();
+  const [shootDate, setShootDate] = useState(day?.shoot_date || defaultDate);
+  const [startTime, setStartTime] = useState(day?.start_time?.slice(0, 5) || '');
+  const [endTime, setEndTime] = useState(day?.end_time?.slice(0, 5) || '');
+  const [location, setLocation] = useState(day?.location || '');
+  const [propsNotes, setPropsNotes] = useState(day?.props_notes || '');
+  const [selectedIds, setSelectedIds] = useState<string[]>(day?.projects.map((p) => p.id) || []);
+
+  const { data: myProjects = [], isLoading: projectsLoading } = useQuery({
+    queryKey: queryKeys.videographer.myProjects(),
+    queryFn: () => videographerService.getMyProjects(),
+  });
+
+  // Only projects still being shot can go on a day (plus anything already on it)
+  const shootingProjects = myProjects.filter((p) =>
+    p.production_stage === 'SHOOTING' || selectedIds.includes(p.id)
+  );
+  const selectedProjects = shootingProjects.filter((p) => selectedIds.includes(p.id));
+  const cast = aggregateCast(selectedProjects.map((p) => p.cast_composition));
+
+  const conflicts = shootDate
+    ? findShootDayConflicts(
+        { id: day?.id, shoot_date: shootDate, start_time: startTime || null, end_time: endTime || null },
+        existingDays,
+      )
+    : [];
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const data: ShootDayData = {
+        shootDate,
+        startTime: startTime || null,
+        endTime: endTime || null,
+        location,
+        propsNotes,
+        analysisIds: selectedIds,
+      };
+      return day ? shootDayService.updateShootDay(day.id, data) : shootDayService.createShootDay(data);
+    },
+    onSuccess: () => {
+      toast.success(day ? 'Shoot day updated' : 'Shoot day planned');
+      qc.invalidateQueries({ queryKey: queryKeys.videographer.all });
+      onClose();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save shoot day'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => shootDayService.deleteShootDay(day!.id),
+    onSuccess: () => {
+      toast.success('Shoot day removed');
+      qc.invalidateQueries({ queryKey: queryKeys.videographer.shootDays() });
+      onClose();
+    },
+    onError: () => toast.error('Failed to remove shoot day'),
+  });
+
+  const toggleProject = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((p) => p !== id) : [...prev, id]));
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">{day ? 'Edit Shoot Day' : 'Plan Shoot Day'}</h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-3 gap-2">
+            <label className="col-span-3 text-xs font-medium text-gray-600">
+              Date
+              <input
+                type="date"
+                value={shootDate}
+                onChange={(e) => setShootDate(e.target.value)}
+                className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Start
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                className="mt-1 w-full px-2 py-2 border border-gray-200 rounded-lg text-sm"
+              />
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              End
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                className="mt-1 w-full px-2 py-2 border border-gray-200 rounded-lg text-sm"
+              />
+            </label>
+            <p className="self-end pb-2 text-[11px] text-gray-400">Leave empty for all day</p>
+          </div>
+
+          {conflicts.length > 0 && (
+            <div className="flex items-start gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+              <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+              <div>
+                Overlaps with {conflicts.length === 1 ? 'another shoot' : `${conflicts.length} other shoots`}:
+                {conflicts.map((c) => (
+                  <p key={c.id} className="font-medium">
+                    {formatShootWindow(c)}{c.location ? ` at ${c.location}` : ''}
+                  </p>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="block text-xs font-medium text-gray-600">
+            Location
+            <input
+              type="text"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g. Client's café, Bandra"
+              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+          </label>
+
+          <div>
+            <p className="text-xs font-medium text-gray-600 mb-1.5">Projects</p>
+            {projectsLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 text-orange-500 animate-spin" />
+              </div>
+            ) : shootingProjects.length === 0 ? (
+              <p className="text-sm text-gray-400">Pick a project first, then plan when to shoot it</p>
+            ) : (
+              <div className="space-y-1.5">
+                {shootingProjects.map((project) => {
+                  const selected = selectedIds.includes(project.id);
+                  return (
+                    <button
+                      key={project.id}
+                      type="button"
+                      onClick={() => toggleProject(project.id)}
+                      className={`w-full flex items-center gap-2 p-2.5 rounded-lg border text-left ${
+                        selected ? 'border-orange-500 bg-orange-50' : 'border-gray-200 bg-white'
+                      }`}
+                    >
+                      <span className={`w-5 h-5 rounded flex items-center justify-center shrink-0 ${
+                        selected ? 'bg-orange-500 text-white' : 'border border-gray-300'
+                      }`}>
+                        {selected && <Check className="w-3.5 h-3.5" />}
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-gray-900 truncate">{project.title || 'Untitled'}</span>
+                        <span className="block text-xs text-gray-400 font-mono">{project.content_id || 'No ID'}</span>
+                      </span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {selectedProjects.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1.5">Cast needed</p>
+              <CastSummary cast={cast} />
+            </div>
+          )}
+
+          <label className="block text-xs font-medium text-gray-600">
+            Props & notes
+            <textarea
+              value={propsNotes}
+              onChange={(e) => setPropsNotes(e.target.value)}
+              rows={3}
+              placeholder="Props, wardrobe, permissions…"
+              className="mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg text-sm resize-none"
+            />
+          </label>
+        </div>
+
+        <div className="flex gap-2 p-4 border-t border-gray-100">
+          {day && (
+            <button
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+              className="w-11 h-11 rounded-lg bg-gray-100 flex items-center justify-center disabled:opacity-50"
+              title="Remove shoot day"
+            >
+              <Trash2 className="w-4 h-4 text-gray-500" />
+            </button>
+          )}
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={!shootDate || selectedIds.length === 0 || saveMutation.isPending}
+            className="flex-1 h-11 flex items-center justify-center gap-2 bg-orange-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            {day ? 'Save Changes' : 'Plan Shoot Day'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, CalendarPlus, Clock, MapPin, Package } from 'lucide-react';
+import CastSummary from '@/components/CastSummary';
+import ShootDayForm from '@/components/ShootDayForm';
+import { queryKeys } from '@/lib/queryKeys';
+import { aggregateCast, findShootDayConflicts, formatShootWindow, toDateKey } from '@/lib/shootDays';
+import { shootDayService } from '@/services/shootDayService';
+import type { ShootDay } from '@/types';
+
+const DAYS_SHOWN = 7;
+
+/**
+ * Week strip plus the shoot days planned on the selected date
+ */
+export default function ShootDaySchedule() {
+  const today = new Date();
+  const week = Array.from({ length: DAYS_SHOWN }, (_, i) => {
+    const date = new Date(today);
+    date.setDate(today.getDate() + i);
+    return date;
+  });
+
+  const [selectedDate, setSelectedDate] = useState(toDateKey(today));
+  const [editing, setEditing] = useState<ShootDay | 'new' | null>(null);
+
+  const { data: shootDays = [] } = useQuery({
+    queryKey: queryKeys.videographer.shootDays(),
+    queryFn: () => shootDayService.getMyShootDays(toDateKey(today)),
+  });
+
+  const daysOnSelected = shootDays.filter((d) => d.shoot_date === selectedDate);
+
+  return (
+    <section className="mb-6 animate-slide-up delay-2">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-base font-semibold text-gray-800">📅 Shoot Days</h2>
+        <button
+          onClick={() => setEditing('new')}
+          className="flex items-center gap-1 text-sm text-orange-500 font-medium"
+        >
+          <CalendarPlus className="w-4 h-4" />
+          Plan
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 mb-3">
+        {week.map((date) => {
+          const key = toDateKey(date);
+          const count = shootDays.filter((d) => d.shoot_date === key).length;
+          const selected = key === selectedDate;
+          return (
+            <button
+              key={key}
+              onClick={() => setSelectedDate(key)}
+              className={`flex flex-col items-center py-2 rounded-xl ${
+                selected ? 'bg-orange-500 text-white' : 'bg-white border border-gray-100 text-gray-700'
+              }`}
+            >
+              <span className={`text-[10px] uppercase ${selected ? 'text-white/80' : 'text-gray-400'}`}>
+                {date.toLocaleDateString(undefined, { weekday: 'short' })}
+              </span>
+              <span className="text-sm font-semibold">{date.getDate()}</span>
+              <span className={`w-1.5 h-1.5 rounded-full mt-0.5 ${
+                count > 0 ? (selected ? 'bg-white' : 'bg-orange-500') : 'bg-transparent'
+              }`} />
+            </button>
+          );
+        })}
+      </div>
+
+      {daysOnSelected.length === 0 ? (
+        <div className="bg-gray-50 rounded-xl p-4 text-center">
+          <p className="text-gray-500 text-sm">No shoot planned for this day</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {daysOnSelected.map((day) => {
+            const conflicts = findShootDayConflicts(day, shootDays);
+            return (
+              <div
+                key={day.id}
+                className={`bg-white rounded-xl border p-4 ${conflicts.length > 0 ? 'border-amber-300' : 'border-gray-100'}`}
+              >
+                <button onClick={() => setEditing(day)} className="w-full text-left">
+                  <div className="flex items-center gap-3 text-sm text-gray-700">
+                    <span className="flex items-center gap-1 font-semibold">
+                      <Clock className="w-4 h-4 text-orange-500" />
+                      {formatShootWindow(day)}
+                    </span>
+                    {day.location && (
+                      <span className="flex items-center gap-1 min-w-0">
+                        <MapPin className="w-4 h-4 text-gray-400 shrink-0" />
+                        <span className="truncate">{day.location}</span>
+                      </span>
+                    )}
+                  </div>
+                  {conflicts.length > 0 && (
+                    <p className="flex items-center gap-1 mt-2 text-xs text-amber-700">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      Overlaps with another shoot ({conflicts.map(formatShootWindow).join(', ')})
+                    </p>
+                  )}
+                </button>
+
+                <div className="mt-3 space-y-1">
+                  {day.projects.map((project) => (
+                    <Link
+                      key={project.id}
+                      to={`/videographer/project/${project.id}`}
+                      className="flex items-center justify-between gap-2 text-sm"
+                    >
+                      <span className="truncate text-gray-900">{project.title || 'Untitled'}</span>
+                      <span className="text-xs text-gray-400 font-mono shrink-0">{project.content_id}</span>
+                    </Link>
+                  ))}
+                </div>
+
+                <div className="mt-3">
+                  <CastSummary cast={aggregateCast(day.projects.map((p) => p.cast_composition))} />
+                </div>
+
+                {day.props_notes && (
+                  <p className="flex items-start gap-1.5 mt-2 text-xs text-gray-600">
+                    <Package className="w-3.5 h-3.5 text-gray-400 shrink-0 mt-0.5" />
+                    <span className="whitespace-pre-line">{day.props_notes}</span>
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {editing && (
+        <ShootDayForm
+          day={editing === 'new' ? undefined : editing}
+          defaultDate={selectedDate}
+          existingDays={shootDays}
+          onClose={() => setEditing(null)}
+        />
+      )}
+    </section>
+  );
+}
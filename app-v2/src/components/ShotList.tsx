@@ -0,0 +1,142 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, Circle, ListChecks, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { attachmentsByItem, buildShotList, shotListProgress } from '@/lib/shotList';
+import { shotListService } from '@/services/shotListService';
+import type { ShotListAttachment, ViralAnalysis } from '@/types';
+
+interface ShotListProps {
+  project: Pick<ViralAnalysis, 'id' | 'hook' | 'script_body' | 'script_cta' | 'cast_composition' | 'production_files'>;
+}
+
+/**
+ * Checklist of the shots a script needs. An item is done once an uploaded
+ * file is attached to it.
+ */
+export default function ShotList({ project }: ShotListProps) {
+  const qc = useQueryClient();
+  const items = useMemo(() => buildShotList(project), [project]);
+  const files = useMemo(() => (project.production_files || []).filter((f) => !f.is_deleted), [project.production_files]);
+
+  const { data: attachments = [] } = useQuery({
+    queryKey: queryKeys.shotList.project(project.id),
+    queryFn: () => shotListService.getAttachments(project.id),
+    enabled: items.length > 0,
+  });
+
+  const invalidate = () => {
+    qc.invalidateQueries({ queryKey: queryKeys.shotList.project(project.id) });
+    qc.invalidateQueries({ queryKey: queryKeys.videographer.myProjects() });
+  };
+
+  const attachMutation = useMutation({
+    mutationFn: ({ itemKey, fileId }: { itemKey: string; fileId: string }) =>
+      shotListService.attachFile(project.id, itemKey, fileId),
+    onError: () => toast.error('Failed to attach file'),
+    onSettled: invalidate,
+  });
+
+  const detachMutation = useMutation({
+    mutationFn: (attachmentId: string) => shotListService.detachFile(attachmentId),
+    onError: () => toast.error('Failed to remove file'),
+    onSettled: invalidate,
+  });
+
+  if (items.length === 0) return null;
+
+  const byItem = attachmentsByItem(attachments, files);
+  const progress = shotListProgress(items, byItem);
+  const fileName = (fileId: string) => files.find((f) => f.id === fileId)?.file_name || 'File';
+  const attachmentFor = (itemKey: string, fileId: string): ShotListAttachment | undefined =>
+    attachments.find((a) => a.item_key === itemKey && a.file_id === fileId);
+
+  return (
+    <div className="mb-6">
+      <div className="flex items-center justify-between mb-2">
+        <h2 className="text-base font-semibold text-gray-800 flex items-center gap-2">
+          <ListChecks className="w-4 h-4 text-orange-500" />
+          Shot List
+        </h2>
+        <span className="text-sm text-gray-500">
+          {progress.done} of {progress.total}
+        </span>
+      </div>
+      <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden mb-3">
+        <div
+          className="h-full bg-orange-500 transition-all"
+          style={{ width: `${(progress.done / progress.total) * 100}%` }}
+        />
+      </div>
+
+      <div className="space-y-2">
+        {items.map((item) => {
+          const attachedIds = byItem.get(item.key) || [];
+          const unattached = files.filter((f) => !attachedIds.includes(f.id));
+
+          return (
+            <div key={item.key} className="p-3 bg-white rounded-xl border border-gray-100">
+              <div className="flex items-start gap-2">
+                {attachedIds.length > 0
+                  ? <CheckCircle className="w-5 h-5 text-green-500 shrink-0" />
+                  : <Circle className="w-5 h-5 text-gray-300 shrink-0" />}
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900">
+                    {item.label}
+                    <span className="ml-1.5 text-xs font-normal text-gray-400">
+                      {item.kind === 'section' ? 'Script' : 'Cast'}
+                    </span>
+                  </p>
+                  {item.detail && <p className="text-xs text-gray-500 line-clamp-2 mt-0.5">{item.detail}</p>}
+
+                  {attachedIds.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 mt-2">
+                      {attachedIds.map((fileId) => {
+                        const attachment = attachmentFor(item.key, fileId);
+                        return (
+                          <span
+                            key={fileId}
+                            className="inline-flex items-center gap-1 max-w-full pl-2 pr-1 py-0.5 bg-green-50 text-green-700 text-xs rounded-full"
+                          >
+                            <span className="truncate">{fileName(fileId)}</span>
+                            {attachment && (
+                              <button
+                                onClick={() => detachMutation.mutate(attachment.id)}
+                                className="p-0.5 rounded-full hover:bg-green-100"
+                                aria-label={`Remove ${fileName(fileId)} from ${item.label}`}
+                              >
+                                <X className="w-3 h-3" />
+                              </button>
+                            )}
+                          </span>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {unattached.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        if (e.target.value) attachMutation.mutate({ itemKey: item.key, fileId: e.target.value });
+                      }}
+                      disabled={attachMutation.isPending}
+                      className="mt-2 w-full px-2 py-1.5 bg-gray-50 border border-gray-200 rounded-lg text-xs text-gray-600"
+                      aria-label={`Attach a file to ${item.label}`}
+                    >
+                      <option value="">Attach an uploaded file…</option>
+                      {unattached.map((f) => (
+                        <option key={f.id} value={f.id}>{f.file_name}</option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
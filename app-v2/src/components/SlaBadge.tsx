@@ -0,0 +1,48 @@
+import { useQuery } from '@tanstack/react-query';
+import { AlarmClock } from 'lucide-react';
+import { queryKeys } from '@/lib/queryKeys';
+import { formatHours, getSlaStatus, type SlaProject } from '@/lib/stageSla';
+import { slaService } from '@/services/slaService';
+
+interface SlaBadgeProps {
+  project: SlaProject;
+  /** Also show the badge while the project is still within its limit */
+  showOk?: boolean;
+}
+
+/**
+ * Time in the current stage against its SLA: amber when due soon, red when
+ * overdue, nothing when the stage has no limit
+ */
+export default function SlaBadge({ project, showOk = false }: SlaBadgeProps) {
+  const { data: slas = [] } = useQuery({
+    queryKey: queryKeys.sla.settings(),
+    queryFn: () => slaService.getSlas(),
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const status = getSlaStatus(project, slas);
+  if (!status || (status.state === 'ok' && !showOk)) return null;
+
+  const style = {
+    overdue: 'bg-red-100 text-red-700',
+    due_soon: 'bg-amber-100 text-amber-700',
+    ok: 'bg-gray-100 text-gray-600',
+  }[status.state];
+
+  const label = status.state === 'overdue'
+    ? `Overdue ${formatHours(status.hoursInStage - status.limitHours)}`
+    : status.state === 'due_soon'
+      ? `Due in ${formatHours(status.limitHours - status.hoursInStage)}`
+      : `${formatHours(status.hoursInStage)} of ${formatHours(status.limitHours)}`;
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium ${style}`}
+      title={`${formatHours(status.hoursInStage)} in this stage (limit ${formatHours(status.limitHours)})`}
+    >
+      <AlarmClock className="w-3 h-3" />
+      {label}
+    </span>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Loader2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { queryKeys } from '@/lib/queryKeys';
+import { SLA_PRIORITIES, SLA_STAGES } from '@/lib/stageSla';
+import { slaService } from '@/services/slaService';
+import { ProductionStageLabels } from '@/types';
+import type { Priority, SlaStage } from '@/types';
+
+interface SlaSettingsSheetProps {
+  onClose: () => void;
+}
+
+const PRIORITY_LABELS: Record<Priority, string> = {
+  URGENT: 'Urgent',
+  HIGH: 'High',
+  NORMAL: 'Normal',
+  LOW: 'Low',
+};
+
+const cellKey = (stage: SlaStage, priority: Priority) => `${stage}:${priority}`;
+
+/**
+ * Hours a project may spend in each stage, per priority. A blank cell means
+ * no limit. Admins are notified once when a project goes past its limit.
+ */
+export default function SlaSettingsSheet({ onClose }: SlaSettingsSheetProps) {
+  const qc = useQueryClient();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const { data: slas = [], isLoading } = useQuery({
+    queryKey: queryKeys.sla.settings(),
+    queryFn: () => slaService.getSlas(),
+  });
+
+  const savedValue = (stage: SlaStage, priority: Priority) => {
+    const hours = slas.find((s) => s.stage === stage && s.priority === priority)?.hours;
+    return hours ? String(hours) : '';
+  };
+
+  const changed = Object.entries(drafts).filter(([key, value]) => {
+    const [stage, priority] = key.split(':') as [SlaStage, Priority];
+    return value.trim() !== savedValue(stage, priority);
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      for (const [key, value] of changed) {
+        const [stage, priority] = key.split(':') as [SlaStage, Priority];
+        await slaService.updateSla(stage, priority, value.trim() ? Number(value) : null);
+      }
+    },
+    onSuccess: () => {
+      toast.success('SLAs saved');
+      qc.invalidateQueries({ queryKey: queryKeys.sla.all });
+      onClose();
+    },
+    onError: (err: Error) => {
+      toast.error(err.message || 'Failed to save SLAs');
+      qc.invalidateQueries({ queryKey: queryKeys.sla.all });
+    },
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Stage SLAs</h3>
+            <p className="text-xs text-gray-500">Hours allowed in each stage — leave blank for no limit</p>
+          </div>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="w-6 h-6 text-purple-500 animate-spin" />
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left text-xs font-medium text-gray-500 pb-2">Stage</th>
+                  {SLA_PRIORITIES.map((priority) => (
+                    <th key={priority} className="text-center text-xs font-medium text-gray-500 pb-2">
+                      {PRIORITY_LABELS[priority]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {SLA_STAGES.map((stage) => (
+                  <tr key={stage}>
+                    <td className="py-1.5 pr-2 text-gray-900">{ProductionStageLabels[stage] || stage}</td>
+                    {SLA_PRIORITIES.map((priority) => {
+                      const key = cellKey(stage, priority);
+                      return (
+                        <td key={priority} className="py-1.5 px-1">
+                          <input
+                            type="number"
+                            min={1}
+                            inputMode="numeric"
+                            value={drafts[key] ?? savedValue(stage, priority)}
+                            onChange={(e) => setDrafts((prev) => ({ ...prev, [key]: e.target.value }))}
+                            placeholder="–"
+                            className="w-full h-9 px-1 text-center border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+                          />
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-100">
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={changed.length === 0 || saveMutation.isPending}
+            className="w-full h-11 flex items-center justify-center gap-2 bg-purple-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,295 @@
+import { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Link } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Archive, CalendarX, ImagePlus, Loader2, RotateCcw, Trash2, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import TalentPhoto from '@/components/TalentPhoto';
+import { queryKeys } from '@/lib/queryKeys';
+import { talentService, type TalentData } from '@/services/talentService';
+import { CastMemberLabels } from '@/types';
+import type { CastMemberKey, Talent } from '@/types';
+
+interface TalentFormProps {
+  /** Edit this person; omit to add someone new */
+  talent?: Talent;
+  onClose: () => void;
+}
+
+const inputClass = 'mt-1 w-full px-3 py-2 border border-gray-200 rounded-lg text-sm';
+
+/**
+ * Bottom-sheet form for a roster entry: details, photos, blocked-out dates
+ * and the projects they appeared in. Photos and dates need a saved person,
+ * so a new entry stays open in edit mode after the first save.
+ */
+export default function TalentForm({ talent, onClose }: TalentFormProps) {
+  const qc = useQueryClient();
+  const photoInput = useRef<HTMLInputElement>(null);
+  const [current, setCurrent] = useState<Talent | undefined>(talent);
+  const [form, setForm] = useState<TalentData>({
+    fullName: talent?.full_name || '',
+    category: talent?.category || 'woman',
+    phone: talent?.phone || '',
+    email: talent?.email || '',
+    instagram: talent?.instagram || '',
+    notes: talent?.notes || '',
+  });
+  const [awayFrom, setAwayFrom] = useState('');
+  const [awayTo, setAwayTo] = useState('');
+  const [awayNote, setAwayNote] = useState('');
+
+  const { data: appearances = [] } = useQuery({
+    queryKey: queryKeys.talent.appearances(current?.id || ''),
+    queryFn: () => talentService.getAppearances(current!.id),
+    enabled: !!current,
+  });
+
+  const refreshRoster = () => qc.invalidateQueries({ queryKey: queryKeys.talent.all });
+
+  const saveMutation = useMutation({
+    mutationFn: () => (current ? talentService.updateTalent(current.id, form) : talentService.createTalent(form)),
+    onSuccess: (saved) => {
+      toast.success(current ? 'Talent updated' : 'Added to the roster');
+      setCurrent(saved);
+      refreshRoster();
+      if (current) onClose();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save talent'),
+  });
+
+  const photoMutation = useMutation({
+    mutationFn: (file: File) => talentService.addPhoto(current!, file),
+    onSuccess: (photoUrls) => {
+      setCurrent((prev) => prev && { ...prev, photo_urls: photoUrls });
+      refreshRoster();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to upload photo'),
+  });
+
+  const removePhotoMutation = useMutation({
+    mutationFn: (url: string) => talentService.removePhoto(current!, url),
+    onSuccess: (photoUrls) => {
+      setCurrent((prev) => prev && { ...prev, photo_urls: photoUrls });
+      refreshRoster();
+    },
+    onError: () => toast.error('Failed to remove photo'),
+  });
+
+  const addAwayMutation = useMutation({
+    mutationFn: () => talentService.addUnavailability(current!.id, awayFrom, awayTo || awayFrom, awayNote),
+    onSuccess: (range) => {
+      setCurrent((prev) => prev && { ...prev, unavailability: [...(prev.unavailability || []), range] });
+      setAwayFrom('');
+      setAwayTo('');
+      setAwayNote('');
+      refreshRoster();
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to save dates'),
+  });
+
+  const removeAwayMutation = useMutation({
+    mutationFn: (id: string) => talentService.removeUnavailability(id).then(() => id),
+    onSuccess: (id) => {
+      setCurrent((prev) => prev && { ...prev, unavailability: (prev.unavailability || []).filter((r) => r.id !== id) });
+      refreshRoster();
+    },
+    onError: () => toast.error('Failed to remove dates'),
+  });
+
+  const activeMutation = useMutation({
+    mutationFn: () => talentService.setActive(current!.id, !current!.is_active),
+    onSuccess: () => {
+      toast.success(current!.is_active ? 'Archived' : 'Back on the roster');
+      refreshRoster();
+      onClose();
+    },
+    onError: () => toast.error('Failed to update talent'),
+  });
+
+  const update = (field: keyof TalentData, value: string) => setForm((prev) => ({ ...prev, [field]: value }));
+
+  const unavailability = [...(current?.unavailability || [])].sort((a, b) => a.start_date.localeCompare(b.start_date));
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={onClose}>
+      <div
+        className="bg-white w-full sm:max-w-md rounded-t-2xl sm:rounded-2xl max-h-[90vh] flex flex-col animate-slide-up"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100">
+          <h3 className="text-lg font-semibold text-gray-900">{current ? current.full_name : 'Add Talent'}</h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="col-span-2 text-xs font-medium text-gray-600">
+              Name
+              <input type="text" value={form.fullName} onChange={(e) => update('fullName', e.target.value)} className={inputClass} />
+            </label>
+            <label className="col-span-2 text-xs font-medium text-gray-600">
+              Category
+              <select
+                value={form.category}
+                onChange={(e) => update('category', e.target.value as CastMemberKey)}
+                className={`${inputClass} bg-white`}
+              >
+                {(Object.entries(CastMemberLabels) as [CastMemberKey, string][]).map(([key, label]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Phone
+              <input type="tel" value={form.phone} onChange={(e) => update('phone', e.target.value)} className={inputClass} />
+            </label>
+            <label className="text-xs font-medium text-gray-600">
+              Instagram
+              <input type="text" value={form.instagram} onChange={(e) => update('instagram', e.target.value)} placeholder="@handle" className={inputClass} />
+            </label>
+            <label className="col-span-2 text-xs font-medium text-gray-600">
+              Email
+              <input type="email" value={form.email} onChange={(e) => update('email', e.target.value)} className={inputClass} />
+            </label>
+            <label className="col-span-2 text-xs font-medium text-gray-600">
+              Notes
+              <textarea
+                value={form.notes}
+                onChange={(e) => update('notes', e.target.value)}
+                rows={2}
+                placeholder="Languages, rates, guardian contact…"
+                className={`${inputClass} resize-none`}
+              />
+            </label>
+          </div>
+
+          {!current ? (
+            <p className="text-xs text-gray-400">Save first to add photos and the dates they're away.</p>
+          ) : (
+            <>
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1.5">Photos</p>
+                <div className="flex flex-wrap gap-2">
+                  {current.photo_urls.map((url) => (
+                    <div key={url} className="relative">
+                      <TalentPhoto url={url} className="w-20 h-20 rounded-lg" iconClassName="w-5 h-5" />
+                      <button
+                        onClick={() => removePhotoMutation.mutate(url)}
+                        className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-gray-900 text-white flex items-center justify-center"
+                        title="Remove photo"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    onClick={() => photoInput.current?.click()}
+                    disabled={photoMutation.isPending}
+                    className="w-20 h-20 rounded-lg border-2 border-dashed border-gray-200 flex items-center justify-center text-gray-400 disabled:opacity-50"
+                  >
+                    {photoMutation.isPending ? <Loader2 className="w-5 h-5 animate-spin" /> : <ImagePlus className="w-5 h-5" />}
+                  </button>
+                  <input
+                    ref={photoInput}
+                    type="file"
+                    accept="image/*"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) photoMutation.mutate(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1.5">Unavailable</p>
+                {unavailability.length > 0 && (
+                  <div className="space-y-1 mb-2">
+                    {unavailability.map((range) => (
+                      <div key={range.id} className="flex items-center gap-2 text-sm text-gray-700">
+                        <CalendarX className="w-4 h-4 text-gray-400 shrink-0" />
+                        <span className="flex-1 min-w-0 truncate">
+                          {range.start_date === range.end_date ? range.start_date : `${range.start_date} → ${range.end_date}`}
+                          {range.note && <span className="text-gray-400"> · {range.note}</span>}
+                        </span>
+                        <button onClick={() => removeAwayMutation.mutate(range.id)} title="Remove dates">
+                          <Trash2 className="w-4 h-4 text-gray-400" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <input type="date" value={awayFrom} onChange={(e) => setAwayFrom(e.target.value)} className="px-2 py-2 border border-gray-200 rounded-lg text-sm" />
+                  <input type="date" value={awayTo} min={awayFrom} onChange={(e) => setAwayTo(e.target.value)} className="px-2 py-2 border border-gray-200 rounded-lg text-sm" />
+                  <input
+                    type="text"
+                    value={awayNote}
+                    onChange={(e) => setAwayNote(e.target.value)}
+                    placeholder="Reason (optional)"
+                    className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+                  />
+                  <button
+                    onClick={() => addAwayMutation.mutate()}
+                    disabled={!awayFrom || addAwayMutation.isPending}
+                    className="py-2 bg-gray-900 rounded-lg text-sm font-medium text-white disabled:opacity-50"
+                  >
+                    Block dates
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs font-medium text-gray-600 mb-1.5">Appeared in</p>
+                {appearances.length === 0 ? (
+                  <p className="text-sm text-gray-400">No confirmed appearances yet</p>
+                ) : (
+                  <div className="space-y-1">
+                    {appearances.map((appearance) => appearance.analysis && (
+                      <Link
+                        key={appearance.analysis_id}
+                        to={`/admin/project/${appearance.analysis_id}`}
+                        onClick={onClose}
+                        className="flex items-center justify-between gap-2 text-sm"
+                      >
+                        <span className="truncate text-gray-900">{appearance.analysis.title || 'Untitled'}</span>
+                        <span className="text-xs text-gray-400 font-mono shrink-0">{appearance.analysis.content_id}</span>
+                      </Link>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex gap-2 p-4 border-t border-gray-100">
+          {current && (
+            <button
+              onClick={() => activeMutation.mutate()}
+              disabled={activeMutation.isPending}
+              className="w-11 h-11 rounded-lg bg-gray-100 flex items-center justify-center disabled:opacity-50"
+              title={current.is_active ? 'Archive' : 'Restore'}
+            >
+              {current.is_active ? <Archive className="w-4 h-4 text-gray-500" /> : <RotateCcw className="w-4 h-4 text-gray-500" />}
+            </button>
+          )}
+          <button
+            onClick={() => saveMutation.mutate()}
+            disabled={!form.fullName.trim() || saveMutation.isPending}
+            className="flex-1 h-11 flex items-center justify-center gap-2 bg-purple-500 rounded-lg text-sm font-semibold text-white disabled:opacity-50"
+          >
+            {saveMutation.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+            {current ? 'Save Changes' : 'Add to Roster'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,124 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Check, Loader2, Plus, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import TalentPhoto from '@/components/TalentPhoto';
+import { queryKeys } from '@/lib/queryKeys';
+import { talentService } from '@/services/talentService';
+import type { CastMemberKey, ProjectTalent, Talent, ViralAnalysis } from '@/types';
+
+interface TalentMatcherProps {
+  project: Pick<ViralAnalysis, 'id' | 'cast_composition' | 'planned_date'>;
+}
+
+function Avatar({ talent }: { talent?: Talent }) {
+  return <TalentPhoto url={talent?.photo_urls[0]} className="w-8 h-8 rounded-full" />;
+}
+
+/**
+ * Roster talent for a project's cast: who is booked, who appeared, and who
+ * is free on the planned date for the slots still open
+ */
+export default function TalentMatcher({ project }: TalentMatcherProps) {
+  const qc = useQueryClient();
+  const plannedDate = project.planned_date?.slice(0, 10);
+
+  const { data: slots = [], isLoading } = useQuery({
+    queryKey: [...queryKeys.talent.project(project.id), plannedDate || null, project.cast_composition] as const,
+    queryFn: () => talentService.getProposals(project),
+  });
+
+  const refresh = () => qc.invalidateQueries({ queryKey: queryKeys.talent.all });
+
+  const bookMutation = useMutation({
+    mutationFn: ({ talentId, category }: { talentId: string; category: CastMemberKey }) =>
+      talentService.bookTalent(project.id, talentId, category),
+    onSuccess: refresh,
+    onError: () => toast.error('Failed to book talent'),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: (booking: ProjectTalent) =>
+      talentService.setStatus(project.id, booking.talent_id, booking.status === 'appeared' ? 'booked' : 'appeared'),
+    onSuccess: refresh,
+    onError: () => toast.error('Failed to update talent'),
+  });
+
+  const unbookMutation = useMutation({
+    mutationFn: (talentId: string) => talentService.unbookTalent(project.id, talentId),
+    onSuccess: refresh,
+    onError: () => toast.error('Failed to remove talent'),
+  });
+
+  if (!isLoading && slots.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wide">🎭 Talent</h3>
+        <span className="text-xs text-gray-400">
+          {plannedDate ? `Available on ${plannedDate}` : 'No planned date — showing everyone'}
+        </span>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {slots.map((slot) => {
+            const open = slot.needed - slot.booked.length;
+            return (
+              <div key={slot.category}>
+                <p className="text-xs font-medium text-gray-600 mb-1.5">
+                  {slot.label} · {slot.booked.length}/{slot.needed} booked
+                </p>
+
+                <div className="space-y-1.5">
+                  {slot.booked.map((booking) => (
+                    <div key={booking.talent_id} className="flex items-center gap-2">
+                      <Avatar talent={booking.talent} />
+                      <span className="flex-1 min-w-0 text-sm text-gray-900 truncate">{booking.talent?.full_name}</span>
+                      <button
+                        onClick={() => statusMutation.mutate(booking)}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+                          booking.status === 'appeared' ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
+                        }`}
+                        title={booking.status === 'appeared' ? 'Undo' : 'Mark as appeared'}
+                      >
+                        {booking.status === 'appeared' && <Check className="w-3 h-3" />}
+                        {booking.status === 'appeared' ? 'Appeared' : 'Booked'}
+                      </button>
+                      <button onClick={() => unbookMutation.mutate(booking.talent_id)} title="Remove">
+                        <X className="w-4 h-4 text-gray-400" />
+                      </button>
+                    </div>
+                  ))}
+
+                  {open > 0 && slot.candidates.length === 0 && (
+                    <p className="text-xs text-amber-700">No one on the roster is free for this</p>
+                  )}
+
+                  {open > 0 && slot.candidates.map((candidate) => (
+                    <div key={candidate.id} className="flex items-center gap-2">
+                      <Avatar talent={candidate} />
+                      <span className="flex-1 min-w-0 text-sm text-gray-500 truncate">{candidate.full_name}</span>
+                      <button
+                        onClick={() => bookMutation.mutate({ talentId: candidate.id, category: slot.category })}
+                        disabled={bookMutation.isPending}
+                        className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium bg-purple-50 text-purple-700 disabled:opacity-50"
+                      >
+                        <Plus className="w-3 h-3" />
+                        Book
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { User as UserIcon } from 'lucide-react';
+import { talentService } from '@/services/talentService';
+
+interface TalentPhotoProps {
+  url?: string;
+  /** Size and shape, e.g. "w-12 h-12 rounded-full" */
+  className: string;
+  iconClassName?: string;
+}
+
+/**
+ * Roster headshot. Photos need the user's token, so they are fetched and
+ * shown from an object URL; a placeholder shows while loading, without a
+ * photo, or if it can't be loaded.
+ */
+export default function TalentPhoto({ url, className, iconClassName = 'w-4 h-4' }: TalentPhotoProps) {
+  const [src, setSrc] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    talentService
+      .loadPhoto(url)
+      .then((loaded) => {
+        if (cancelled) {
+          URL.revokeObjectURL(loaded);
+          return;
+        }
+        objectUrl = loaded;
+        setSrc(loaded);
+      })
+      .catch((error) => {
+        console.error('Failed to load talent photo:', error);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+      setSrc(null);
+    };
+  }, [url]);
+
+  return src ? (
+    <img src={src} alt="" className={`${className} object-cover bg-gray-100 shrink-0`} />
+  ) : (
+    <span className={`${className} bg-gray-100 flex items-center justify-center shrink-0`}>
+      <UserIcon className={`${iconClassName} text-gray-400`} />
+    </span>
+  );
+}
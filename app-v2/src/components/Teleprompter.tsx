@@ -0,0 +1,181 @@
+import { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { FlipHorizontal, Minus, Pause, Play, Plus, RotateCcw, X } from 'lucide-react';
+import { countWords, getLanguage } from '@/lib/scriptTiming';
+import type { ViralAnalysis } from '@/types';
+
+interface TeleprompterProps {
+  script: Pick<ViralAnalysis, 'title' | 'hook' | 'script_body' | 'script_cta' | 'script_language'>;
+  onClose: () => void;
+}
+
+const MIN_WPM = 60;
+const MAX_WPM = 250;
+const WPM_STEP = 10;
+const FONT_SIZES = [24, 30, 36, 44, 52];
+
+/**
+ * Full-screen teleprompter for the shoot. Scroll speed is set in words per
+ * minute, starting at the script language's speaking rate, and the text can
+ * be mirrored for beam-splitter glass.
+ */
+export default function Teleprompter({ script, onClose }: TeleprompterProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const positionRef = useRef(0);
+  const [playing, setPlaying] = useState(false);
+  const [wpm, setWpm] = useState(() => getLanguage(script.script_language).wordsPerMinute);
+  const [mirrored, setMirrored] = useState(false);
+  const [fontIndex, setFontIndex] = useState(2);
+
+  const sections = [
+    { label: 'Hook', text: script.hook },
+    { label: 'Body', text: script.script_body },
+    { label: 'CTA', text: script.script_cta },
+  ].filter((section) => section.text?.trim());
+  const totalWords = sections.reduce((sum, section) => sum + countWords(section.text), 0);
+
+  // Scroll so the whole text passes the reading line in the time it takes to say it
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!playing || !container || totalWords === 0) return;
+
+    positionRef.current = container.scrollTop;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function step(now) {
+      const maxScroll = container.scrollHeight - container.clientHeight;
+      const pixelsPerSecond = maxScroll / ((totalWords / wpm) * 60);
+      positionRef.current = Math.min(maxScroll, positionRef.current + pixelsPerSecond * ((now - last) / 1000));
+      last = now;
+      container.scrollTop = positionRef.current;
+
+      if (positionRef.current >= maxScroll) {
+        setPlaying(false);
+        return;
+      }
+      frame = requestAnimationFrame(step);
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [playing, wpm, totalWords, fontIndex]);
+
+  useEffect(() => {
+    document.documentElement.requestFullscreen?.().catch(() => {});
+    return () => {
+      if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === ' ') {
+        e.preventDefault();
+        setPlaying((p) => !p);
+      } else if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowUp') {
+        setWpm((w) => Math.min(MAX_WPM, w + WPM_STEP));
+      } else if (e.key === 'ArrowDown') {
+        setWpm((w) => Math.max(MIN_WPM, w - WPM_STEP));
+      }
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [onClose]);
+
+  const restart = () => {
+    setPlaying(false);
+    positionRef.current = 0;
+    scrollRef.current?.scrollTo({ top: 0 });
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 bg-black z-[10000] flex flex-col text-white">
+      <div className="flex items-center justify-between px-4 py-3">
+        <p className="text-sm text-gray-400 truncate">{script.title || 'Untitled'}</p>
+        <button onClick={onClose} className="w-9 h-9 rounded-full bg-white/10 flex items-center justify-center">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        {/* Reading line */}
+        <div className="absolute left-0 right-0 top-1/3 border-t-2 border-orange-500/60 pointer-events-none z-10" />
+        <div
+          ref={scrollRef}
+          onClick={() => setPlaying((p) => !p)}
+          className="h-full overflow-y-auto px-6 sm:px-16"
+        >
+          <div
+            className="max-w-3xl mx-auto pt-[33vh] pb-[66vh] space-y-10"
+            style={{ transform: mirrored ? 'scaleX(-1)' : undefined, fontSize: FONT_SIZES[fontIndex] }}
+          >
+            {sections.length === 0 ? (
+              <p className="text-gray-500 text-center">This project has no script text yet</p>
+            ) : (
+              sections.map((section) => (
+                <div key={section.label}>
+                  <p className="text-xs font-bold uppercase tracking-widest text-orange-400 mb-2">{section.label}</p>
+                  <p className="font-semibold leading-snug whitespace-pre-wrap">{section.text}</p>
+                </div>
+              ))
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-center gap-3 px-4 py-4 bg-black/80">
+        <button onClick={restart} className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center" title="Back to start">
+          <RotateCcw className="w-5 h-5" />
+        </button>
+        <div className="flex items-center gap-1 bg-white/10 rounded-full px-1">
+          <button
+            onClick={() => setWpm((w) => Math.max(MIN_WPM, w - WPM_STEP))}
+            className="w-8 h-8 flex items-center justify-center"
+            title="Slower"
+          >
+            <Minus className="w-4 h-4" />
+          </button>
+          <span className="text-xs font-semibold w-16 text-center">{wpm} wpm</span>
+          <button
+            onClick={() => setWpm((w) => Math.min(MAX_WPM, w + WPM_STEP))}
+            className="w-8 h-8 flex items-center justify-center"
+            title="Faster"
+          >
+            <Plus className="w-4 h-4" />
+          </button>
+        </div>
+        <button
+          onClick={() => setPlaying((p) => !p)}
+          disabled={totalWords === 0}
+          className="w-14 h-14 rounded-full bg-videographer flex items-center justify-center disabled:opacity-50"
+        >
+          {playing ? <Pause className="w-6 h-6" /> : <Play className="w-6 h-6 ml-0.5" />}
+        </button>
+        <div className="flex items-center gap-1 bg-white/10 rounded-full px-1">
+          <button
+            onClick={() => setFontIndex((i) => Math.max(0, i - 1))}
+            className="w-8 h-8 flex items-center justify-center text-xs font-bold"
+            title="Smaller text"
+          >
+            A-
+          </button>
+          <button
+            onClick={() => setFontIndex((i) => Math.min(FONT_SIZES.length - 1, i + 1))}
+            className="w-8 h-8 flex items-center justify-center text-sm font-bold"
+            title="Larger text"
+          >
+            A+
+          </button>
+        </div>
+        <button
+          onClick={() => setMirrored((m) => !m)}
+          className={`w-10 h-10 rounded-full flex items-center justify-center ${mirrored ? 'bg-white text-black' : 'bg-white/10'}`}
+          title="Mirror"
+        >
+          <FlipHorizontal className="w-5 h-5" />
+        </button>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { AnimatePresence, motion } from 'framer-motion';
+import { AlertCircle, CheckCircle, ChevronDown, Loader2, Pause, Play, RotateCw, UploadCloud, WifiOff, X } from 'lucide-react';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { formatBytes, formatEta, formatSpeed } from '@/lib/uploadFormat';
+import {
+  uploadQueueService,
+  getUploadPercentage,
+  summarizeUploads,
+  type QueuedUpload,
+} from '@/services/uploadQueueService';
+
+function StatusIcon({ item }: { item: QueuedUpload }) {
+  switch (item.status) {
+    case 'complete':
+      return <CheckCircle className="w-4 h-4 text-green-600" />;
+    case 'error':
+      return <AlertCircle className="w-4 h-4 text-red-500" />;
+    case 'paused':
+      return item.pausedByUser
+        ? <Pause className="w-4 h-4 text-gray-500" />
+        : <WifiOff className="w-4 h-4 text-amber-500" />;
+    case 'queued':
+      return <UploadCloud className="w-4 h-4 text-gray-400" />;
+    default:
+      return <Loader2 className="w-4 h-4 text-primary animate-spin" />;
+  }
+}
+
+function statusText(item: QueuedUpload): string {
+  switch (item.status) {
+    case 'queued':
+      return 'Waiting';
+    case 'uploading':
+      return `${getUploadPercentage(item)}% of ${formatBytes(item.size)}`;
+    case 'paused':
+      return item.pausedByUser
+        ? `Paused at ${getUploadPercentage(item)}%`
+        : `Paused at ${getUploadPercentage(item)}% — waiting for connection`;
+    case 'finalizing':
+      return 'Saving…';
+    case 'complete':
+      return 'Uploaded';
+    case 'error':
+      return item.error || 'Upload failed';
+  }
+}
+
+/**
+ * Floating tray showing the persistent upload queue on every page.
+ * Hidden on the upload pages, which list the same uploads inline.
+ */
+export default function UploadQueueTray() {
+  const location = useLocation();
+  const items = useUploadQueue();
+  const [expanded, setExpanded] = useState(false);
+
+  const isUploadPage = /\/upload\//.test(location.pathname);
+  if (items.length === 0 || isUploadPage) return null;
+
+  const stats = summarizeUploads(items, uploadQueueService.getThroughput());
+  const overall = stats.percentage;
+
+  const summary = stats.activeCount > 0
+    ? `Uploading ${stats.activeCount} ${stats.activeCount === 1 ? 'file' : 'files'} • ${overall}%`
+    : stats.failedCount > 0
+    ? `${stats.failedCount} ${stats.failedCount === 1 ? 'upload' : 'uploads'} failed`
+    : 'Uploads complete';
+
+  return (
+    <div
+      className="fixed left-0 right-0 px-4 max-w-mobile mx-auto z-40 pointer-events-none"
+      style={{ bottom: 'calc(76px + env(safe-area-inset-bottom))' }}
+    >
+      <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden pointer-events-auto">
+        <button
+          onClick={() => setExpanded((v) => !v)}
+          className="w-full flex items-center gap-3 px-4 py-3 text-left"
+        >
+          {stats.activeCount > 0 ? (
+            <Loader2 className="w-5 h-5 text-primary animate-spin shrink-0" />
+          ) : stats.failedCount > 0 ? (
+            <AlertCircle className="w-5 h-5 text-red-500 shrink-0" />
+          ) : (
+            <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />
+          )}
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium text-gray-900">{summary}</p>
+            {stats.activeCount > 0 && (
+              <p className="text-xs text-gray-500">
+                {stats.bytesPerSecond > 0 ? `${formatSpeed(stats.bytesPerSecond)} • ` : ''}
+                {formatEta(stats.etaSeconds)}
+              </p>
+            )}
+            {stats.activeCount > 0 && (
+              <div className="h-1 bg-gray-100 rounded-full overflow-hidden mt-1.5">
+                <div className="h-full bg-primary transition-all duration-300" style={{ width: `${overall}%` }} />
+              </div>
+            )}
+          </div>
+          <ChevronDown className={`w-4 h-4 text-gray-400 transition-transform ${expanded ? '' : 'rotate-180'}`} />
+        </button>
+
+        <AnimatePresence initial={false}>
+          {expanded && (
+            <motion.div
+              initial={{ height: 0 }}
+              animate={{ height: 'auto' }}
+              exit={{ height: 0 }}
+              className="overflow-hidden border-t border-gray-100"
+            >
+              <div className="max-h-64 overflow-y-auto">
+                {items.map((item) => (
+                  <div key={item.id} className="flex items-center gap-3 px-4 py-2.5 border-b border-gray-50 last:border-0">
+                    <StatusIcon item={item} />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{item.fileName || item.originalName}</p>
+                      <p className={`text-xs truncate ${item.status === 'error' ? 'text-red-500' : 'text-gray-500'}`}>
+                        {item.contentId} • {statusText(item)}
+                      </p>
+                    </div>
+                    {(item.status === 'uploading' || item.status === 'queued') && (
+                      <button
+                        onClick={() => uploadQueueService.pause(item.id)}
+                        className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center"
+                        title="Pause"
+                      >
+                        <Pause className="w-3.5 h-3.5 text-gray-600" />
+                      </button>
+                    )}
+                    {item.status === 'paused' && (
+                      <button
+                        onClick={() => uploadQueueService.resume(item.id)}
+                        className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center"
+                        title="Resume"
+                      >
+                        <Play className="w-3.5 h-3.5 text-gray-600" />
+                      </button>
+                    )}
+                    {item.status === 'error' && (
+                      <button
+                        onClick={() => uploadQueueService.retry(item.id)}
+                        className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center"
+                        title="Retry"
+                      >
+                        <RotateCw className="w-3.5 h-3.5 text-gray-600" />
+                      </button>
+                    )}
+                    {item.status !== 'complete' && item.status !== 'finalizing' && (
+                      <button
+                        onClick={() => uploadQueueService.remove(item.id)}
+                        className="w-7 h-7 rounded-full bg-gray-100 flex items-center justify-center"
+                        title="Cancel upload"
+                      >
+                        <X className="w-3.5 h-3.5 text-gray-600" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div className="flex border-t border-gray-100">
+                {stats.failedCount > 0 && (
+                  <button
+                    onClick={() => uploadQueueService.retryFailed()}
+                    className="flex-1 text-center text-xs font-medium text-primary py-2"
+                  >
+                    Retry failed ({stats.failedCount})
+                  </button>
+                )}
+                {stats.activeCount === 0 && (
+                  <button
+                    onClick={() => uploadQueueService.clearCompleted()}
+                    className="flex-1 text-center text-xs font-medium text-gray-500 py-2"
+                  >
+                    Clear finished
+                  </button>
+                )}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    </div>
+  );
+}
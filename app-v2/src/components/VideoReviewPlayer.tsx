@@ -0,0 +1,254 @@
+import { useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { CheckCircle, ChevronLeft, ChevronRight, Circle, ExternalLink, Loader2, MapPin, Trash2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useVideoStreamUrl } from '@/hooks/useVideoStreamUrl';
+import { queryKeys } from '@/lib/queryKeys';
+import { videoReviewService, formatTimecode } from '@/services/videoReviewService';
+import type { ProductionFile, VideoReviewNote } from '@/types';
+
+// Shorts are shot and edited at 30fps; one step = one frame
+const FRAME_SECONDS = 1 / 30;
+
+interface VideoReviewPlayerProps {
+  file: Pick<ProductionFile, 'id' | 'analysis_id' | 'file_id' | 'file_url' | 'duration_seconds'>;
+  /**
+   * review — add and delete notes (admin)
+   * checklist — tick notes off (editor)
+   */
+  mode: 'review' | 'checklist';
+}
+
+/**
+ * Embedded player for an edited video with notes pinned to timestamps.
+ * Clicking a note seeks the player to it.
+ */
+export default function VideoReviewPlayer({ file, mode }: VideoReviewPlayerProps) {
+  const qc = useQueryClient();
+  const { user } = useAuth();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [duration, setDuration] = useState(file.duration_seconds || 0);
+  const [noteTime, setNoteTime] = useState<number | null>(null);
+  const [body, setBody] = useState('');
+
+  const { data: streamUrl, isError: streamFailed } = useVideoStreamUrl(file.file_id);
+
+  const { data: notes = [], isLoading } = useQuery({
+    queryKey: queryKeys.videoReview.file(file.id),
+    queryFn: () => videoReviewService.getNotes(file.id),
+  });
+
+  const invalidateNotes = () => {
+    qc.invalidateQueries({ queryKey: queryKeys.videoReview.file(file.id) });
+    qc.invalidateQueries({ queryKey: queryKeys.videoReview.project(file.analysis_id) });
+  };
+
+  const addMutation = useMutation({
+    mutationFn: () => videoReviewService.addNote({
+      analysisId: file.analysis_id,
+      fileId: file.id,
+      timestampSeconds: noteTime ?? videoRef.current?.currentTime ?? 0,
+      body,
+    }),
+    onSuccess: () => {
+      setBody('');
+      setNoteTime(null);
+    },
+    onError: (err: Error) => toast.error(err.message || 'Failed to add note'),
+    onSettled: invalidateNotes,
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: (note: VideoReviewNote) => videoReviewService.setResolved(note.id, !note.is_resolved),
+    onMutate: async (note) => {
+      await qc.cancelQueries({ queryKey: queryKeys.videoReview.file(file.id) });
+      qc.setQueryData<VideoReviewNote[]>(queryKeys.videoReview.file(file.id), (prev = []) =>
+        prev.map((n) => (n.id === note.id ? { ...n, is_resolved: !n.is_resolved } : n))
+      );
+    },
+    onError: () => toast.error('Failed to update note'),
+    onSettled: invalidateNotes,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (noteId: string) => videoReviewService.deleteNote(noteId),
+    onError: () => toast.error('Failed to delete note'),
+    onSettled: invalidateNotes,
+  });
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    video.currentTime = Math.max(0, Math.min(seconds, video.duration || seconds));
+  };
+
+  const stepFrame = (direction: 1 | -1) => {
+    const video = videoRef.current;
+    if (video) seek(video.currentTime + direction * FRAME_SECONDS);
+  };
+
+  // Freeze the frame the note is about while it's being typed
+  const startNote = () => {
+    const video = videoRef.current;
+    if (!video || noteTime !== null) return;
+    video.pause();
+    setNoteTime(video.currentTime);
+  };
+
+  const resolvedCount = notes.filter((n) => n.is_resolved).length;
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 overflow-hidden">
+      {streamFailed || !file.file_id ? (
+        <a
+          href={file.file_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center justify-center gap-2 aspect-video bg-gray-900 text-white text-sm"
+        >
+          <ExternalLink className="w-4 h-4" />
+          Open in Drive
+        </a>
+      ) : streamUrl ? (
+        <video
+          ref={videoRef}
+          src={streamUrl}
+          controls
+          playsInline
+          preload="metadata"
+          onLoadedMetadata={(e) => setDuration(e.currentTarget.duration)}
+          className="w-full aspect-video bg-black"
+        />
+      ) : (
+        <div className="flex items-center justify-center aspect-video bg-gray-900">
+          <Loader2 className="w-6 h-6 text-white animate-spin" />
+        </div>
+      )}
+
+      {/* Note markers */}
+      {duration > 0 && notes.length > 0 && (
+        <div className="relative h-3 mx-3 mt-2 bg-gray-100 rounded-full">
+          {notes.map((note) => (
+            <button
+              key={note.id}
+              onClick={() => seek(note.timestamp_seconds)}
+              title={`${formatTimecode(note.timestamp_seconds)} — ${note.body}`}
+              className={`absolute top-0 w-1.5 h-3 -ml-0.5 rounded-full ${note.is_resolved ? 'bg-green-500' : 'bg-red-500'}`}
+              style={{ left: `${Math.min(100, (note.timestamp_seconds / duration) * 100)}%` }}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between px-3 pt-2">
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => stepFrame(-1)}
+            className="p-1.5 rounded-lg bg-gray-100 hover:bg-gray-200"
+            title="Previous frame"
+          >
+            <ChevronLeft className="w-4 h-4 text-gray-600" />
+          </button>
+          <button
+            onClick={() => stepFrame(1)}
+            className="p-1.5 rounded-lg bg-gray-100 hover:bg-gray-200"
+            title="Next frame"
+          >
+            <ChevronRight className="w-4 h-4 text-gray-600" />
+          </button>
+        </div>
+        {notes.length > 0 && (
+          <span className="text-xs text-gray-500">
+            {resolvedCount} of {notes.length} resolved
+          </span>
+        )}
+      </div>
+
+      {mode === 'review' && (
+        <div className="px-3 pt-3">
+          <div className="flex items-start gap-2">
+            <span className="shrink-0 mt-2 px-1.5 py-0.5 rounded bg-gray-100 text-[11px] font-mono text-gray-600">
+              {noteTime !== null ? formatTimecode(noteTime) : 'now'}
+            </span>
+            <textarea
+              value={body}
+              onFocus={startNote}
+              onChange={(e) => setBody(e.target.value)}
+              rows={2}
+              placeholder="Note at this frame (e.g. cut is late)"
+              className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-sm resize-none focus:outline-none focus:ring-2 focus:ring-purple-500"
+            />
+          </div>
+          <div className="flex justify-end gap-2 mt-2">
+            {noteTime !== null && (
+              <button
+                onClick={() => { setNoteTime(null); setBody(''); }}
+                className="px-3 py-1.5 text-xs font-medium text-gray-500"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              onClick={() => addMutation.mutate()}
+              disabled={!body.trim() || addMutation.isPending}
+              className="px-3 py-1.5 bg-purple-500 text-white rounded-lg text-xs font-medium disabled:opacity-50 flex items-center gap-1"
+            >
+              {addMutation.isPending ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <MapPin className="w-3.5 h-3.5" />}
+              Add Note
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="p-3 space-y-1.5">
+        {isLoading ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="w-4 h-4 text-gray-400 animate-spin" />
+          </div>
+        ) : notes.length === 0 ? (
+          <p className="text-xs text-gray-400 text-center py-1">
+            {mode === 'review' ? 'Pause on a frame and add a note' : 'No review notes on this video'}
+          </p>
+        ) : (
+          notes.map((note) => (
+            <div key={note.id} className="flex items-start gap-2">
+              {mode === 'checklist' ? (
+                <button
+                  onClick={() => resolveMutation.mutate(note)}
+                  className="mt-0.5 shrink-0"
+                  title={note.is_resolved ? 'Mark as not done' : 'Mark as done'}
+                >
+                  {note.is_resolved
+                    ? <CheckCircle className="w-4 h-4 text-green-600" />
+                    : <Circle className="w-4 h-4 text-gray-300" />}
+                </button>
+              ) : (
+                <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${note.is_resolved ? 'bg-green-500' : 'bg-red-500'}`} />
+              )}
+              <button
+                onClick={() => seek(note.timestamp_seconds)}
+                className="shrink-0 px-1.5 py-0.5 rounded bg-gray-100 text-[11px] font-mono text-purple-600 hover:bg-purple-50"
+              >
+                {formatTimecode(note.timestamp_seconds)}
+              </button>
+              <p className={`flex-1 text-sm ${note.is_resolved ? 'text-gray-400 line-through' : 'text-gray-800'}`}>
+                {note.body}
+              </p>
+              {mode === 'review' && note.author_id === user?.id && (
+                <button
+                  onClick={() => deleteMutation.mutate(note.id)}
+                  className="p-1 shrink-0"
+                  title="Delete note"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-gray-400" />
+                </button>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
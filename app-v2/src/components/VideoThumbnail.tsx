@@ -0,0 +1,38 @@
+import { useState } from 'react';
+import { formatDuration } from '@/lib/videoMetadata';
+
+interface VideoThumbnailProps {
+  src?: string;
+  durationSeconds?: number;
+  /** Shown when there is no thumbnail (older uploads, audio) or it fails to load */
+  fallback: React.ReactNode;
+  className?: string;
+}
+
+/**
+ * 16:9 poster frame with a duration badge, as captured at upload time
+ */
+export default function VideoThumbnail({ src, durationSeconds, fallback, className = '' }: VideoThumbnailProps) {
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className={`relative aspect-video rounded-lg overflow-hidden bg-gray-100 flex items-center justify-center ${className}`}>
+      {src && !failed ? (
+        <img
+          src={src}
+          alt=""
+          loading="lazy"
+          onError={() => setFailed(true)}
+          className="w-full h-full object-cover"
+        />
+      ) : (
+        fallback
+      )}
+      {!!durationSeconds && (
+        <span className="absolute bottom-1 right-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px] font-medium">
+          {formatDuration(durationSeconds)}
+        </span>
+      )}
+    </div>
+  );
+}
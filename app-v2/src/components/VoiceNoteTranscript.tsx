@@ -0,0 +1,35 @@
+import { useState } from 'react';
+
+interface VoiceNoteTranscriptProps {
+  transcript?: string | null;
+  className?: string;
+}
+
+/** Longer transcripts start collapsed to three lines */
+const COLLAPSE_AT = 180;
+
+/**
+ * Text of a voice note, shown under its play button once the backend has
+ * transcribed it. Renders nothing until then.
+ */
+export default function VoiceNoteTranscript({ transcript, className = '' }: VoiceNoteTranscriptProps) {
+  const [expanded, setExpanded] = useState(false);
+  const text = transcript?.trim();
+  if (!text) return null;
+
+  const collapsible = text.length > COLLAPSE_AT;
+
+  return (
+    <div className={`mt-2 ${className}`}>
+      <p className="text-[10px] font-semibold text-gray-400 uppercase">Transcript</p>
+      <p className={`text-sm text-gray-600 italic whitespace-pre-wrap ${collapsible && !expanded ? 'line-clamp-3' : ''}`}>
+        {text}
+      </p>
+      {collapsible && (
+        <button onClick={() => setExpanded(!expanded)} className="text-xs text-gray-500 font-medium mt-0.5">
+          {expanded ? 'Show less' : 'Show more'}
+        </button>
+      )}
+    </div>
+  );
+}
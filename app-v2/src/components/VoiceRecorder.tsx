@@ -1,5 +1,24 @@
-import { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Play, Pause, Trash2 } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo } from 'react';
+import type { PointerEvent as ReactPointerEvent } from 'react';
+import { Mic, Square, Play, Pause, Trash2, Scissors, RotateCcw, Check, Loader2 } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  MAX_VOICE_NOTE_SECONDS,
+  MIN_SELECTION_SECONDS,
+  clampSelection,
+  clipDuration,
+  computePeaks,
+  decodeVoiceNote,
+  encodeVoiceNote,
+  isWholeClip,
+  maxTakeSeconds,
+  recorderOptions,
+  spliceClip,
+  toAudioBuffer,
+  trimClip,
+  type AudioClip,
+  type AudioSelection,
+} from '@/lib/voiceNoteAudio';
 
 interface VoiceRecorderProps {
   label: string;
@@ -7,186 +26,550 @@ interface VoiceRecorderProps {
   value: Blob | null;
   onChange: (blob: Blob | null) => void;
   existingUrl?: string;
+  /** Recording stops by itself once the note is this long */
+  maxSeconds?: number;
+  /**
+   * True while a recording, unsaved edits or a save means `value` isn't the
+   * note the user is looking at yet. Forms should hold off submitting until
+   * it is false again, or the edits are lost.
+   */
+  onPendingChange?: (pending: boolean) => void;
 }
 
+/** What a recording in progress is for: a new note, or a new take of the selection */
+type RecordingTarget = 'note' | 'selection';
+
+const WAVEFORM_BARS = 64;
+const LIVE_BARS = 48;
+const LIMIT_WARNING_SECONDS = 10;
+
+const formatTime = (seconds: number) => {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+/**
+ * Records a voice note with a live level meter, then shows its waveform so
+ * the start and end can be trimmed or a stretch re-recorded. Edits are made
+ * on the decoded audio and only reach `onChange` once saved, re-encoded in
+ * the same compact format the recorder uses. Until then `onPendingChange`
+ * reports true so the form around it can wait.
+ */
 export default function VoiceRecorder({
   label,
   hint,
   value,
   onChange,
   existingUrl,
+  maxSeconds = MAX_VOICE_NOTE_SECONDS,
+  onPendingChange,
 }: VoiceRecorderProps) {
-  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<RecordingTarget | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [recordLimit, setRecordLimit] = useState(maxSeconds);
+  const [liveLevels, setLiveLevels] = useState<number[]>([]);
+  const [clip, setClip] = useState<AudioClip | null>(null);
+  const [selection, setSelection] = useState<AudioSelection>({ start: 0, end: 0 });
+  const [dirty, setDirty] = useState(false);
+  const [encodeProgress, setEncodeProgress] = useState<number | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [duration, setDuration] = useState(0);
-  const [recordedDuration, setRecordedDuration] = useState(0);
+  const [playhead, setPlayhead] = useState<number | null>(null);
 
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
-  const audioChunksRef = useRef<Blob[]>([]);
-  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const meterRef = useRef<{ context: AudioContext; frame: number } | null>(null);
+  const playbackRef = useRef<{ context: AudioContext; source: AudioBufferSourceNode; frame: number } | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const waveformRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<'start' | 'end' | null>(null);
+  // The blob `clip` was decoded from (or saved as), and that clip unedited
+  const sourceBlobRef = useRef<Blob | null>(null);
+  const savedClipRef = useRef<AudioClip | null>(null);
+
+  const duration = clip ? clipDuration(clip) : 0;
+  const peaks = useMemo(() => (clip ? computePeaks(clip.samples, WAVEFORM_BARS) : []), [clip]);
+
+  const loadClip = (next: AudioClip, edited: boolean) => {
+    setClip(next);
+    setSelection({ start: 0, end: clipDuration(next) });
+    setDirty(edited);
+  };
+
+  // Decode whatever blob the parent holds, unless it's the one just saved
+  useEffect(() => {
+    if (!value) {
+      sourceBlobRef.current = null;
+      savedClipRef.current = null;
+      setClip(null);
+      setDirty(false);
+      return;
+    }
+    if (value === sourceBlobRef.current) return;
+
+    let cancelled = false;
+    decodeVoiceNote(value)
+      .then((decoded) => {
+        if (cancelled) return;
+        sourceBlobRef.current = value;
+        savedClipRef.current = decoded;
+        loadClip(decoded, false);
+      })
+      .catch((error) => {
+        // Still playable and uploadable, just without the waveform
+        console.error('Failed to decode voice note:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [value]);
+
+  const pending = recording !== null || dirty || encodeProgress !== null;
+
+  // Also cleared on unmount, so a hidden recorder can't hold its form up
+  useEffect(() => {
+    if (!onPendingChange) return;
+    onPendingChange(pending);
+    return () => onPendingChange(false);
+  }, [pending, onPendingChange]);
 
   useEffect(() => {
     return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-      if (audioRef.current) {
-        audioRef.current.pause();
+      if (timerRef.current) clearInterval(timerRef.current);
+      if (recorderRef.current?.state === 'recording') {
+        recorderRef.current.onstop = null;
+        recorderRef.current.stop();
       }
+      streamRef.current?.getTracks().forEach((track) => track.stop());
+      stopMeter();
+      stopPlayback();
     };
   }, []);
 
-  const startRecording = async () => {
+  // ─── Recording ───────────────────────────────────────────────────────────
+
+  const startMeter = (stream: MediaStream) => {
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 1024;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const data = new Float32Array(analyser.fftSize);
+    let lastSample = 0;
+
+    const tick = (now: number) => {
+      if (now - lastSample > 100) {
+        analyser.getFloatTimeDomainData(data);
+        const rms = Math.sqrt(data.reduce((sum, sample) => sum + sample * sample, 0) / data.length);
+        setLiveLevels((levels) => [...levels.slice(-(LIVE_BARS - 1)), Math.min(1, rms * 4)]);
+        lastSample = now;
+      }
+      if (meterRef.current) meterRef.current.frame = requestAnimationFrame(tick);
+    };
+    meterRef.current = { context, frame: requestAnimationFrame(tick) };
+  };
+
+  function stopMeter() {
+    if (!meterRef.current) return;
+    cancelAnimationFrame(meterRef.current.frame);
+    meterRef.current.context.close().catch(() => {});
+    meterRef.current = null;
+  }
+
+  const stopRecording = () => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop();
+    }
+    setRecording(null);
+  };
+
+  const handleRecorded = async (target: RecordingTarget, blob: Blob, limit: number) => {
+    if (target === 'note') {
+      onChange(blob);
+      return;
+    }
+    if (!clip) return;
+
+    try {
+      const take = await decodeVoiceNote(blob);
+      const capped = clipDuration(take) > limit ? trimClip(take, { start: 0, end: limit }) : take;
+      loadClip(spliceClip(clip, selection, capped), true);
+    } catch (error) {
+      console.error('Failed to decode new take:', error);
+      toast.error('Could not read the new recording');
+    }
+  };
+
+  const startRecording = async (target: RecordingTarget) => {
+    const limit = target === 'note' ? maxSeconds : maxTakeSeconds(duration, selection, maxSeconds);
+    if (limit < 1) {
+      toast.error(`Voice notes can be up to ${formatTime(maxSeconds)} long`);
+      return;
+    }
+    stopPlayback();
+
     try {
       const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
-      audioChunksRef.current = [];
+      const mediaRecorder = new MediaRecorder(stream, recorderOptions());
+      streamRef.current = stream;
+      recorderRef.current = mediaRecorder;
+      chunksRef.current = [];
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
+          chunksRef.current.push(event.data);
         }
       };
 
       mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-        onChange(audioBlob);
-        setRecordedDuration(duration);
         stream.getTracks().forEach((track) => track.stop());
+        stopMeter();
+        const audioBlob = new Blob(chunksRef.current, { type: mediaRecorder.mimeType || 'audio/webm' });
+        handleRecorded(target, audioBlob, limit);
       };
 
       mediaRecorder.start();
-      setIsRecording(true);
-      setDuration(0);
+      startMeter(stream);
+      setRecording(target);
+      setRecordLimit(limit);
+      setElapsed(0);
+      setLiveLevels([]);
 
+      const startedAt = Date.now();
       timerRef.current = setInterval(() => {
-        setDuration((prev) => prev + 1);
-      }, 1000);
+        const seconds = (Date.now() - startedAt) / 1000;
+        setElapsed(seconds);
+        if (seconds >= limit) {
+          stopRecording();
+          toast(`Recording stopped at the ${formatTime(limit)} limit`);
+        }
+      }, 200);
     } catch (error) {
       console.error('Failed to start recording:', error);
     }
   };
 
-  const stopRecording = () => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
+  // ─── Playback ────────────────────────────────────────────────────────────
+
+  function stopPlayback() {
+    const playback = playbackRef.current;
+    if (playback) {
+      cancelAnimationFrame(playback.frame);
+      playback.source.onended = null;
+      try {
+        playback.source.stop();
+      } catch {
+        // Already finished
       }
+      playback.context.close().catch(() => {});
+      playbackRef.current = null;
     }
-  };
+    audioRef.current?.pause();
+    setIsPlaying(false);
+    setPlayhead(null);
+  }
 
   const playRecording = () => {
-    if (value || existingUrl) {
-      const url = value ? URL.createObjectURL(value) : existingUrl!;
-      audioRef.current = new Audio(url);
+    if (!clip) {
+      // Not decoded (or only a remote URL): play the file as is
+      if (value || existingUrl) {
+        const url = value ? URL.createObjectURL(value) : existingUrl!;
+        audioRef.current = new Audio(url);
+        audioRef.current.onended = () => setIsPlaying(false);
+        audioRef.current.play();
+        setIsPlaying(true);
+      }
+      return;
+    }
 
-      audioRef.current.onended = () => {
-        setIsPlaying(false);
-      };
+    // Play just the selection so trims and new takes can be checked before saving
+    const context = new AudioContext();
+    const source = context.createBufferSource();
+    source.buffer = toAudioBuffer(context, clip);
+    source.connect(context.destination);
+    source.onended = () => stopPlayback();
 
-      audioRef.current.play();
-      setIsPlaying(true);
-    }
+    const from = selection.start;
+    const startedAt = context.currentTime;
+    source.start(0, from, selection.end - from);
+
+    const tick = () => {
+      setPlayhead(from + context.currentTime - startedAt);
+      if (playbackRef.current) playbackRef.current.frame = requestAnimationFrame(tick);
+    };
+    playbackRef.current = { context, source, frame: requestAnimationFrame(tick) };
+    setIsPlaying(true);
   };
 
-  const pausePlayback = () => {
-    if (audioRef.current) {
-      audioRef.current.pause();
-      setIsPlaying(false);
-    }
+  // ─── Editing ─────────────────────────────────────────────────────────────
+
+  const timeAt = (clientX: number) => {
+    const rect = waveformRef.current!.getBoundingClientRect();
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
   };
 
-  const deleteRecording = () => {
-    if (audioRef.current) {
-      audioRef.current.pause();
+  const moveHandle = (handle: 'start' | 'end', time: number) => {
+    setSelection((current) =>
+      clampSelection(
+        handle === 'start'
+          ? { start: Math.min(time, current.end - MIN_SELECTION_SECONDS), end: current.end }
+          : { start: current.start, end: Math.max(time, current.start + MIN_SELECTION_SECONDS) },
+        duration,
+      ),
+    );
+  };
+
+  // Grab whichever handle is closer to the pointer
+  const handlePointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (encodeProgress !== null) return;
+    stopPlayback();
+    const time = timeAt(e.clientX);
+    const handle = Math.abs(time - selection.start) <= Math.abs(time - selection.end) ? 'start' : 'end';
+    dragRef.current = handle;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    moveHandle(handle, time);
+  };
+
+  const handlePointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    if (dragRef.current) moveHandle(dragRef.current, timeAt(e.clientX));
+  };
+
+  const trimToSelection = () => {
+    if (!clip) return;
+    stopPlayback();
+    loadClip(trimClip(clip, selection), true);
+  };
+
+  const discardEdits = () => {
+    stopPlayback();
+    if (savedClipRef.current) loadClip(savedClipRef.current, false);
+  };
+
+  const saveEdits = async () => {
+    if (!clip) return;
+    stopPlayback();
+    setEncodeProgress(0);
+    try {
+      const blob = await encodeVoiceNote(clip, setEncodeProgress);
+      sourceBlobRef.current = blob;
+      savedClipRef.current = clip;
+      setDirty(false);
+      onChange(blob);
+    } catch (error) {
+      console.error('Failed to encode voice note:', error);
+      toast.error('Could not save the edited voice note');
+    } finally {
+      setEncodeProgress(null);
     }
-    onChange(null);
-    setRecordedDuration(0);
-    setIsPlaying(false);
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  const deleteRecording = () => {
+    stopPlayback();
+    onChange(null);
+    setClip(null);
+    setDirty(false);
   };
 
-  const hasRecording = value !== null || existingUrl;
+  const hasRecording = value !== null || !!existingUrl;
+  const saving = encodeProgress !== null;
+  const wholeClip = isWholeClip(selection, duration);
+  const remaining = recordLimit - elapsed;
 
   return (
     <div className="space-y-2">
       <label className="block text-sm font-medium text-gray-700">{label}</label>
 
-      <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-xl border border-gray-200">
-        {/* Record/Stop Button */}
-        {!hasRecording && (
-          <button
-            type="button"
-            onClick={isRecording ? stopRecording : startRecording}
-            className={`w-12 h-12 rounded-full flex items-center justify-center transition-colors ${
-              isRecording
-                ? 'bg-red-500 text-white animate-pulse'
-                : 'bg-blue-500 text-white'
-            }`}
-          >
-            {isRecording ? (
-              <Square className="w-5 h-5" fill="white" />
-            ) : (
-              <Mic className="w-5 h-5" />
-            )}
-          </button>
-        )}
+      <div className="p-3 bg-gray-50 rounded-xl border border-gray-200 space-y-3">
+        <div className="flex items-center gap-3">
+          {/* Record/Stop or Play/Pause Button */}
+          {recording || !hasRecording ? (
+            <button
+              type="button"
+              onClick={recording ? stopRecording : () => startRecording('note')}
+              className={`w-12 h-12 rounded-full flex items-center justify-center transition-colors ${
+                recording
+                  ? 'bg-red-500 text-white animate-pulse'
+                  : 'bg-blue-500 text-white'
+              }`}
+            >
+              {recording ? (
+                <Square className="w-5 h-5" fill="white" />
+              ) : (
+                <Mic className="w-5 h-5" />
+              )}
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={isPlaying ? stopPlayback : playRecording}
+              disabled={saving}
+              className="w-12 h-12 rounded-full bg-green-500 text-white flex items-center justify-center disabled:opacity-50"
+            >
+              {isPlaying ? (
+                <Pause className="w-5 h-5" />
+              ) : (
+                <Play className="w-5 h-5 ml-0.5" />
+              )}
+            </button>
+          )}
 
-        {/* Play/Pause Button */}
-        {hasRecording && (
-          <button
-            type="button"
-            onClick={isPlaying ? pausePlayback : playRecording}
-            className="w-12 h-12 rounded-full bg-green-500 text-white flex items-center justify-center"
-          >
-            {isPlaying ? (
-              <Pause className="w-5 h-5" />
+          {/* Info */}
+          <div className="flex-1 min-w-0">
+            {recording ? (
+              <>
+                <p className="text-sm font-medium text-red-600">
+                  {recording === 'note' ? 'Recording...' : 'Re-recording selection...'}
+                </p>
+                <p className={`text-xs ${remaining <= LIMIT_WARNING_SECONDS ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                  {formatTime(elapsed)} / {formatTime(recordLimit)}
+                  {remaining <= LIMIT_WARNING_SECONDS ? ` • Stops in ${Math.ceil(remaining)}s` : ' • Tap to stop'}
+                </p>
+              </>
+            ) : saving ? (
+              <>
+                <p className="text-sm font-medium text-gray-900">Saving edits...</p>
+                <p className="text-xs text-gray-500">{Math.round(encodeProgress * 100)}% • Keep this page open</p>
+              </>
+            ) : hasRecording && dirty ? (
+              <>
+                <p className="text-sm font-medium text-amber-600">Unsaved edits</p>
+                <p className="text-xs text-gray-500">{formatTime(duration)} • Save to use the edited note</p>
+              </>
+            ) : hasRecording ? (
+              <>
+                <p className="text-sm font-medium text-gray-900">Recording saved</p>
+                <p className="text-xs text-gray-500">
+                  {formatTime(clip ? duration : elapsed)} • {clip && !wholeClip ? 'Tap to play selection' : 'Tap to play'}
+                </p>
+              </>
             ) : (
-              <Play className="w-5 h-5 ml-0.5" />
+              <>
+                <p className="text-sm font-medium text-gray-900">Record Voice Note</p>
+                <p className="text-xs text-gray-500">{hint || `Tap to start recording (up to ${formatTime(maxSeconds)})`}</p>
+              </>
             )}
-          </button>
-        )}
+          </div>
 
-        {/* Info */}
-        <div className="flex-1">
-          {isRecording ? (
-            <>
-              <p className="text-sm font-medium text-red-600">Recording...</p>
-              <p className="text-xs text-gray-500">{formatTime(duration)} • Tap to stop</p>
-            </>
-          ) : hasRecording ? (
-            <>
-              <p className="text-sm font-medium text-gray-900">Recording saved</p>
-              <p className="text-xs text-gray-500">
-                {formatTime(recordedDuration || 0)} • Tap to play
-              </p>
-            </>
-          ) : (
-            <>
-              <p className="text-sm font-medium text-gray-900">Record Voice Note</p>
-              <p className="text-xs text-gray-500">{hint || 'Tap to start recording'}</p>
-            </>
+          {/* Delete Button */}
+          {hasRecording && !recording && (
+            <button
+              type="button"
+              onClick={deleteRecording}
+              disabled={saving}
+              className="w-10 h-10 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center hover:bg-red-100 hover:text-red-600 transition-colors disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
           )}
         </div>
 
-        {/* Delete Button */}
-        {hasRecording && !isRecording && (
-          <button
-            type="button"
-            onClick={deleteRecording}
-            className="w-10 h-10 rounded-full bg-gray-200 text-gray-600 flex items-center justify-center hover:bg-red-100 hover:text-red-600 transition-colors"
-          >
-            <Trash2 className="w-4 h-4" />
-          </button>
+        {/* Live level meter */}
+        {recording && (
+          <div className="flex items-center gap-px h-10">
+            {Array.from({ length: LIVE_BARS }, (_, i) => liveLevels[i - (LIVE_BARS - liveLevels.length)] ?? 0).map((level, i) => (
+              <div
+                key={i}
+                className="flex-1 rounded-full bg-red-400"
+                style={{ height: `${Math.max(6, level * 100)}%` }}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* Waveform with trim handles */}
+        {clip && !recording && duration > 0 && (
+          <>
+            <div
+              ref={waveformRef}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => { dragRef.current = null; }}
+              onPointerCancel={() => { dragRef.current = null; }}
+              className="relative h-14 select-none touch-none cursor-ew-resize"
+            >
+              <div className="absolute inset-0 flex items-center gap-px">
+                {peaks.map((peak, i) => {
+                  const time = ((i + 0.5) / peaks.length) * duration;
+                  const selected = time >= selection.start && time <= selection.end;
+                  return (
+                    <div
+                      key={i}
+                      className={`flex-1 rounded-full ${selected ? 'bg-blue-500' : 'bg-gray-300'}`}
+                      style={{ height: `${Math.max(6, peak * 100)}%` }}
+                    />
+                  );
+                })}
+              </div>
+              {(['start', 'end'] as const).map((handle) => (
+                <div
+                  key={handle}
+                  className="absolute top-0 bottom-0 w-1 -ml-0.5 bg-blue-700 rounded-full pointer-events-none"
+                  style={{ left: `${(selection[handle] / duration) * 100}%` }}
+                >
+                  <div className="absolute -top-1 left-1/2 -translate-x-1/2 w-3 h-3 rounded-full bg-blue-700" />
+                </div>
+              ))}
+              {playhead !== null && (
+                <div
+                  className="absolute top-0 bottom-0 w-0.5 bg-green-500 pointer-events-none"
+                  style={{ left: `${(Math.min(playhead, duration) / duration) * 100}%` }}
+                />
+              )}
+            </div>
+
+            <div className="flex items-center justify-between text-[11px] text-gray-500">
+              <span>{formatTime(selection.start)}</span>
+              <span>{wholeClip ? 'Drag the handles to select part of the note' : `${formatTime(selection.end - selection.start)} selected`}</span>
+              <span>{formatTime(selection.end)}</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <button
+                type="button"
+                onClick={trimToSelection}
+                disabled={wholeClip || saving}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-xs font-medium text-gray-700 disabled:opacity-40"
+              >
+                <Scissors className="w-3.5 h-3.5" />
+                Trim
+              </button>
+              <button
+                type="button"
+                onClick={() => startRecording('selection')}
+                disabled={saving}
+                className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-xs font-medium text-gray-700 disabled:opacity-40"
+              >
+                <Mic className="w-3.5 h-3.5" />
+                {wholeClip ? 'Re-record' : 'Re-record selection'}
+              </button>
+              {dirty && (
+                <>
+                  <button
+                    type="button"
+                    onClick={discardEdits}
+                    disabled={saving}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white border border-gray-200 text-xs font-medium text-gray-700 disabled:opacity-40"
+                  >
+                    <RotateCcw className="w-3.5 h-3.5" />
+                    Undo edits
+                  </button>
+                  <button
+                    type="button"
+                    onClick={saveEdits}
+                    disabled={saving}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-blue-500 text-xs font-medium text-white disabled:opacity-60 ml-auto"
+                  >
+                    {saving ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Check className="w-3.5 h-3.5" />}
+                    Save edits
+                  </button>
+                </>
+              )}
+            </div>
+          </>
         )}
       </div>
     </div>
@@ -1,6 +1,7 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { queryKeys } from '@/lib/queryKeys';
+import { ProjectConflictError, InvalidTransitionError } from '@/lib/errors';
 import { videographerService } from '@/services/videographerService';
 import { editorService } from '@/services/editorService';
 import { adminService } from '@/services/adminService';
@@ -39,22 +40,16 @@ export function usePickProject() {
       navigate(`/videographer/project/${analysisId}`);
     },
 
-    onError: (err: any, { analysisId }, ctx) => {
+    onError: (err: any, _args, ctx) => {
+      // Someone else got it first — keep it removed from the list
+      if (err instanceof ProjectConflictError) {
+        toast.error(err.message);
+        return;
+      }
       if (ctx?.prev) {
         qc.setQueryData(queryKeys.videographer.availableProjects(), ctx.prev);
       }
-      const msg = err.message || 'Failed to pick project';
-      toast.error(msg);
-      // If project was already picked by someone else, keep it removed
-      if (msg.includes('already been picked') || msg.includes('no longer available')) {
-        const current = qc.getQueryData<AvailableData>(queryKeys.videographer.availableProjects());
-        if (current?.projects) {
-          qc.setQueryData(queryKeys.videographer.availableProjects(), {
-            ...current,
-            projects: current.projects.filter((p) => p.id !== analysisId),
-          });
-        }
-      }
+      toast.error(err.message || 'Failed to pick project — check your connection and try again');
     },
 
     onSettled: () => {
@@ -169,10 +164,15 @@ export function useEditorPickProject() {
     },
 
     onError: (err: any, _args, ctx) => {
+      // Another editor got it first — keep it removed from the list
+      if (err instanceof ProjectConflictError) {
+        toast.error(err.message);
+        return;
+      }
       if (ctx?.prev) {
         qc.setQueryData(queryKeys.editor.availableProjects(), ctx.prev);
       }
-      toast.error(err.message || 'Failed to pick project');
+      toast.error(err.message || 'Failed to pick project — check your connection and try again');
     },
 
     onSettled: () => {
@@ -244,11 +244,11 @@ export function useAdminApproveEdit() {
       toast.success('Video approved!');
     },
 
-    onError: (_err, _id, ctx) => {
+    onError: (err, _id, ctx) => {
       if (ctx?.prev) {
         qc.setQueryData(queryKeys.admin.editReview(), ctx.prev);
       }
-      toast.error('Failed to approve video');
+      toast.error(err instanceof InvalidTransitionError ? err.message : 'Failed to approve video');
     },
 
     onSettled: () => {
@@ -281,11 +281,11 @@ export function useAdminRejectEdit() {
       toast.success('Video rejected');
     },
 
-    onError: (_err, _args, ctx) => {
+    onError: (err, _args, ctx) => {
       if (ctx?.prev) {
         qc.setQueryData(queryKeys.admin.editReview(), ctx.prev);
       }
-      toast.error('Failed to reject video');
+      toast.error(err instanceof InvalidTransitionError ? err.message : 'Failed to reject video');
     },
 
     onSettled: () => {
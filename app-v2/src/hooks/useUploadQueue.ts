@@ -0,0 +1,27 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { uploadQueueService, type QueuedUpload } from '@/services/uploadQueueService';
+
+/**
+ * Live view of the persistent upload queue. Pass an analysisId to only get
+ * that project's uploads, and onComplete to react when one of them finishes.
+ */
+export function useUploadQueue(options: {
+  analysisId?: string;
+  onComplete?: (item: QueuedUpload) => void;
+} = {}): QueuedUpload[] {
+  const { analysisId, onComplete } = options;
+  const items = useSyncExternalStore(uploadQueueService.subscribe, uploadQueueService.getItems);
+
+  useEffect(() => {
+    uploadQueueService.init();
+  }, []);
+
+  useEffect(() => {
+    if (!onComplete) return;
+    return uploadQueueService.onUploadComplete((item) => {
+      if (!analysisId || item.analysisId === analysisId) onComplete(item);
+    });
+  }, [analysisId, onComplete]);
+
+  return analysisId ? items.filter((item) => item.analysisId === analysisId) : items;
+}
@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/lib/queryKeys';
+import { videoReviewService } from '@/services/videoReviewService';
+
+/**
+ * Signed URL a <video> element can stream a Drive file from
+ * @param driveFileId - production_files.file_id
+ */
+export function useVideoStreamUrl(driveFileId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.videoReview.streamUrl(driveFileId || ''),
+    queryFn: () => videoReviewService.getStreamUrl(driveFileId!),
+    enabled: !!driveFileId,
+    // Signed URLs last 4 hours on the backend
+    staleTime: 60 * 60 * 1000,
+  });
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import { describeUrgency, planAssignments, rankCandidates, sortByUrgency } from '../autoAssign';
+import type { AssignableProject, AssignmentCandidate } from '../autoAssign';
+
+function project(id: string, overrides: Partial<AssignableProject> = {}): AssignableProject {
+  return { id, title: id, priority: 'NORMAL', created_at: '2026-10-01T00:00:00Z', ...overrides };
+}
+
+function candidate(userId: string, overrides: Partial<AssignmentCandidate> = {}): AssignmentCandidate {
+  return { userId, name: userId, activeCount: 0, skippedIds: new Set(), profileCounts: {}, ...overrides };
+}
+
+describe('autoAssign', () => {
+  describe('sortByUrgency', () => {
+    it('should order by priority, then deadline, then age', () => {
+      const sorted = sortByUrgency([
+        project('old-normal', { created_at: '2026-09-01T00:00:00Z' }),
+        project('new-normal', { created_at: '2026-10-10T00:00:00Z' }),
+        project('due-later', { deadline: '2026-11-01' }),
+        project('due-soon', { deadline: '2026-10-20' }),
+        project('urgent', { priority: 'URGENT' }),
+        project('low', { priority: 'LOW' }),
+      ]);
+
+      expect(sorted.map((p) => p.id)).toEqual(['urgent', 'due-soon', 'due-later', 'old-normal', 'new-normal', 'low']);
+    });
+  });
+
+  describe('rankCandidates', () => {
+    it('should prefer the lightest load', () => {
+      const ranked = rankCandidates(project('p1'), [candidate('busy', { activeCount: 2 }), candidate('free')], 3);
+
+      expect(ranked.map((r) => r.candidate.userId)).toEqual(['free', 'busy']);
+      expect(ranked[0].reasons).toEqual(['0 active projects (lightest load)']);
+    });
+
+    it('should leave out people who skipped the project or are at the limit', () => {
+      const ranked = rankCandidates(project('p1'), [
+        candidate('skipper', { skippedIds: new Set(['p1']) }),
+        candidate('full', { activeCount: 3 }),
+        candidate('ok', { activeCount: 1 }),
+      ], 3);
+
+      expect(ranked.map((r) => r.candidate.userId)).toEqual(['ok']);
+    });
+
+    it('should let profile familiarity win between equal loads', () => {
+      const ranked = rankCandidates(project('p1', { profile_id: 'brand' }), [
+        candidate('anya', { activeCount: 1 }),
+        candidate('zoe', { activeCount: 1, profileCounts: { brand: 2 } }),
+      ], 3);
+
+      expect(ranked[0].candidate.userId).toBe('zoe');
+      expect(ranked[0].reasons).toContain('2 earlier projects for this profile');
+    });
+
+    it('should not let familiarity outweigh a lighter load', () => {
+      const ranked = rankCandidates(project('p1', { profile_id: 'brand' }), [
+        candidate('regular', { activeCount: 2, profileCounts: { brand: 10 } }),
+        candidate('free', { activeCount: 0 }),
+      ], 3);
+
+      expect(ranked[0].candidate.userId).toBe('free');
+    });
+  });
+
+  describe('describeUrgency', () => {
+    it('should mention high priorities and deadlines only', () => {
+      expect(describeUrgency(project('p', { priority: 'URGENT', deadline: '2026-10-20T00:00:00Z' })))
+        .toBe('Urgent priority, due 2026-10-20');
+      expect(describeUrgency(project('p'))).toBeNull();
+    });
+  });
+
+  describe('planAssignments', () => {
+    it('should spread projects by counting each assignment against the load', () => {
+      const proposals = planAssignments(
+        [project('a'), project('b'), project('c')],
+        [candidate('anya'), candidate('ravi')],
+        3,
+      );
+
+      expect(proposals.map((p) => [p.project.id, p.userId])).toEqual([
+        ['a', 'anya'],
+        ['b', 'ravi'],
+        ['c', 'anya'],
+      ]);
+    });
+
+    it('should hand the urgent project out first and explain why', () => {
+      const proposals = planAssignments(
+        [project('normal'), project('urgent', { priority: 'URGENT' })],
+        [candidate('anya', { activeCount: 1 })],
+        2,
+      );
+
+      expect(proposals).toHaveLength(1);
+      expect(proposals[0].project.id).toBe('urgent');
+      expect(proposals[0].reasons[0]).toBe('Urgent priority');
+    });
+
+    it('should leave projects nobody can take', () => {
+      const proposals = planAssignments(
+        [project('p1')],
+        [candidate('anya', { skippedIds: new Set(['p1']) })],
+        3,
+      );
+
+      expect(proposals).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { describeBulkResult, fillFeedbackTemplate, runBulk } from '../bulkActions';
+
+describe('bulkActions', () => {
+  it('should keep going after a failure and report each item', async () => {
+    const seen: string[] = [];
+    const result = await runBulk(
+      [{ id: 'a', title: 'First' }, { id: 'b', title: null }, { id: 'c', title: 'Third' }],
+      async (item) => {
+        seen.push(item.id);
+        if (item.id === 'b') throw new Error('Analysis is not pending');
+      },
+    );
+
+    expect(seen).toEqual(['a', 'b', 'c']);
+    expect(result.succeeded.map((i) => i.id)).toEqual(['a', 'c']);
+    expect(result.failed).toEqual([{ id: 'b', title: 'Untitled', error: 'Analysis is not pending' }]);
+  });
+
+  it('should fill title and writer, falling back to the email prefix', () => {
+    const template = 'Hi {writer}, "{title}" needs work';
+
+    expect(fillFeedbackTemplate(template, { title: 'Desk hack', full_name: 'Asha Rao' }))
+      .toBe('Hi Asha, "Desk hack" needs work');
+    expect(fillFeedbackTemplate(template, { title: null, full_name: null, email: 'sam@test.com' }))
+      .toBe('Hi sam, "your script" needs work');
+    expect(fillFeedbackTemplate(template, {})).toBe('Hi there, "your script" needs work');
+  });
+
+  it('should describe full and partial runs', () => {
+    const ok = { succeeded: [{ id: 'a' }, { id: 'b' }], failed: [] };
+    const partial = { succeeded: [{ id: 'a' }], failed: [{ id: 'b', title: 'B', error: 'x' }] };
+
+    expect(describeBulkResult(ok, 'Approved', 'script')).toBe('Approved 2 scripts');
+    expect(describeBulkResult(partial, 'Updated')).toBe('Updated 1 of 2 projects');
+    expect(describeBulkResult({ succeeded: [{ id: 'a' }], failed: [] }, 'Updated')).toBe('Updated 1 project');
+  });
+});
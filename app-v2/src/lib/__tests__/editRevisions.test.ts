@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { groupRevisions, revisionLabel } from '../editRevisions';
+import type { ProductionFile } from '../../types';
+
+type RevisionFixture = Pick<ProductionFile, 'id' | 'file_type' | 'is_deleted' | 'created_at' | 'revision_number' | 'revision_rejection_reason'>;
+
+function file(id: string, overrides: Partial<RevisionFixture> = {}): RevisionFixture {
+  return {
+    id,
+    file_type: 'EDITED_VIDEO',
+    is_deleted: false,
+    created_at: '2026-10-01T10:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('editRevisions', () => {
+  it('should group files by revision number, newest first', () => {
+    const revisions = groupRevisions([
+      file('f1', { revision_number: 1, created_at: '2026-10-01T10:00:00Z' }),
+      file('f2', { revision_number: 2, created_at: '2026-10-02T10:00:00Z' }),
+      file('f3', { revision_number: 2, file_type: 'FINAL_VIDEO', created_at: '2026-10-02T10:05:00Z' }),
+    ]);
+
+    expect(revisions.map((r) => r.number)).toEqual([2, 1]);
+    expect(revisions[0].files.map((f) => f.id)).toEqual(['f2', 'f3']);
+  });
+
+  it('should carry the rejection reason of a revision', () => {
+    const revisions = groupRevisions([
+      file('f1', { revision_number: 1, revision_rejection_reason: 'Audio out of sync' }),
+      file('f2', { revision_number: 2, created_at: '2026-10-02T10:00:00Z' }),
+    ]);
+
+    expect(revisions[0].rejectionReason).toBeUndefined();
+    expect(revisions[1].rejectionReason).toBe('Audio out of sync');
+  });
+
+  it('should number unnumbered files in upload order', () => {
+    const revisions = groupRevisions([
+      file('late', { created_at: '2026-10-03T10:00:00Z' }),
+      file('early', { created_at: '2026-10-01T10:00:00Z' }),
+    ]);
+
+    expect(revisions.map((r) => [r.number, r.files[0].id])).toEqual([[2, 'late'], [1, 'early']]);
+  });
+
+  it('should ignore raw footage and deleted edits', () => {
+    const revisions = groupRevisions([
+      file('raw', { file_type: 'RAW_FOOTAGE' }),
+      file('gone', { revision_number: 1, is_deleted: true }),
+      file('kept', { revision_number: 2 }),
+    ]);
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].files[0].id).toBe('kept');
+  });
+
+  it('should label revisions as vN', () => {
+    expect(revisionLabel(3)).toBe('v3');
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { BOARD_COLUMNS, groupByColumn, planDrop } from '../productionBoard';
+
+describe('productionBoard', () => {
+  it('should group projects into columns, normalizing legacy and missing stages', () => {
+    const columns = groupByColumn([
+      { id: 'a', production_stage: 'SHOOTING' },
+      { id: 'b', production_stage: 'PRE_PRODUCTION' },
+      { id: 'c', production_stage: null },
+      { id: 'd', production_stage: 'SHOOT_REVIEW' },
+    ]);
+
+    expect(Object.keys(columns)).toEqual(BOARD_COLUMNS);
+    expect(columns.PLANNING.map((p) => p.id)).toEqual(['b', 'c']);
+    expect(columns.SHOOTING.map((p) => p.id)).toEqual(['a']);
+    expect(columns.READY_FOR_EDIT.map((p) => p.id)).toEqual(['d']);
+    expect(columns.POSTED).toEqual([]);
+  });
+
+  it('should do nothing when a card is dropped on its own column', () => {
+    expect(planDrop('PLANNED', 'PLANNING')).toEqual({ type: 'none' });
+  });
+
+  it('should reject moves the transition table does not allow', () => {
+    expect(planDrop('PLANNING', 'EDITING')).toEqual({
+      type: 'invalid',
+      message: 'Cannot move a project from Planning to Editing',
+    });
+    expect(planDrop('READY_TO_POST', 'SHOOTING').type).toBe('invalid');
+  });
+
+  it('should ask for an assignee on picks', () => {
+    expect(planDrop('PLANNING', 'SHOOTING')).toEqual({ type: 'assign', role: 'VIDEOGRAPHER' });
+    expect(planDrop('READY_FOR_EDIT', 'EDITING')).toEqual({ type: 'assign', role: 'EDITOR' });
+  });
+
+  it('should ask for a reason when sending an edit back and a URL when posting', () => {
+    expect(planDrop('EDIT_REVIEW', 'EDITING')).toEqual({ type: 'reason' });
+    expect(planDrop('READY_TO_POST', 'POSTED')).toEqual({ type: 'posted_url' });
+  });
+
+  it('should move straight through for the remaining steps', () => {
+    expect(planDrop('SHOOTING', 'READY_FOR_EDIT')).toEqual({ type: 'move' });
+    expect(planDrop('EDITING', 'EDIT_REVIEW')).toEqual({ type: 'move' });
+    expect(planDrop('EDIT_REVIEW', 'READY_TO_POST')).toEqual({ type: 'move' });
+  });
+});
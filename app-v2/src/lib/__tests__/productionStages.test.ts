@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertTransition,
+  checkTransition,
+  getMissingShootFileTypes,
+  getNextStages,
+  normalizeStage,
+} from '../productionStages';
+import { InvalidTransitionError } from '../errors';
+
+describe('productionStages', () => {
+  // ========================================
+  // normalizeStage
+  // ========================================
+  describe('normalizeStage', () => {
+    it('should treat null and legacy planning stages as PLANNING', () => {
+      expect(normalizeStage(null)).toBe('PLANNING');
+      expect(normalizeStage('NOT_STARTED')).toBe('PLANNING');
+      expect(normalizeStage('PRE_PRODUCTION')).toBe('PLANNING');
+      expect(normalizeStage('PLANNED')).toBe('PLANNING');
+    });
+
+    it('should map legacy review stages onto the V2 pipeline', () => {
+      expect(normalizeStage('SHOOT_REVIEW')).toBe('READY_FOR_EDIT');
+      expect(normalizeStage('FINAL_REVIEW')).toBe('READY_TO_POST');
+    });
+
+    it('should leave V2 stages unchanged', () => {
+      expect(normalizeStage('EDIT_REVIEW')).toBe('EDIT_REVIEW');
+    });
+  });
+
+  // ========================================
+  // checkTransition
+  // ========================================
+  describe('checkTransition', () => {
+    it('should allow a videographer to complete a shoot with raw footage', () => {
+      expect(checkTransition('SHOOTING', 'READY_FOR_EDIT', 'VIDEOGRAPHER', { rawFileCount: 1 })).toBeNull();
+    });
+
+    it('should require raw footage before leaving SHOOTING', () => {
+      expect(checkTransition('SHOOTING', 'READY_FOR_EDIT', 'VIDEOGRAPHER', { rawFileCount: 0 }))
+        .toBe('Please upload at least one file before marking as complete');
+    });
+
+    it('should list the missing footage types when completing a shoot', () => {
+      expect(checkTransition('SHOOTING', 'READY_FOR_EDIT', 'VIDEOGRAPHER', { rawFileCount: 1, missingFileTypes: ['BODY', 'CTA'] }))
+        .toBe('Missing footage: Body, CTA. Upload A-Roll or a clip for each part of the script before marking as complete');
+    });
+
+    it('should block completing a shoot while footage is rejected', () => {
+      expect(checkTransition('SHOOTING', 'READY_FOR_EDIT', 'VIDEOGRAPHER', { rawFileCount: 2, rejectedRawFileCount: 1 }))
+        .toMatch(/^Some footage was rejected/);
+    });
+
+    it('should reject transitions that are not in the table', () => {
+      expect(checkTransition('PLANNING', 'POSTED', 'ADMIN')).toMatch(/^Cannot move a project from/);
+    });
+
+    it('should reject actors not listed for the transition', () => {
+      expect(checkTransition('EDIT_REVIEW', 'READY_TO_POST', 'EDITOR')).toMatch(/^Only an admin can move/);
+    });
+
+    it('should require a non-blank reason to send a cut back to editing', () => {
+      expect(checkTransition('EDIT_REVIEW', 'EDITING', 'ADMIN', { reason: '   ' })).toBe('Rejection reason is required');
+      expect(checkTransition('EDIT_REVIEW', 'EDITING', 'ADMIN', { reason: 'Audio is out of sync' })).toBeNull();
+    });
+
+    it('should accept legacy stage values as the source stage', () => {
+      expect(checkTransition('PRE_PRODUCTION', 'SHOOTING', 'VIDEOGRAPHER')).toBeNull();
+    });
+  });
+
+  // ========================================
+  // assertTransition
+  // ========================================
+  describe('assertTransition', () => {
+    it('should return the matching transition when allowed', () => {
+      const transition = assertTransition('READY_TO_POST', 'POSTED', 'POSTING_MANAGER', {
+        postedUrl: 'https://instagram.com/reel/1',
+      });
+      expect(transition.requires).toEqual(['POSTED_URL']);
+    });
+
+    it('should throw InvalidTransitionError with the normalized stages', () => {
+      try {
+        assertTransition('FINAL_REVIEW', 'EDITING', 'ADMIN', { reason: 'x' });
+        expect.unreachable();
+      } catch (err) {
+        expect(err).toBeInstanceOf(InvalidTransitionError);
+        expect((err as InvalidTransitionError).from).toBe('READY_TO_POST');
+        expect((err as InvalidTransitionError).to).toBe('EDITING');
+      }
+    });
+  });
+
+  // ========================================
+  // getMissingShootFileTypes
+  // ========================================
+  describe('getMissingShootFileTypes', () => {
+    it('should need nothing more once there is usable A-Roll', () => {
+      expect(getMissingShootFileTypes([{ file_type: 'A_ROLL', approval_status: 'pending' }], ['HOOK', 'BODY'])).toEqual([]);
+      expect(getMissingShootFileTypes([{ file_type: 'raw-footage' }], [])).toEqual([]);
+    });
+
+    it('should otherwise need a clip for each scripted section', () => {
+      const files = [
+        { file_type: 'HOOK', approval_status: 'approved' },
+        { file_type: 'BODY', approval_status: 'rejected' },
+        { file_type: 'B_ROLL', approval_status: null },
+      ];
+      expect(getMissingShootFileTypes(files, ['HOOK', 'BODY', 'CTA'])).toEqual(['BODY', 'CTA']);
+    });
+
+    it('should need A-Roll when the script has no sections and rejected A-Roll does not count', () => {
+      expect(getMissingShootFileTypes([{ file_type: 'A_ROLL', approval_status: 'rejected' }], [])).toEqual(['A_ROLL']);
+    });
+  });
+
+  // ========================================
+  // getNextStages
+  // ========================================
+  describe('getNextStages', () => {
+    it('should list both outcomes of edit review for an admin', () => {
+      expect(getNextStages('EDIT_REVIEW', 'ADMIN')).toEqual(['READY_TO_POST', 'EDITING']);
+    });
+
+    it('should list nothing an editor can do from EDIT_REVIEW', () => {
+      expect(getNextStages('EDIT_REVIEW', 'EDITOR')).toEqual([]);
+    });
+  });
+});
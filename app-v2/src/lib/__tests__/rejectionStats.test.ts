@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { rejectionStats } from '../rejectionStats';
+
+describe('rejectionStats', () => {
+  it('should count reasons overall and per writer, most frequent first', () => {
+    const stats = rejectionStats([
+      { rejection_reasons: ['WEAK_HOOK', 'OFF_BRAND'], writerId: 'w1', writerName: 'Asha' },
+      { rejection_reasons: ['WEAK_HOOK'], writerId: 'w1', writerName: 'Asha' },
+      { rejection_reasons: ['DUPLICATE', 'DUPLICATE'], writerId: 'w2', writerName: 'Sam' },
+      { rejection_reasons: [], writerId: 'w2', writerName: 'Sam' },
+      { rejection_reasons: ['WEAK_HOOK'], writerId: 'w3', writerName: 'Lee' },
+    ]);
+
+    expect(stats.overall).toEqual([
+      { code: 'WEAK_HOOK', count: 3 },
+      { code: 'DUPLICATE', count: 1 },
+      { code: 'OFF_BRAND', count: 1 },
+    ]);
+    expect(stats.byWriter.map((w) => [w.name, w.rejections])).toEqual([['Asha', 2], ['Sam', 2], ['Lee', 1]]);
+    expect(stats.byWriter[0].reasons[0]).toEqual({ code: 'WEAK_HOOK', count: 2 });
+    expect(stats.byWriter[1].reasons).toEqual([{ code: 'DUPLICATE', count: 1 }]);
+  });
+});
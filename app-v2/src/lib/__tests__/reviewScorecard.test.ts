@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeOverallScore,
+  predictScores,
+  scoreBucket,
+  sortByPredictedScore,
+  writerScoreDistributions,
+} from '../reviewScorecard';
+
+const criteria = [
+  { key: 'hook_strength', weight: 2, is_active: true },
+  { key: 'content_quality', weight: 1, is_active: true },
+  { key: 'retired', weight: 5, is_active: false },
+];
+
+describe('reviewScorecard', () => {
+  it('should weight scores over the active criteria', () => {
+    expect(computeOverallScore({ hook_strength: 9, content_quality: 6, retired: 1 }, criteria)).toBe(8);
+    expect(computeOverallScore({ content_quality: 7 }, criteria)).toBe(7);
+    expect(computeOverallScore({}, criteria)).toBeNull();
+  });
+
+  it('should fall back to a plain average without criteria or weights', () => {
+    expect(computeOverallScore({ a: 8, b: 7, c: 9, d: 6 }, [])).toBe(7.5);
+    expect(computeOverallScore(
+      { hook_strength: 4, content_quality: 8 },
+      [{ key: 'hook_strength', weight: 0, is_active: true }, { key: 'content_quality', weight: 0, is_active: true }],
+    )).toBe(6);
+  });
+
+  it('should bucket scores like the rating buttons', () => {
+    expect([0, 2, 2.5, 6, 7.5, 10].map(scoreBucket)).toEqual([0, 0, 1, 2, 3, 4]);
+  });
+
+  it('should group scores per writer, best average first', () => {
+    const writers = writerScoreDistributions([
+      { user_id: 'w1', overall_score: 6, full_name: 'Asha Rao' },
+      { user_id: 'w2', overall_score: 9, email: 'sam@test.com' },
+      { user_id: 'w1', overall_score: 7, full_name: 'Asha Rao' },
+    ]);
+
+    expect(writers.map((w) => w.name)).toEqual(['sam@test.com', 'Asha Rao']);
+    expect(writers[1]).toMatchObject({ writerId: 'w1', count: 2, average: 6.5, buckets: [0, 0, 1, 1, 0] });
+  });
+
+  it('should pull predictions for writers with little history towards the team average', () => {
+    const history = [
+      { user_id: 'w1', overall_score: 9 },
+      { user_id: 'w1', overall_score: 9 },
+      { user_id: 'w1', overall_score: 9 },
+      { user_id: 'w2', overall_score: 5 },
+    ];
+    const predictions = predictScores(
+      [{ id: 'p1', user_id: 'w1' }, { id: 'p2', user_id: 'w2' }, { id: 'p3', user_id: 'new' }],
+      history,
+    );
+
+    // team average 8; w1 (27 + 24) / 6, w2 (5 + 24) / 4
+    expect(predictions.get('p1')).toEqual({ score: 8.5, basedOn: 3 });
+    expect(predictions.get('p2')).toEqual({ score: 7.3, basedOn: 1 });
+    expect(predictions.get('p3')).toEqual({ score: 8, basedOn: 0 });
+    expect(predictScores([{ id: 'p1', user_id: 'w1' }], []).size).toBe(0);
+  });
+
+  it('should sort by predicted score and keep unpredicted scripts last in order', () => {
+    const predictions = new Map([
+      ['b', { score: 6, basedOn: 1 }],
+      ['c', { score: 8, basedOn: 2 }],
+    ]);
+
+    expect(sortByPredictedScore([{ id: 'a' }, { id: 'b' }, { id: 'c' }, { id: 'd' }], predictions).map((i) => i.id))
+      .toEqual(['c', 'b', 'a', 'd']);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { changedFields, takeSnapshot } from '../scriptSnapshot';
+
+describe('scriptSnapshot', () => {
+  it('should keep only the snapshot fields, filling missing ones with null', () => {
+    const snapshot = takeSnapshot({ id: 'a1', title: 'Desk hack', hook: 'Wait for it', status: 'REJECTED' });
+
+    expect(snapshot).toEqual({
+      title: 'Desk hack',
+      reference_url: null,
+      hook: 'Wait for it',
+      script_body: null,
+      script_cta: null,
+      why_viral: null,
+      target_emotion: null,
+      production_notes: null,
+    });
+  });
+
+  it('should list changed fields in order, ignoring blank vs missing and outer whitespace', () => {
+    const changes = changedFields(
+      { title: 'Desk hack', hook: 'Old hook', script_cta: null },
+      { title: 'Desk hack ', hook: 'New hook', script_cta: '', script_body: 'Body' },
+    );
+
+    expect(changes).toEqual([
+      { key: 'hook', label: 'Hook', before: 'Old hook', after: 'New hook' },
+      { key: 'script_body', label: 'Script', before: '', after: 'Body' },
+    ]);
+  });
+});
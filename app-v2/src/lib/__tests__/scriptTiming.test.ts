@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { countWords, estimateScriptTiming, formatDuration, getLanguage } from '../scriptTiming';
+
+const words = (n: number) => Array.from({ length: n }, () => 'word').join(' ');
+
+describe('scriptTiming', () => {
+  it('should count words across lines and extra spaces', () => {
+    expect(countWords('  Stop   scrolling\nright now ')).toBe(4);
+    expect(countWords('')).toBe(0);
+    expect(countWords(null)).toBe(0);
+  });
+
+  it('should time each section at the language speaking rate', () => {
+    const timing = estimateScriptTiming({ hook: words(15), body: words(130), cta: '' }, 'hi');
+
+    expect(timing.sections).toEqual([
+      { key: 'hook', words: 15, seconds: 7 },
+      { key: 'body', words: 130, seconds: 60 },
+      { key: 'cta', words: 0, seconds: 0 },
+    ]);
+    expect(timing.words).toBe(145);
+    expect(timing.seconds).toBe(67);
+    expect(timing.targetSeconds).toBeNull();
+    expect(timing.overBy).toBe(0);
+  });
+
+  it('should report how far a script runs over the platform target', () => {
+    const reel = estimateScriptTiming({ body: words(200) }, 'en', 'instagram_reel');
+    expect(reel.seconds).toBe(80);
+    expect(reel.targetSeconds).toBe(60);
+    expect(reel.overBy).toBe(20);
+
+    const longForm = estimateScriptTiming({ body: words(200) }, 'en', 'youtube_long');
+    expect(longForm.overBy).toBe(0);
+  });
+
+  it('should fall back to English for unknown languages and format durations', () => {
+    expect(getLanguage('xx').code).toBe('en');
+    expect(getLanguage(undefined).wordsPerMinute).toBe(150);
+    expect(formatDuration(75)).toBe('1:15');
+    expect(formatDuration(5)).toBe('0:05');
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { aggregateCast, findShootDayConflicts, formatShootWindow, shootDaysOverlap, toDateKey } from '../shootDays';
+
+describe('shootDays', () => {
+  describe('aggregateCast', () => {
+    it('should add up counts and count the owner once', () => {
+      const cast = aggregateCast([
+        { woman: 2, man: 1, include_owner: true },
+        { woman: 1, girl: 1, include_owner: true },
+        null,
+      ]);
+
+      expect(cast).toMatchObject({ woman: 3, man: 1, girl: 1, include_owner: true, total: 6 });
+    });
+
+    it('should return an empty cast for no projects', () => {
+      expect(aggregateCast([]).total).toBe(0);
+    });
+  });
+
+  describe('shootDaysOverlap', () => {
+    it('should only compare days on the same date', () => {
+      expect(shootDaysOverlap(
+        { shoot_date: '2026-10-20', start_time: '09:00', end_time: '12:00' },
+        { shoot_date: '2026-10-21', start_time: '09:00', end_time: '12:00' },
+      )).toBe(false);
+    });
+
+    it('should treat back-to-back windows as not overlapping', () => {
+      expect(shootDaysOverlap(
+        { shoot_date: '2026-10-20', start_time: '09:00', end_time: '12:00' },
+        { shoot_date: '2026-10-20', start_time: '12:00:00', end_time: '15:00:00' },
+      )).toBe(false);
+      expect(shootDaysOverlap(
+        { shoot_date: '2026-10-20', start_time: '09:00', end_time: '12:30' },
+        { shoot_date: '2026-10-20', start_time: '12:00', end_time: '15:00' },
+      )).toBe(true);
+    });
+
+    it('should treat a day without times as the whole day', () => {
+      expect(shootDaysOverlap(
+        { shoot_date: '2026-10-20' },
+        { shoot_date: '2026-10-20', start_time: '18:00', end_time: '19:00' },
+      )).toBe(true);
+    });
+  });
+
+  it('should skip the day being edited when finding conflicts', () => {
+    const days = [
+      { id: 'd1', shoot_date: '2026-10-20', start_time: '09:00', end_time: '12:00' },
+      { id: 'd2', shoot_date: '2026-10-20', start_time: '11:00', end_time: '13:00' },
+    ];
+
+    expect(findShootDayConflicts(days[0], days).map((d) => d.id)).toEqual(['d2']);
+    expect(findShootDayConflicts({ shoot_date: '2026-10-20', start_time: '14:00' }, days)).toEqual([]);
+  });
+
+  it('should format the time window', () => {
+    expect(formatShootWindow({ start_time: '09:00:00', end_time: '13:30:00' })).toBe('09:00–13:30');
+    expect(formatShootWindow({ start_time: '09:00' })).toBe('from 09:00');
+    expect(formatShootWindow({})).toBe('All day');
+  });
+
+  it('should key dates by local calendar day', () => {
+    expect(toDateKey(new Date(2026, 0, 5, 23, 30))).toBe('2026-01-05');
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { attachmentsByItem, buildShotList, shotListProgress } from '../shotList';
+import { DEFAULT_CAST_COMPOSITION } from '../../types';
+
+describe('shotList', () => {
+  describe('buildShotList', () => {
+    it('should add one item per script section that has text', () => {
+      const items = buildShotList({ hook: 'Stop scrolling', script_body: '  ', script_cta: 'Follow for more' });
+
+      expect(items.map((i) => i.key)).toEqual(['section:HOOK', 'section:CTA']);
+      expect(items[0]).toMatchObject({ kind: 'section', label: 'Hook', detail: 'Stop scrolling', section: 'HOOK' });
+    });
+
+    it('should add one item per cast member, numbering repeats', () => {
+      const items = buildShotList({
+        cast_composition: { ...DEFAULT_CAST_COMPOSITION, woman: 2, boy: 1, include_owner: true, total: 3 },
+      });
+
+      expect(items.map((i) => [i.key, i.label])).toEqual([
+        ['cast:owner', 'Owner'],
+        ['cast:woman:1', 'Woman 1'],
+        ['cast:woman:2', 'Woman 2'],
+        ['cast:boy:1', 'Boy'],
+      ]);
+    });
+
+    it('should return an empty list when there is no script or cast', () => {
+      expect(buildShotList({})).toEqual([]);
+    });
+  });
+
+  describe('progress', () => {
+    const items = buildShotList({ hook: 'Hook', script_body: 'Body', script_cta: 'CTA' });
+
+    it('should count items with at least one live file attached', () => {
+      const byItem = attachmentsByItem(
+        [
+          { item_key: 'section:HOOK', file_id: 'f1' },
+          { item_key: 'section:HOOK', file_id: 'f2' },
+          { item_key: 'section:BODY', file_id: 'f3' },
+        ],
+        [
+          { id: 'f1', is_deleted: false },
+          { id: 'f2', is_deleted: false },
+          { id: 'f3', is_deleted: false },
+        ],
+      );
+
+      expect(byItem.get('section:HOOK')).toEqual(['f1', 'f2']);
+      expect(shotListProgress(items, byItem)).toEqual({ done: 2, total: 3 });
+    });
+
+    it('should not count files that were deleted after being attached', () => {
+      const byItem = attachmentsByItem(
+        [{ item_key: 'section:HOOK', file_id: 'f1' }],
+        [{ id: 'f1', is_deleted: true }],
+      );
+
+      expect(shotListProgress(items, byItem)).toEqual({ done: 0, total: 3 });
+    });
+  });
+});
@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { smartSearch } from '../smartSearch';
+import type { ViralAnalysis } from '@/types';
+
+const analysis = (overrides: Partial<ViralAnalysis>) => ({ id: 'a1', title: 'Untitled', ...overrides }) as ViralAnalysis;
+
+describe('smartSearch', () => {
+  it('should match voice note transcripts and use them for the snippet', () => {
+    const results = smartSearch('rooftop', [
+      analysis({ id: 'a1', hook_voice_note_transcript: 'Open on the rooftop at sunset, then cut to the crowd' }),
+      analysis({ id: 'a2', hook: 'Nothing to see here' }),
+    ]);
+
+    expect(results.map((r) => r.id)).toEqual(['a1']);
+    expect(results[0].matchedFields).toEqual(['voice notes']);
+    expect(results[0].snippet).toContain('rooftop');
+  });
+
+  it('should match review feedback transcripts', () => {
+    const results = smartSearch('pacing', [
+      analysis({ feedback_voice_note_transcript: 'The pacing drags in the middle' }),
+    ]);
+
+    expect(results[0].matchedFields).toEqual(['voice feedback']);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { formatHours, getSlaStatus, hoursInStage, overdueProjects, slaHoursFor } from '../stageSla';
+import type { SlaProject } from '../stageSla';
+import type { StageSla } from '@/types';
+
+const NOW = new Date('2026-10-18T12:00:00Z');
+
+function sla(stage: StageSla['stage'], priority: StageSla['priority'], hours: number | null): StageSla {
+  return { stage, priority, hours, updated_at: '2026-10-01T00:00:00Z' };
+}
+
+const slas = [
+  sla('SHOOTING', 'NORMAL', 96),
+  sla('SHOOTING', 'URGENT', 24),
+  sla('EDITING', 'NORMAL', 72),
+  sla('READY_FOR_EDIT', 'NORMAL', null),
+];
+
+function hoursAgo(hours: number): string {
+  return new Date(NOW.getTime() - hours * 60 * 60 * 1000).toISOString();
+}
+
+describe('stageSla', () => {
+  it('should measure hours since the project entered its stage', () => {
+    expect(hoursInStage({ production_stage: 'SHOOTING', stage_entered_at: hoursAgo(30) }, NOW)).toBeCloseTo(30);
+    expect(hoursInStage({ production_stage: 'SHOOTING', stage_entered_at: null }, NOW)).toBeNull();
+  });
+
+  it('should look the limit up by stage and priority, defaulting to NORMAL', () => {
+    expect(slaHoursFor('SHOOTING', 'URGENT', slas)).toBe(24);
+    expect(slaHoursFor('SHOOTING', undefined, slas)).toBe(96);
+    expect(slaHoursFor('SHOOT_REVIEW', 'NORMAL', slas)).toBeNull();
+    expect(slaHoursFor('PLANNING', 'NORMAL', slas)).toBeNull();
+  });
+
+  it('should report ok, due soon and overdue', () => {
+    const at = (hours: number, priority: 'NORMAL' | 'URGENT' = 'NORMAL') =>
+      getSlaStatus({ production_stage: 'SHOOTING', priority, stage_entered_at: hoursAgo(hours) }, slas, NOW)?.state;
+
+    expect(at(10)).toBe('ok');
+    expect(at(80)).toBe('due_soon');
+    expect(at(100)).toBe('overdue');
+    expect(at(30, 'URGENT')).toBe('overdue');
+  });
+
+  it('should return null for stages without a limit', () => {
+    expect(getSlaStatus({ production_stage: 'READY_FOR_EDIT', stage_entered_at: hoursAgo(500) }, slas, NOW)).toBeNull();
+    expect(getSlaStatus({ production_stage: 'POSTED', stage_entered_at: hoursAgo(500) }, slas, NOW)).toBeNull();
+  });
+
+  it('should list overdue projects, longest overdue first', () => {
+    const projects: (SlaProject & { id: string })[] = [
+      { id: 'a', production_stage: 'SHOOTING', stage_entered_at: hoursAgo(100) },
+      { id: 'b', production_stage: 'EDITING', stage_entered_at: hoursAgo(10) },
+      { id: 'c', production_stage: 'EDITING', stage_entered_at: hoursAgo(90) },
+    ];
+
+    expect(overdueProjects(projects, slas, NOW).map((p) => p.id)).toEqual(['c', 'a']);
+  });
+
+  it('should format durations compactly', () => {
+    expect(formatHours(0.5)).toBe('30m');
+    expect(formatHours(5.9)).toBe('5h');
+    expect(formatHours(48)).toBe('2d');
+    expect(formatHours(52)).toBe('2d 4h');
+  });
+});
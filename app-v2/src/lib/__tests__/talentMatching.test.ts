@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { isAvailableOn, matchTalent } from '../talentMatching';
+import type { ProjectTalent, Talent } from '@/types';
+
+function talent(id: string, overrides: Partial<Talent> = {}): Talent {
+  return {
+    id,
+    full_name: id,
+    category: 'woman',
+    photo_urls: [],
+    is_active: true,
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function booking(talentId: string, overrides: Partial<ProjectTalent> = {}): ProjectTalent {
+  return {
+    analysis_id: 'p1',
+    talent_id: talentId,
+    category: 'woman',
+    status: 'booked',
+    created_at: '2026-10-01T00:00:00Z',
+    updated_at: '2026-10-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+describe('talentMatching', () => {
+  describe('isAvailableOn', () => {
+    it('should treat ranges as inclusive', () => {
+      const ranges = [{ start_date: '2026-10-20', end_date: '2026-10-22' }];
+      expect(isAvailableOn(ranges, '2026-10-19')).toBe(true);
+      expect(isAvailableOn(ranges, '2026-10-20')).toBe(false);
+      expect(isAvailableOn(ranges, '2026-10-22')).toBe(false);
+      expect(isAvailableOn(ranges, '2026-10-23')).toBe(true);
+    });
+
+    it('should count someone without blocked dates as available', () => {
+      expect(isAvailableOn(undefined, '2026-10-20')).toBe(true);
+    });
+  });
+
+  describe('matchTalent', () => {
+    it('should make one slot per needed category and skip the owner', () => {
+      const slots = matchTalent({ woman: 2, girl: 1, include_owner: true }, [], []);
+
+      expect(slots.map((s) => [s.category, s.needed])).toEqual([['woman', 2], ['girl', 1]]);
+    });
+
+    it('should propose active talent of the category, by name', () => {
+      const roster = [
+        talent('zara'),
+        talent('anya'),
+        talent('ravi', { category: 'man' }),
+        talent('old', { is_active: false }),
+      ];
+
+      const [slot] = matchTalent({ woman: 1 }, roster, []);
+
+      expect(slot.candidates.map((t) => t.id)).toEqual(['anya', 'zara']);
+    });
+
+    it('should leave out talent blocked on the date or booked elsewhere that day', () => {
+      const roster = [
+        talent('away', { unavailability: [{ id: 'u', talent_id: 'away', start_date: '2026-10-20', end_date: '2026-10-20', created_at: '' }] }),
+        talent('busy'),
+        talent('free'),
+      ];
+
+      const [slot] = matchTalent({ woman: 1 }, roster, [], {
+        date: '2026-10-20',
+        bookedElsewhere: new Set(['busy']),
+      });
+
+      expect(slot.candidates.map((t) => t.id)).toEqual(['free']);
+    });
+
+    it('should ignore availability when there is no planned date', () => {
+      const roster = [
+        talent('away', { unavailability: [{ id: 'u', talent_id: 'away', start_date: '2026-10-20', end_date: '2026-10-20', created_at: '' }] }),
+      ];
+
+      const [slot] = matchTalent({ woman: 1 }, roster, []);
+
+      expect(slot.candidates).toHaveLength(1);
+    });
+
+    it('should show bookings and not propose them again', () => {
+      const roster = [talent('anya'), talent('zara')];
+
+      const [slot] = matchTalent({ woman: 2 }, roster, [booking('anya')]);
+
+      expect(slot.booked.map((b) => b.talent_id)).toEqual(['anya']);
+      expect(slot.candidates.map((t) => t.id)).toEqual(['zara']);
+    });
+
+    it('should keep a slot for bookings whose category was removed from the cast', () => {
+      const slots = matchTalent({ woman: 0 }, [], [booking('anya')]);
+
+      expect(slots).toHaveLength(1);
+      expect(slots[0]).toMatchObject({ category: 'woman', needed: 0 });
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, hasChanges } from '../textDiff';
+
+const join = (parts: { text: string }[]) => parts.map((p) => p.text).join('');
+
+describe('textDiff', () => {
+  it('should mark replaced words and keep the rest', () => {
+    const parts = diffWords('Stop scrolling if you love coffee', 'Stop scrolling if you hate coffee');
+
+    expect(parts).toEqual([
+      { type: 'same', text: 'Stop scrolling if you ' },
+      { type: 'removed', text: 'love' },
+      { type: 'added', text: 'hate' },
+      { type: 'same', text: ' coffee' },
+    ]);
+  });
+
+  it('should rebuild both versions from the parts', () => {
+    const before = 'Line one\nLine two  with spaces';
+    const after = 'Line one\nA new line two with spaces\nand more';
+    const parts = diffWords(before, after);
+
+    expect(join(parts.filter((p) => p.type !== 'added'))).toBe(before);
+    expect(join(parts.filter((p) => p.type !== 'removed'))).toBe(after);
+  });
+
+  it('should handle empty sides and report whether anything changed', () => {
+    expect(diffWords('', 'New hook')).toEqual([{ type: 'added', text: 'New hook' }]);
+    expect(diffWords('Old hook', '')).toEqual([{ type: 'removed', text: 'Old hook' }]);
+    expect(hasChanges(diffWords('same text', 'same text'))).toBe(false);
+    expect(hasChanges(diffWords('same text', 'same text!'))).toBe(true);
+  });
+});
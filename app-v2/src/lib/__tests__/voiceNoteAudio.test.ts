@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clampSelection,
+  computePeaks,
+  maxTakeSeconds,
+  resample,
+  spliceClip,
+  trimClip,
+  type AudioClip,
+} from '../voiceNoteAudio';
+
+const clip = (values: number[], sampleRate = 10): AudioClip => ({ samples: Float32Array.from(values), sampleRate });
+
+describe('voiceNoteAudio', () => {
+  it('should scale the loudest sample of each bar against the loudest bar', () => {
+    expect(computePeaks(Float32Array.from([0.125, -0.25, 1, -0.5, 0, 0.0625]), 3)).toEqual([0.25, 1, 0.0625]);
+    expect(computePeaks(new Float32Array(4), 2)).toEqual([0, 0]);
+    expect(computePeaks(new Float32Array(0), 3)).toEqual([0, 0, 0]);
+  });
+
+  it('should keep selections ordered, inside the clip and at least the minimum length', () => {
+    expect(clampSelection({ start: 8, end: 2 }, 10)).toEqual({ start: 2, end: 8 });
+    expect(clampSelection({ start: -1, end: 12 }, 10)).toEqual({ start: 0, end: 10 });
+    expect(clampSelection({ start: 4, end: 4.1 }, 10)).toEqual({ start: 4, end: 4.5 });
+    expect(clampSelection({ start: 9.9, end: 10 }, 10)).toEqual({ start: 9.5, end: 10 });
+    expect(clampSelection({ start: 0.1, end: 0.2 }, 0.3)).toEqual({ start: 0, end: 0.3 });
+  });
+
+  it('should trim a clip to the selection', () => {
+    const trimmed = trimClip(clip([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]), { start: 0.2, end: 0.5 });
+    expect(Array.from(trimmed.samples)).toEqual([2, 3, 4]);
+    expect(trimmed.sampleRate).toBe(10);
+  });
+
+  it('should replace the selection with a new take of any length', () => {
+    const base = clip([0, 1, 2, 3, 4, 5]);
+
+    expect(Array.from(spliceClip(base, { start: 0.2, end: 0.4 }, clip([9])).samples)).toEqual([0, 1, 9, 4, 5]);
+    expect(Array.from(spliceClip(base, { start: 0, end: 0.6 }, clip([7, 8])).samples)).toEqual([7, 8]);
+    // A take decoded at twice the rate is resampled to match
+    expect(Array.from(spliceClip(base, { start: 0.5, end: 0.6 }, clip([1, 1, 1, 1], 20)).samples)).toEqual([0, 1, 2, 3, 4, 1, 1]);
+  });
+
+  it('should resample linearly between neighbouring samples', () => {
+    expect(Array.from(resample(clip([0, 2, 4]), 20).samples)).toEqual([0, 1, 2, 3, 4, 4]);
+    expect(resample(clip([1, 2]), 10).samples).toEqual(Float32Array.from([1, 2]));
+  });
+
+  it('should leave a new take only the time the note has left', () => {
+    expect(maxTakeSeconds(100, { start: 10, end: 20 }, 180)).toBe(90);
+    expect(maxTakeSeconds(180, { start: 0, end: 5 }, 180)).toBe(5);
+    expect(maxTakeSeconds(200, { start: 0, end: 5 }, 180)).toBe(0);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Auto-Assignment
+ *
+ * Decides who gets which unclaimed project when a role is in auto-assign
+ * mode. Projects go out most urgent first (priority, then deadline, then
+ * age). For each one the candidates are everyone in the role who hasn't
+ * skipped it and is under the max-active limit. Current load counts most,
+ * then earlier work on the same profile. Every proposal carries the reasons
+ * shown to admins and stored on the assignment.
+ */
+
+import type { Priority, ViralAnalysis } from '@/types';
+
+export interface AssignmentCandidate {
+  userId: string;
+  name: string;
+  /** Projects currently in SHOOTING (videographers) or EDITING (editors) */
+  activeCount: number;
+  /** Projects this person skipped */
+  skippedIds: Set<string>;
+  /** Earlier projects per profile_id */
+  profileCounts: Record<string, number>;
+}
+
+export type AssignableProject = Pick<ViralAnalysis, 'id' | 'title' | 'priority' | 'deadline' | 'profile_id' | 'created_at'>;
+
+export interface CandidateScore {
+  candidate: AssignmentCandidate;
+  score: number;
+  reasons: string[];
+}
+
+export interface AssignmentProposal {
+  project: AssignableProject;
+  userId: string;
+  name: string;
+  reasons: string[];
+}
+
+const PRIORITY_RANK: Record<Priority, number> = { URGENT: 3, HIGH: 2, NORMAL: 1, LOW: 0 };
+
+/** Each free slot outweighs two earlier projects on the same profile */
+const LOAD_WEIGHT = 10;
+const FAMILIARITY_WEIGHT = 4;
+const MAX_FAMILIARITY = 3;
+
+/**
+ * Most urgent first: priority, then nearest deadline, then oldest
+ */
+export function sortByUrgency<P extends AssignableProject>(projects: P[]): P[] {
+  return [...projects].sort((a, b) => {
+    const byPriority = PRIORITY_RANK[b.priority || 'NORMAL'] - PRIORITY_RANK[a.priority || 'NORMAL'];
+    if (byPriority !== 0) return byPriority;
+    if (a.deadline && b.deadline && a.deadline !== b.deadline) return a.deadline < b.deadline ? -1 : 1;
+    if (a.deadline !== b.deadline) return a.deadline ? -1 : 1;
+    return a.created_at.localeCompare(b.created_at);
+  });
+}
+
+/**
+ * Everyone who could take `project`, best first. Skipped and full people
+ * are left out.
+ */
+export function rankCandidates(
+  project: AssignableProject,
+  candidates: AssignmentCandidate[],
+  maxActive: number,
+): CandidateScore[] {
+  const eligible = candidates.filter((c) => !c.skippedIds.has(project.id) && c.activeCount < maxActive);
+  const lightestLoad = Math.min(...eligible.map((c) => c.activeCount));
+
+  return eligible
+    .map((candidate) => {
+      const familiarity = project.profile_id ? candidate.profileCounts[project.profile_id] || 0 : 0;
+      const reasons = [
+        `${candidate.activeCount} active project${candidate.activeCount === 1 ? '' : 's'}` +
+          (candidate.activeCount === lightestLoad && eligible.length > 1 ? ' (lightest load)' : ''),
+      ];
+      if (familiarity > 0) {
+        reasons.push(`${familiarity} earlier project${familiarity === 1 ? '' : 's'} for this profile`);
+      }
+      const score = (maxActive - candidate.activeCount) * LOAD_WEIGHT +
+        Math.min(familiarity, MAX_FAMILIARITY) * FAMILIARITY_WEIGHT;
+      return { candidate, score, reasons };
+    })
+    .sort((a, b) => b.score - a.score || a.candidate.name.localeCompare(b.candidate.name));
+}
+
+/**
+ * Why a project was handed out when it was, e.g. "Urgent priority, due 2026-10-20"
+ */
+export function describeUrgency(project: AssignableProject): string | null {
+  const parts: string[] = [];
+  if (project.priority === 'URGENT' || project.priority === 'HIGH') {
+    parts.push(`${project.priority === 'URGENT' ? 'Urgent' : 'High'} priority`);
+  }
+  if (project.deadline) parts.push(`due ${project.deadline.slice(0, 10)}`);
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Hand out projects one at a time, counting each assignment against the
+ * person's load before the next project is placed. Projects nobody can take
+ * are left unassigned.
+ */
+export function planAssignments(
+  projects: AssignableProject[],
+  candidates: AssignmentCandidate[],
+  maxActive: number,
+): AssignmentProposal[] {
+  const load = new Map(candidates.map((c) => [c.userId, c.activeCount]));
+  const proposals: AssignmentProposal[] = [];
+
+  for (const project of sortByUrgency(projects)) {
+    const current = candidates.map((c) => ({ ...c, activeCount: load.get(c.userId) || 0 }));
+    const [best] = rankCandidates(project, current, maxActive);
+    if (!best) continue;
+
+    const urgency = describeUrgency(project);
+    proposals.push({
+      project,
+      userId: best.candidate.userId,
+      name: best.candidate.name,
+      reasons: urgency ? [urgency, ...best.reasons] : best.reasons,
+    });
+    load.set(best.candidate.userId, best.candidate.activeCount + 1);
+  }
+
+  return proposals;
+}
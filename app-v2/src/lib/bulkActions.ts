@@ -0,0 +1,83 @@
+/**
+ * Bulk Actions
+ *
+ * Shared pieces for acting on many projects at once from the admin queues:
+ * running one action per project while collecting per-item outcomes (one
+ * failure never stops the rest), and the feedback templates used for bulk
+ * approve/reject.
+ */
+
+export interface BulkItem {
+  id: string;
+  title?: string | null;
+}
+
+export interface BulkFailure {
+  id: string;
+  title: string;
+  error: string;
+}
+
+export interface BulkResult {
+  succeeded: BulkItem[];
+  failed: BulkFailure[];
+}
+
+export interface FeedbackTemplate {
+  id: string;
+  label: string;
+  text: string;
+}
+
+/** Starting points for shared feedback; {title} and {writer} are filled per script */
+export const FEEDBACK_TEMPLATES: FeedbackTemplate[] = [
+  { id: 'approved', label: 'Approved', text: 'Thanks {writer} — "{title}" is approved and heading into production.' },
+  { id: 'weak_hook', label: 'Weak hook', text: 'The hook in "{title}" needs to grab attention in the first 3 seconds. Please rework it and resubmit.' },
+  { id: 'unclear', label: 'Hard to replicate', text: 'We could not see how to shoot "{title}" from the script. Please add clearer shot and cast details.' },
+  { id: 'duplicate', label: 'Already covered', text: 'We already have a project very similar to "{title}", so we are passing on this one.' },
+];
+
+/**
+ * Fill {title} and {writer} for one script
+ */
+export function fillFeedbackTemplate(template: string, script: { title?: string | null; full_name?: string | null; email?: string | null }): string {
+  const writer = script.full_name?.split(' ')[0] || script.email?.split('@')[0] || 'there';
+  return template
+    .replace(/\{title\}/g, script.title || 'your script')
+    .replace(/\{writer\}/g, writer);
+}
+
+/**
+ * Run `action` for each item in turn and record what happened to each.
+ * Items run one after another so server-side sequences (content IDs,
+ * assignment claims) see each other's writes.
+ */
+export async function runBulk<T extends BulkItem>(items: T[], action: (item: T) => Promise<unknown>): Promise<BulkResult> {
+  const result: BulkResult = { succeeded: [], failed: [] };
+
+  for (const item of items) {
+    try {
+      await action(item);
+      result.succeeded.push({ id: item.id, title: item.title });
+    } catch (error) {
+      result.failed.push({
+        id: item.id,
+        title: item.title || 'Untitled',
+        error: error instanceof Error ? error.message : 'Something went wrong',
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * One-line outcome for a toast, e.g. "Approved 4 of 5 scripts"
+ */
+export function describeBulkResult(result: BulkResult, verb: string, noun = 'project'): string {
+  const total = result.succeeded.length + result.failed.length;
+  const plural = total === 1 ? noun : `${noun}s`;
+  return result.failed.length === 0
+    ? `${verb} ${total} ${plural}`
+    : `${verb} ${result.succeeded.length} of ${total} ${plural}`;
+}
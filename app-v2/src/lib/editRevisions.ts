@@ -0,0 +1,52 @@
+/**
+ * Edited-video revisions
+ *
+ * Each edited upload gets a revision_number from the backend (v1, v2, ...).
+ * A rejection stores its reason on the revision it was about. Files uploaded
+ * before numbering existed fall back to upload order.
+ */
+
+import { EDITED_FILE_TYPES } from '@/lib/productionStages';
+import type { ProductionFile } from '@/types';
+
+type RevisionFile = Pick<ProductionFile, 'id' | 'file_type' | 'is_deleted' | 'created_at' | 'revision_number' | 'revision_rejection_reason'>;
+
+export interface EditRevision<F extends RevisionFile = RevisionFile> {
+  number: number;
+  files: F[];
+  /** Set when an admin rejected this revision */
+  rejectionReason?: string;
+}
+
+export function isEditedFile(file: Pick<ProductionFile, 'file_type' | 'is_deleted'>): boolean {
+  return EDITED_FILE_TYPES.includes(file.file_type) && !file.is_deleted;
+}
+
+/**
+ * Group a project's edited files by revision, newest first
+ */
+export function groupRevisions<F extends RevisionFile>(files: F[]): EditRevision<F>[] {
+  const edited = files
+    .filter(isEditedFile)
+    .sort((a, b) => new Date(a.created_at || 0).getTime() - new Date(b.created_at || 0).getTime());
+
+  const byNumber = new Map<number, F[]>();
+  let fallback = 0;
+  for (const file of edited) {
+    const number = file.revision_number || Math.max(fallback + 1, 1);
+    fallback = Math.max(fallback, number);
+    byNumber.set(number, [...(byNumber.get(number) || []), file]);
+  }
+
+  return [...byNumber.entries()]
+    .sort(([a], [b]) => b - a)
+    .map(([number, revisionFiles]) => ({
+      number,
+      files: revisionFiles,
+      rejectionReason: revisionFiles.find((f) => f.revision_rejection_reason)?.revision_rejection_reason || undefined,
+    }));
+}
+
+export function revisionLabel(number: number): string {
+  return `v${number}`;
+}
@@ -0,0 +1,72 @@
+/**
+ * Typed errors shared by services and mutations
+ *
+ * PostgREST calls resolve to `{ data, error }` where `error` is a plain
+ * `{ message, code }` object. Services convert the cases the UI needs to treat
+ * differently into these classes so callers can use `instanceof`.
+ */
+
+interface PostgRESTError {
+  message?: string;
+  code?: string;
+}
+
+/**
+ * Someone else changed the project first (already picked, stage moved on).
+ * Raised by RPCs with SQLSTATE PT409, which PostgREST returns as HTTP 409.
+ */
+export class ProjectConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProjectConflictError';
+  }
+}
+
+/**
+ * A production_stage change that the transition table does not allow
+ * (wrong current stage, wrong role, or a missing precondition such as raw footage).
+ * Thrown before any write happens.
+ */
+export class InvalidTransitionError extends Error {
+  readonly from: string;
+  readonly to: string;
+
+  constructor(message: string, from: string, to: string) {
+    super(message);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Google Drive no longer recognises a resumable upload URI (404/410) —
+ * the session expired, so the upload has to start again from byte 0.
+ */
+export class UploadSessionExpiredError extends Error {
+  constructor(message: string = 'Upload session expired') {
+    super(message);
+    this.name = 'UploadSessionExpiredError';
+  }
+}
+
+/**
+ * Convert a PostgREST/RPC error object into a thrown value.
+ * Conflicts become ProjectConflictError; everything else is returned unchanged
+ * so existing `err.message` handling keeps working.
+ */
+export function toServiceError(error: unknown): unknown {
+  const err = error as PostgRESTError | null;
+  if (err?.code === 'PT409' || err?.code === '409') {
+    return new ProjectConflictError(err.message || 'This project was changed by someone else');
+  }
+  return error;
+}
+
+/**
+ * A unique constraint rejected the write (SQLSTATE 23505), e.g. when two
+ * writers counted the same rows and took the same next number
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as PostgRESTError | null)?.code === '23505';
+}
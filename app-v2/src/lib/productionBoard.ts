@@ -0,0 +1,71 @@
+/**
+ * Production Board
+ *
+ * Column layout for the admin Kanban view and what dropping a card on
+ * another column means. Every drop is checked against the stage state
+ * machine (lib/productionStages) as an admin move; file requirements are
+ * checked again by the service that performs the move. Drops onto a stage
+ * that needs an assignee or extra input say what to ask for first.
+ */
+
+import { checkTransition, findTransition, normalizeStage } from '@/lib/productionStages';
+import type { AssignableRole, ProductionStageV2 } from '@/types';
+
+export const BOARD_COLUMNS: ProductionStageV2[] = [
+  'PLANNING',
+  'SHOOTING',
+  'READY_FOR_EDIT',
+  'EDITING',
+  'EDIT_REVIEW',
+  'READY_TO_POST',
+  'POSTED',
+];
+
+/** Moves that are a pick: someone has to be given the project */
+const PICK_ROLES: Partial<Record<ProductionStageV2, AssignableRole>> = {
+  SHOOTING: 'VIDEOGRAPHER',
+  EDITING: 'EDITOR',
+};
+
+export type DropPlan =
+  | { type: 'none' }
+  | { type: 'invalid'; message: string }
+  /** Choose who gets the project; assigning moves it */
+  | { type: 'assign'; role: AssignableRole }
+  /** Ask why before sending it back */
+  | { type: 'reason' }
+  /** Ask for the live URL */
+  | { type: 'posted_url' }
+  | { type: 'move' };
+
+/**
+ * Group projects into board columns (legacy and NULL stages are normalized)
+ */
+export function groupByColumn<P extends { production_stage?: string | null }>(projects: P[]): Record<ProductionStageV2, P[]> {
+  const columns = Object.fromEntries(BOARD_COLUMNS.map((stage) => [stage, [] as P[]])) as Record<ProductionStageV2, P[]>;
+  for (const project of projects) {
+    columns[normalizeStage(project.production_stage)]?.push(project);
+  }
+  return columns;
+}
+
+/**
+ * What happens when an admin drops a card from `from` onto `to`
+ */
+export function planDrop(from: string | null | undefined, to: ProductionStageV2): DropPlan {
+  const fromStage = normalizeStage(from);
+  if (fromStage === to) return { type: 'none' };
+
+  const transition = findTransition(fromStage, to);
+  if (!transition || !transition.actors.includes('ADMIN')) {
+    return { type: 'invalid', message: checkTransition(fromStage, to, 'ADMIN') || 'This move is not allowed' };
+  }
+
+  const pickRole = PICK_ROLES[to];
+  if (pickRole && (fromStage === 'PLANNING' || fromStage === 'READY_FOR_EDIT')) {
+    return { type: 'assign', role: pickRole };
+  }
+  if (transition.requires.includes('REASON')) return { type: 'reason' };
+  if (transition.requires.includes('POSTED_URL')) return { type: 'posted_url' };
+  return { type: 'move' };
+}
@@ -0,0 +1,219 @@
+/**
+ * Production Stage State Machine
+ *
+ * Single source of truth for which production_stage transitions are allowed,
+ * who may make them and what has to be true first. Services call
+ * assertTransition() before writing a new stage; the pick transitions are
+ * additionally enforced server-side by the pick_project() RPC.
+ */
+
+import { ProductionStageLabels } from '@/types';
+import type { ProductionStage, ProductionStageV2 } from '@/types';
+import { InvalidTransitionError } from '@/lib/errors';
+import type { ShotListSection } from '@/lib/shotList';
+
+// ─── Stages ──────────────────────────────────────────────────────────────────
+
+/** Stages (plus NULL) that mean "approved, waiting for a videographer" */
+export const PLANNING_STAGES: ProductionStage[] = ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED'];
+
+/** Legacy stages mapped onto the V2 pipeline */
+const LEGACY_STAGE_MAP: Partial<Record<ProductionStage, ProductionStageV2>> = {
+  NOT_STARTED: 'PLANNING',
+  PRE_PRODUCTION: 'PLANNING',
+  PLANNED: 'PLANNING',
+  SHOOT_REVIEW: 'READY_FOR_EDIT',
+  FINAL_REVIEW: 'READY_TO_POST',
+};
+
+/**
+ * Map any stored production_stage (including legacy values and NULL) onto the V2 pipeline
+ */
+export function normalizeStage(stage?: string | null): ProductionStageV2 {
+  if (!stage) return 'PLANNING';
+  return LEGACY_STAGE_MAP[stage as ProductionStage] || (stage as ProductionStageV2);
+}
+
+/** File types that count as raw footage (RAW_FOOTAGE requirement) */
+export const RAW_FILE_TYPES = ['RAW_FOOTAGE', 'A_ROLL', 'B_ROLL', 'HOOK', 'BODY', 'CTA', 'AUDIO_CLIP', 'OTHER', 'raw-footage'];
+
+/** Raw footage that covers the whole script on its own */
+export const MAIN_FOOTAGE_TYPES = ['A_ROLL', 'RAW_FOOTAGE', 'raw-footage'];
+
+const SHOOT_FILE_TYPE_LABELS: Record<string, string> = {
+  A_ROLL: 'A-Roll',
+  HOOK: 'Hook',
+  BODY: 'Body',
+  CTA: 'CTA',
+};
+
+/**
+ * Raw file types a shoot is still missing (REQUIRED_FILE_TYPES requirement).
+ * A shoot needs main footage, or else a clip for each script section with
+ * text (the same sections as its shot list). Rejected files don't count.
+ */
+export function getMissingShootFileTypes(
+  files: { file_type: string; approval_status?: string | null }[],
+  scriptedSections: ShotListSection[],
+): string[] {
+  const usableTypes = new Set(files.filter((f) => f.approval_status !== 'rejected').map((f) => f.file_type));
+  if (MAIN_FOOTAGE_TYPES.some((type) => usableTypes.has(type))) return [];
+  if (scriptedSections.length === 0) return ['A_ROLL'];
+  return scriptedSections.filter((section) => !usableTypes.has(section));
+}
+
+/** File types that count as an edited cut (EDITED_VIDEO requirement) */
+export const EDITED_FILE_TYPES = ['EDITED_VIDEO', 'FINAL_VIDEO', 'edited-video', 'final-video'];
+
+// ─── Transition Table ────────────────────────────────────────────────────────
+
+/** Who is acting — assignment roles plus admin */
+export type StageActor = 'ADMIN' | 'VIDEOGRAPHER' | 'EDITOR' | 'POSTING_MANAGER';
+
+export type StageRequirement =
+  | 'RAW_FOOTAGE'
+  | 'NO_REJECTED_FOOTAGE'
+  | 'REQUIRED_FILE_TYPES'
+  | 'EDITED_VIDEO'
+  | 'REASON'
+  | 'POSTED_URL';
+
+export interface StageTransition {
+  from: ProductionStageV2;
+  to: ProductionStageV2;
+  actors: StageActor[];
+  requires: StageRequirement[];
+}
+
+/** Facts a service gathered before the transition (file counts, form input) */
+export interface TransitionFacts {
+  /** Raw files that have not been rejected */
+  rawFileCount?: number;
+  rejectedRawFileCount?: number;
+  /** From getMissingShootFileTypes; not checked when left out */
+  missingFileTypes?: string[];
+  editedFileCount?: number;
+  reason?: string;
+  postedUrl?: string;
+}
+
+export const STAGE_TRANSITIONS: StageTransition[] = [
+  // Videographer picks a project (pick_project RPC)
+  { from: 'PLANNING', to: 'SHOOTING', actors: ['VIDEOGRAPHER', 'ADMIN'], requires: [] },
+  // Videographer marks shooting complete
+  { from: 'SHOOTING', to: 'READY_FOR_EDIT', actors: ['VIDEOGRAPHER', 'ADMIN'], requires: ['NO_REJECTED_FOOTAGE', 'RAW_FOOTAGE', 'REQUIRED_FILE_TYPES'] },
+  // Editor picks a project (pick_project RPC)
+  { from: 'READY_FOR_EDIT', to: 'EDITING', actors: ['EDITOR', 'ADMIN'], requires: ['RAW_FOOTAGE'] },
+  // Editor sends the cut for admin review
+  { from: 'EDITING', to: 'EDIT_REVIEW', actors: ['EDITOR', 'ADMIN'], requires: ['EDITED_VIDEO'] },
+  // Admin approves / rejects the edited video
+  { from: 'EDIT_REVIEW', to: 'READY_TO_POST', actors: ['ADMIN'], requires: [] },
+  { from: 'EDIT_REVIEW', to: 'EDITING', actors: ['ADMIN'], requires: ['REASON'] },
+  // Posting manager publishes
+  { from: 'READY_TO_POST', to: 'POSTED', actors: ['POSTING_MANAGER', 'ADMIN'], requires: ['POSTED_URL'] },
+];
+
+const REQUIREMENT_MESSAGES: Record<StageRequirement, string | ((facts: TransitionFacts) => string)> = {
+  RAW_FOOTAGE: 'Please upload at least one file before marking as complete',
+  NO_REJECTED_FOOTAGE: 'Some footage was rejected. Re-shoot or remove it before marking as complete',
+  REQUIRED_FILE_TYPES: (facts) =>
+    `Missing footage: ${(facts.missingFileTypes || []).map((t) => SHOOT_FILE_TYPE_LABELS[t] || t).join(', ')}. `
+    + 'Upload A-Roll or a clip for each part of the script before marking as complete',
+  EDITED_VIDEO: 'Please upload at least one edited video before marking as complete',
+  REASON: 'Rejection reason is required',
+  POSTED_URL: 'Posted URL is required',
+};
+
+function isRequirementMet(requirement: StageRequirement, facts: TransitionFacts): boolean {
+  switch (requirement) {
+    case 'RAW_FOOTAGE':
+      return (facts.rawFileCount ?? 0) > 0;
+    case 'NO_REJECTED_FOOTAGE':
+      return (facts.rejectedRawFileCount ?? 0) === 0;
+    case 'REQUIRED_FILE_TYPES':
+      return (facts.missingFileTypes ?? []).length === 0;
+    case 'EDITED_VIDEO':
+      return (facts.editedFileCount ?? 0) > 0;
+    case 'REASON':
+      return !!facts.reason?.trim();
+    case 'POSTED_URL':
+      return !!facts.postedUrl?.trim();
+  }
+}
+
+// ─── Guard ───────────────────────────────────────────────────────────────────
+
+/**
+ * Find the table entry for a transition (stages are normalized first)
+ */
+export function findTransition(from: string | null | undefined, to: ProductionStageV2): StageTransition | undefined {
+  const fromStage = normalizeStage(from);
+  return STAGE_TRANSITIONS.find((t) => t.from === fromStage && t.to === to);
+}
+
+/**
+ * Check a transition without throwing. Returns the reason it is not allowed, or null.
+ */
+export function checkTransition(
+  from: string | null | undefined,
+  to: ProductionStageV2,
+  actor: StageActor,
+  facts: TransitionFacts = {},
+): string | null {
+  const transition = findTransition(from, to);
+  if (!transition) {
+    return `Cannot move a project from ${stageLabel(normalizeStage(from))} to ${stageLabel(to)}`;
+  }
+  if (!transition.actors.includes(actor)) {
+    return `Only ${transition.actors.map(actorLabel).join(' or ')} can move a project to ${stageLabel(to)}`;
+  }
+  const missing = transition.requires.find((r) => !isRequirementMet(r, facts));
+  if (missing) {
+    const message = REQUIREMENT_MESSAGES[missing];
+    return typeof message === 'function' ? message(facts) : message;
+  }
+  return null;
+}
+
+/**
+ * Guard used by services before writing production_stage.
+ * Throws InvalidTransitionError if the move is not in the table, the actor is
+ * not allowed, or a precondition is missing.
+ */
+export function assertTransition(
+  from: string | null | undefined,
+  to: ProductionStageV2,
+  actor: StageActor,
+  facts: TransitionFacts = {},
+): StageTransition {
+  const problem = checkTransition(from, to, actor, facts);
+  if (problem) {
+    throw new InvalidTransitionError(problem, normalizeStage(from), to);
+  }
+  return findTransition(from, to)!;
+}
+
+/**
+ * Stages an actor may move a project to from its current stage
+ */
+export function getNextStages(from: string | null | undefined, actor: StageActor): ProductionStageV2[] {
+  const fromStage = normalizeStage(from);
+  return STAGE_TRANSITIONS
+    .filter((t) => t.from === fromStage && t.actors.includes(actor))
+    .map((t) => t.to);
+}
+
+const ACTOR_LABELS: Record<StageActor, string> = {
+  ADMIN: 'an admin',
+  VIDEOGRAPHER: 'a videographer',
+  EDITOR: 'an editor',
+  POSTING_MANAGER: 'a posting manager',
+};
+
+function stageLabel(stage: ProductionStageV2): string {
+  return ProductionStageLabels[stage] || stage;
+}
+
+function actorLabel(actor: StageActor): string {
+  return ACTOR_LABELS[actor];
+}
@@ -10,6 +10,11 @@ export const queryKeys = {
     editReview: () => [...queryKeys.admin.all, 'editReview'] as const,
     project: (id: string) => [...queryKeys.admin.all, 'project', id] as const,
     team: () => [...queryKeys.admin.all, 'team'] as const,
+    profiles: () => [...queryKeys.admin.all, 'profiles'] as const,
+    assignmentSettings: () => [...queryKeys.admin.all, 'assignmentSettings'] as const,
+    autoAssignPreview: (role: string) => [...queryKeys.admin.all, 'autoAssignPreview', role] as const,
+    assignCandidates: (analysisId: string, role: string) =>
+      [...queryKeys.admin.all, 'assignCandidates', analysisId, role] as const,
   },
   videographer: {
     all: ['videographer'] as const,
@@ -19,6 +24,7 @@ export const queryKeys = {
     myScripts: () => [...queryKeys.videographer.all, 'myScripts'] as const,
     project: (id: string) => [...queryKeys.videographer.all, 'project', id] as const,
     profiles: () => [...queryKeys.videographer.all, 'profiles'] as const,
+    shootDays: () => [...queryKeys.videographer.all, 'shootDays'] as const,
   },
   editor: {
     all: ['editor'] as const,
@@ -45,4 +51,58 @@ export const queryKeys = {
     homepageData: () => [...queryKeys.writer.all, 'homepageData'] as const,
     myScripts: () => [...queryKeys.writer.all, 'myScripts'] as const,
   },
+  activity: {
+    all: ['activity'] as const,
+    project: (id: string) => [...queryKeys.activity.all, 'project', id] as const,
+  },
+  comments: {
+    all: ['comments'] as const,
+    project: (id: string) => [...queryKeys.comments.all, 'project', id] as const,
+    unreadCount: () => [...queryKeys.comments.all, 'unreadCount'] as const,
+  },
+  notifications: {
+    all: ['notifications'] as const,
+    inbox: () => [...queryKeys.notifications.all, 'inbox'] as const,
+    unreadCount: () => [...queryKeys.notifications.all, 'unreadCount'] as const,
+    preferences: () => [...queryKeys.notifications.all, 'preferences'] as const,
+  },
+  productionFiles: {
+    all: ['productionFiles'] as const,
+    myRejected: () => [...queryKeys.productionFiles.all, 'myRejected'] as const,
+  },
+  shotList: {
+    all: ['shotList'] as const,
+    project: (analysisId: string) => [...queryKeys.shotList.all, 'project', analysisId] as const,
+  },
+  talent: {
+    all: ['talent'] as const,
+    roster: (includeInactive = false) => [...queryKeys.talent.all, 'roster', includeInactive] as const,
+    project: (analysisId: string) => [...queryKeys.talent.all, 'project', analysisId] as const,
+    appearances: (talentId: string) => [...queryKeys.talent.all, 'appearances', talentId] as const,
+  },
+  sla: {
+    all: ['sla'] as const,
+    settings: () => [...queryKeys.sla.all, 'settings'] as const,
+    overdue: () => [...queryKeys.sla.all, 'overdue'] as const,
+  },
+  scorecard: {
+    all: ['scorecard'] as const,
+    criteria: () => [...queryKeys.scorecard.all, 'criteria'] as const,
+    history: () => [...queryKeys.scorecard.all, 'history'] as const,
+  },
+  scriptReview: {
+    all: ['scriptReview'] as const,
+    reasons: () => [...queryKeys.scriptReview.all, 'reasons'] as const,
+    rounds: (analysisId: string) => [...queryKeys.scriptReview.all, 'rounds', analysisId] as const,
+  },
+  scriptRevisions: {
+    all: ['scriptRevisions'] as const,
+    list: (analysisId: string) => [...queryKeys.scriptRevisions.all, 'list', analysisId] as const,
+  },
+  videoReview: {
+    all: ['videoReview'] as const,
+    file: (fileId: string) => [...queryKeys.videoReview.all, 'file', fileId] as const,
+    project: (analysisId: string) => [...queryKeys.videoReview.all, 'project', analysisId] as const,
+    streamUrl: (driveFileId: string) => [...queryKeys.videoReview.all, 'streamUrl', driveFileId] as const,
+  },
 };
@@ -0,0 +1,66 @@
+/**
+ * Rejection Stats
+ *
+ * How often each rejection reason comes up, overall and per writer, from
+ * the rejected review rounds.
+ */
+
+export interface RejectedRound {
+  rejection_reasons: string[];
+  writerId: string;
+  writerName: string;
+}
+
+export interface ReasonCount {
+  code: string;
+  count: number;
+}
+
+export interface WriterRejectionStats {
+  writerId: string;
+  name: string;
+  rejections: number;
+  /** Most frequent first */
+  reasons: ReasonCount[];
+}
+
+export interface RejectionStats {
+  /** Most frequent first */
+  overall: ReasonCount[];
+  /** Most rejected writers first */
+  byWriter: WriterRejectionStats[];
+}
+
+function sortCounts(counts: Map<string, number>): ReasonCount[] {
+  return Array.from(counts, ([code, count]) => ({ code, count }))
+    .sort((a, b) => b.count - a.count || a.code.localeCompare(b.code));
+}
+
+export function rejectionStats(rounds: RejectedRound[]): RejectionStats {
+  const overall = new Map<string, number>();
+  const writers = new Map<string, { name: string; rejections: number; reasons: Map<string, number> }>();
+
+  for (const round of rounds) {
+    let writer = writers.get(round.writerId);
+    if (!writer) {
+      writer = { name: round.writerName, rejections: 0, reasons: new Map() };
+      writers.set(round.writerId, writer);
+    }
+    writer.rejections++;
+
+    for (const code of new Set(round.rejection_reasons)) {
+      overall.set(code, (overall.get(code) || 0) + 1);
+      writer.reasons.set(code, (writer.reasons.get(code) || 0) + 1);
+    }
+  }
+
+  return {
+    overall: sortCounts(overall),
+    byWriter: Array.from(writers, ([writerId, w]) => ({
+      writerId,
+      name: w.name,
+      rejections: w.rejections,
+      reasons: sortCounts(w.reasons),
+    })).sort((a, b) => b.rejections - a.rejections || a.name.localeCompare(b.name)),
+  };
+}
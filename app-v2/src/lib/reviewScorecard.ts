@@ -0,0 +1,139 @@
+/**
+ * Review Scorecard
+ *
+ * Scripts are scored 0-10 on each active review criterion; overall_score is
+ * the weighted average of the criteria that were scored. Reviewed scores
+ * also drive per-writer score distributions (AnalyticsPage) and a predicted
+ * score for pending scripts, which is the writer's average pulled towards
+ * the team average until they have a few reviews behind them.
+ */
+
+import type { ReviewCriterion } from '@/types';
+
+/** Criteria that also have their own viral_analyses column */
+export const LEGACY_SCORE_COLUMNS = ['hook_strength', 'content_quality', 'viral_potential', 'replication_clarity'] as const;
+
+/** Distribution buckets, matching the rating buttons on the review page */
+export const SCORE_BUCKETS = ['1-2', '3-4', '5-6', '7-8', '9-10'];
+
+/** How many reviews' worth of the team average a writer's prediction starts from */
+const PRIOR_WEIGHT = 3;
+
+export type WeightedCriterion = Pick<ReviewCriterion, 'key' | 'weight' | 'is_active'>;
+
+export interface ScoredScript {
+  user_id: string;
+  overall_score: number;
+  full_name?: string | null;
+  email?: string | null;
+}
+
+export interface WriterScoreDistribution {
+  writerId: string;
+  name: string;
+  count: number;
+  average: number;
+  /** Script count per SCORE_BUCKETS entry */
+  buckets: number[];
+}
+
+export interface ScorePrediction {
+  score: number;
+  /** Reviewed scripts by the same writer behind the prediction */
+  basedOn: number;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Weighted average of the given scores over the active criteria, rounded to
+ * one decimal. Without criteria (or if every scored criterion weighs 0) it is
+ * the plain average. Null when nothing was scored.
+ */
+export function computeOverallScore(scores: Record<string, number>, criteria: WeightedCriterion[]): number | null {
+  const scored = criteria.length > 0
+    ? criteria.filter((c) => c.is_active && scores[c.key] !== undefined).map((c) => ({ score: scores[c.key], weight: Number(c.weight) }))
+    : Object.values(scores).map((score) => ({ score, weight: 1 }));
+  if (scored.length === 0) return null;
+
+  const totalWeight = scored.reduce((sum, s) => sum + s.weight, 0);
+  if (totalWeight === 0) {
+    return round1(scored.reduce((sum, s) => sum + s.score, 0) / scored.length);
+  }
+  return round1(scored.reduce((sum, s) => sum + s.score * s.weight, 0) / totalWeight);
+}
+
+/**
+ * Index into SCORE_BUCKETS for a 0-10 score
+ */
+export function scoreBucket(score: number): number {
+  return Math.min(SCORE_BUCKETS.length - 1, Math.max(0, Math.ceil(score / 2) - 1));
+}
+
+/**
+ * Reviewed scores grouped by writer, best average first
+ */
+export function writerScoreDistributions(scripts: ScoredScript[]): WriterScoreDistribution[] {
+  const byWriter = new Map<string, WriterScoreDistribution & { total: number }>();
+
+  for (const script of scripts) {
+    let writer = byWriter.get(script.user_id);
+    if (!writer) {
+      writer = {
+        writerId: script.user_id,
+        name: script.full_name || script.email || 'Unknown',
+        count: 0,
+        average: 0,
+        total: 0,
+        buckets: SCORE_BUCKETS.map(() => 0),
+      };
+      byWriter.set(script.user_id, writer);
+    }
+    writer.count++;
+    writer.total += script.overall_score;
+    writer.buckets[scoreBucket(script.overall_score)]++;
+  }
+
+  return Array.from(byWriter.values())
+    .map(({ total, ...writer }) => ({ ...writer, average: round1(total / writer.count) }))
+    .sort((a, b) => b.average - a.average || b.count - a.count);
+}
+
+/**
+ * Predicted overall score per pending script, from its writer's history.
+ * Empty when there is no history at all.
+ */
+export function predictScores(pending: { id: string; user_id: string }[], history: ScoredScript[]): Map<string, ScorePrediction> {
+  const predictions = new Map<string, ScorePrediction>();
+  if (history.length === 0) return predictions;
+
+  const teamAverage = history.reduce((sum, s) => sum + s.overall_score, 0) / history.length;
+  const writers = new Map<string, { total: number; count: number }>();
+  for (const script of history) {
+    const writer = writers.get(script.user_id) || { total: 0, count: 0 };
+    writer.total += script.overall_score;
+    writer.count++;
+    writers.set(script.user_id, writer);
+  }
+
+  for (const script of pending) {
+    const writer = writers.get(script.user_id) || { total: 0, count: 0 };
+    predictions.set(script.id, {
+      score: round1((writer.total + PRIOR_WEIGHT * teamAverage) / (writer.count + PRIOR_WEIGHT)),
+      basedOn: writer.count,
+    });
+  }
+
+  return predictions;
+}
+
+/**
+ * Highest predicted score first; scripts without a prediction keep their
+ * order at the end
+ */
+export function sortByPredictedScore<T extends { id: string }>(items: T[], predictions: Map<string, ScorePrediction>): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: predictions.get(item.id)?.score }))
+    .sort((a, b) => (b.score ?? -1) - (a.score ?? -1) || a.index - b.index)
+    .map(({ item }) => item);
+}
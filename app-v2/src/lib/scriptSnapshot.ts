@@ -0,0 +1,50 @@
+/**
+ * Script Snapshots
+ *
+ * The writer-editable parts of a script, captured as a plain object so a
+ * version can be stored (review rounds, revisions) and compared with
+ * another one.
+ */
+
+import type { ScriptSnapshot, ViralAnalysis } from '@/types';
+
+export const SNAPSHOT_FIELDS: { key: keyof ScriptSnapshot; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'reference_url', label: 'Reference' },
+  { key: 'hook', label: 'Hook' },
+  { key: 'script_body', label: 'Script' },
+  { key: 'script_cta', label: 'CTA' },
+  { key: 'why_viral', label: 'Why it works' },
+  { key: 'target_emotion', label: 'Target emotion' },
+  { key: 'production_notes', label: 'Notes' },
+];
+
+/** Columns to select to build a snapshot */
+export const SNAPSHOT_COLUMNS = SNAPSHOT_FIELDS.map((f) => f.key).join(', ');
+
+export interface SnapshotChange {
+  key: keyof ScriptSnapshot;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Pick the snapshot fields off a script row
+ */
+export function takeSnapshot(script: Partial<ViralAnalysis> | ScriptSnapshot): ScriptSnapshot {
+  const source = script as Record<string, unknown>;
+  return Object.fromEntries(
+    SNAPSHOT_FIELDS.map(({ key }) => [key, (source[key] as string | null | undefined) ?? null])
+  ) as ScriptSnapshot;
+}
+
+/**
+ * Fields whose text differs between two versions (blank and missing count
+ * as the same), in SNAPSHOT_FIELDS order
+ */
+export function changedFields(before: ScriptSnapshot, after: ScriptSnapshot): SnapshotChange[] {
+  return SNAPSHOT_FIELDS
+    .map(({ key, label }) => ({ key, label, before: (before[key] || '').trim(), after: (after[key] || '').trim() }))
+    .filter((change) => change.before !== change.after);
+}
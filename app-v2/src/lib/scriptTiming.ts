@@ -0,0 +1,110 @@
+/**
+ * Script Timing
+ *
+ * Spoken-duration estimates for a script's hook, body and CTA, from word
+ * count and the average speaking rate of the script's language, compared
+ * with the target length of the platform it is written for. The teleprompter
+ * uses the same rates as its default scroll speed.
+ */
+
+import type { Platform } from '@/types';
+
+export interface ScriptLanguage {
+  code: string;
+  label: string;
+  /** Average words spoken per minute in short-form video */
+  wordsPerMinute: number;
+}
+
+export const SCRIPT_LANGUAGES: ScriptLanguage[] = [
+  { code: 'en', label: 'English', wordsPerMinute: 150 },
+  { code: 'hinglish', label: 'Hinglish', wordsPerMinute: 140 },
+  { code: 'hi', label: 'Hindi', wordsPerMinute: 130 },
+  { code: 'mr', label: 'Marathi', wordsPerMinute: 120 },
+  { code: 'ta', label: 'Tamil', wordsPerMinute: 110 },
+  { code: 'te', label: 'Telugu', wordsPerMinute: 115 },
+];
+
+export const DEFAULT_SCRIPT_LANGUAGE = 'en';
+
+export const PLATFORM_TARGETS: Record<Platform, { label: string; seconds: number }> = {
+  instagram_reel: { label: 'Instagram Reel', seconds: 60 },
+  youtube_shorts: { label: 'YouTube Shorts', seconds: 60 },
+  youtube_long: { label: 'YouTube', seconds: 600 },
+};
+
+export type ScriptSectionKey = 'hook' | 'body' | 'cta';
+
+export interface ScriptSections {
+  hook?: string | null;
+  body?: string | null;
+  cta?: string | null;
+}
+
+export interface SectionTiming {
+  key: ScriptSectionKey;
+  words: number;
+  seconds: number;
+}
+
+export interface ScriptTiming {
+  sections: SectionTiming[];
+  words: number;
+  seconds: number;
+  /** Target length for the platform, if one was picked */
+  targetSeconds: number | null;
+  /** Seconds over the target, 0 when within it */
+  overBy: number;
+}
+
+const SECTION_KEYS: ScriptSectionKey[] = ['hook', 'body', 'cta'];
+
+export function getLanguage(code?: string | null): ScriptLanguage {
+  return SCRIPT_LANGUAGES.find((l) => l.code === code)
+    || SCRIPT_LANGUAGES.find((l) => l.code === DEFAULT_SCRIPT_LANGUAGE)!;
+}
+
+/**
+ * Words in a piece of text. Works for any script that separates words with
+ * spaces, which covers every language in SCRIPT_LANGUAGES.
+ */
+export function countWords(text?: string | null): number {
+  const trimmed = (text || '').trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * Spoken duration of a script, per section and in total, rounded up to
+ * whole seconds
+ */
+export function estimateScriptTiming(
+  sections: ScriptSections,
+  languageCode?: string | null,
+  platform?: string | null,
+): ScriptTiming {
+  const { wordsPerMinute } = getLanguage(languageCode);
+  const timed = SECTION_KEYS.map((key) => {
+    const words = countWords(sections[key]);
+    return { key, words, seconds: Math.ceil((words / wordsPerMinute) * 60) };
+  });
+
+  const words = timed.reduce((sum, s) => sum + s.words, 0);
+  const seconds = timed.reduce((sum, s) => sum + s.seconds, 0);
+  const targetSeconds = PLATFORM_TARGETS[platform as Platform]?.seconds ?? null;
+
+  return {
+    sections: timed,
+    words,
+    seconds,
+    targetSeconds,
+    overBy: targetSeconds === null ? 0 : Math.max(0, seconds - targetSeconds),
+  };
+}
+
+/**
+ * 75 -> "1:15"
+ */
+export function formatDuration(seconds: number): string {
+  const whole = Math.max(0, Math.round(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
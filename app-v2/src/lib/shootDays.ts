@@ -0,0 +1,81 @@
+/**
+ * Shoot Days
+ *
+ * Helpers for planning a shoot day: the cast it needs (the projects'
+ * CastCompositions added up) and which other days it overlaps with.
+ */
+
+import { CastMemberLabels, DEFAULT_CAST_COMPOSITION } from '@/types';
+import type { CastComposition, CastMemberKey, ShootDay } from '@/types';
+
+const CAST_COUNTS = Object.keys(CastMemberLabels) as CastMemberKey[];
+
+/**
+ * Cast needed for a day. Counts are summed; the owner is one person however
+ * many projects need them.
+ */
+export function aggregateCast(casts: (Partial<CastComposition> | null | undefined)[]): CastComposition {
+  const result: CastComposition = { ...DEFAULT_CAST_COMPOSITION };
+  for (const cast of casts) {
+    if (!cast) continue;
+    for (const key of CAST_COUNTS) {
+      result[key] += Number(cast[key]) || 0;
+    }
+    result.include_owner = result.include_owner || !!cast.include_owner;
+  }
+  result.total = CAST_COUNTS.reduce((sum, key) => sum + result[key], 0) + (result.include_owner ? 1 : 0);
+  return result;
+}
+
+/** Minutes since midnight for "HH:MM" or "HH:MM:SS" */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+type ShootDayWindow = Pick<ShootDay, 'shoot_date' | 'start_time' | 'end_time'>;
+
+/**
+ * Whether two days overlap. A day without a start or end time takes up the
+ * whole of that end of the day.
+ */
+export function shootDaysOverlap(a: ShootDayWindow, b: ShootDayWindow): boolean {
+  if (a.shoot_date !== b.shoot_date) return false;
+  const aStart = a.start_time ? toMinutes(a.start_time) : 0;
+  const aEnd = a.end_time ? toMinutes(a.end_time) : 24 * 60;
+  const bStart = b.start_time ? toMinutes(b.start_time) : 0;
+  const bEnd = b.end_time ? toMinutes(b.end_time) : 24 * 60;
+  return aStart < bEnd && bStart < aEnd;
+}
+
+/**
+ * The videographer's other days that overlap with `day` (the day itself is
+ * skipped when editing)
+ */
+export function findShootDayConflicts<D extends ShootDayWindow & { id?: string }>(
+  day: ShootDayWindow & { id?: string },
+  otherDays: D[],
+): D[] {
+  return otherDays.filter((other) => other.id !== day.id && shootDaysOverlap(day, other));
+}
+
+/**
+ * "09:00–13:00", "from 09:00", or "All day"
+ */
+export function formatShootWindow(day: Pick<ShootDay, 'start_time' | 'end_time'>): string {
+  const start = day.start_time?.slice(0, 5);
+  const end = day.end_time?.slice(0, 5);
+  if (start && end) return `${start}–${end}`;
+  if (start) return `from ${start}`;
+  if (end) return `until ${end}`;
+  return 'All day';
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD (toISOString would shift it to UTC)
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
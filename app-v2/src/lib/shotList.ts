@@ -0,0 +1,95 @@
+/**
+ * Shot List
+ *
+ * A project's shot list is derived from its script, not stored: one item per
+ * script section that has text (hook, body, CTA) and one per person in the
+ * cast composition. Only the files a videographer attaches to an item are
+ * stored (shot_list_attachments), keyed by the item's stable key, so editing
+ * the script or cast updates the list without a migration of its own.
+ */
+
+import { CastMemberLabels } from '@/types';
+import type { CastMemberKey, ProductionFile, ShotListAttachment, ViralAnalysis } from '@/types';
+
+export type ShotListSection = 'HOOK' | 'BODY' | 'CTA';
+
+export interface ShotListItem {
+  /** Stable id used by attachments, e.g. "section:HOOK" or "cast:woman:2" */
+  key: string;
+  kind: 'section' | 'cast';
+  label: string;
+  /** Script text for sections */
+  detail?: string;
+  /** Matching upload category for sections */
+  section?: ShotListSection;
+}
+
+type ShotListSource = Pick<ViralAnalysis, 'hook' | 'script_body' | 'script_cta' | 'cast_composition'>;
+
+const SECTIONS: { section: ShotListSection; field: 'hook' | 'script_body' | 'script_cta'; label: string }[] = [
+  { section: 'HOOK', field: 'hook', label: 'Hook' },
+  { section: 'BODY', field: 'script_body', label: 'Body' },
+  { section: 'CTA', field: 'script_cta', label: 'CTA' },
+];
+
+/**
+ * Build the checklist for a project: script sections first, then the cast
+ */
+export function buildShotList(project: ShotListSource): ShotListItem[] {
+  const items: ShotListItem[] = [];
+
+  for (const { section, field, label } of SECTIONS) {
+    const text = project[field]?.trim();
+    if (text) {
+      items.push({ key: `section:${section}`, kind: 'section', label, detail: text, section });
+    }
+  }
+
+  const cast = project.cast_composition;
+  if (cast) {
+    if (cast.include_owner) {
+      items.push({ key: 'cast:owner', kind: 'cast', label: 'Owner' });
+    }
+    for (const [key, label] of Object.entries(CastMemberLabels) as [CastMemberKey, string][]) {
+      const count = Number(cast[key]) || 0;
+      for (let i = 1; i <= count; i++) {
+        items.push({
+          key: `cast:${key}:${i}`,
+          kind: 'cast',
+          label: count > 1 ? `${label} ${i}` : label,
+        });
+      }
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Attachments grouped by item key, ignoring files that have since been deleted
+ */
+export function attachmentsByItem(
+  attachments: Pick<ShotListAttachment, 'item_key' | 'file_id'>[],
+  files: Pick<ProductionFile, 'id' | 'is_deleted'>[],
+): Map<string, string[]> {
+  const liveFileIds = new Set(files.filter((f) => !f.is_deleted).map((f) => f.id));
+  const byItem = new Map<string, string[]>();
+  for (const { item_key, file_id } of attachments) {
+    if (!liveFileIds.has(file_id)) continue;
+    byItem.set(item_key, [...(byItem.get(item_key) || []), file_id]);
+  }
+  return byItem;
+}
+
+/**
+ * How many items have at least one file attached
+ */
+export function shotListProgress(
+  items: ShotListItem[],
+  byItem: Map<string, string[]>,
+): { done: number; total: number } {
+  return {
+    done: items.filter((item) => (byItem.get(item.key)?.length || 0) > 0).length,
+    total: items.length,
+  };
+}
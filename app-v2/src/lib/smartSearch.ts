@@ -89,6 +89,10 @@ export function smartSearch(query: string, analyses: ViralAnalysis[]): SearchRes
         author: analysis.full_name || '',
         'content id': analysis.content_id || '',
         characters: (analysis.character_tags || []).map((t) => t.name).join(' '),
+        'voice notes': [analysis.hook_voice_note_transcript, analysis.why_viral_voice_note_transcript]
+          .filter(Boolean)
+          .join(' '),
+        'voice feedback': analysis.feedback_voice_note_transcript || '',
       };
 
       const matchedFieldSet = new Set<string>();
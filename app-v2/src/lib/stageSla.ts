@@ -0,0 +1,84 @@
+/**
+ * Stage SLAs
+ *
+ * How long a project has been in its current production stage, measured
+ * from viral_analyses.stage_entered_at, against the limit admins set for
+ * that stage and priority (stage_slas). Stages without a limit are never
+ * overdue. The same comparison runs server-side in
+ * escalate_overdue_projects(), which notifies admins once per breach.
+ */
+
+import type { Priority, StageSla, SlaStage, ViralAnalysis } from '@/types';
+import { normalizeStage } from '@/lib/productionStages';
+
+export const SLA_STAGES: SlaStage[] = ['SHOOTING', 'READY_FOR_EDIT', 'EDITING', 'EDIT_REVIEW'];
+
+export const SLA_PRIORITIES: Priority[] = ['URGENT', 'HIGH', 'NORMAL', 'LOW'];
+
+/** Share of the limit after which a project shows as due soon */
+const DUE_SOON_RATIO = 0.75;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type SlaState = 'ok' | 'due_soon' | 'overdue';
+
+export interface SlaStatus {
+  stage: SlaStage;
+  hoursInStage: number;
+  limitHours: number;
+  state: SlaState;
+}
+
+export type SlaProject = Pick<ViralAnalysis, 'production_stage' | 'priority' | 'stage_entered_at'>;
+
+/**
+ * Hours since the project entered its current stage, or null if unknown
+ */
+export function hoursInStage(project: SlaProject, now: Date = new Date()): number | null {
+  if (!project.stage_entered_at) return null;
+  return Math.max(0, (now.getTime() - new Date(project.stage_entered_at).getTime()) / HOUR_MS);
+}
+
+/**
+ * The limit in hours for a stage and priority, or null when there is none
+ */
+export function slaHoursFor(stage: string | null | undefined, priority: Priority | undefined, slas: StageSla[]): number | null {
+  const normalized = normalizeStage(stage);
+  const sla = slas.find((s) => s.stage === normalized && s.priority === (priority || 'NORMAL'));
+  return sla?.hours ?? null;
+}
+
+/**
+ * Where a project stands against its stage SLA. Null when its stage has no
+ * limit or the time it entered the stage isn't known.
+ */
+export function getSlaStatus(project: SlaProject, slas: StageSla[], now: Date = new Date()): SlaStatus | null {
+  const limitHours = slaHoursFor(project.production_stage, project.priority, slas);
+  const hours = hoursInStage(project, now);
+  if (limitHours === null || hours === null) return null;
+
+  const state: SlaState = hours > limitHours ? 'overdue' : hours >= limitHours * DUE_SOON_RATIO ? 'due_soon' : 'ok';
+  return { stage: normalizeStage(project.production_stage) as SlaStage, hoursInStage: hours, limitHours, state };
+}
+
+/**
+ * Compact duration for badges, e.g. "45m", "5h", "2d 4h"
+ */
+export function formatHours(hours: number): string {
+  if (hours < 1) return `${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 24) return `${Math.floor(hours)}h`;
+  const days = Math.floor(hours / 24);
+  const rest = Math.floor(hours % 24);
+  return rest > 0 ? `${days}d ${rest}h` : `${days}d`;
+}
+
+/**
+ * Projects past their SLA, longest overdue first
+ */
+export function overdueProjects<P extends SlaProject>(projects: P[], slas: StageSla[], now: Date = new Date()): P[] {
+  return projects
+    .map((project) => ({ project, status: getSlaStatus(project, slas, now) }))
+    .filter((entry) => entry.status?.state === 'overdue')
+    .sort((a, b) => (b.status!.hoursInStage - b.status!.limitHours) - (a.status!.hoursInStage - a.status!.limitHours))
+    .map((entry) => entry.project);
+}
@@ -0,0 +1,74 @@
+/**
+ * Talent Matching
+ *
+ * Turns a project's CastComposition into one slot per category ("Woman ×2")
+ * and proposes roster talent for each: active people of that category who
+ * aren't blocked out on the planned date and aren't already booked for
+ * another project that day. The owner isn't on the roster, so they never
+ * get a slot.
+ */
+
+import { CastMemberLabels } from '@/types';
+import type { CastComposition, CastMemberKey, ProjectTalent, Talent, TalentUnavailability } from '@/types';
+
+export interface TalentSlot {
+  category: CastMemberKey;
+  label: string;
+  needed: number;
+  /** Talent booked (or confirmed) for this slot on the project */
+  booked: ProjectTalent[];
+  /** Available talent not yet on the project, by name */
+  candidates: Talent[];
+}
+
+export interface MatchOptions {
+  /** YYYY-MM-DD; without a date every active person counts as available */
+  date?: string | null;
+  /** Talent booked on other projects planned for the same date */
+  bookedElsewhere?: Set<string>;
+}
+
+/**
+ * Whether a person has no blocked-out range covering `date`
+ */
+export function isAvailableOn(
+  unavailability: Pick<TalentUnavailability, 'start_date' | 'end_date'>[] | undefined,
+  date: string,
+): boolean {
+  // YYYY-MM-DD strings compare in date order
+  return !(unavailability || []).some((range) => range.start_date <= date && date <= range.end_date);
+}
+
+/**
+ * One slot per cast category the project needs, with proposed talent
+ */
+export function matchTalent(
+  cast: Partial<CastComposition> | null | undefined,
+  roster: Talent[],
+  projectTalent: ProjectTalent[],
+  options: MatchOptions = {},
+): TalentSlot[] {
+  if (!cast) return [];
+  const onProject = new Set(projectTalent.map((pt) => pt.talent_id));
+  const slots: TalentSlot[] = [];
+
+  for (const [category, label] of Object.entries(CastMemberLabels) as [CastMemberKey, string][]) {
+    const needed = Number(cast[category]) || 0;
+    const booked = projectTalent.filter((pt) => pt.category === category);
+    if (needed === 0 && booked.length === 0) continue;
+
+    const candidates = roster
+      .filter((t) =>
+        t.is_active &&
+        t.category === category &&
+        !onProject.has(t.id) &&
+        !options.bookedElsewhere?.has(t.id) &&
+        (!options.date || isAvailableOn(t.unavailability, options.date))
+      )
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+
+    slots.push({ category, label, needed, booked, candidates });
+  }
+
+  return slots;
+}
@@ -0,0 +1,75 @@
+/**
+ * Text Diff
+ *
+ * Word-level diff between two versions of a piece of text, for showing
+ * reviewers and writers what changed. Whitespace is kept as its own token so
+ * the parts join back into the original strings.
+ */
+
+export type DiffPartType = 'same' | 'added' | 'removed';
+
+export interface DiffPart {
+  type: DiffPartType;
+  text: string;
+}
+
+/** Beyond this many token pairs the diff falls back to removed-then-added */
+const MAX_CELLS = 4_000_000;
+
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token !== '');
+}
+
+function pushPart(parts: DiffPart[], type: DiffPartType, text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else parts.push({ type, text });
+}
+
+/**
+ * Diff `before` against `after` word by word (longest common subsequence)
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const parts: DiffPart[] = [];
+
+  if (a.length * b.length > MAX_CELLS) {
+    if (before) parts.push({ type: 'removed', text: before });
+    if (after) parts.push({ type: 'added', text: after });
+    return parts;
+  }
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, 'same', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushPart(parts, 'removed', a[i++]);
+    } else {
+      pushPart(parts, 'added', b[j++]);
+    }
+  }
+  while (i < a.length) pushPart(parts, 'removed', a[i++]);
+  while (j < b.length) pushPart(parts, 'added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * True when the diff has any added or removed text
+ */
+export function hasChanges(parts: DiffPart[]): boolean {
+  return parts.some((part) => part.type !== 'same');
+}
@@ -0,0 +1,136 @@
+/**
+ * Upload Queue Storage
+ *
+ * Persists queued uploads (including the File blob itself) in IndexedDB so an
+ * upload survives a closed tab or a reload. Falls back to memory when
+ * IndexedDB is unavailable (private browsing on some browsers, tests).
+ */
+
+import type { QueuedUpload } from '@/services/uploadQueueService';
+
+const DB_NAME = 'vca-upload-queue';
+const DB_VERSION = 1;
+// Metadata is rewritten after every confirmed chunk, so the (large) file blob
+// lives in its own store and is only written once.
+const UPLOADS_STORE = 'uploads';
+const FILES_STORE = 'files';
+
+type StoredUpload = Omit<QueuedUpload, 'file' | 'uploadedBytes'>;
+
+export interface UploadQueueStore {
+  getAll(): Promise<QueuedUpload[]>;
+  /** Save a new upload, including its file */
+  add(item: QueuedUpload): Promise<void>;
+  /** Save progress/status changes (the file is not rewritten) */
+  update(item: QueuedUpload): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+function toStored(item: QueuedUpload): StoredUpload {
+  const { file: _file, uploadedBytes: _uploadedBytes, ...rest } = item;
+  return rest;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+          db.createObjectStore(UPLOADS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          db.createObjectStore(FILES_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+export const indexedDbUploadQueueStore: UploadQueueStore = {
+  async getAll() {
+    const db = await openDb();
+    const tx = db.transaction([UPLOADS_STORE, FILES_STORE], 'readonly');
+    const uploads = await requestToPromise(tx.objectStore(UPLOADS_STORE).getAll() as IDBRequest<StoredUpload[]>);
+
+    const files = await Promise.all(uploads.map((upload) =>
+      requestToPromise(tx.objectStore(FILES_STORE).get(upload.id) as IDBRequest<Blob | undefined>)
+    ));
+
+    // Without the file there is nothing to resume
+    return uploads.flatMap((upload, i) => {
+      const file = files[i];
+      return file ? [{ ...upload, file, uploadedBytes: upload.confirmedOffset }] : [];
+    });
+  },
+
+  async add(item) {
+    const db = await openDb();
+    const tx = db.transaction([UPLOADS_STORE, FILES_STORE], 'readwrite');
+    tx.objectStore(UPLOADS_STORE).put(toStored(item));
+    tx.objectStore(FILES_STORE).put(item.file, item.id);
+    await transactionDone(tx);
+  },
+
+  async update(item) {
+    const db = await openDb();
+    const tx = db.transaction(UPLOADS_STORE, 'readwrite');
+    tx.objectStore(UPLOADS_STORE).put(toStored(item));
+    await transactionDone(tx);
+  },
+
+  async delete(id) {
+    const db = await openDb();
+    const tx = db.transaction([UPLOADS_STORE, FILES_STORE], 'readwrite');
+    tx.objectStore(UPLOADS_STORE).delete(id);
+    tx.objectStore(FILES_STORE).delete(id);
+    await transactionDone(tx);
+  },
+};
+
+export function createMemoryUploadQueueStore(initial: QueuedUpload[] = []): UploadQueueStore {
+  const items = new Map(initial.map((item) => [item.id, item]));
+  return {
+    async getAll() {
+      return [...items.values()];
+    },
+    async add(item) {
+      items.set(item.id, item);
+    },
+    async update(item) {
+      items.set(item.id, item);
+    },
+    async delete(id) {
+      items.delete(id);
+    },
+  };
+}
+
+/** IndexedDB when the browser has it, memory otherwise */
+export function getDefaultUploadQueueStore(): UploadQueueStore {
+  return typeof indexedDB !== 'undefined' ? indexedDbUploadQueueStore : createMemoryUploadQueueStore();
+}
@@ -0,0 +1,107 @@
+/**
+ * Video Metadata Extraction
+ *
+ * Reads the duration and grabs a poster frame from a local video file with an
+ * offscreen <video> + <canvas>, before the file is uploaded. Only the first
+ * few seconds need to be decoded, so this is quick even for large files.
+ */
+
+const THUMBNAIL_MAX_WIDTH = 480;
+const THUMBNAIL_QUALITY = 0.75;
+const EXTRACT_TIMEOUT_MS = 15_000;
+
+export interface VideoMetadata {
+  /** Whole seconds */
+  durationSeconds: number | null;
+  /** JPEG poster frame, null when the browser can't decode the video */
+  thumbnail: Blob | null;
+}
+
+export function isVideoFile(file: Blob): boolean {
+  return file.type.startsWith('video/');
+}
+
+/**
+ * Skip the first second or so (often black or a slate), but stay inside
+ * short clips
+ */
+export function getPosterTime(duration: number): number {
+  if (!Number.isFinite(duration) || duration <= 0) return 0;
+  return Math.min(1, duration * 0.1);
+}
+
+function once(target: EventTarget, event: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onEvent = () => {
+      target.removeEventListener('error', onError);
+      resolve();
+    };
+    const onError = () => {
+      target.removeEventListener(event, onEvent);
+      reject(new Error(`Video could not be decoded (${event})`));
+    };
+    target.addEventListener(event, onEvent, { once: true });
+    target.addEventListener('error', onError, { once: true });
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', THUMBNAIL_QUALITY));
+}
+
+async function readMetadata(video: HTMLVideoElement): Promise<VideoMetadata> {
+  await once(video, 'loadedmetadata');
+  const durationSeconds = Number.isFinite(video.duration) ? Math.round(video.duration) : null;
+
+  video.currentTime = getPosterTime(video.duration);
+  await once(video, 'seeked');
+
+  if (!video.videoWidth || !video.videoHeight) {
+    return { durationSeconds, thumbnail: null };
+  }
+
+  const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / video.videoWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  return { durationSeconds, thumbnail: await canvasToBlob(canvas) };
+}
+
+/**
+ * Get duration and a poster frame for a video file. Rejects if the browser
+ * can't decode it or takes too long.
+ */
+export async function extractVideoMetadata(file: Blob): Promise<VideoMetadata> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.preload = 'metadata';
+  video.muted = true;
+  video.playsInline = true;
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timed out reading video')), EXTRACT_TIMEOUT_MS);
+  });
+
+  try {
+    const result = readMetadata(video);
+    video.src = url;
+    return await Promise.race([result, timeout]);
+  } finally {
+    clearTimeout(timer);
+    video.removeAttribute('src');
+    video.load();
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** 75 → "1:15", 3725 → "1:02:05" */
+export function formatDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = Math.floor(seconds % 60);
+  const ss = s.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${ss}` : `${m}:${ss}`;
+}
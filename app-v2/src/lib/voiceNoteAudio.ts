@@ -0,0 +1,222 @@
+/**
+ * Voice Note Audio
+ *
+ * Client-side editing for recorded voice notes before they are uploaded:
+ * waveform peaks, trimming, replacing part of a note with a new take and
+ * re-encoding the result as Opus. Edits work on mono samples decoded with
+ * Web Audio; the helpers at the bottom need a browser (Web Audio and
+ * MediaRecorder), everything above them is pure.
+ */
+
+/** Longest voice note that can be recorded or built by re-recording */
+export const MAX_VOICE_NOTE_SECONDS = 180;
+
+/** Shortest selection the trim handles allow */
+export const MIN_SELECTION_SECONDS = 0.5;
+
+/** Speech needs far less than CD quality, and it keeps edits light on memory */
+export const VOICE_NOTE_SAMPLE_RATE = 24_000;
+
+const VOICE_NOTE_BITRATE = 32_000;
+
+// In order of preference. Safari can't record WebM and falls back to MP4.
+const RECORDER_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/ogg;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+export interface AudioClip {
+  /** Mono samples in [-1, 1] */
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/** Part of a clip, in seconds */
+export interface AudioSelection {
+  start: number;
+  end: number;
+}
+
+export function clipDuration(clip: AudioClip): number {
+  return clip.samples.length / clip.sampleRate;
+}
+
+/**
+ * Loudest sample in each of `bars` equal slices, scaled so the loudest bar
+ * is 1. Silence gives all zeros.
+ */
+export function computePeaks(samples: Float32Array, bars: number): number[] {
+  const peaks = new Array<number>(bars).fill(0);
+  if (samples.length === 0 || bars <= 0) return peaks;
+
+  const perBar = samples.length / bars;
+  for (let bar = 0; bar < bars; bar++) {
+    const from = Math.floor(bar * perBar);
+    const to = Math.max(from + 1, Math.floor((bar + 1) * perBar));
+    let peak = 0;
+    for (let i = from; i < to && i < samples.length; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[bar] = peak;
+  }
+
+  const loudest = Math.max(...peaks);
+  return loudest > 0 ? peaks.map((peak) => peak / loudest) : peaks;
+}
+
+/**
+ * Keep a selection inside the clip, in order, and at least `minLength` long
+ * (or the whole clip when it is shorter than that)
+ */
+export function clampSelection(
+  selection: AudioSelection,
+  duration: number,
+  minLength = MIN_SELECTION_SECONDS,
+): AudioSelection {
+  if (duration <= minLength) return { start: 0, end: duration };
+
+  let start = Math.min(Math.max(0, Math.min(selection.start, selection.end)), duration);
+  let end = Math.min(Math.max(0, Math.max(selection.start, selection.end)), duration);
+  if (end - start < minLength) {
+    if (start + minLength <= duration) end = start + minLength;
+    else start = end - minLength;
+  }
+  return { start, end };
+}
+
+export function isWholeClip(selection: AudioSelection, duration: number): boolean {
+  return selection.start <= 0 && selection.end >= duration;
+}
+
+function toSampleIndex(clip: AudioClip, seconds: number): number {
+  return Math.min(clip.samples.length, Math.max(0, Math.round(seconds * clip.sampleRate)));
+}
+
+/**
+ * Linear resampling, used when a new take was decoded at a different rate
+ */
+export function resample(clip: AudioClip, sampleRate: number): AudioClip {
+  if (clip.sampleRate === sampleRate || clip.samples.length === 0) return { samples: clip.samples, sampleRate };
+
+  const length = Math.max(1, Math.round((clip.samples.length * sampleRate) / clip.sampleRate));
+  const samples = new Float32Array(length);
+  const ratio = clip.sampleRate / sampleRate;
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, clip.samples.length - 1);
+    const fraction = position - index;
+    samples[i] = clip.samples[Math.min(index, clip.samples.length - 1)] * (1 - fraction) + clip.samples[next] * fraction;
+  }
+  return { samples, sampleRate };
+}
+
+/**
+ * Just the selected part of a clip
+ */
+export function trimClip(clip: AudioClip, selection: AudioSelection): AudioClip {
+  return {
+    samples: clip.samples.slice(toSampleIndex(clip, selection.start), toSampleIndex(clip, selection.end)),
+    sampleRate: clip.sampleRate,
+  };
+}
+
+/**
+ * Replace the selected part of a clip with another recording, which may be
+ * longer or shorter than what it replaces
+ */
+export function spliceClip(clip: AudioClip, selection: AudioSelection, replacement: AudioClip): AudioClip {
+  const insert = resample(replacement, clip.sampleRate).samples;
+  const from = toSampleIndex(clip, selection.start);
+  const to = toSampleIndex(clip, selection.end);
+
+  const samples = new Float32Array(from + insert.length + (clip.samples.length - to));
+  samples.set(clip.samples.subarray(0, from), 0);
+  samples.set(insert, from);
+  samples.set(clip.samples.subarray(to), from + insert.length);
+  return { samples, sampleRate: clip.sampleRate };
+}
+
+/**
+ * How long a new take for the selection may run before the whole note
+ * would pass `maxSeconds`
+ */
+export function maxTakeSeconds(duration: number, selection: AudioSelection, maxSeconds = MAX_VOICE_NOTE_SECONDS): number {
+  return Math.max(0, maxSeconds - (duration - (selection.end - selection.start)));
+}
+
+// ─── Browser helpers ─────────────────────────────────────────────────────────
+
+/**
+ * MediaRecorder options for a compact Opus recording, or the browser's
+ * default format when it can't record Opus
+ */
+export function recorderOptions(): MediaRecorderOptions {
+  const mimeType = RECORDER_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported?.(type));
+  return { mimeType, audioBitsPerSecond: VOICE_NOTE_BITRATE };
+}
+
+/**
+ * Decode a recording and mix it down to mono at VOICE_NOTE_SAMPLE_RATE
+ */
+export async function decodeVoiceNote(blob: Blob): Promise<AudioClip> {
+  const context = new OfflineAudioContext(1, 1, VOICE_NOTE_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) samples[i] += data[i] / buffer.numberOfChannels;
+  }
+  return { samples, sampleRate: buffer.sampleRate };
+}
+
+export function toAudioBuffer(context: BaseAudioContext, clip: AudioClip): AudioBuffer {
+  const buffer = context.createBuffer(1, Math.max(1, clip.samples.length), clip.sampleRate);
+  buffer.copyToChannel(clip.samples, 0);
+  return buffer;
+}
+
+/**
+ * Re-encode an edited clip in the recorder's format. Browsers can only
+ * encode Opus through MediaRecorder, which records in real time, so this
+ * takes as long as the clip; `onProgress` gets 0..1 along the way.
+ */
+export async function encodeVoiceNote(clip: AudioClip, onProgress?: (progress: number) => void): Promise<Blob> {
+  const context = new AudioContext({ sampleRate: clip.sampleRate });
+  const source = context.createBufferSource();
+  source.buffer = toAudioBuffer(context, clip);
+  const destination = context.createMediaStreamDestination();
+  source.connect(destination);
+
+  const recorder = new MediaRecorder(destination.stream, recorderOptions());
+  const chunks: Blob[] = [];
+  const duration = clipDuration(clip);
+
+  try {
+    await context.resume();
+    return await new Promise<Blob>((resolve, reject) => {
+      const started = context.currentTime;
+      const timer = setInterval(() => {
+        onProgress?.(Math.min(1, (context.currentTime - started) / duration));
+      }, 250);
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      recorder.onstop = () => {
+        clearInterval(timer);
+        onProgress?.(1);
+        resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+      };
+      recorder.onerror = () => {
+        clearInterval(timer);
+        reject(new Error('Could not encode the voice note'));
+      };
+      source.onended = () => recorder.stop();
+
+      recorder.start();
+      source.start();
+    });
+  } finally {
+    context.close().catch(() => {});
+  }
+}
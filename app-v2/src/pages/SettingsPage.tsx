@@ -1,5 +1,6 @@
 import { useState, type FormEvent, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import {
   Key,
@@ -18,6 +19,10 @@ import Header from '@/components/Header';
 import { Button } from '@/components/ui';
 import { useAuth } from '@/hooks/useAuth';
 import { auth } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { notificationService } from '@/services/notificationService';
+import { pushService } from '@/services/pushService';
+import { DEFAULT_NOTIFICATION_PREFERENCES, type NotificationPreferences } from '@/types';
 import toast from 'react-hot-toast';
 
 export default function SettingsPage() {
@@ -38,13 +43,73 @@ export default function SettingsPage() {
   const newPinRefs = useRef<(HTMLInputElement | null)[]>([]);
 
   // Notification preferences
-  const [notifications, setNotifications] = useState({
-    newScripts: true,
-    approvals: true,
-    mentions: true,
-    dailyDigest: false,
+  const queryClient = useQueryClient();
+  const { data: notifications = DEFAULT_NOTIFICATION_PREFERENCES } = useQuery({
+    queryKey: queryKeys.notifications.preferences(),
+    queryFn: () => notificationService.getPreferences(),
   });
 
+  const preferencesMutation = useMutation({
+    mutationFn: (prefs: NotificationPreferences) => notificationService.updatePreferences(prefs),
+    onMutate: async (prefs) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.notifications.preferences() });
+      const previous = queryClient.getQueryData<NotificationPreferences>(queryKeys.notifications.preferences());
+      queryClient.setQueryData(queryKeys.notifications.preferences(), prefs);
+      return { previous };
+    },
+    onError: (_error, _prefs, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(queryKeys.notifications.preferences(), context.previous);
+      }
+      toast.error('Failed to save notification settings');
+    },
+  });
+
+  const setNotificationPreference = (key: keyof NotificationPreferences, value: boolean) => {
+    preferencesMutation.mutate({ ...notifications, [key]: value });
+  };
+
+  // Web Push on this device
+  const pushSupported = pushService.isSupported();
+  const [pushEnabled, setPushEnabled] = useState(false);
+  const [isUpdatingPush, setIsUpdatingPush] = useState(false);
+
+  useEffect(() => {
+    if (!pushSupported) return;
+    pushService.getSubscription()
+      .then((subscription) => setPushEnabled(!!subscription))
+      .catch(() => setPushEnabled(false));
+  }, [pushSupported]);
+
+  const handleTogglePush = async (enable: boolean) => {
+    setIsUpdatingPush(true);
+    try {
+      if (enable) {
+        await pushService.subscribe();
+        toast.success('Push notifications enabled on this device');
+      } else {
+        await pushService.unsubscribe();
+        toast.success('Push notifications turned off');
+      }
+      setPushEnabled(enable);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to update push notifications');
+    } finally {
+      setIsUpdatingPush(false);
+    }
+  };
+
+  const handleTestPush = async () => {
+    try {
+      const delivered = await pushService.sendTest();
+      if (delivered === 0) {
+        toast.error('No devices received the test push');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to send test push');
+    }
+  };
+
   // Theme preference
   const [darkMode, setDarkMode] = useState(false);
 
@@ -322,28 +387,47 @@ export default function SettingsPage() {
           <div className="space-y-1">
             <NotificationToggle
               label="New Scripts"
-              description="When a new script is submitted for review"
+              description="When a new project is ready for you to pick up"
               enabled={notifications.newScripts}
-              onChange={(v) => setNotifications({ ...notifications, newScripts: v })}
+              onChange={(v) => setNotificationPreference('newScripts', v)}
             />
             <NotificationToggle
               label="Approvals & Rejections"
               description="When your scripts are approved or rejected"
               enabled={notifications.approvals}
-              onChange={(v) => setNotifications({ ...notifications, approvals: v })}
+              onChange={(v) => setNotificationPreference('approvals', v)}
             />
             <NotificationToggle
               label="Mentions"
               description="When someone mentions you in comments"
               enabled={notifications.mentions}
-              onChange={(v) => setNotifications({ ...notifications, mentions: v })}
+              onChange={(v) => setNotificationPreference('mentions', v)}
             />
             <NotificationToggle
               label="Daily Digest"
-              description="Daily summary of activity"
+              description="A morning summary of anything you haven't read"
               enabled={notifications.dailyDigest}
-              onChange={(v) => setNotifications({ ...notifications, dailyDigest: v })}
+              onChange={(v) => setNotificationPreference('dailyDigest', v)}
             />
+            <NotificationToggle
+              label="Push on this device"
+              description={
+                pushSupported
+                  ? 'Get these alerts even when the app is closed'
+                  : 'Install the app to your home screen to enable push'
+              }
+              enabled={pushEnabled}
+              disabled={!pushSupported || isUpdatingPush}
+              onChange={handleTogglePush}
+            />
+            {pushEnabled && (
+              <button
+                onClick={handleTestPush}
+                className="text-xs font-medium text-purple-600 pt-2"
+              >
+                Send a test notification
+              </button>
+            )}
           </div>
         </motion.div>
 
@@ -483,11 +567,13 @@ function NotificationToggle({
   label,
   description,
   enabled,
+  disabled,
   onChange,
 }: {
   label: string;
   description: string;
   enabled: boolean;
+  disabled?: boolean;
   onChange: (value: boolean) => void;
 }) {
   return (
@@ -498,7 +584,8 @@ function NotificationToggle({
       </div>
       <button
         onClick={() => onChange(!enabled)}
-        className={`w-11 h-6 rounded-full relative transition-colors ${
+        disabled={disabled}
+        className={`w-11 h-6 rounded-full relative transition-colors disabled:opacity-50 ${
           enabled ? 'bg-purple-500' : 'bg-gray-300'
         }`}
       >
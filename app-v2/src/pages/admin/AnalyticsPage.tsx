@@ -2,6 +2,10 @@ import { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import Header from '@/components/Header';
 import { adminService } from '@/services/adminService';
+import { reviewScorecardService } from '@/services/reviewScorecardService';
+import { scriptReviewService } from '@/services/scriptReviewService';
+import { SCORE_BUCKETS, writerScoreDistributions, type WriterScoreDistribution } from '@/lib/reviewScorecard';
+import type { RejectionStats } from '@/lib/rejectionStats';
 import {
   TrendingUp,
   TrendingDown,
@@ -14,6 +18,7 @@ import {
   Loader2,
 } from 'lucide-react';
 import { ProductionStageLabels, ProductionStageColors } from '@/types';
+import type { RejectionReason } from '@/types';
 
 interface AnalyticsData {
   scriptsThisWeek: number;
@@ -70,6 +75,9 @@ const getPlatformColor = (platform: string): string => {
 export default function AnalyticsPage() {
   const [analytics, setAnalytics] = useState<AnalyticsData | null>(null);
   const [metrics, setMetrics] = useState<PerformanceMetrics | null>(null);
+  const [writerScores, setWriterScores] = useState<WriterScoreDistribution[]>([]);
+  const [rejections, setRejections] = useState<RejectionStats | null>(null);
+  const [reasons, setReasons] = useState<RejectionReason[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -82,13 +90,19 @@ export default function AnalyticsPage() {
       if (isRefresh) setRefreshing(true);
       else setLoading(true);
 
-      const [analyticsData, performanceMetrics] = await Promise.all([
+      const [analyticsData, performanceMetrics, scoreHistory, rejectionStats, reasonList] = await Promise.all([
         adminService.getAnalyticsData(),
         adminService.getPerformanceMetrics(),
+        reviewScorecardService.getScoreHistory(),
+        scriptReviewService.getRejectionStats(),
+        scriptReviewService.getReasons(),
       ]);
 
       setAnalytics(analyticsData);
       setMetrics(performanceMetrics);
+      setWriterScores(writerScoreDistributions(scoreHistory));
+      setRejections(rejectionStats);
+      setReasons(reasonList);
     } catch (error) {
       console.error('Failed to load analytics:', error);
     } finally {
@@ -116,6 +130,9 @@ export default function AnalyticsPage() {
     );
   }
 
+  const reasonLabel = (code: string) => reasons.find((r) => r.code === code)?.label || code;
+  const maxReasonCount = rejections?.overall[0]?.count || 1;
+
   const weeklyChange = getWeeklyChange();
   const maxBarCount = Math.max(...(metrics?.postsPerDay?.map(d => d.count) || [1]));
   const totalPlatformCount = metrics?.platformBreakdown?.reduce((s, p) => s + p.count, 0) || 1;
@@ -391,6 +408,88 @@ export default function AnalyticsPage() {
           )}
         </motion.div>
 
+        {/* Review Scores by Writer */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.28 }}
+          className="bg-white rounded-xl p-4 border border-gray-100"
+        >
+          <h3 className="font-semibold text-gray-900 mb-1">Review Scores by Writer</h3>
+          <p className="text-xs text-gray-500 mb-4">Overall score spread, {SCORE_BUCKETS[0]} to {SCORE_BUCKETS[SCORE_BUCKETS.length - 1]}</p>
+          {writerScores.length > 0 ? (
+            <div className="space-y-3">
+              {writerScores.slice(0, 8).map((writer) => {
+                const maxBucket = Math.max(...writer.buckets, 1);
+                return (
+                  <div key={writer.writerId} className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 text-sm truncate">{writer.name}</p>
+                      <p className="text-xs text-gray-500">{writer.count} reviewed</p>
+                    </div>
+                    <div className="flex items-end gap-0.5 h-8" title={SCORE_BUCKETS.map((b, i) => `${b}: ${writer.buckets[i]}`).join(', ')}>
+                      {writer.buckets.map((count, i) => (
+                        <div
+                          key={SCORE_BUCKETS[i]}
+                          className={`w-3 rounded-sm ${count > 0 ? 'bg-purple-500' : 'bg-gray-100'}`}
+                          style={{ height: `${Math.max(12, (count / maxBucket) * 100)}%` }}
+                        />
+                      ))}
+                    </div>
+                    <span className="w-9 text-right text-sm font-semibold text-purple-600">{writer.average.toFixed(1)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-4">No reviewed scripts yet</p>
+          )}
+        </motion.div>
+
+        {/* Rejection Reasons */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.29 }}
+          className="bg-white rounded-xl p-4 border border-gray-100"
+        >
+          <h3 className="font-semibold text-gray-900 mb-4">Common Rejection Reasons</h3>
+          {rejections && rejections.overall.length > 0 ? (
+            <>
+              <div className="space-y-3 mb-5">
+                {rejections.overall.slice(0, 6).map((item) => (
+                  <div key={item.code}>
+                    <div className="flex items-center justify-between mb-1">
+                      <span className="text-sm text-gray-600">{reasonLabel(item.code)}</span>
+                      <span className="text-sm font-semibold text-gray-900">{item.count}</span>
+                    </div>
+                    <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                      <div className="h-full rounded-full bg-red-400" style={{ width: `${(item.count / maxReasonCount) * 100}%` }} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs font-semibold text-gray-500 uppercase mb-2">By writer</p>
+              <div className="space-y-1">
+                {rejections.byWriter.slice(0, 5).map((writer) => (
+                  <div key={writer.writerId} className="flex items-center gap-3 py-2 border-b border-gray-50 last:border-0">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 text-sm truncate">{writer.name}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {writer.reasons.slice(0, 2).map((r) => `${reasonLabel(r.code)} (${r.count})`).join(' · ') || 'No reason given'}
+                      </p>
+                    </div>
+                    <span className="text-sm font-semibold text-red-500">{writer.rejections}</span>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-500 text-center py-4">No rejections with reasons yet</p>
+          )}
+        </motion.div>
+
         {/* Pipeline Distribution */}
         <motion.div
           initial={{ opacity: 0, y: 10 }}
@@ -1,13 +1,17 @@
 import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { Video, Download, CheckCircle, XCircle, Eye, ChevronDown, ChevronUp, Loader2, CheckSquare, Square } from 'lucide-react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Video, Download, CheckCircle, XCircle, Eye, ChevronDown, ChevronUp, Loader2, CheckSquare, Square, PlayCircle, Columns2 } from 'lucide-react';
 import { adminService } from '@/services/adminService';
 import { getDriveDownloadUrl } from '@/lib/driveUtils';
 import { queryKeys } from '@/lib/queryKeys';
 import { useAdminApproveEdit, useAdminRejectEdit } from '@/hooks/useMutations';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
+import VideoThumbnail from '@/components/VideoThumbnail';
+import VideoReviewPlayer from '@/components/VideoReviewPlayer';
+import RevisionCompare from '@/components/RevisionCompare';
+import { groupRevisions, revisionLabel } from '@/lib/editRevisions';
 import toast from 'react-hot-toast';
-import type { ViralAnalysis } from '@/types';
+import type { ViralAnalysis, VideoReviewNote } from '@/types';
 import { motion } from 'framer-motion';
 
 export default function EditedReviewPage() {
@@ -22,6 +26,9 @@ export default function EditedReviewPage() {
   const [selected, setSelected] = useState<Set<string>>(new Set());
   const [expandedProject, setExpandedProject] = useState<string | null>(null);
   const [bulkApproving, setBulkApproving] = useState(false);
+  const [reviewingFileId, setReviewingFileId] = useState<string | null>(null);
+  const [comparingProject, setComparingProject] = useState<string | null>(null);
+  const qc = useQueryClient();
 
   const handleBulkApprove = async () => {
     if (selected.size === 0) {
@@ -53,10 +60,17 @@ export default function EditedReviewPage() {
     approveMutation.mutate(id);
   };
 
-  const handleRejectVideo = (id: string) => {
-    const reason = window.prompt('Rejection reason (required):');
+  const handleRejectVideo = (project: ViralAnalysis) => {
+    // Point the editor at the timestamped notes instead of retyping them
+    const openNotes = getEditedFiles(project).flatMap((f: any) =>
+      (qc.getQueryData<VideoReviewNote[]>(queryKeys.videoReview.file(f.id)) || []).filter((n) => !n.is_resolved)
+    );
+    const suggested = openNotes.length > 0
+      ? `See the ${openNotes.length} timestamped note${openNotes.length !== 1 ? 's' : ''} on the video`
+      : '';
+    const reason = window.prompt('Rejection reason (required):', suggested);
     if (!reason?.trim()) return;
-    rejectMutation.mutate({ projectId: id, reason: reason.trim() });
+    rejectMutation.mutate({ projectId: project.id, reason: reason.trim() });
   };
 
   const toggleProject = (id: string) => {
@@ -205,6 +219,7 @@ export default function EditedReviewPage() {
       <div className={`space-y-3 ${bulkMode ? 'mt-16' : ''}`}>
         {projects.map((project, index) => {
           const editedFiles = getEditedFiles(project);
+          const revisions = groupRevisions(editedFiles);
           const isExpanded = expandedProject === project.id;
           const isSelected = selected.has(project.id);
 
@@ -274,7 +289,7 @@ export default function EditedReviewPage() {
                         Approve
                       </button>
                       <button
-                        onClick={() => handleRejectVideo(project.id)}
+                        onClick={() => handleRejectVideo(project)}
                         className="flex-1 py-2 border-2 border-red-300 text-red-600 rounded-lg text-sm font-medium flex items-center justify-center gap-1 active:bg-red-50"
                       >
                         <XCircle className="w-4 h-4" />
@@ -287,51 +302,93 @@ export default function EditedReviewPage() {
                 {/* Expanded Section - Video Files */}
                 {isExpanded && (
                   <div className="border-t border-gray-100 p-4 bg-gray-50">
-                    <h4 className="text-xs font-semibold text-gray-600 uppercase mb-3">
-                      Edited Videos
-                    </h4>
-                    <div className="space-y-2">
-                      {editedFiles.length === 0 ? (
-                        <p className="text-sm text-gray-500 text-center py-4">No edited videos found</p>
-                      ) : (
-                        editedFiles.map((file: any) => (
-                          <div key={file.id} className="bg-white rounded-lg p-3 border border-gray-200">
+                    <div className="flex items-center justify-between mb-3">
+                      <h4 className="text-xs font-semibold text-gray-600 uppercase">
+                        Edited Videos
+                      </h4>
+                      {revisions.length > 1 && (
+                        <button
+                          onClick={() => setComparingProject(comparingProject === project.id ? null : project.id)}
+                          className={`px-2 py-1 rounded-lg text-xs font-medium flex items-center gap-1 ${
+                            comparingProject === project.id ? 'bg-purple-500 text-white' : 'bg-white border border-gray-200 text-gray-700'
+                          }`}
+                        >
+                          <Columns2 className="w-3.5 h-3.5" />
+                          Compare
+                        </button>
+                      )}
+                    </div>
+                    {comparingProject === project.id && (
+                      <div className="mb-3">
+                        <RevisionCompare revisions={revisions} />
+                      </div>
+                    )}
+                    {editedFiles.length === 0 ? (
+                      <p className="text-sm text-gray-500 text-center py-4">No edited videos found</p>
+                    ) : (
+                      <div className="grid grid-cols-2 gap-3">
+                        {editedFiles.map((file: any) => (
+                          <div key={file.id} className="bg-white rounded-lg p-2 border border-gray-200">
+                            <a href={file.file_url} target="_blank" rel="noopener noreferrer" className="block">
+                              <VideoThumbnail
+                                src={file.thumbnail_url}
+                                durationSeconds={file.duration_seconds}
+                                fallback={<Video className="w-6 h-6 text-green-600" />}
+                              />
+                            </a>
+                            <p className="text-sm font-medium text-gray-900 truncate mt-2">
+                              {file.revision_number && (
+                                <span className="text-[10px] font-semibold px-1.5 py-0.5 mr-1 rounded bg-purple-100 text-purple-600">
+                                  {revisionLabel(file.revision_number)}
+                                </span>
+                              )}
+                              {file.file_name || 'Untitled Video'}
+                            </p>
+                            {file.revision_rejection_reason && (
+                              <p className="text-[11px] text-red-500 truncate" title={file.revision_rejection_reason}>
+                                Rejected: {file.revision_rejection_reason}
+                              </p>
+                            )}
                             <div className="flex items-center justify-between">
-                              <div className="flex items-center gap-3 flex-1 min-w-0">
-                                <div className="w-10 h-10 bg-green-100 rounded-lg flex items-center justify-center shrink-0">
-                                  <Video className="w-5 h-5 text-green-600" />
-                                </div>
-                                <div className="flex-1 min-w-0">
-                                  <p className="text-sm font-medium text-gray-900 truncate">
-                                    {file.file_name || 'Untitled Video'}
-                                  </p>
-                                  <p className="text-xs text-gray-500">
-                                    {file.file_size ? `${(file.file_size / 1024 / 1024).toFixed(1)} MB` : 'Unknown size'}
-                                  </p>
-                                </div>
-                              </div>
-                              <div className="flex gap-2 shrink-0">
+                              <p className="text-xs text-gray-500">
+                                {file.file_size ? `${(file.file_size / 1024 / 1024).toFixed(1)} MB` : 'Unknown size'}
+                              </p>
+                              <div className="flex shrink-0">
+                                <button
+                                  onClick={() => setReviewingFileId(reviewingFileId === file.id ? null : file.id)}
+                                  className={`p-1.5 rounded-lg ${reviewingFileId === file.id ? 'bg-purple-100' : 'hover:bg-gray-100'}`}
+                                  title="Review in app"
+                                >
+                                  <PlayCircle className="w-4 h-4 text-purple-600" />
+                                </button>
                                 <a
                                   href={file.file_url}
                                   target="_blank"
                                   rel="noopener noreferrer"
-                                  className="p-2 hover:bg-gray-100 rounded-lg"
+                                  className="p-1.5 hover:bg-gray-100 rounded-lg"
                                 >
                                   <Eye className="w-4 h-4 text-gray-600" />
                                 </a>
                                 <a
                                   href={getDriveDownloadUrl(file.file_url)}
                                   download
-                                  className="p-2 hover:bg-gray-100 rounded-lg"
+                                  className="p-1.5 hover:bg-gray-100 rounded-lg"
                                 >
                                   <Download className="w-4 h-4 text-gray-600" />
                                 </a>
                               </div>
                             </div>
                           </div>
-                        ))
-                      )}
-                    </div>
+                        ))}
+                      </div>
+                    )}
+                    {editedFiles
+                      .filter((file: any) => file.id === reviewingFileId)
+                      .map((file: any) => (
+                        <div key={file.id} className="mt-3">
+                          <VideoReviewPlayer file={file} mode="review" />
+                        </div>
+                      ))}
                   </div>
                 )}
               </div>
@@ -2,11 +2,14 @@ import { useEffect, useState, useRef, useMemo } from 'react';
 import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { motion, AnimatePresence } from 'framer-motion';
-import { TrendingUp, Users, Settings, LogOut, UsersRound, ChevronRight } from 'lucide-react';
+import { AlarmClock, TrendingUp, Users, Settings, LogOut, UsersRound, ChevronRight } from 'lucide-react';
 import { adminService, type DashboardStats, type QueueStats } from '@/services/adminService';
+import { slaService } from '@/services/slaService';
 import { queryKeys } from '@/lib/queryKeys';
 import { useAuth } from '@/hooks/useAuth';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
+import NotificationBell from '@/components/NotificationBell';
+import SlaBadge from '@/components/SlaBadge';
 
 interface PendingScript {
   id: string;
@@ -35,6 +38,12 @@ export default function AdminHomePage() {
     queryFn: () => adminService.getPendingAnalyses().catch(() => []),
   });
 
+  // Projects past their stage SLA (not part of the page's loading state)
+  const { data: overdue = [] } = useQuery({
+    queryKey: queryKeys.sla.overdue(),
+    queryFn: () => slaService.getOverdueProjects(),
+  });
+
   const loading = statsLoading || pendingLoading;
   const isFetching = statsFetching || pendingFetching;
   const isError = statsError || pendingError;
@@ -156,6 +165,13 @@ export default function AdminHomePage() {
       count: `${stats?.totalUsers || 0} members`,
       bgColor: 'rgba(139, 92, 246, 0.1)',
     },
+    {
+      to: '/admin/talent',
+      icon: '🎭',
+      label: 'Talent',
+      count: 'Roster',
+      bgColor: 'rgba(236, 72, 153, 0.1)',
+    },
     {
       to: '/admin/analytics',
       icon: '📊',
@@ -190,65 +206,68 @@ export default function AdminHomePage() {
         </div>
 
         {/* Avatar with dropdown */}
-        <div ref={profileMenuRef} className="relative">
-          <button
-            onClick={() => setShowProfileMenu(!showProfileMenu)}
-            className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center text-white font-semibold cursor-pointer active:scale-95 transition-transform"
-          >
-            {userName.charAt(0).toUpperCase()}
-          </button>
-
-          {/* Profile Dropdown Menu */}
-          <AnimatePresence>
-            {showProfileMenu && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.95, y: -10 }}
-                animate={{ opacity: 1, scale: 1, y: 0 }}
-                exit={{ opacity: 0, scale: 0.95, y: -10 }}
-                transition={{ duration: 0.15 }}
-                className="absolute right-0 top-12 w-60 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
-              >
-                {/* Profile Header */}
-                <div className="bg-gradient-to-br from-purple-500 to-purple-600 p-4 text-white">
-                  <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center text-xl font-semibold mb-2">
-                    {userName.charAt(0).toUpperCase()}
+        <div className="flex items-center gap-2">
+          <NotificationBell />
+          <div ref={profileMenuRef} className="relative">
+            <button
+              onClick={() => setShowProfileMenu(!showProfileMenu)}
+              className="w-10 h-10 rounded-full bg-gradient-to-br from-purple-500 to-purple-600 flex items-center justify-center text-white font-semibold cursor-pointer active:scale-95 transition-transform"
+            >
+              {userName.charAt(0).toUpperCase()}
+            </button>
+
+            {/* Profile Dropdown Menu */}
+            <AnimatePresence>
+              {showProfileMenu && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.95, y: -10 }}
+                  animate={{ opacity: 1, scale: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.95, y: -10 }}
+                  transition={{ duration: 0.15 }}
+                  className="absolute right-0 top-12 w-60 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
+                >
+                  {/* Profile Header */}
+                  <div className="bg-gradient-to-br from-purple-500 to-purple-600 p-4 text-white">
+                    <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center text-xl font-semibold mb-2">
+                      {userName.charAt(0).toUpperCase()}
+                    </div>
+                    <p className="font-semibold">{userName}</p>
+                    <p className="text-purple-100 text-sm capitalize">{String(userRole).replace('_', ' ')}</p>
+                    <p className="text-purple-200 text-xs mt-0.5">{userEmail}</p>
                   </div>
-                  <p className="font-semibold">{userName}</p>
-                  <p className="text-purple-100 text-sm capitalize">{String(userRole).replace('_', ' ')}</p>
-                  <p className="text-purple-200 text-xs mt-0.5">{userEmail}</p>
-                </div>
 
-                {/* Menu Items */}
-                <div className="py-2">
-                  <Link
-                    to="/admin/team"
-                    onClick={() => setShowProfileMenu(false)}
-                    className="flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors"
-                  >
-                    <UsersRound className="w-5 h-5 text-gray-500" />
-                    <span className="text-sm">Manage Team</span>
-                  </Link>
-                  <Link
-                    to="/admin/settings"
-                    onClick={() => setShowProfileMenu(false)}
-                    className="flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors"
-                  >
-                    <Settings className="w-5 h-5 text-gray-500" />
-                    <span className="text-sm">Settings</span>
-                  </Link>
-                  <div className="border-t border-gray-100 mt-1 pt-1">
-                    <button
-                      onClick={handleLogout}
-                      className="w-full flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 transition-colors"
+                  {/* Menu Items */}
+                  <div className="py-2">
+                    <Link
+                      to="/admin/team"
+                      onClick={() => setShowProfileMenu(false)}
+                      className="flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      <UsersRound className="w-5 h-5 text-gray-500" />
+                      <span className="text-sm">Manage Team</span>
+                    </Link>
+                    <Link
+                      to="/admin/settings"
+                      onClick={() => setShowProfileMenu(false)}
+                      className="flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors"
                     >
-                      <LogOut className="w-5 h-5" />
-                      <span className="text-sm">Logout</span>
-                    </button>
+                      <Settings className="w-5 h-5 text-gray-500" />
+                      <span className="text-sm">Settings</span>
+                    </Link>
+                    <div className="border-t border-gray-100 mt-1 pt-1">
+                      <button
+                        onClick={handleLogout}
+                        className="w-full flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 transition-colors"
+                      >
+                        <LogOut className="w-5 h-5" />
+                        <span className="text-sm">Logout</span>
+                      </button>
+                    </div>
                   </div>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
         </div>
       </motion.div>
 
@@ -277,6 +296,34 @@ export default function AdminHomePage() {
         </div>
       </motion.div>
 
+      {/* Overdue projects */}
+      {overdue.length > 0 && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.05 }}
+          className="mb-6"
+        >
+          <Link to="/admin/production" className="block bg-red-50 border border-red-100 rounded-xl p-4 active:scale-[0.98] transition-transform">
+            <div className="flex items-center justify-between mb-2">
+              <span className="flex items-center gap-2 font-semibold text-red-700">
+                <AlarmClock className="w-4 h-4" />
+                {overdue.length} overdue project{overdue.length === 1 ? '' : 's'}
+              </span>
+              <ChevronRight className="w-4 h-4 text-red-400" />
+            </div>
+            <div className="space-y-1.5">
+              {overdue.slice(0, 3).map((project) => (
+                <div key={project.id} className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-gray-700 truncate">{project.title || project.content_id || 'Untitled'}</span>
+                  <SlaBadge project={project} />
+                </div>
+              ))}
+            </div>
+          </Link>
+        </motion.div>
+      )}
+
       {/* Quick Actions - 6 items with tinted backgrounds */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
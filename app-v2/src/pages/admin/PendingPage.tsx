@@ -2,14 +2,17 @@ import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { Clock, FileText, CheckSquare, Square, CheckCircle, Loader2, Search, X } from 'lucide-react';
+import { Clock, FileText, CheckSquare, Square, ListChecks, Search, Sparkles, X } from 'lucide-react';
 import { adminService } from '@/services/adminService';
+import { reviewScorecardService } from '@/services/reviewScorecardService';
 import { smartSearch } from '@/lib/smartSearch';
+import { predictScores, sortByPredictedScore } from '@/lib/reviewScorecard';
 import { queryKeys } from '@/lib/queryKeys';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
-import toast from 'react-hot-toast';
+import BulkReviewSheet from '@/components/BulkReviewSheet';
 
 type FilterType = 'all' | 'instagram' | 'youtube_shorts' | 'youtube_long';
+type SortType = 'newest' | 'predicted';
 
 export default function PendingPage() {
   const { data: scripts = [], isLoading, isFetching, isError, error, refetch } = useQuery({
@@ -17,11 +20,17 @@ export default function PendingPage() {
     queryFn: () => adminService.getPendingAnalyses(),
   });
 
+  const { data: scoreHistory = [] } = useQuery({
+    queryKey: queryKeys.scorecard.history(),
+    queryFn: () => reviewScorecardService.getScoreHistory(),
+  });
+
   const [filter, setFilter] = useState<FilterType>('all');
+  const [sort, setSort] = useState<SortType>('newest');
   const [searchQuery, setSearchQuery] = useState('');
   const [bulkMode, setBulkMode] = useState(false);
   const [selectedScripts, setSelectedScripts] = useState<Set<string>>(new Set());
-  const [bulkApproving, setBulkApproving] = useState(false);
+  const [showBulkReview, setShowBulkReview] = useState(false);
 
   // Toggle bulk mode
   const toggleBulkMode = () => {
@@ -51,36 +60,10 @@ export default function PendingPage() {
     setSelectedScripts(new Set());
   };
 
-  // Bulk approve handler
-  const handleBulkApprove = async () => {
-    if (selectedScripts.size === 0) {
-      toast.error('Please select at least one script');
-      return;
-    }
-
-    // TODO: Implement bulk approve method in adminService
-    toast.error('Bulk approve feature coming soon');
-    return;
-
-    // try {
-    //   setBulkApproving(true);
-    //   // Approve all selected scripts in parallel
-    //   const approvalPromises = Array.from(selectedScripts).map(scriptId =>
-    //     adminService.approveScript({ analysisId: scriptId })
-    //   );
-    //   await Promise.all(approvalPromises);
-    //   toast.success(`Successfully approved ${selectedScripts.size} scripts!`);
-    //   // Refresh list
-    //   await loadScripts();
-    //   // Clear selections
-    //   setSelectedScripts(new Set());
-    //   setBulkMode(false);
-    // } catch (error) {
-    //   console.error('Bulk approve failed:', error);
-    //   toast.error('Some approvals failed. Check console for details.');
-    // } finally {
-    //   setBulkApproving(false);
-    // }
+  // Leave bulk mode once a bulk review has run; reviewed scripts drop off the list
+  const handleBulkReviewDone = () => {
+    setSelectedScripts(new Set());
+    setBulkMode(false);
   };
 
   const platformFiltered = scripts.filter((script) => {
@@ -91,10 +74,16 @@ export default function PendingPage() {
     return true;
   });
 
-  const filteredScripts = searchQuery.trim()
+  const searchedScripts = searchQuery.trim()
     ? smartSearch(searchQuery, platformFiltered)
     : platformFiltered;
 
+  // Predicted from each writer's past review scores
+  const predictions = predictScores(scripts, scoreHistory);
+  const filteredScripts = sort === 'predicted'
+    ? sortByPredictedScore(searchedScripts, predictions)
+    : searchedScripts;
+
   const counts = {
     all: scripts.length,
     instagram: scripts.filter((s) => s.platform === 'instagram_reel').length,
@@ -215,21 +204,12 @@ export default function PendingPage() {
             </div>
 
             <button
-              onClick={handleBulkApprove}
-              disabled={selectedScripts.size === 0 || bulkApproving}
-              className="px-4 py-2 bg-green-500 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+              onClick={() => setShowBulkReview(true)}
+              disabled={selectedScripts.size === 0}
+              className="px-4 py-2 bg-purple-500 text-white rounded-lg text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
             >
-              {bulkApproving ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Approving...
-                </>
-              ) : (
-                <>
-                  <CheckCircle className="w-4 h-4" />
-                  Approve ({selectedScripts.size})
-                </>
-              )}
+              <ListChecks className="w-4 h-4" />
+              Review ({selectedScripts.size})
             </button>
           </div>
         </div>
@@ -271,7 +251,7 @@ export default function PendingPage() {
       <motion.div
         initial={{ opacity: 0, y: -10 }}
         animate={{ opacity: 1, y: 0 }}
-        className={`flex gap-2 mb-6 overflow-x-auto pb-2 -mx-4 px-4 ${bulkMode ? 'mt-16' : ''}`}
+        className={`flex gap-2 mb-3 overflow-x-auto pb-2 -mx-4 px-4 ${bulkMode ? 'mt-16' : ''}`}
       >
         {filters.map((f) => (
           <button
@@ -295,6 +275,24 @@ export default function PendingPage() {
         ))}
       </motion.div>
 
+      {/* Sort */}
+      {predictions.size > 0 && (
+        <div className="flex items-center gap-2 mb-4 text-xs">
+          <span className="text-gray-500">Sort by</span>
+          {([['newest', 'Newest'], ['predicted', 'Predicted score']] as [SortType, string][]).map(([id, label]) => (
+            <button
+              key={id}
+              onClick={() => setSort(id)}
+              className={`px-2.5 py-1 rounded-full font-medium ${
+                sort === id ? 'bg-purple-100 text-purple-700' : 'text-gray-500'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Empty State */}
       {filteredScripts.length === 0 && (
         <motion.div
@@ -314,6 +312,7 @@ export default function PendingPage() {
       <div className="space-y-3">
         {filteredScripts.map((script, index) => {
           const isSelected = selectedScripts.has(script.id);
+          const prediction = predictions.get(script.id);
 
           return (
             <motion.div
@@ -362,6 +361,17 @@ export default function PendingPage() {
                     <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
                       {script.shoot_type === 'outdoor' ? '🌳' : '🏠'} {script.shoot_type || 'Indoor'}
                     </span>
+                    {prediction && (
+                      <span
+                        className="text-xs bg-purple-50 text-purple-700 px-2 py-1 rounded-full flex items-center gap-1"
+                        title={prediction.basedOn > 0
+                          ? `Predicted from ${prediction.basedOn} reviewed script${prediction.basedOn === 1 ? '' : 's'} by this writer`
+                          : 'Team average — no reviewed scripts by this writer yet'}
+                      >
+                        <Sparkles className="w-3 h-3" />
+                        ~{prediction.score.toFixed(1)}
+                      </span>
+                    )}
                   </div>
 
                   {!bulkMode && (
@@ -378,6 +388,14 @@ export default function PendingPage() {
           );
         })}
       </div>
+
+      {showBulkReview && (
+        <BulkReviewSheet
+          scripts={scripts.filter((s) => selectedScripts.has(s.id))}
+          onClose={() => setShowBulkReview(false)}
+          onDone={handleBulkReviewDone}
+        />
+      )}
     </div>
     </QueryStateWrapper>
   );
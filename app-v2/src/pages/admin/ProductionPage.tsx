@@ -2,13 +2,22 @@ import { useState } from 'react';
 import { Link } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
-import { ChevronLeft, Folder, Search, X, CheckSquare, Square } from 'lucide-react';
+import { AlarmClock, ChevronLeft, Folder, Kanban, LayoutList, Search, X, CheckSquare, Square, Wand2, SlidersHorizontal } from 'lucide-react';
 import { adminService, type QueueStats } from '@/services/adminService';
 import { smartSearch } from '@/lib/smartSearch';
+import { overdueProjects } from '@/lib/stageSla';
 import { queryKeys } from '@/lib/queryKeys';
+import { slaService } from '@/services/slaService';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
+import AssignProjectSheet from '@/components/AssignProjectSheet';
+import AutoAssignSheet from '@/components/AutoAssignSheet';
+import BulkEditSheet from '@/components/BulkEditSheet';
+import ProductionBoard from '@/components/ProductionBoard';
+import SlaBadge from '@/components/SlaBadge';
+import SlaSettingsSheet from '@/components/SlaSettingsSheet';
+import type { AssignableRole, ViralAnalysis } from '@/types';
 
-type FilterType = 'all' | 'planning' | 'shooting' | 'editing' | 'edit_review' | 'ready';
+type FilterType = 'all' | 'overdue' | 'planning' | 'shooting' | 'editing' | 'edit_review' | 'ready';
 
 interface StageSection {
   id: string;
@@ -68,6 +77,13 @@ const STAGE_SECTIONS: StageSection[] = [
   },
 ];
 
+/** Which role a section's projects can be (re)assigned to */
+const SECTION_ASSIGN_ROLE: Record<string, AssignableRole> = {
+  planning: 'VIDEOGRAPHER',
+  shooting: 'VIDEOGRAPHER',
+  editing: 'EDITOR',
+};
+
 export default function ProductionPage() {
   const { data: statsData, isLoading: sl, isFetching: sf, isError: se, error: serr, refetch: rs } = useQuery({
     queryKey: queryKeys.admin.dashboardStats(),
@@ -77,6 +93,10 @@ export default function ProductionPage() {
     queryKey: queryKeys.admin.production(),
     queryFn: () => adminService.getAllApprovedAnalyses(),
   });
+  const { data: slas = [] } = useQuery({
+    queryKey: queryKeys.sla.settings(),
+    queryFn: () => slaService.getSlas(),
+  });
 
   const isLoading = sl || pl;
   const isFetching = sf || pf;
@@ -85,10 +105,15 @@ export default function ProductionPage() {
   const refetchAll = () => { rs(); rp(); };
   const stats: QueueStats | null = statsData?.queue ?? null;
 
+  const [view, setView] = useState<'list' | 'board'>('list');
   const [filter, setFilter] = useState<FilterType>('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [bulkMode, setBulkMode] = useState(false);
   const [selectedProjects, setSelectedProjects] = useState<Set<string>>(new Set());
+  const [showAutoAssign, setShowAutoAssign] = useState(false);
+  const [showSlaSettings, setShowSlaSettings] = useState(false);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [assigning, setAssigning] = useState<{ project: ViralAnalysis; role: AssignableRole } | null>(null);
 
   // Bulk select helpers
   const toggleBulkMode = () => {
@@ -110,19 +135,21 @@ export default function ProductionPage() {
   const searchedProjects = searchQuery.trim()
     ? smartSearch(searchQuery, allProjects)
     : allProjects;
+  const overdueIds = new Set(overdueProjects(searchedProjects, slas).map(p => p.id));
 
   const getProjectsBySection = (sectionId: string) => {
     const section = STAGE_SECTIONS.find(s => s.id === sectionId);
     if (!section) return [];
     return searchedProjects.filter(p => {
       const stage = p.production_stage || '';
+      if (filter === 'overdue' && !overdueIds.has(p.id)) return false;
       if (sectionId === 'planning' && !stage) return true; // null stage = planning
       return section.stages.includes(stage);
     });
   };
 
   const getFilteredSections = () => {
-    if (filter === 'all') return STAGE_SECTIONS;
+    if (filter === 'all' || filter === 'overdue') return STAGE_SECTIONS;
     return STAGE_SECTIONS.filter(s => s.id === filter);
   };
 
@@ -198,26 +225,55 @@ export default function ProductionPage() {
           <h1 className="text-xl font-semibold text-gray-900">Production</h1>
           <p className="text-sm text-gray-500">{totalPipeline} projects in pipeline</p>
         </div>
-        <button
-          onClick={toggleBulkMode}
-          className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 ${
-            bulkMode
-              ? 'bg-purple-500 text-white'
-              : 'bg-gray-100 text-gray-700'
-          }`}
-        >
-          {bulkMode ? (
-            <>
-              <CheckSquare className="w-4 h-4" />
-              Cancel
-            </>
-          ) : (
-            <>
-              <Square className="w-4 h-4" />
-              Select
-            </>
-          )}
-        </button>
+        {!bulkMode && (
+          <button
+            onClick={() => setView(view === 'list' ? 'board' : 'list')}
+            className="w-9 h-9 rounded-lg bg-gray-100 text-gray-700 flex items-center justify-center"
+            aria-label={view === 'list' ? 'Show board' : 'Show list'}
+          >
+            {view === 'list' ? <Kanban className="w-4 h-4" /> : <LayoutList className="w-4 h-4" />}
+          </button>
+        )}
+        {!bulkMode && (
+          <button
+            onClick={() => setShowAutoAssign(true)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 flex items-center gap-1"
+          >
+            <Wand2 className="w-4 h-4" />
+            Auto
+          </button>
+        )}
+        {!bulkMode && (
+          <button
+            onClick={() => setShowSlaSettings(true)}
+            className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-100 text-gray-700 flex items-center gap-1"
+          >
+            <AlarmClock className="w-4 h-4" />
+            SLA
+          </button>
+        )}
+        {view === 'list' && (
+          <button
+            onClick={toggleBulkMode}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors flex items-center gap-1 ${
+              bulkMode
+                ? 'bg-purple-500 text-white'
+                : 'bg-gray-100 text-gray-700'
+            }`}
+          >
+            {bulkMode ? (
+              <>
+                <CheckSquare className="w-4 h-4" />
+                Cancel
+              </>
+            ) : (
+              <>
+                <Square className="w-4 h-4" />
+                Select
+              </>
+            )}
+          </button>
+        )}
       </motion.div>
 
       {/* Bulk Action Bar */}
@@ -235,12 +291,22 @@ export default function ProductionPage() {
                 Clear
               </button>
             </div>
-            <button
-              onClick={toggleBulkMode}
-              className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm font-medium"
-            >
-              Done
-            </button>
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setShowBulkEdit(true)}
+                disabled={selectedProjects.size === 0}
+                className="px-4 py-2 bg-purple-500 text-white rounded-lg text-sm font-medium disabled:opacity-50 flex items-center gap-1.5"
+              >
+                <SlidersHorizontal className="w-4 h-4" />
+                Actions
+              </button>
+              <button
+                onClick={toggleBulkMode}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg text-sm font-medium"
+              >
+                Done
+              </button>
+            </div>
           </div>
         </div>
       )}
@@ -307,204 +373,246 @@ export default function ProductionPage() {
         </div>
       </motion.div>
 
-      {/* Filter Tabs */}
-      <motion.div
-        initial={{ opacity: 0, y: 10 }}
-        animate={{ opacity: 1, y: 0 }}
-        transition={{ delay: 0.1 }}
-        className={`flex gap-2 mb-6 overflow-x-auto hide-scrollbar -mx-4 px-4 ${bulkMode ? 'mt-14' : ''}`}
-      >
-        <button
-          onClick={() => setFilter('all')}
-          className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-            filter === 'all'
-              ? 'bg-purple-500 text-white'
-              : 'bg-gray-100 text-gray-600'
-          }`}
-        >
-          All
-          <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'all' ? 'bg-white/20' : 'bg-gray-200'}`}>
-            {totalPipeline}
-          </span>
-        </button>
-        <button
-          onClick={() => setFilter('planning')}
-          className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-            filter === 'planning'
-              ? 'bg-blue-500 text-white'
-              : 'bg-gray-100 text-gray-600'
-          }`}
-        >
-          Planning
-          <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'planning' ? 'bg-white/20' : 'bg-gray-200'}`}>
-            {stats?.planning || 0}
-          </span>
-        </button>
-        <button
-          onClick={() => setFilter('shooting')}
-          className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-            filter === 'shooting'
-              ? 'bg-orange-500 text-white'
-              : 'bg-gray-100 text-gray-600'
-          }`}
-        >
-          Shooting
-          <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'shooting' ? 'bg-white/20' : 'bg-gray-200'}`}>
-            {stats?.shooting || 0}
-          </span>
-        </button>
-        <button
-          onClick={() => setFilter('editing')}
-          className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-            filter === 'editing'
-              ? 'bg-pink-500 text-white'
-              : 'bg-gray-100 text-gray-600'
-          }`}
-        >
-          Editing
-          <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'editing' ? 'bg-white/20' : 'bg-gray-200'}`}>
-            {(stats?.readyForEdit || 0) + (stats?.editing || 0)}
-          </span>
-        </button>
-        <button
-          onClick={() => setFilter('edit_review')}
-          className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-            filter === 'edit_review'
-              ? 'bg-amber-500 text-white'
-              : 'bg-gray-100 text-gray-600'
-          }`}
-        >
-          Review
-          <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'edit_review' ? 'bg-white/20' : 'bg-gray-200'}`}>
-            {stats?.editReview || 0}
-          </span>
-        </button>
-        <button
-          onClick={() => setFilter('ready')}
-          className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
-            filter === 'ready'
-              ? 'bg-green-500 text-white'
-              : 'bg-gray-100 text-gray-600'
-          }`}
+      {view === 'board' ? (
+        <ProductionBoard projects={searchedProjects} />
+      ) : (
+        <>
+        {/* Filter Tabs */}
+        <motion.div
+          initial={{ opacity: 0, y: 10 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className={`flex gap-2 mb-6 overflow-x-auto hide-scrollbar -mx-4 px-4 ${bulkMode ? 'mt-14' : ''}`}
         >
-          Ready
-          <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'ready' ? 'bg-white/20' : 'bg-gray-200'}`}>
-            {stats?.readyToPost || 0}
-          </span>
-        </button>
-      </motion.div>
-
-      {/* Sections */}
-      {getFilteredSections().map((section, sectionIndex) => {
-        const sectionProjects = getProjectsBySection(section.id);
-        if (sectionProjects.length === 0) return null;
-
-        return (
-          <motion.section
-            key={section.id}
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.15 + sectionIndex * 0.05 }}
-            className="mb-6"
+          <button
+            onClick={() => setFilter('all')}
+            className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              filter === 'all'
+                ? 'bg-purple-500 text-white'
+                : 'bg-gray-100 text-gray-600'
+            }`}
           >
-            <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
-              <span>{section.emoji}</span>
-              {section.label}
-            </h2>
-
-            <div className="space-y-3">
-              {sectionProjects.map((project) => {
-                const platform = getPlatformLabel(project.platform);
-                const assignee = project.videographer || project.editor || project.posting_manager;
-                const assigneeRole = project.videographer ? 'Videographer' :
-                  project.editor ? 'Editor' :
-                  project.posting_manager ? 'Posting Manager' : null;
-                const isSelected = selectedProjects.has(project.id);
-
-                const cardContent = (
-                  <div className={`relative bg-white rounded-xl p-4 border-2 transition-all ${
-                    isSelected ? 'border-purple-500 bg-purple-50' : 'border-gray-100'
-                  }`}>
-                    {/* Bulk checkbox */}
-                    {bulkMode && (
-                      <button
-                        onClick={(e) => { e.preventDefault(); e.stopPropagation(); toggleProject(project.id); }}
-                        className="absolute top-3 left-3 z-10 w-8 h-8 flex items-center justify-center bg-white rounded-lg border-2 border-gray-300"
-                      >
-                        {isSelected ? (
-                          <CheckSquare className="w-5 h-5 text-purple-500" />
-                        ) : (
-                          <Square className="w-5 h-5 text-gray-400" />
-                        )}
-                      </button>
-                    )}
-
-                    <div className={bulkMode ? 'pl-10' : ''}>
-                      {/* Title and Badge */}
-                      <div className="flex items-start justify-between mb-2">
-                        <h3 className="font-semibold text-gray-900 flex-1 truncate pr-2">
-                          {project.title || 'Untitled Project'}
-                        </h3>
-                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${section.bgColor} ${section.textColor} whitespace-nowrap`}>
-                          {section.label.split(' ')[0]}
-                        </span>
-                      </div>
+            All
+            <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'all' ? 'bg-white/20' : 'bg-gray-200'}`}>
+              {totalPipeline}
+            </span>
+          </button>
+          {(overdueIds.size > 0 || filter === 'overdue') && (
+            <button
+              onClick={() => setFilter('overdue')}
+              className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+                filter === 'overdue'
+                  ? 'bg-red-500 text-white'
+                  : 'bg-red-50 text-red-600'
+              }`}
+            >
+              Overdue
+              <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'overdue' ? 'bg-white/20' : 'bg-red-100'}`}>
+                {overdueIds.size}
+              </span>
+            </button>
+          )}
+          <button
+            onClick={() => setFilter('planning')}
+            className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              filter === 'planning'
+                ? 'bg-blue-500 text-white'
+                : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            Planning
+            <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'planning' ? 'bg-white/20' : 'bg-gray-200'}`}>
+              {stats?.planning || 0}
+            </span>
+          </button>
+          <button
+            onClick={() => setFilter('shooting')}
+            className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              filter === 'shooting'
+                ? 'bg-orange-500 text-white'
+                : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            Shooting
+            <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'shooting' ? 'bg-white/20' : 'bg-gray-200'}`}>
+              {stats?.shooting || 0}
+            </span>
+          </button>
+          <button
+            onClick={() => setFilter('editing')}
+            className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              filter === 'editing'
+                ? 'bg-pink-500 text-white'
+                : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            Editing
+            <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'editing' ? 'bg-white/20' : 'bg-gray-200'}`}>
+              {(stats?.readyForEdit || 0) + (stats?.editing || 0)}
+            </span>
+          </button>
+          <button
+            onClick={() => setFilter('edit_review')}
+            className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              filter === 'edit_review'
+                ? 'bg-amber-500 text-white'
+                : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            Review
+            <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'edit_review' ? 'bg-white/20' : 'bg-gray-200'}`}>
+              {stats?.editReview || 0}
+            </span>
+          </button>
+          <button
+            onClick={() => setFilter('ready')}
+            className={`flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-all ${
+              filter === 'ready'
+                ? 'bg-green-500 text-white'
+                : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            Ready
+            <span className={`px-1.5 py-0.5 rounded-full text-xs ${filter === 'ready' ? 'bg-white/20' : 'bg-gray-200'}`}>
+              {stats?.readyToPost || 0}
+            </span>
+          </button>
+        </motion.div>
 
-                      {/* Content ID and Time */}
-                      <p className="text-sm text-gray-500 mb-2">
-                        {project.content_id || 'No ID'} • {formatTimeAgo(project.created_at)}
-                      </p>
-
-                      {/* Platform and Files */}
-                      <div className="flex gap-2 mb-3">
-                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-xs text-gray-600">
-                          {platform.emoji} {platform.label}
-                        </span>
-                        <span className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-xs text-gray-600">
-                          <Folder className="w-3 h-3" />
-                          {project.files_count || 0} files
-                        </span>
-                      </div>
+        {/* Sections */}
+        {getFilteredSections().map((section, sectionIndex) => {
+          const sectionProjects = getProjectsBySection(section.id);
+          if (sectionProjects.length === 0) return null;
+
+          return (
+            <motion.section
+              key={section.id}
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.15 + sectionIndex * 0.05 }}
+              className="mb-6"
+            >
+              <h2 className="font-semibold text-gray-900 mb-3 flex items-center gap-2">
+                <span>{section.emoji}</span>
+                {section.label}
+              </h2>
+
+              <div className="space-y-3">
+                {sectionProjects.map((project) => {
+                  const platform = getPlatformLabel(project.platform);
+                  const assignee = project.videographer || project.editor || project.posting_manager;
+                  const assigneeRole = project.videographer ? 'Videographer' :
+                    project.editor ? 'Editor' :
+                    project.posting_manager ? 'Posting Manager' : null;
+                  const isSelected = selectedProjects.has(project.id);
+                  const assignRole = SECTION_ASSIGN_ROLE[section.id];
+                  const assignment = assignRole ? project.assignments?.find(a => a.role === assignRole) : undefined;
+
+                  const cardContent = (
+                    <div className={`relative bg-white rounded-xl p-4 border-2 transition-all ${
+                      isSelected ? 'border-purple-500 bg-purple-50' : 'border-gray-100'
+                    }`}>
+                      {/* Bulk checkbox */}
+                      {bulkMode && (
+                        <button
+                          onClick={(e) => { e.preventDefault(); e.stopPropagation(); toggleProject(project.id); }}
+                          className="absolute top-3 left-3 z-10 w-8 h-8 flex items-center justify-center bg-white rounded-lg border-2 border-gray-300"
+                        >
+                          {isSelected ? (
+                            <CheckSquare className="w-5 h-5 text-purple-500" />
+                          ) : (
+                            <Square className="w-5 h-5 text-gray-400" />
+                          )}
+                        </button>
+                      )}
 
-                      {/* Progress Bar */}
-                      <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-3">
-                        <div
-                          className={`h-full ${section.color} rounded-full transition-all`}
-                          style={{ width: `${getStageProgress(project.production_stage)}%` }}
-                        />
-                      </div>
+                      <div className={bulkMode ? 'pl-10' : ''}>
+                        {/* Title and Badge */}
+                        <div className="flex items-start justify-between mb-2">
+                          <h3 className="font-semibold text-gray-900 flex-1 truncate pr-2">
+                            {project.title || 'Untitled Project'}
+                          </h3>
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${section.bgColor} ${section.textColor} whitespace-nowrap`}>
+                            {section.label.split(' ')[0]}
+                          </span>
+                        </div>
 
-                      {/* Assignee */}
-                      {assignee ? (
-                        <div className="flex items-center gap-2">
-                          <div className={`w-8 h-8 rounded-full ${section.color} flex items-center justify-center text-white text-xs font-semibold`}>
-                            {getInitials(assignee.full_name, assignee.email)}
-                          </div>
-                          <span className="text-sm text-gray-600">
-                            {assignee.full_name || assignee.email} ({assigneeRole})
+                        {/* Content ID and Time */}
+                        <p className="text-sm text-gray-500 mb-2">
+                          {project.content_id || 'No ID'} • {formatTimeAgo(project.created_at)}
+                        </p>
+
+                        {/* Platform and Files */}
+                        <div className="flex flex-wrap gap-2 mb-3">
+                          <span className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-xs text-gray-600">
+                            {platform.emoji} {platform.label}
+                          </span>
+                          <span className="inline-flex items-center gap-1 px-2 py-1 bg-gray-100 rounded-full text-xs text-gray-600">
+                            <Folder className="w-3 h-3" />
+                            {project.files_count || 0} files
                           </span>
+                          <SlaBadge project={project} />
                         </div>
-                      ) : (
-                        <p className="text-sm text-gray-400">No assignee yet</p>
-                      )}
+
+                        {/* Progress Bar */}
+                        <div className="h-2 bg-gray-100 rounded-full overflow-hidden mb-3">
+                          <div
+                            className={`h-full ${section.color} rounded-full transition-all`}
+                            style={{ width: `${getStageProgress(project.production_stage)}%` }}
+                          />
+                        </div>
+
+                        {/* Assignee */}
+                        {assignee ? (
+                          <div className="flex items-center gap-2">
+                            <div className={`w-8 h-8 rounded-full ${section.color} flex items-center justify-center text-white text-xs font-semibold`}>
+                              {getInitials(assignee.full_name, assignee.email)}
+                            </div>
+                            <span className="text-sm text-gray-600">
+                              {assignee.full_name || assignee.email} ({assigneeRole})
+                            </span>
+                          </div>
+                        ) : (
+                          <p className="text-sm text-gray-400">No assignee yet</p>
+                        )}
+
+                        {/* Why they were chosen, and the admin override */}
+                        {assignRole && !bulkMode && (
+                          <div className="flex items-start justify-between gap-2 mt-2">
+                            <p className="text-xs text-gray-500 min-w-0">
+                              {assignment?.auto_assigned && (
+                                <span className="inline-block px-1.5 py-0.5 mr-1 bg-purple-50 text-purple-700 rounded text-[10px] font-medium">Auto</span>
+                              )}
+                              {assignment?.assignment_reason}
+                            </p>
+                            <button
+                              onClick={(e) => { e.preventDefault(); e.stopPropagation(); setAssigning({ project, role: assignRole }); }}
+                              className="text-xs font-medium text-purple-600 whitespace-nowrap"
+                            >
+                              {assignment ? 'Change' : assignRole === 'VIDEOGRAPHER' ? 'Assign videographer' : 'Assign editor'}
+                            </button>
+                          </div>
+                        )}
+                      </div>
                     </div>
-                  </div>
-                );
-
-                return bulkMode ? (
-                  <div key={project.id} onClick={() => toggleProject(project.id)} className="cursor-pointer">
-                    {cardContent}
-                  </div>
-                ) : (
-                  <Link key={project.id} to={`/admin/project/${project.id}`} className="block active:bg-gray-50">
-                    {cardContent}
-                  </Link>
-                );
-              })}
-            </div>
-          </motion.section>
-        );
-      })}
+                  );
+
+                  return bulkMode ? (
+                    <div key={project.id} onClick={() => toggleProject(project.id)} className="cursor-pointer">
+                      {cardContent}
+                    </div>
+                  ) : (
+                    <Link key={project.id} to={`/admin/project/${project.id}`} className="block active:bg-gray-50">
+                      {cardContent}
+                    </Link>
+                  );
+                })}
+              </div>
+            </motion.section>
+          );
+        })}
+        </>
+      )}
 
       {/* Empty State */}
       {totalPipeline === 0 && (
@@ -518,6 +626,24 @@ export default function ProductionPage() {
           <p className="text-gray-500 text-sm">Approved scripts will appear here</p>
         </motion.div>
       )}
+
+      {showAutoAssign && <AutoAssignSheet onClose={() => setShowAutoAssign(false)} />}
+      {showSlaSettings && <SlaSettingsSheet onClose={() => setShowSlaSettings(false)} />}
+      {showBulkEdit && (
+        <BulkEditSheet
+          projects={allProjects.filter((p) => selectedProjects.has(p.id))}
+          onClose={() => setShowBulkEdit(false)}
+          onDone={() => setSelectedProjects(new Set())}
+        />
+      )}
+      {assigning && (
+        <AssignProjectSheet
+          project={assigning.project}
+          role={assigning.role}
+          currentUserId={assigning.project.assignments?.find(a => a.role === assigning.role)?.user_id}
+          onClose={() => setAssigning(null)}
+        />
+      )}
     </div>
     </QueryStateWrapper>
   );
@@ -20,8 +20,13 @@ import {
   SkipForward,
   Trash2,
 } from 'lucide-react';
+import FileReviewControls from '@/components/FileReviewControls';
+import ProjectComments from '@/components/ProjectComments';
+import ProjectTimeline from '@/components/ProjectTimeline';
+import TalentMatcher from '@/components/TalentMatcher';
+import VoiceNoteTranscript from '@/components/VoiceNoteTranscript';
 import { adminService } from '@/services/adminService';
-import type { ViralAnalysis } from '@/types';
+import type { ProductionFile, ViralAnalysis } from '@/types';
 import toast from 'react-hot-toast';
 
 interface SkipEntry {
@@ -33,7 +38,7 @@ interface SkipEntry {
   email?: string;
 }
 
-type TabType = 'details' | 'files' | 'team';
+type TabType = 'details' | 'files' | 'team' | 'comments' | 'activity';
 
 interface EditReviewState {
   showRejectModal: boolean;
@@ -121,6 +126,13 @@ export default function ProjectDetailPage() {
     }
   };
 
+  const handleFileReviewed = (updated: ProductionFile) => {
+    setProject((prev) => prev && {
+      ...prev,
+      production_files: prev.production_files?.map((f) => (f.id === updated.id ? { ...f, ...updated } : f)),
+    });
+  };
+
   const handleApproveEdit = async () => {
     try {
       setEditReview((prev) => ({ ...prev, submitting: true }));
@@ -331,8 +343,8 @@ export default function ProjectDetailPage() {
       )}
 
       {/* Tabs */}
-      <div className="flex gap-2 mb-4">
-        {(['details', 'files', 'team'] as TabType[]).map((tab) => (
+      <div className="flex gap-2 mb-4 overflow-x-auto">
+        {(['details', 'files', 'team', 'comments', 'activity'] as TabType[]).map((tab) => (
           <button
             key={tab}
             onClick={() => setActiveTab(tab)}
@@ -386,6 +398,7 @@ export default function ProjectDetailPage() {
                 )}
               </div>
               <p className="text-sm text-gray-600">{project.why_viral}</p>
+              <VoiceNoteTranscript transcript={project.why_viral_voice_note_transcript} />
             </div>
           )}
 
@@ -402,6 +415,7 @@ export default function ProjectDetailPage() {
                   {playingAudio === 'hook' ? 'Playing...' : 'Play'}
                 </button>
               </div>
+              <VoiceNoteTranscript transcript={project.hook_voice_note_transcript} />
             </div>
           )}
 
@@ -479,6 +493,8 @@ export default function ProjectDetailPage() {
             </div>
           )}
 
+          <TalentMatcher project={project} />
+
           {/* Metadata */}
           <div className="bg-white border border-gray-200 rounded-xl p-4">
             <h3 className="text-sm font-medium text-gray-700 mb-3">Details</h3>
@@ -528,20 +544,24 @@ export default function ProjectDetailPage() {
                 return null;
               }
               return (
-                <div className="space-y-2">
+                <div className="space-y-3">
                   {fileList.map((file: any) => (
-                    <a
-                      key={file.id}
-                      href={file.drive_view_link || file.file_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-2 text-purple-600 text-sm bg-purple-50 px-3 py-2 rounded-lg"
-                    >
-                      <FileVideo className="w-4 h-4" />
-                      <span className="flex-1 truncate">{file.file_name || file.file_type}</span>
-                      <span className="text-xs text-gray-400 shrink-0">{file.file_type}</span>
-                      <ExternalLink className="w-3 h-3 shrink-0" />
-                    </a>
+                    <div key={file.id}>
+                      <a
+                        href={file.drive_view_link || file.file_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className={`flex items-center gap-2 text-sm px-3 py-2 rounded-lg ${
+                          file.approval_status === 'rejected' ? 'text-red-600 bg-red-50' : 'text-purple-600 bg-purple-50'
+                        }`}
+                      >
+                        <FileVideo className="w-4 h-4" />
+                        <span className="flex-1 truncate">{file.file_name || file.file_type}</span>
+                        <span className="text-xs text-gray-400 shrink-0">{file.file_type}</span>
+                        <ExternalLink className="w-3 h-3 shrink-0" />
+                      </a>
+                      <FileReviewControls file={file} onReviewed={handleFileReviewed} />
+                    </div>
                   ))}
                 </div>
               );
@@ -598,18 +618,20 @@ export default function ProjectDetailPage() {
                               <p className="text-xs font-semibold text-green-700 mb-1.5">Latest Edit</p>
                               <div className="space-y-2">
                                 {recentEdits.map((file: any) => (
-                                  <a
-                                    key={file.id}
-                                    href={file.drive_view_link || file.file_url}
-                                    target="_blank"
-                                    rel="noopener noreferrer"
-                                    className="flex items-center gap-2 text-purple-600 text-sm bg-green-50 border border-green-200 px-3 py-2 rounded-lg ring-2 ring-green-400"
-                                  >
-                                    <FileVideo className="w-4 h-4" />
-                                    <span className="flex-1 truncate">{file.file_name || file.file_type}</span>
-                                    <span className="text-xs text-green-600 font-medium shrink-0">New</span>
-                                    <ExternalLink className="w-3 h-3 shrink-0" />
-                                  </a>
+                                  <div key={file.id}>
+                                    <a
+                                      href={file.drive_view_link || file.file_url}
+                                      target="_blank"
+                                      rel="noopener noreferrer"
+                                      className="flex items-center gap-2 text-purple-600 text-sm bg-green-50 border border-green-200 px-3 py-2 rounded-lg ring-2 ring-green-400"
+                                    >
+                                      <FileVideo className="w-4 h-4" />
+                                      <span className="flex-1 truncate">{file.file_name || file.file_type}</span>
+                                      <span className="text-xs text-green-600 font-medium shrink-0">New</span>
+                                      <ExternalLink className="w-3 h-3 shrink-0" />
+                                    </a>
+                                    <FileReviewControls file={file} onReviewed={handleFileReviewed} />
+                                  </div>
                                 ))}
                               </div>
                             </div>
@@ -672,6 +694,7 @@ export default function ProjectDetailPage() {
                 {playingAudio === 'feedback' ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
                 <span className="flex-1 text-left">{playingAudio === 'feedback' ? 'Playing...' : 'Play Feedback'}</span>
               </button>
+              <VoiceNoteTranscript transcript={project.feedback_voice_note_transcript} />
             </div>
           )}
         </motion.div>
@@ -818,6 +841,26 @@ export default function ProjectDetailPage() {
         </motion.div>
       )}
 
+      {activeTab === 'comments' && (
+        <motion.div
+          key="comments"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <ProjectComments analysisId={project.id} />
+        </motion.div>
+      )}
+
+      {activeTab === 'activity' && (
+        <motion.div
+          key="activity"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <ProjectTimeline analysisId={project.id} refreshKey={`${project.updated_at}-${skips.length}`} />
+        </motion.div>
+      )}
+
       {/* Review Button for Pending */}
       {project.status === 'PENDING' && (
         <Link
@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import {
   ExternalLink,
@@ -8,11 +9,21 @@ import {
   XCircle,
   Loader2,
   Copy,
+  History,
+  SlidersHorizontal,
 } from 'lucide-react';
 import VoiceRecorder from '@/components/VoiceRecorder';
 import CharacterTagSelector from '@/components/CharacterTagSelector';
+import ScorecardSettingsSheet from '@/components/ScorecardSettingsSheet';
+import ResubmissionChanges from '@/components/ResubmissionChanges';
+import ScriptHistorySheet from '@/components/ScriptHistorySheet';
+import VoiceNoteTranscript from '@/components/VoiceNoteTranscript';
 import { adminService, type ReviewData } from '@/services/adminService';
+import { reviewScorecardService } from '@/services/reviewScorecardService';
+import { scriptReviewService } from '@/services/scriptReviewService';
 import { supabase } from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { computeOverallScore } from '@/lib/reviewScorecard';
 import type { ViralAnalysis } from '@/types';
 import toast from 'react-hot-toast';
 
@@ -24,6 +35,8 @@ const RATING_OPTIONS = [
   { label: '9-10', value: 10 },
 ];
 
+const DEFAULT_RATING = 8;
+
 export default function ReviewPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -33,16 +46,31 @@ export default function ReviewPage() {
 
   // Review form state
   const [decision, setDecision] = useState<'approve' | 'reject' | null>(null);
-  const [hookStrength, setHookStrength] = useState(8);
-  const [contentQuality, setContentQuality] = useState(8);
-  const [viralPotential, setViralPotential] = useState(8);
-  const [replicationClarity, setReplicationClarity] = useState(8);
+  const [ratings, setRatings] = useState<Record<string, number>>({});
+  const [showScorecardSettings, setShowScorecardSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [feedback, setFeedback] = useState('');
+  const [rejectionReasons, setRejectionReasons] = useState<string[]>([]);
   const [feedbackVoiceNote, setFeedbackVoiceNote] = useState<Blob | null>(null);
+  const [voiceNotePending, setVoiceNotePending] = useState(false);
   const [profiles, setProfiles] = useState<{ id: string; name: string; platform?: string }[]>([]);
   const [selectedProfileId, setSelectedProfileId] = useState<string>('');
   const [characterTags, setCharacterTags] = useState<{ id: string; name: string; description?: string; is_active: boolean }[]>([]);
 
+  const { data: criteria = [], isLoading: criteriaLoading } = useQuery({
+    queryKey: queryKeys.scorecard.criteria(),
+    queryFn: () => reviewScorecardService.getCriteria(),
+  });
+  const { data: reasons = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.reasons(),
+    queryFn: () => scriptReviewService.getReasons(),
+    staleTime: 60 * 60 * 1000,
+  });
+  const activeCriteria = criteria.filter((c) => c.is_active);
+  const scores = Object.fromEntries(activeCriteria.map((c) => [c.key, ratings[c.key] ?? DEFAULT_RATING]));
+  const overallScore = computeOverallScore(scores, criteria);
+  const hasWeights = activeCriteria.some((c) => c.weight !== activeCriteria[0]?.weight);
+
   useEffect(() => {
     if (id) {
       loadScript(id);
@@ -100,11 +128,21 @@ export default function ReviewPage() {
       return;
     }
 
+    if (decision === 'reject' && reasons.length > 0 && rejectionReasons.length === 0) {
+      toast.error('Please pick at least one rejection reason');
+      return;
+    }
+
     if (decision === 'reject' && !feedback.trim()) {
       toast.error('Please provide feedback for rejection');
       return;
     }
 
+    if (voiceNotePending) {
+      toast.error('Please save or undo your voice feedback edits first');
+      return;
+    }
+
     if (!id) return;
 
     try {
@@ -112,12 +150,10 @@ export default function ReviewPage() {
 
       const reviewData: ReviewData = {
         status: decision === 'approve' ? 'APPROVED' : 'REJECTED',
-        hookStrength,
-        contentQuality,
-        viralPotential,
-        replicationClarity,
+        scores,
         feedback: feedback.trim() || undefined,
         feedbackVoiceNote,
+        rejectionReasons: decision === 'reject' ? rejectionReasons : undefined,
         profileId: selectedProfileId || undefined,
       };
 
@@ -168,15 +204,26 @@ export default function ReviewPage() {
 
   return (
     <div className="pb-8">
+      {script.resubmitted_at && <ResubmissionChanges script={script} />}
+
       {/* Script Preview */}
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
         className="bg-gray-50 rounded-xl p-4 mb-6"
       >
-        <h1 className="text-lg font-semibold text-gray-900 mb-2">
-          {script.title || 'Untitled'}
-        </h1>
+        <div className="flex items-start justify-between gap-2 mb-2">
+          <h1 className="text-lg font-semibold text-gray-900">
+            {script.title || 'Untitled'}
+          </h1>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="flex items-center gap-1.5 text-xs font-medium text-purple-600 shrink-0 mt-1"
+          >
+            <History className="w-3.5 h-3.5" />
+            History
+          </button>
+        </div>
 
         <div className="flex flex-wrap gap-2 mb-4">
           <span className="text-xs bg-white border border-gray-200 text-gray-600 px-2 py-1 rounded-full">
@@ -288,6 +335,7 @@ export default function ReviewPage() {
                 <p className="text-xs text-gray-500">Tap to play</p>
               </div>
             </button>
+            <VoiceNoteTranscript transcript={script.hook_voice_note_transcript} />
           </div>
         )}
       </motion.div>
@@ -301,37 +349,45 @@ export default function ReviewPage() {
         transition={{ delay: 0.1 }}
         className="mb-6"
       >
-        <h2 className="font-semibold text-gray-900 mb-4">Score This Script</h2>
-
-        <div className="space-y-4">
-          <RatingField
-            label="Hook Strength"
-            value={hookStrength}
-            onChange={setHookStrength}
-          />
-          <RatingField
-            label="Content Quality"
-            value={contentQuality}
-            onChange={setContentQuality}
-          />
-          <RatingField
-            label="Viral Potential"
-            value={viralPotential}
-            onChange={setViralPotential}
-          />
-          <RatingField
-            label="Replication Clarity"
-            value={replicationClarity}
-            onChange={setReplicationClarity}
-          />
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="font-semibold text-gray-900">Score This Script</h2>
+          <button
+            type="button"
+            onClick={() => setShowScorecardSettings(true)}
+            className="flex items-center gap-1 text-xs text-purple-600 font-medium"
+          >
+            <SlidersHorizontal className="w-3.5 h-3.5" />
+            Criteria
+          </button>
         </div>
 
+        {criteriaLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-6 h-6 text-purple-500 animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {activeCriteria.map((criterion) => (
+              <RatingField
+                key={criterion.key}
+                label={criterion.label}
+                hint={criterion.description}
+                weight={hasWeights ? criterion.weight : undefined}
+                value={scores[criterion.key]}
+                onChange={(value) => setRatings((prev) => ({ ...prev, [criterion.key]: value }))}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Overall Score */}
         <div className="mt-4 p-4 bg-purple-50 rounded-xl">
           <div className="flex items-center justify-between">
-            <span className="font-medium text-purple-900">Overall Score</span>
+            <span className="font-medium text-purple-900">
+              {hasWeights ? 'Weighted Overall Score' : 'Overall Score'}
+            </span>
             <span className="text-2xl font-bold text-purple-600">
-              {((hookStrength + contentQuality + viralPotential + replicationClarity) / 4).toFixed(1)}
+              {overallScore !== null ? overallScore.toFixed(1) : '–'}
             </span>
           </div>
         </div>
@@ -421,6 +477,32 @@ export default function ReviewPage() {
             animate={{ opacity: 1, height: 'auto' }}
             className="space-y-4"
           >
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Reasons *
+              </label>
+              <div className="flex flex-wrap gap-2">
+                {reasons.map((reason) => {
+                  const selected = rejectionReasons.includes(reason.code);
+                  return (
+                    <button
+                      key={reason.code}
+                      type="button"
+                      title={reason.description || undefined}
+                      onClick={() => setRejectionReasons((prev) =>
+                        selected ? prev.filter((code) => code !== reason.code) : [...prev, reason.code]
+                      )}
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                        selected ? 'bg-red-500 border-red-500 text-white' : 'bg-white border-gray-200 text-gray-700'
+                      }`}
+                    >
+                      {reason.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
                 Feedback for Writer *
@@ -439,6 +521,7 @@ export default function ReviewPage() {
               hint="Record additional feedback"
               value={feedbackVoiceNote}
               onChange={setFeedbackVoiceNote}
+              onPendingChange={setVoiceNotePending}
             />
           </motion.div>
         )}
@@ -465,22 +548,44 @@ export default function ReviewPage() {
           )}
         </button>
       </motion.div>
+
+      {showScorecardSettings && <ScorecardSettingsSheet onClose={() => setShowScorecardSettings(false)} />}
+      {showHistory && (
+        <ScriptHistorySheet
+          script={script}
+          canRestore
+          onClose={() => setShowHistory(false)}
+          onRestored={(updated) => {
+            setScript({ ...script, ...updated });
+            setShowHistory(false);
+          }}
+        />
+      )}
     </div>
   );
 }
 
 function RatingField({
   label,
+  hint,
+  weight,
   value,
   onChange,
 }: {
   label: string;
+  hint?: string | null;
+  /** Shown when criteria are weighted differently */
+  weight?: number;
   value: number;
   onChange: (value: number) => void;
 }) {
   return (
     <div>
-      <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+      <div className="flex items-baseline justify-between mb-2">
+        <label className="block text-sm font-medium text-gray-700">{label}</label>
+        {weight !== undefined && <span className="text-xs text-gray-400">×{weight}</span>}
+      </div>
+      {hint && <p className="text-xs text-gray-500 -mt-1.5 mb-2">{hint}</p>}
       <div className="flex gap-2">
         {RATING_OPTIONS.map((option) => (
           <button
@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Instagram, Loader2, Phone, Plus, Search } from 'lucide-react';
+import Header from '@/components/Header';
+import TalentForm from '@/components/TalentForm';
+import TalentPhoto from '@/components/TalentPhoto';
+import { queryKeys } from '@/lib/queryKeys';
+import { isAvailableOn } from '@/lib/talentMatching';
+import { toDateKey } from '@/lib/shootDays';
+import { talentService } from '@/services/talentService';
+import { CastMemberLabels } from '@/types';
+import type { CastMemberKey, Talent } from '@/types';
+
+/**
+ * Talent roster: search by name, filter by cast category, add and edit people
+ */
+export default function TalentPage() {
+  const [search, setSearch] = useState('');
+  const [category, setCategory] = useState<CastMemberKey | 'all'>('all');
+  const [showArchived, setShowArchived] = useState(false);
+  const [editing, setEditing] = useState<Talent | 'new' | null>(null);
+
+  const { data: roster = [], isLoading } = useQuery({
+    queryKey: queryKeys.talent.roster(true),
+    queryFn: () => talentService.getRoster({ includeInactive: true }),
+  });
+
+  const today = toDateKey(new Date());
+  const query = search.trim().toLowerCase();
+  const visible = roster.filter((t) =>
+    (showArchived || t.is_active) &&
+    (category === 'all' || t.category === category) &&
+    (!query || t.full_name.toLowerCase().includes(query) || t.instagram?.toLowerCase().includes(query))
+  );
+
+  return (
+    <>
+      <Header
+        title="Talent"
+        subtitle={`${roster.filter((t) => t.is_active).length} on the roster`}
+        showBack
+        rightAction={
+          <button onClick={() => setEditing('new')} className="p-2 rounded-lg hover:bg-gray-100" title="Add talent">
+            <Plus className="w-5 h-5 text-gray-600" />
+          </button>
+        }
+      />
+
+      <div className="px-4 py-4 pb-24 space-y-4">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            type="search"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name or Instagram"
+            className="w-full pl-9 pr-3 py-2.5 bg-white border border-gray-200 rounded-xl text-sm"
+          />
+        </div>
+
+        <div className="flex gap-2 overflow-x-auto pb-1 -mx-4 px-4">
+          {([['all', 'All'], ...Object.entries(CastMemberLabels)] as [CastMemberKey | 'all', string][]).map(([key, label]) => (
+            <button
+              key={key}
+              onClick={() => setCategory(key)}
+              className={`px-3 py-1.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                category === key ? 'bg-purple-500 text-white' : 'bg-white border border-gray-200 text-gray-600'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+          Show archived
+        </label>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="w-8 h-8 text-purple-500 animate-spin" />
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="bg-gray-50 rounded-xl p-6 text-center">
+            <p className="text-gray-500 text-sm">{roster.length === 0 ? 'No one on the roster yet' : 'No one matches'}</p>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {visible.map((person) => (
+              <button
+                key={person.id}
+                onClick={() => setEditing(person)}
+                className={`w-full flex items-center gap-3 p-3 bg-white rounded-xl border border-gray-100 text-left ${
+                  person.is_active ? '' : 'opacity-60'
+                }`}
+              >
+                <TalentPhoto url={person.photo_urls[0]} className="w-12 h-12 rounded-full" iconClassName="w-5 h-5" />
+                <span className="flex-1 min-w-0">
+                  <span className="flex items-center gap-2">
+                    <span className="text-sm font-semibold text-gray-900 truncate">{person.full_name}</span>
+                    {!isAvailableOn(person.unavailability, today) && (
+                      <span className="px-1.5 py-0.5 bg-amber-50 text-amber-700 text-[10px] rounded">Away today</span>
+                    )}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {CastMemberLabels[person.category]}{!person.is_active && ' · Archived'}
+                  </span>
+                  <span className="flex items-center gap-3 mt-0.5 text-xs text-gray-400">
+                    {person.phone && (
+                      <span className="flex items-center gap-1"><Phone className="w-3 h-3" />{person.phone}</span>
+                    )}
+                    {person.instagram && (
+                      <span className="flex items-center gap-1 truncate"><Instagram className="w-3 h-3" />{person.instagram}</span>
+                    )}
+                  </span>
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {editing && (
+        <TalentForm talent={editing === 'new' ? undefined : editing} onClose={() => setEditing(null)} />
+      )}
+    </>
+  );
+}
@@ -1,13 +1,23 @@
 import { useEffect, useState } from 'react';
 import { useParams, Link, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { ExternalLink, Play, Pause, FileText, Video, Download, Upload, Clock, Loader2, CheckCircle, BarChart3, MessageSquare } from 'lucide-react';
+import FileReviewStatus from '@/components/FileReviewStatus';
 import Header from '@/components/Header';
 import { Button } from '@/components/ui';
+import ProjectComments from '@/components/ProjectComments';
+import ProjectTimeline from '@/components/ProjectTimeline';
+import VideoThumbnail from '@/components/VideoThumbnail';
+import VideoReviewPlayer from '@/components/VideoReviewPlayer';
+import VoiceNoteTranscript from '@/components/VoiceNoteTranscript';
+import { groupRevisions, revisionLabel } from '@/lib/editRevisions';
 import { editorService } from '@/services/editorService';
+import { videoReviewService } from '@/services/videoReviewService';
+import { queryKeys } from '@/lib/queryKeys';
 import type { ViralAnalysis } from '@/types';
 import toast from 'react-hot-toast';
 
-type TabType = 'script' | 'files' | 'progress';
+type TabType = 'script' | 'files' | 'progress' | 'comments';
 
 // Helper to get file type icon and label
 const getFileTypeInfo = (fileType: string) => {
@@ -45,6 +55,12 @@ export default function EditorProjectDetailPage() {
   const [editingProgress, setEditingProgress] = useState(30);
   const [progressNote, setProgressNote] = useState('');
 
+  const { data: reviewNotes = [] } = useQuery({
+    queryKey: queryKeys.videoReview.project(id!),
+    queryFn: () => videoReviewService.getProjectNotes(id!),
+    enabled: !!id,
+  });
+
   useEffect(() => {
     if (id) loadProject();
   }, [id]);
@@ -239,6 +255,7 @@ export default function EditorProjectDetailPage() {
             { id: 'script', label: 'Script', icon: FileText },
             { id: 'files', label: 'Footage', icon: Video },
             { id: 'progress', label: 'Progress', icon: BarChart3 },
+            { id: 'comments', label: 'Chat', icon: MessageSquare },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -330,6 +347,7 @@ export default function EditorProjectDetailPage() {
                     </div>
                   </button>
                 )}
+                <VoiceNoteTranscript transcript={project.hook_voice_note_transcript} className="px-1" />
                 {project.why_viral_voice_note_url && (
                   <button
                     onClick={() => playVoiceNote(project.why_viral_voice_note_url!, 'whyViral')}
@@ -344,6 +362,7 @@ export default function EditorProjectDetailPage() {
                     </div>
                   </button>
                 )}
+                <VoiceNoteTranscript transcript={project.why_viral_voice_note_transcript} className="px-1" />
               </div>
             )}
 
@@ -387,9 +406,14 @@ export default function EditorProjectDetailPage() {
                           href={file.file_url}
                           target="_blank"
                           rel="noopener noreferrer"
-                          className="bg-white rounded-xl border border-gray-100 p-3 text-center card-press"
+                          className="bg-white rounded-xl border border-gray-100 p-2 text-center card-press"
                         >
-                          <div className="text-3xl mb-2">{typeInfo.icon}</div>
+                          <VideoThumbnail
+                            src={file.thumbnail_url}
+                            durationSeconds={file.duration_seconds}
+                            fallback={<span className="text-3xl">{typeInfo.icon}</span>}
+                            className="mb-2"
+                          />
                           <p className="font-medium text-gray-900 text-sm truncate">{file.file_name?.split('.')[0]}</p>
                           <p className="text-xs text-gray-500 mt-1">
                             {file.file_size ? `${(file.file_size / 1024 / 1024).toFixed(0)} MB` : '—'}
@@ -446,7 +470,12 @@ export default function EditorProjectDetailPage() {
               let recentEdits: any[] = [];
               let olderEdits: any[] = [];
 
-              if (hasRejection && sortedEdited.length > 1) {
+              const revisions = groupRevisions(editedFiles);
+              if (editedFiles.some((f: any) => f.revision_number)) {
+                // Latest revision vs. the ones it replaced
+                recentEdits = revisions[0]?.files || [];
+                olderEdits = revisions.slice(1).flatMap((r) => r.files);
+              } else if (hasRejection && sortedEdited.length > 1) {
                 // Group: latest batch = files sharing the most recent date (within 1 hour of newest)
                 const newestTime = new Date(sortedEdited[0]?.created_at || 0).getTime();
                 recentEdits = sortedEdited.filter((f: any) =>
@@ -497,8 +526,13 @@ export default function EditorProjectDetailPage() {
                                     {file.file_size ? `${(file.file_size / 1024 / 1024).toFixed(0)} MB` : '—'}
                                   </p>
                                   <span className="inline-block px-2 py-0.5 rounded-full text-[10px] font-medium mt-2 bg-green-200 text-green-700">
-                                    {olderEdits.length > 0 ? 'New' : typeInfo.label}
+                                    {file.revision_number ? revisionLabel(file.revision_number) : olderEdits.length > 0 ? 'New' : typeInfo.label}
                                   </span>
+                                  {file.approval_status === 'rejected' && (
+                                    <div className="mt-1.5 text-left">
+                                      <FileReviewStatus file={file} />
+                                    </div>
+                                  )}
                                 </a>
                               );
                             })}
@@ -529,8 +563,13 @@ export default function EditorProjectDetailPage() {
                                     {file.file_size ? `${(file.file_size / 1024 / 1024).toFixed(0)} MB` : '—'}
                                   </p>
                                   <span className="inline-block px-2 py-0.5 rounded-full text-[10px] font-medium mt-2 bg-gray-200 text-gray-500">
-                                    {typeInfo.label}
+                                    {file.revision_number ? revisionLabel(file.revision_number) : typeInfo.label}
                                   </span>
+                                  {file.revision_rejection_reason && (
+                                    <p className="text-[10px] text-red-500 mt-1 line-clamp-2 text-left">
+                                      {file.revision_rejection_reason}
+                                    </p>
+                                  )}
                                 </a>
                               );
                             })}
@@ -549,6 +588,34 @@ export default function EditorProjectDetailPage() {
               );
             })()}
 
+            {/* Timestamped notes from the admin's review, newest file first */}
+            {(() => {
+              const reviewedFiles = [...editedFiles]
+                .filter((f: any) => reviewNotes.some((n) => n.file_id === f.id))
+                .sort((a: any, b: any) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime());
+              if (reviewedFiles.length === 0) return null;
+              const openCount = reviewNotes.filter((n) => !n.is_resolved).length;
+
+              return (
+                <div>
+                  <div className="flex items-center justify-between mb-3">
+                    <h3 className="text-sm font-semibold text-gray-700">Review Notes</h3>
+                    <span className={`text-xs ${openCount > 0 ? 'text-red-500' : 'text-green-600'}`}>
+                      {openCount > 0 ? `${openCount} to fix` : 'All resolved'}
+                    </span>
+                  </div>
+                  <div className="space-y-3">
+                    {reviewedFiles.map((file: any) => (
+                      <div key={file.id}>
+                        <p className="text-xs text-gray-500 truncate mb-1">{file.file_name}</p>
+                        <VideoReviewPlayer file={file} mode="checklist" />
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })()}
+
             {project.production_stage === 'EDITING' && (
               <div className="space-y-3">
                 <Link to={`/editor/upload/${id}`}>
@@ -638,6 +705,14 @@ export default function EditorProjectDetailPage() {
                 ))}
               </div>
             </div>
+
+            <ProjectTimeline analysisId={project.id} refreshKey={project.updated_at} />
+          </div>
+        )}
+
+        {activeTab === 'comments' && (
+          <div className="animate-fade-in">
+            <ProjectComments analysisId={project.id} />
           </div>
         )}
       </div>
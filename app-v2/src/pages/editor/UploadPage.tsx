@@ -1,12 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Upload, Video, CheckCircle, X, AlertCircle, Loader2, ExternalLink } from 'lucide-react';
 import Header from '@/components/Header';
 import { Button } from '@/components/ui';
 import toast from 'react-hot-toast';
 import { editorService } from '@/services/editorService';
-import { driveUploadService, type UploadProgress } from '@/services/driveUploadService';
 import { productionFilesService } from '@/services/productionFilesService';
+import { uploadQueueService, getUploadPercentage, isActiveUpload } from '@/services/uploadQueueService';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
 import type { ViralAnalysis } from '@/types';
 
 interface Checklist {
@@ -22,12 +23,8 @@ export default function EditorUploadPage() {
   const navigate = useNavigate();
   const [project, setProject] = useState<ViralAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
-  const [file, setFile] = useState<File | null>(null);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploadId, setUploadId] = useState<string | null>(null);
   const [isUploaded, setIsUploaded] = useState(false);
-  const [uploadError, setUploadError] = useState<string | null>(null);
-  const [_uploadResult, setUploadResult] = useState<{ fileId: string; webViewLink: string } | null>(null);
   const [editNotes, setEditNotes] = useState('');
   const [driveLink, setDriveLink] = useState('');
   const [savingDriveLink, setSavingDriveLink] = useState(false);
@@ -49,6 +46,25 @@ export default function EditorUploadPage() {
 
   const allChecked = Object.values(checklist).every(Boolean);
 
+  // The upload runs in the persistent queue, so it keeps going if this page
+  // is left and is picked up again after a reload
+  const handleUploadComplete = useCallback(() => {
+    setIsUploaded(true);
+    toast.success('Video uploaded successfully!');
+  }, []);
+
+  const editUploads = useUploadQueue({ analysisId: id, onComplete: handleUploadComplete })
+    .filter((item) => item.fileType === 'edited-video');
+  const unfinished = editUploads.filter((item) => item.status !== 'complete');
+  const currentUpload = editUploads.find((item) => item.id === uploadId)
+    || unfinished[unfinished.length - 1];
+
+  const file = currentUpload ? { name: currentUpload.originalName, size: currentUpload.size } : null;
+  const isUploading = currentUpload ? isActiveUpload(currentUpload) : false;
+  const isPaused = currentUpload?.status === 'paused';
+  const uploadProgress = currentUpload ? getUploadPercentage(currentUpload) : 0;
+  const uploadError = currentUpload?.status === 'error' ? currentUpload.error || 'Upload failed' : null;
+
   useEffect(() => {
     if (id) loadProject();
   }, [id]);
@@ -69,86 +85,52 @@ export default function EditorUploadPage() {
 
   const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
+    e.target.value = '';
     if (!selectedFile) return;
 
-    setFile(selectedFile);
-    setUploadError(null);
-    setIsUploaded(false);
-    setUploadProgress(0);
-
     if (!project) {
       toast.error('Project not loaded');
       return;
     }
 
-    // Start upload immediately
-    setIsUploading(true);
-    const uploadKey = `editor-${Date.now()}`;
-
-    try {
-      // Step 1: Get resumable upload URI from backend
-      const { resumableUri, fileName: renamedFileName } = await driveUploadService.initUpload({
-        contentId: project.content_id || project.id,
-        analysisId: project.id,
-        fileName: selectedFile.name,
-        mimeType: selectedFile.type,
-        fileSize: selectedFile.size,
-        fileType: 'edited-video',
-      });
-
-      // Step 2: Upload directly to Google Drive
-      const driveResult = await driveUploadService.uploadFile(
-        selectedFile,
-        resumableUri,
-        (progress: UploadProgress) => {
-          setUploadProgress(progress.percentage);
-        },
-        uploadKey,
-        renamedFileName
-      );
-
-      // Step 3: Finalize — make public + save to DB
-      await driveUploadService.finalizeUpload({
-        analysisId: project.id,
-        fileType: 'edited-video',
-        fileName: renamedFileName,
-        fileId: driveResult.fileId,
-        fileUrl: driveResult.webViewLink,
-        fileSize: driveResult.size,
-        mimeType: selectedFile.type,
-      });
-
-      setUploadResult({
-        fileId: driveResult.fileId,
-        webViewLink: driveResult.webViewLink,
-      });
-      setIsUploaded(true);
-      toast.success('Video uploaded successfully!');
-    } catch (error) {
-      console.error('Upload failed:', error);
-      setUploadError(error instanceof Error ? error.message : 'Upload failed');
-      toast.error('Upload failed. Please try again.');
-    } finally {
-      setIsUploading(false);
+    // Replace a failed or finished upload with the new file
+    if (currentUpload) {
+      await uploadQueueService.remove(currentUpload.id);
     }
+    setIsUploaded(false);
+
+    const [queued] = await uploadQueueService.enqueue([{
+      analysisId: project.id,
+      contentId: project.content_id || project.id,
+      uploadType: 'edited-video',
+      fileType: 'edited-video',
+      file: selectedFile,
+    }]);
+    setUploadId(queued.id);
   };
 
   const handleRemoveFile = () => {
-    setFile(null);
+    if (currentUpload) {
+      uploadQueueService.remove(currentUpload.id);
+    }
+    setUploadId(null);
     setIsUploaded(false);
-    setUploadProgress(0);
-    setUploadError(null);
-    setUploadResult(null);
   };
 
   const cancelUpload = () => {
-    driveUploadService.abortUpload(`editor-${Date.now()}`);
-    setIsUploading(false);
-    setUploadProgress(0);
-    setFile(null);
+    if (currentUpload) {
+      uploadQueueService.remove(currentUpload.id);
+    }
+    setUploadId(null);
     toast('Upload cancelled');
   };
 
+  const retryUpload = () => {
+    if (currentUpload) {
+      uploadQueueService.retry(currentUpload.id);
+    }
+  };
+
   const saveDriveLink = async () => {
     if (!project || !driveLink.trim()) return;
 
@@ -307,7 +289,9 @@ export default function EditorUploadPage() {
                   </div>
                   <div className="flex items-center justify-between mt-2">
                     <p className="text-xs text-gray-500">
-                      Uploading... {uploadProgress}%
+                      {isPaused
+                        ? `Paused at ${uploadProgress}% — resumes when you're back online`
+                        : `Uploading... ${uploadProgress}%`}
                     </p>
                     <button
                       onClick={cancelUpload}
@@ -320,17 +304,20 @@ export default function EditorUploadPage() {
               )}
 
               {uploadError && !isUploading && (
-                <label className="block mt-3">
-                  <span className="text-sm text-editor font-medium cursor-pointer">
+                <div className="flex items-center gap-4 mt-3">
+                  <button onClick={retryUpload} className="text-sm text-editor font-medium">
                     Try uploading again
-                  </span>
-                  <input
-                    type="file"
-                    accept="video/*"
-                    onChange={handleFileSelect}
-                    className="hidden"
-                  />
-                </label>
+                  </button>
+                  <label className="text-sm text-gray-500 font-medium cursor-pointer">
+                    Choose another file
+                    <input
+                      type="file"
+                      accept="video/*"
+                      onChange={handleFileSelect}
+                      className="hidden"
+                    />
+                  </label>
+                </div>
               )}
             </div>
           )}
@@ -9,6 +9,7 @@ import { postingManagerService, type PostingStats } from '@/services/postingMana
 import { queryKeys } from '@/lib/queryKeys';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
 import type { ViralAnalysis } from '@/types';
+import NotificationBell from '@/components/NotificationBell';
 
 export default function PostingHomePage() {
   const { user, signOut } = useAuth();
@@ -122,52 +123,55 @@ export default function PostingHomePage() {
           </div>
 
           {/* Profile Avatar with Dropdown */}
-          <div className="relative" ref={dropdownRef}>
-            <button
-              onClick={() => setShowProfileDropdown(!showProfileDropdown)}
-              className="w-10 h-10 rounded-full bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center text-white font-semibold text-sm"
-            >
-              {initials}
-            </button>
-
-            <AnimatePresence>
-              {showProfileDropdown && (
-                <motion.div
-                  initial={{ opacity: 0, scale: 0.95, y: -10 }}
-                  animate={{ opacity: 1, scale: 1, y: 0 }}
-                  exit={{ opacity: 0, scale: 0.95, y: -10 }}
-                  transition={{ duration: 0.15 }}
-                  className="absolute right-0 top-12 w-64 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
-                >
-                  {/* Profile Header */}
-                  <div className="bg-gradient-to-br from-cyan-500 to-cyan-600 px-4 py-4 text-white">
-                    <p className="font-semibold">{fullName}</p>
-                    <p className="text-xs opacity-80">Posting Manager</p>
-                    <p className="text-xs opacity-70 mt-0.5">{user?.email}</p>
-                  </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <div className="relative" ref={dropdownRef}>
+              <button
+                onClick={() => setShowProfileDropdown(!showProfileDropdown)}
+                className="w-10 h-10 rounded-full bg-gradient-to-br from-cyan-500 to-cyan-600 flex items-center justify-center text-white font-semibold text-sm"
+              >
+                {initials}
+              </button>
+
+              <AnimatePresence>
+                {showProfileDropdown && (
+                  <motion.div
+                    initial={{ opacity: 0, scale: 0.95, y: -10 }}
+                    animate={{ opacity: 1, scale: 1, y: 0 }}
+                    exit={{ opacity: 0, scale: 0.95, y: -10 }}
+                    transition={{ duration: 0.15 }}
+                    className="absolute right-0 top-12 w-64 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
+                  >
+                    {/* Profile Header */}
+                    <div className="bg-gradient-to-br from-cyan-500 to-cyan-600 px-4 py-4 text-white">
+                      <p className="font-semibold">{fullName}</p>
+                      <p className="text-xs opacity-80">Posting Manager</p>
+                      <p className="text-xs opacity-70 mt-0.5">{user?.email}</p>
+                    </div>
 
-                  {/* Menu Items */}
-                  <div className="py-2">
-                    <Link
-                      to="/posting/settings"
-                      onClick={() => setShowProfileDropdown(false)}
-                      className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 text-gray-700"
-                    >
-                      <Settings className="w-4 h-4" />
-                      <span className="text-sm">Settings</span>
-                    </Link>
-                    <hr className="my-2" />
-                    <button
-                      onClick={handleLogout}
-                      className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 text-red-600 w-full text-left"
-                    >
-                      <LogOut className="w-4 h-4" />
-                      <span className="text-sm">Logout</span>
-                    </button>
-                  </div>
-                </motion.div>
-              )}
-            </AnimatePresence>
+                    {/* Menu Items */}
+                    <div className="py-2">
+                      <Link
+                        to="/posting/settings"
+                        onClick={() => setShowProfileDropdown(false)}
+                        className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 text-gray-700"
+                      >
+                        <Settings className="w-4 h-4" />
+                        <span className="text-sm">Settings</span>
+                      </Link>
+                      <hr className="my-2" />
+                      <button
+                        onClick={handleLogout}
+                        className="flex items-center gap-3 px-4 py-2.5 hover:bg-gray-50 text-red-600 w-full text-left"
+                      >
+                        <LogOut className="w-4 h-4" />
+                        <span className="text-sm">Logout</span>
+                      </button>
+                    </div>
+                  </motion.div>
+                )}
+              </AnimatePresence>
+            </div>
           </div>
         </div>
       </header>
@@ -13,6 +13,8 @@ import {
   Check,
 } from 'lucide-react';
 import { Button, Input } from '@/components/ui';
+import ProjectComments from '@/components/ProjectComments';
+import ProjectTimeline from '@/components/ProjectTimeline';
 import { postingManagerService } from '@/services/postingManagerService';
 import { videographerService } from '@/services/videographerService';
 import type { ViralAnalysis } from '@/types';
@@ -773,6 +775,26 @@ export default function PostDetailPage() {
         </motion.div>
       )}
 
+      {/* Comments */}
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.25 }}
+        className="mb-4"
+      >
+        <ProjectComments analysisId={project.id} />
+      </motion.div>
+
+      {/* Activity */}
+      <motion.div
+        initial={{ opacity: 0, y: 10 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.3 }}
+        className="mb-4"
+      >
+        <ProjectTimeline analysisId={project.id} refreshKey={project.updated_at} />
+      </motion.div>
+
       {/* Fixed Bottom Buttons (for READY_TO_POST) */}
       {isReadyToPost && (
         <div className="fixed bottom-20 left-0 right-0 px-4 pb-4 bg-gradient-to-t from-white via-white to-transparent pt-4 max-w-mobile mx-auto">
@@ -9,7 +9,11 @@ import { queryKeys } from '@/lib/queryKeys';
 import type { ViralAnalysis } from '@/types';
 import { useAuth } from '@/hooks/useAuth';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
+import ReshootList from '@/components/ReshootList';
+import ShootDaySchedule from '@/components/ShootDaySchedule';
+import SlaBadge from '@/components/SlaBadge';
 import toast from 'react-hot-toast';
+import NotificationBell from '@/components/NotificationBell';
 
 export default function VideographerHomePage() {
   const navigate = useNavigate();
@@ -228,59 +232,62 @@ export default function VideographerHomePage() {
           <h1 className="text-xl font-semibold text-gray-900">Hi, {firstName} 👋</h1>
           <p className="text-sm text-gray-500">Let's shoot some content!</p>
         </div>
-        <div className="relative" ref={dropdownRef}>
-          <button
-            onClick={() => setShowProfileDropdown(!showProfileDropdown)}
-            className="w-10 h-10 rounded-full bg-gradient-to-br from-orange-500 to-orange-600 flex items-center justify-center text-white font-semibold text-sm"
-          >
-            {initials}
-          </button>
-
-          {/* Profile Dropdown */}
-          <AnimatePresence>
-            {showProfileDropdown && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.95, y: -10 }}
-                animate={{ opacity: 1, scale: 1, y: 0 }}
-                exit={{ opacity: 0, scale: 0.95, y: -10 }}
-                transition={{ duration: 0.15 }}
-                className="absolute right-0 top-14 w-60 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
-              >
-                {/* Dropdown Header */}
-                <div className="bg-gradient-to-br from-orange-500 to-orange-600 p-4 text-white">
-                  <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center text-xl font-semibold mb-2">
-                    {initials}
+        <div className="flex items-center gap-2">
+          <NotificationBell />
+          <div className="relative" ref={dropdownRef}>
+            <button
+              onClick={() => setShowProfileDropdown(!showProfileDropdown)}
+              className="w-10 h-10 rounded-full bg-gradient-to-br from-orange-500 to-orange-600 flex items-center justify-center text-white font-semibold text-sm"
+            >
+              {initials}
+            </button>
+
+            {/* Profile Dropdown */}
+            <AnimatePresence>
+              {showProfileDropdown && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.95, y: -10 }}
+                  animate={{ opacity: 1, scale: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.95, y: -10 }}
+                  transition={{ duration: 0.15 }}
+                  className="absolute right-0 top-14 w-60 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
+                >
+                  {/* Dropdown Header */}
+                  <div className="bg-gradient-to-br from-orange-500 to-orange-600 p-4 text-white">
+                    <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center text-xl font-semibold mb-2">
+                      {initials}
+                    </div>
+                    <p className="font-semibold">{fullName}</p>
+                    <p className="text-orange-100 text-xs">Videographer</p>
+                    <p className="text-orange-200 text-xs mt-0.5 truncate">{userEmail}</p>
                   </div>
-                  <p className="font-semibold">{fullName}</p>
-                  <p className="text-orange-100 text-xs">Videographer</p>
-                  <p className="text-orange-200 text-xs mt-0.5 truncate">{userEmail}</p>
-                </div>
 
-                {/* Dropdown Menu */}
-                <div className="py-2">
-                  <button
-                    onClick={() => {
-                      setShowProfileDropdown(false);
-                      navigate('/videographer/settings');
-                    }}
-                    className="w-full flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors text-left"
-                  >
-                    <Settings className="w-4 h-4 text-gray-400" />
-                    <span className="text-sm">Settings</span>
-                  </button>
-                  <div className="border-t border-gray-100 mt-1 pt-1">
+                  {/* Dropdown Menu */}
+                  <div className="py-2">
                     <button
-                      onClick={handleLogout}
-                      className="w-full flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 transition-colors text-left"
+                      onClick={() => {
+                        setShowProfileDropdown(false);
+                        navigate('/videographer/settings');
+                      }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors text-left"
                     >
-                      <LogOut className="w-4 h-4" />
-                      <span className="text-sm">Logout</span>
+                      <Settings className="w-4 h-4 text-gray-400" />
+                      <span className="text-sm">Settings</span>
                     </button>
+                    <div className="border-t border-gray-100 mt-1 pt-1">
+                      <button
+                        onClick={handleLogout}
+                        className="w-full flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 transition-colors text-left"
+                      >
+                        <LogOut className="w-4 h-4" />
+                        <span className="text-sm">Logout</span>
+                      </button>
+                    </div>
                   </div>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
         </div>
       </div>
 
@@ -351,6 +358,10 @@ export default function VideographerHomePage() {
         </Link>
       </div>
 
+      <ReshootList />
+
+      <ShootDaySchedule />
+
       {/* Active Shoots Section */}
       <section className="mb-6 animate-slide-up delay-2">
         <div className="flex items-center justify-between mb-3">
@@ -399,6 +410,7 @@ export default function VideographerHomePage() {
                           <span className="text-xs px-2 py-1 bg-gray-100 rounded text-gray-600">
                             {shootType.emoji} {shootType.label}
                           </span>
+                          <SlaBadge project={project} />
                         </div>
                       </div>
                       <span className="px-2 py-1 bg-orange-100 text-orange-700 text-[11px] font-semibold rounded-full uppercase shrink-0">
@@ -6,6 +6,7 @@ import Header from '@/components/Header';
 import { videographerService } from '@/services/videographerService';
 import { smartSearch } from '@/lib/smartSearch';
 import { queryKeys } from '@/lib/queryKeys';
+import { attachmentsByItem, buildShotList, shotListProgress } from '@/lib/shotList';
 import { useMarkShootingComplete } from '@/hooks/useMutations';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
 import type { ViralAnalysis } from '@/types';
@@ -40,6 +41,12 @@ export default function MyProjectsPage() {
     return project.production_files?.filter((f: any) => !f.is_deleted).length || 0;
   };
 
+  const getShotProgress = (project: ViralAnalysis) => {
+    const items = buildShotList(project);
+    const byItem = attachmentsByItem(project.shot_list_attachments || [], project.production_files || []);
+    return shotListProgress(items, byItem);
+  };
+
   // Get category emoji based on title
   const getCategoryEmoji = (project: ViralAnalysis) => {
     const title = (project.title || '').toLowerCase();
@@ -177,6 +184,7 @@ export default function MyProjectsPage() {
               const platform = getPlatformInfo(project.platform);
               const fileCount = getFileCount(project);
               const hasFiles = fileCount > 0;
+              const shots = getShotProgress(project);
 
               return (
                 <div
@@ -218,6 +226,24 @@ export default function MyProjectsPage() {
                       </span>
                     </div>
 
+                    {/* Shot list progress */}
+                    {shots.total > 0 && (
+                      <div className="mb-3">
+                        <div className="flex items-center justify-between text-xs mb-1">
+                          <span className="text-gray-500">Shot list</span>
+                          <span className={shots.done === shots.total ? 'text-green-600 font-medium' : 'text-gray-500'}>
+                            {shots.done}/{shots.total} shots
+                          </span>
+                        </div>
+                        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+                          <div
+                            className={`h-full transition-all ${shots.done === shots.total ? 'bg-green-500' : 'bg-orange-500'}`}
+                            style={{ width: `${(shots.done / shots.total) * 100}%` }}
+                          />
+                        </div>
+                      </div>
+                    )}
+
                     {/* Action Buttons */}
                     <div className="flex gap-2">
                       {hasFiles ? (
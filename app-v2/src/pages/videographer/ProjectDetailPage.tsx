@@ -1,16 +1,22 @@
 import { useEffect, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ExternalLink, Play, Pause, FileText, Video, Mic, Upload, Clock, MapPin, Loader2, X, Check, PlusCircle, Copy } from 'lucide-react';
+import { ExternalLink, Play, Pause, FileText, Video, Mic, Upload, Clock, MapPin, Loader2, X, Check, PlusCircle, Copy, MessageSquare, ScrollText } from 'lucide-react';
 import Header from '@/components/Header';
 import { Button } from '@/components/ui';
 import CharacterTagSelector from '@/components/CharacterTagSelector';
+import FileReviewStatus from '@/components/FileReviewStatus';
+import ProjectComments from '@/components/ProjectComments';
+import ProjectTimeline from '@/components/ProjectTimeline';
+import TalentMatcher from '@/components/TalentMatcher';
+import Teleprompter from '@/components/Teleprompter';
+import VoiceNoteTranscript from '@/components/VoiceNoteTranscript';
 import { videographerService } from '@/services/videographerService';
 import { supabase } from '@/lib/api';
 import type { ViralAnalysis } from '@/types';
 import toast from 'react-hot-toast';
 
-type TabType = 'script' | 'files' | 'info';
+type TabType = 'script' | 'files' | 'info' | 'comments';
 
 export default function ProjectDetailPage() {
   const { id } = useParams<{ id: string }>();
@@ -21,6 +27,7 @@ export default function ProjectDetailPage() {
   const [playingAudio, setPlayingAudio] = useState<string | null>(null);
   const [audioElement, setAudioElement] = useState<HTMLAudioElement | null>(null);
   const [markingComplete, setMarkingComplete] = useState(false);
+  const [showTeleprompter, setShowTeleprompter] = useState(false);
 
   // Profile selection modal state (for generating content_id)
   const [showProfileModal, setShowProfileModal] = useState(false);
@@ -297,6 +304,7 @@ export default function ProjectDetailPage() {
             { id: 'script', label: 'Script', icon: FileText },
             { id: 'files', label: 'Files', icon: Video },
             { id: 'info', label: 'Info', icon: Mic },
+            { id: 'comments', label: 'Chat', icon: MessageSquare },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -314,6 +322,16 @@ export default function ProjectDetailPage() {
         {/* Tab Content */}
         {activeTab === 'script' && (
           <div className="space-y-3 animate-fade-in">
+            {(project.hook || project.script_body || project.script_cta) && (
+              <button
+                onClick={() => setShowTeleprompter(true)}
+                className="w-full flex items-center justify-center gap-2 py-2.5 rounded-xl bg-gray-900 text-white text-sm font-semibold active:bg-gray-800"
+              >
+                <ScrollText className="w-4 h-4" />
+                Open Teleprompter
+              </button>
+            )}
+
             {/* Hook */}
             {project.hook && (
               <div className="p-4 rounded-xl bg-amber-50 border border-amber-200">
@@ -424,6 +442,7 @@ export default function ProjectDetailPage() {
                     </div>
                   </button>
                 )}
+                <VoiceNoteTranscript transcript={project.hook_voice_note_transcript} className="px-1" />
                 {project.why_viral_voice_note_url && (
                   <button
                     onClick={() => playVoiceNote(project.why_viral_voice_note_url!, 'whyViral')}
@@ -438,6 +457,7 @@ export default function ProjectDetailPage() {
                     </div>
                   </button>
                 )}
+                <VoiceNoteTranscript transcript={project.why_viral_voice_note_transcript} className="px-1" />
               </div>
             )}
           </div>
@@ -460,9 +480,11 @@ export default function ProjectDetailPage() {
                       href={file.file_url}
                       target="_blank"
                       rel="noopener noreferrer"
-                      className="flex items-center gap-3 p-3 bg-white rounded-lg border border-gray-100"
+                      className={`flex items-center gap-3 p-3 bg-white rounded-lg border ${
+                        file.approval_status === 'rejected' ? 'border-red-200' : 'border-gray-100'
+                      }`}
                     >
-                      <div className="w-10 h-10 rounded-lg bg-green-100 flex items-center justify-center">
+                      <div className="w-10 h-10 rounded-lg bg-green-100 flex items-center justify-center shrink-0">
                         <Video className="w-5 h-5 text-success" />
                       </div>
                       <div className="flex-1 min-w-0">
@@ -470,6 +492,7 @@ export default function ProjectDetailPage() {
                         <p className="text-xs text-gray-500">
                           {file.file_type} • {(file.file_size / 1024 / 1024).toFixed(1)} MB
                         </p>
+                        <FileReviewStatus file={file} hidePending />
                       </div>
                     </a>
                   ))}
@@ -529,6 +552,16 @@ export default function ProjectDetailPage() {
                 </div>
               </div>
             )}
+
+            <TalentMatcher project={project} />
+
+            <ProjectTimeline analysisId={project.id} refreshKey={project.updated_at} />
+          </div>
+        )}
+
+        {activeTab === 'comments' && (
+          <div className="animate-fade-in">
+            <ProjectComments analysisId={project.id} />
           </div>
         )}
       </div>
@@ -576,6 +609,8 @@ export default function ProjectDetailPage() {
       )}
 
       {/* Profile Selection Modal - shown when content_id is missing */}
+      {showTeleprompter && <Teleprompter script={project} onClose={() => setShowTeleprompter(false)} />}
+
       {showProfileModal && createPortal(
         <div className="fixed inset-0 bg-black/60 z-[10000] flex items-end sm:items-center justify-center" onClick={() => setShowProfileModal(false)}>
           <div
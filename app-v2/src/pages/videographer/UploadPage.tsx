@@ -1,24 +1,42 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Upload, Video, X, CheckCircle, AlertCircle, Loader2, Film, Mic, Play, FileVideo, Trash2, ExternalLink, ChevronDown, ChevronUp } from 'lucide-react';
+import { Upload, Video, X, CheckCircle, AlertCircle, Loader2, Film, Mic, Play, FileVideo, Trash2, ExternalLink, ChevronDown, ChevronUp, RotateCw, WifiOff, Pause } from 'lucide-react';
+import FileReviewStatus from '@/components/FileReviewStatus';
 import Header from '@/components/Header';
+import ShotList from '@/components/ShotList';
 import { Button } from '@/components/ui';
 import toast from 'react-hot-toast';
 import { videographerService } from '@/services/videographerService';
-import { driveUploadService, type UploadProgress } from '@/services/driveUploadService';
 import { productionFilesService } from '@/services/productionFilesService';
+import {
+  uploadQueueService,
+  getUploadPercentage,
+  isActiveUpload,
+  summarizeUploads,
+  MAX_UPLOAD_CONCURRENCY,
+  type QueuedUploadStatus,
+} from '@/services/uploadQueueService';
+import { formatBytes, formatEta, formatSpeed } from '@/lib/uploadFormat';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { InvalidTransitionError } from '@/lib/errors';
 import type { ViralAnalysis } from '@/types';
 
+/** A file picked but not yet handed to the upload queue */
 interface UploadFile {
   id: string;
   file: File;
+}
+
+/** One line in the "Pending Upload" list — a picked file or a queued upload */
+interface UploadRow {
+  id: string;
+  name: string;
+  size: number;
+  fileType: string;
+  status: 'pending' | QueuedUploadStatus;
   progress: number;
-  status: 'pending' | 'uploading' | 'complete' | 'error';
+  pausedByUser?: boolean;
   errorMessage?: string;
-  uploadResult?: {
-    fileId: string;
-    webViewLink: string;
-  };
 }
 
 type FileType = 'A_ROLL' | 'B_ROLL' | 'HOOK' | 'BODY' | 'CTA' | 'AUDIO_CLIP';
@@ -45,22 +63,21 @@ export default function UploadPage() {
   const [project, setProject] = useState<ViralAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
   const [files, setFiles] = useState<UploadFile[]>([]);
-  const [isUploading, setIsUploading] = useState(false);
-  const [_currentUploadIndex, setCurrentUploadIndex] = useState(-1);
   const [selectedFileType, setSelectedFileType] = useState<FileType>('A_ROLL');
   const [deletingFileId, setDeletingFileId] = useState<string | null>(null);
   const [productionNotes, setProductionNotes] = useState('');
   const [showScript, setShowScript] = useState(true);
   const [driveLink, setDriveLink] = useState('');
   const [savingDriveLink, setSavingDriveLink] = useState(false);
+  const [concurrency, setConcurrency] = useState(() => uploadQueueService.getConcurrency());
 
   useEffect(() => {
     if (id) loadProject();
   }, [id]);
 
-  const loadProject = async () => {
+  const loadProject = async (showLoader: boolean = true) => {
     try {
-      setLoading(true);
+      if (showLoader) setLoading(true);
       const data = await videographerService.getProjectById(id!);
       setProject(data);
     } catch (error) {
@@ -72,6 +89,17 @@ export default function UploadPage() {
     }
   };
 
+  // Uploads run in the persistent queue — they continue if this page is left
+  // and resume after a reload or when the connection comes back
+  const handleUploadComplete = useCallback(() => {
+    loadProject(false);
+  }, [id]);
+
+  const queuedUploads = useUploadQueue({ analysisId: id, onComplete: handleUploadComplete })
+    .filter((item) => item.uploadType === 'raw-footage' && item.status !== 'complete');
+  const isUploading = queuedUploads.some(isActiveUpload);
+  const uploadStats = summarizeUploads(queuedUploads, uploadQueueService.getThroughput());
+
   // Get category emoji based on title
   const getCategoryEmoji = (project: ViralAnalysis) => {
     const title = (project.title || '').toLowerCase();
@@ -114,8 +142,6 @@ export default function UploadPage() {
     const newFiles: UploadFile[] = Array.from(selectedFiles).map((file, index) => ({
       id: `${Date.now()}-${index}`,
       file,
-      progress: 0,
-      status: 'pending',
     }));
 
     setFiles((prev) => [...prev, ...newFiles]);
@@ -123,7 +149,11 @@ export default function UploadPage() {
   };
 
   const removeFile = (fileId: string) => {
-    setFiles((prev) => prev.filter((f) => f.id !== fileId));
+    if (files.some((f) => f.id === fileId)) {
+      setFiles((prev) => prev.filter((f) => f.id !== fileId));
+    } else {
+      uploadQueueService.remove(fileId);
+    }
   };
 
   const uploadFiles = async () => {
@@ -137,131 +167,40 @@ export default function UploadPage() {
       return;
     }
 
-    setIsUploading(true);
-
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i];
-      if (file.status === 'complete') continue;
-
-      setCurrentUploadIndex(i);
-
-      // Update status to uploading
-      setFiles((prev) =>
-        prev.map((f) =>
-          f.id === file.id ? { ...f, status: 'uploading' as const, progress: 0, errorMessage: undefined } : f
-        )
-      );
-
-      try {
-        // Step 1: Get resumable upload URI from backend
-        const { resumableUri, fileName: renamedFileName } = await driveUploadService.initUpload({
-          contentId: project.content_id || project.id,
-          analysisId: project.id,
-          fileName: file.file.name,
-          mimeType: file.file.type,
-          fileSize: file.file.size,
-          fileType: 'raw-footage',
-          fileIndex: i,
-        });
-
-        // Step 2: Upload file directly to Google Drive
-        const driveResult = await driveUploadService.uploadFile(
-          file.file,
-          resumableUri,
-          (progress: UploadProgress) => {
-            setFiles((prev) =>
-              prev.map((f) =>
-                f.id === file.id ? { ...f, progress: progress.percentage } : f
-              )
-            );
-          },
-          file.id,
-          renamedFileName
-        );
-
-        // Step 3: Finalize — make public + save to DB
-        await driveUploadService.finalizeUpload({
-          analysisId: project.id,
-          fileType: selectedFileType,
-          fileName: renamedFileName,
-          fileId: driveResult.fileId,
-          fileUrl: driveResult.webViewLink,
-          fileSize: driveResult.size,
-          mimeType: file.file.type,
-        });
-
-        // Mark as complete
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === file.id
-              ? {
-                  ...f,
-                  status: 'complete' as const,
-                  progress: 100,
-                  uploadResult: {
-                    fileId: driveResult.fileId,
-                    webViewLink: driveResult.webViewLink,
-                  },
-                }
-              : f
-          )
-        );
-      } catch (error) {
-        console.error('Upload failed:', error);
-        setFiles((prev) =>
-          prev.map((f) =>
-            f.id === file.id
-              ? {
-                  ...f,
-                  status: 'error' as const,
-                  errorMessage: error instanceof Error ? error.message : 'Upload failed',
-                }
-              : f
-          )
-        );
-      }
-    }
-
-    setIsUploading(false);
-    setCurrentUploadIndex(-1);
-
-    // Reload project to get updated file list
-    await loadProject();
-
-    // Read current file states
-    let completedCount = 0;
-    let failedCount = 0;
-    setFiles((prev) => {
-      completedCount = prev.filter((f) => f.status === 'complete').length;
-      failedCount = prev.filter((f) => f.status === 'error').length;
-      return prev;
-    });
-
-    if (failedCount > 0) {
-      toast.error(`${failedCount} file(s) failed to upload. Check errors above.`);
-      setFiles((prev) => prev.filter((f) => f.status !== 'complete'));
-    } else if (completedCount > 0) {
-      toast.success('All files uploaded successfully!');
-      setFiles([]);
-    }
+    await uploadQueueService.enqueue(files.map((f, i) => ({
+      analysisId: project.id,
+      contentId: project.content_id || project.id,
+      uploadType: 'raw-footage' as const,
+      fileType: selectedFileType,
+      file: f.file,
+      fileIndex: i,
+    })));
+
+    setFiles([]);
+    toast.success('Upload started — it will keep going if you leave this page');
   };
 
   const handleMarkComplete = async () => {
     if (!project) return;
 
     const existingFiles = project.production_files?.filter((f: any) => !f.is_deleted) || [];
-    if (existingFiles.length === 0 && files.filter(f => f.status === 'complete').length === 0) {
+    if (existingFiles.length === 0) {
       toast.error('Please upload at least one file first');
       return;
     }
 
+    if (isUploading) {
+      toast.error('Wait for your uploads to finish first');
+      return;
+    }
+
     try {
       await videographerService.markShootingComplete(project.id, productionNotes || undefined);
       toast.success('Shooting marked as complete!');
       navigate('/videographer/my-projects');
     } catch (error) {
       console.error('Failed to mark complete:', error);
-      toast.error('Failed to mark shooting as complete');
+      toast.error(error instanceof InvalidTransitionError ? error.message : 'Failed to mark shooting as complete');
     }
   };
 
@@ -280,22 +219,17 @@ export default function UploadPage() {
   };
 
   const cancelUpload = () => {
-    files.forEach(file => {
-      if (file.status === 'uploading') {
-        driveUploadService.abortUpload(file.id);
-      }
+    queuedUploads.filter(isActiveUpload).forEach((item) => {
+      uploadQueueService.remove(item.id);
     });
-
-    setIsUploading(false);
-    setCurrentUploadIndex(-1);
-    setFiles((prev) =>
-      prev.map((f) =>
-        f.status === 'uploading' ? { ...f, status: 'pending' as const, progress: 0 } : f
-      )
-    );
     toast('Upload cancelled');
   };
 
+  const changeConcurrency = (value: number) => {
+    uploadQueueService.setConcurrency(value);
+    setConcurrency(uploadQueueService.getConcurrency());
+  };
+
   const saveDriveLink = async () => {
     if (!project || !driveLink.trim()) return;
 
@@ -333,9 +267,29 @@ export default function UploadPage() {
     }
   };
 
-  const completedCount = files.filter((f) => f.status === 'complete').length;
-  const errorCount = files.filter((f) => f.status === 'error').length;
+  const uploadRows: UploadRow[] = [
+    ...queuedUploads.map((item) => ({
+      id: item.id,
+      name: item.originalName,
+      size: item.size,
+      fileType: item.fileType,
+      status: item.status,
+      progress: getUploadPercentage(item),
+      pausedByUser: item.pausedByUser,
+      errorMessage: item.error,
+    })),
+    ...files.map((f) => ({
+      id: f.id,
+      name: f.file.name,
+      size: f.file.size,
+      fileType: selectedFileType,
+      status: 'pending' as const,
+      progress: 0,
+    })),
+  ];
+  const errorCount = uploadRows.filter((f) => f.status === 'error').length;
   const existingFiles = project?.production_files?.filter((f: any) => !f.is_deleted) || [];
+  const rejectedCount = existingFiles.filter((f: any) => f.approval_status === 'rejected').length;
 
   const getFileTypeLabel = (fileType: string) => {
     const type = FILE_TYPES.find(t => t.id === fileType);
@@ -564,13 +518,12 @@ export default function UploadPage() {
               multiple
               onChange={handleFileSelect}
               className="hidden"
-              disabled={isUploading}
             />
           </label>
         </div>
 
         {/* Pending Upload Files */}
-        {files.length > 0 && (
+        {uploadRows.length > 0 && (
           <div className="mb-6">
             <div className="flex items-center justify-between mb-3">
               <h2 className="text-base font-semibold text-gray-800">
@@ -579,11 +532,43 @@ export default function UploadPage() {
                   <span className="text-red-500 text-sm font-normal ml-2">• {errorCount} failed</span>
                 )}
               </h2>
-              <span className="text-sm text-gray-500">{completedCount}/{files.length}</span>
+              {errorCount > 0 && (
+                <button
+                  onClick={() => project && uploadQueueService.retryFailed(project.id)}
+                  className="text-xs font-medium text-orange-600 flex items-center gap-1"
+                >
+                  <RotateCw className="w-3.5 h-3.5" />
+                  Retry failed
+                </button>
+              )}
+              <span className="text-sm text-gray-500">{uploadRows.length}</span>
+            </div>
+
+            <div className="flex items-center justify-between gap-3 mb-3 text-xs text-gray-500">
+              <span>
+                {uploadStats.activeCount > 0
+                  ? `${formatBytes(uploadStats.uploadedBytes)} of ${formatBytes(uploadStats.totalBytes)} • ${
+                      uploadStats.bytesPerSecond > 0 ? `${formatSpeed(uploadStats.bytesPerSecond)} • ` : ''
+                    }${formatEta(uploadStats.etaSeconds)}`
+                  : `${files.length} ready to upload`}
+              </span>
+              <label className="flex items-center gap-1.5 shrink-0">
+                Parallel
+                <select
+                  value={concurrency}
+                  onChange={(e) => changeConcurrency(Number(e.target.value))}
+                  className="px-1.5 py-1 bg-white border border-gray-200 rounded-lg text-xs text-gray-700"
+                  aria-label="Parallel uploads"
+                >
+                  {Array.from({ length: MAX_UPLOAD_CONCURRENCY }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>{n}</option>
+                  ))}
+                </select>
+              </label>
             </div>
 
             <div className="space-y-2">
-              {files.map((file) => (
+              {uploadRows.map((file) => (
                 <div
                   key={file.id}
                   className={`flex items-center gap-3 p-3 bg-white rounded-xl border ${
@@ -592,19 +577,21 @@ export default function UploadPage() {
                 >
                   <div
                     className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                      file.status === 'complete'
-                        ? 'bg-green-100'
-                        : file.status === 'uploading'
+                      file.status === 'uploading' || file.status === 'finalizing'
                         ? 'bg-orange-100'
+                        : file.status === 'paused'
+                        ? 'bg-amber-100'
                         : file.status === 'error'
                         ? 'bg-red-100'
                         : 'bg-gray-100'
                     }`}
                   >
-                    {file.status === 'complete' ? (
-                      <CheckCircle className="w-5 h-5 text-green-600" />
-                    ) : file.status === 'uploading' ? (
+                    {file.status === 'uploading' || file.status === 'finalizing' ? (
                       <Loader2 className="w-5 h-5 text-orange-500 animate-spin" />
+                    ) : file.status === 'paused' ? (
+                      file.pausedByUser
+                        ? <Pause className="w-5 h-5 text-amber-500" />
+                        : <WifiOff className="w-5 h-5 text-amber-500" />
                     ) : file.status === 'error' ? (
                       <AlertCircle className="w-5 h-5 text-red-500" />
                     ) : (
@@ -613,21 +600,29 @@ export default function UploadPage() {
                   </div>
 
                   <div className="flex-1 min-w-0">
-                    <p className="font-medium text-gray-900 truncate text-sm">{file.file.name}</p>
+                    <p className="font-medium text-gray-900 truncate text-sm">{file.name}</p>
                     <div className="flex items-center gap-2">
                       <span className="text-xs text-gray-400">
-                        {(file.file.size / 1024 / 1024).toFixed(1)} MB
+                        {(file.size / 1024 / 1024).toFixed(1)} MB
                       </span>
                       <span className="text-xs px-1.5 py-0.5 bg-orange-100 text-orange-600 rounded">
-                        {getFileTypeLabel(selectedFileType)}
+                        {getFileTypeLabel(file.fileType)}
                       </span>
+                      {file.status === 'queued' && (
+                        <span className="text-xs text-gray-400">Waiting</span>
+                      )}
+                      {file.status === 'paused' && (
+                        <span className="text-xs text-amber-600">
+                          Paused at {file.progress}%{file.pausedByUser ? '' : ' — offline'}
+                        </span>
+                      )}
                       {file.status === 'error' && (
                         <span className="text-xs text-red-500">{file.errorMessage}</span>
                       )}
                     </div>
 
                     {/* Progress bar */}
-                    {file.status === 'uploading' && (
+                    {(file.status === 'uploading' || file.status === 'paused') && (
                       <div className="mt-2">
                         <div className="h-1 bg-gray-100 rounded-full overflow-hidden">
                           <div
@@ -639,7 +634,34 @@ export default function UploadPage() {
                     )}
                   </div>
 
-                  {file.status !== 'uploading' && (
+                  {(file.status === 'uploading' || file.status === 'queued') && (
+                    <button
+                      onClick={() => uploadQueueService.pause(file.id)}
+                      className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center"
+                      title="Pause"
+                    >
+                      <Pause className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                  {file.status === 'paused' && (
+                    <button
+                      onClick={() => uploadQueueService.resume(file.id)}
+                      className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center"
+                      title="Resume"
+                    >
+                      <Play className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                  {file.status === 'error' && (
+                    <button
+                      onClick={() => uploadQueueService.retry(file.id)}
+                      className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center"
+                      title="Retry"
+                    >
+                      <RotateCw className="w-4 h-4 text-gray-500" />
+                    </button>
+                  )}
+                  {file.status !== 'finalizing' && (
                     <button
                       onClick={() => removeFile(file.id)}
                       className="w-8 h-8 rounded-full bg-gray-100 flex items-center justify-center"
@@ -653,6 +675,8 @@ export default function UploadPage() {
           </div>
         )}
 
+        {project && <ShotList project={project} />}
+
         {/* Previously Uploaded Files */}
         {existingFiles.length > 0 && (
           <div className="mb-6">
@@ -665,11 +689,19 @@ export default function UploadPage() {
               {existingFiles.map((file: any) => (
                 <div
                   key={file.id}
-                  className="flex items-center gap-3 p-3 bg-white rounded-xl border border-gray-100"
+                  className={`flex items-center gap-3 p-3 bg-white rounded-xl border ${
+                    file.approval_status === 'rejected' ? 'border-red-200' : 'border-gray-100'
+                  }`}
                 >
-                  <div className="w-10 h-10 rounded-lg bg-green-100 flex items-center justify-center">
-                    <CheckCircle className="w-5 h-5 text-green-600" />
-                  </div>
+                  {file.approval_status === 'rejected' ? (
+                    <div className="w-10 h-10 rounded-lg bg-red-100 flex items-center justify-center shrink-0">
+                      <AlertCircle className="w-5 h-5 text-red-500" />
+                    </div>
+                  ) : (
+                    <div className="w-10 h-10 rounded-lg bg-green-100 flex items-center justify-center shrink-0">
+                      <CheckCircle className="w-5 h-5 text-green-600" />
+                    </div>
+                  )}
 
                   <div className="flex-1 min-w-0">
                     {file.file_url ? (
@@ -696,6 +728,7 @@ export default function UploadPage() {
                         {getFileTypeLabel(file.file_type)}
                       </span>
                     </div>
+                    <FileReviewStatus file={file} hidePending />
                   </div>
 
                   <button
@@ -740,23 +773,38 @@ export default function UploadPage() {
       {/* Fixed Bottom Buttons */}
       <div className="fixed left-0 right-0 px-4 py-3 bg-white border-t border-gray-100 max-w-mobile mx-auto z-40" style={{ bottom: 'calc(68px + env(safe-area-inset-bottom))' }}>
         <div className="flex flex-col gap-2">
-          {isUploading ? (
-            <Button fullWidth size="lg" variant="outline" onClick={cancelUpload}>
-              Cancel Upload
+          {/* Upload button when files are pending */}
+          {files.length > 0 && (
+            <Button
+              fullWidth
+              size="lg"
+              className="bg-orange-500 hover:bg-orange-600"
+              onClick={uploadFiles}
+            >
+              <Upload className="w-5 h-5" />
+              Upload {files.length} {files.length === 1 ? 'File' : 'Files'}
             </Button>
+          )}
+
+          {isUploading ? (
+            <>
+              <Button fullWidth size="lg" variant="outline" onClick={cancelUpload}>
+                Cancel Upload
+              </Button>
+
+              <button
+                onClick={() => navigate('/videographer/my-projects')}
+                className="w-full text-center text-sm text-gray-500 font-medium py-2 hover:text-gray-700"
+              >
+                Keep Uploading in Background
+              </button>
+            </>
           ) : (
             <>
-              {/* Upload button when files are pending */}
-              {files.length > 0 && completedCount < files.length && (
-                <Button
-                  fullWidth
-                  size="lg"
-                  className="bg-orange-500 hover:bg-orange-600"
-                  onClick={uploadFiles}
-                >
-                  <Upload className="w-5 h-5" />
-                  Upload {files.length} {files.length === 1 ? 'File' : 'Files'}
-                </Button>
+              {rejectedCount > 0 && (
+                <p className="text-xs text-red-600 text-center">
+                  {rejectedCount} {rejectedCount === 1 ? 'file was' : 'files were'} rejected. Upload a re-shoot and remove the rejected {rejectedCount === 1 ? 'file' : 'files'} to finish.
+                </p>
               )}
 
               {/* Mark Complete button */}
@@ -765,7 +813,7 @@ export default function UploadPage() {
                 size="lg"
                 variant="success"
                 onClick={handleMarkComplete}
-                disabled={existingFiles.length === 0}
+                disabled={existingFiles.length === 0 || rejectedCount > 0}
               >
                 <CheckCircle className="w-5 h-5" />
                 Mark Shoot Complete
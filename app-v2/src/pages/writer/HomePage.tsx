@@ -8,6 +8,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { queryKeys } from '@/lib/queryKeys';
 import QueryStateWrapper from '@/components/QueryStateWrapper';
 import type { ViralAnalysis } from '@/types';
+import NotificationBell from '@/components/NotificationBell';
 
 interface WriterHomeData {
   stats: AnalysisStats;
@@ -131,59 +132,62 @@ export default function WriterHomePage() {
           <h1 className="text-xl font-bold text-gray-900">Hi, {firstName} 👋</h1>
           <p className="text-sm text-gray-500">Keep creating viral content!</p>
         </div>
-        <div className="relative" ref={dropdownRef}>
-          <button
-            onClick={() => setShowProfileDropdown(!showProfileDropdown)}
-            className="w-11 h-11 rounded-full bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center text-white font-semibold text-sm shadow-md active:opacity-90 transition-opacity"
-          >
-            {initials}
-          </button>
+        <div className="flex items-center gap-2">
+          <NotificationBell />
+          <div className="relative" ref={dropdownRef}>
+            <button
+              onClick={() => setShowProfileDropdown(!showProfileDropdown)}
+              className="w-11 h-11 rounded-full bg-gradient-to-br from-blue-500 to-blue-600 flex items-center justify-center text-white font-semibold text-sm shadow-md active:opacity-90 transition-opacity"
+            >
+              {initials}
+            </button>
 
-          {/* Profile Dropdown */}
-          <AnimatePresence>
-            {showProfileDropdown && (
-              <motion.div
-                initial={{ opacity: 0, scale: 0.95, y: -10 }}
-                animate={{ opacity: 1, scale: 1, y: 0 }}
-                exit={{ opacity: 0, scale: 0.95, y: -10 }}
-                transition={{ duration: 0.15 }}
-                className="absolute right-0 top-14 w-60 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
-              >
-                {/* Dropdown Header */}
-                <div className="bg-gradient-to-br from-blue-500 to-blue-600 p-4 text-white">
-                  <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center text-xl font-semibold mb-2">
-                    {initials}
+            {/* Profile Dropdown */}
+            <AnimatePresence>
+              {showProfileDropdown && (
+                <motion.div
+                  initial={{ opacity: 0, scale: 0.95, y: -10 }}
+                  animate={{ opacity: 1, scale: 1, y: 0 }}
+                  exit={{ opacity: 0, scale: 0.95, y: -10 }}
+                  transition={{ duration: 0.15 }}
+                  className="absolute right-0 top-14 w-60 bg-white rounded-xl shadow-xl border border-gray-100 overflow-hidden z-50"
+                >
+                  {/* Dropdown Header */}
+                  <div className="bg-gradient-to-br from-blue-500 to-blue-600 p-4 text-white">
+                    <div className="w-12 h-12 rounded-full bg-white/20 flex items-center justify-center text-xl font-semibold mb-2">
+                      {initials}
+                    </div>
+                    <p className="font-semibold">{fullName}</p>
+                    <p className="text-blue-100 text-xs">Script Writer</p>
+                    <p className="text-blue-200 text-xs mt-0.5 truncate">{userEmail}</p>
                   </div>
-                  <p className="font-semibold">{fullName}</p>
-                  <p className="text-blue-100 text-xs">Script Writer</p>
-                  <p className="text-blue-200 text-xs mt-0.5 truncate">{userEmail}</p>
-                </div>
 
-                {/* Dropdown Menu */}
-                <div className="py-2">
-                  <button
-                    onClick={() => {
-                      setShowProfileDropdown(false);
-                      navigate('/writer/settings');
-                    }}
-                    className="w-full flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors text-left"
-                  >
-                    <Settings className="w-4 h-4 text-gray-400" />
-                    <span className="text-sm">Settings</span>
-                  </button>
-                  <div className="border-t border-gray-100 mt-1 pt-1">
+                  {/* Dropdown Menu */}
+                  <div className="py-2">
                     <button
-                      onClick={handleLogout}
-                      className="w-full flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 transition-colors text-left"
+                      onClick={() => {
+                        setShowProfileDropdown(false);
+                        navigate('/writer/settings');
+                      }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-gray-700 hover:bg-gray-50 transition-colors text-left"
                     >
-                      <LogOut className="w-4 h-4" />
-                      <span className="text-sm">Logout</span>
+                      <Settings className="w-4 h-4 text-gray-400" />
+                      <span className="text-sm">Settings</span>
                     </button>
+                    <div className="border-t border-gray-100 mt-1 pt-1">
+                      <button
+                        onClick={handleLogout}
+                        className="w-full flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 transition-colors text-left"
+                      >
+                        <LogOut className="w-4 h-4" />
+                        <span className="text-sm">Logout</span>
+                      </button>
+                    </div>
                   </div>
-                </div>
-              </motion.div>
-            )}
-          </AnimatePresence>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
         </div>
       </div>
 
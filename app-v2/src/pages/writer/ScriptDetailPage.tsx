@@ -1,5 +1,6 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
 import { motion } from 'framer-motion';
 import {
   Clock,
@@ -7,10 +8,19 @@ import {
   XCircle,
   Play,
   ExternalLink,
+  History,
   MessageSquare,
   User,
 } from 'lucide-react';
 import { analysesService } from '@/services/analysesService';
+import { scriptReviewService } from '@/services/scriptReviewService';
+import { queryKeys } from '@/lib/queryKeys';
+import ProjectComments from '@/components/ProjectComments';
+import RejectionReasonChips from '@/components/RejectionReasonChips';
+import ResubmitSheet from '@/components/ResubmitSheet';
+import ReviewRoundsList from '@/components/ReviewRoundsList';
+import ScriptHistorySheet from '@/components/ScriptHistorySheet';
+import VoiceNoteTranscript from '@/components/VoiceNoteTranscript';
 import type { ViralAnalysis } from '@/types';
 import toast from 'react-hot-toast';
 
@@ -19,7 +29,15 @@ export default function ScriptDetailPage() {
   const navigate = useNavigate();
   const [script, setScript] = useState<ViralAnalysis | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'details' | 'feedback'>('details');
+  const [activeTab, setActiveTab] = useState<'details' | 'feedback' | 'comments'>('details');
+  const [showResubmit, setShowResubmit] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+
+  const { data: reasons = [] } = useQuery({
+    queryKey: queryKeys.scriptReview.reasons(),
+    queryFn: () => scriptReviewService.getReasons(),
+    staleTime: 60 * 60 * 1000,
+  });
 
   useEffect(() => {
     if (id) {
@@ -118,7 +136,8 @@ export default function ScriptDetailPage() {
     );
   }
 
-  const hasFeedback = script.feedback || script.feedback_voice_note_url;
+  const hasReasons = !!script.rejection_reasons && script.rejection_reasons.length > 0;
+  const hasFeedback = script.feedback || script.feedback_voice_note_url || hasReasons;
 
   return (
     <div className="pb-8">
@@ -149,6 +168,12 @@ export default function ScriptDetailPage() {
           </span>
         </div>
 
+        {script.status === 'PENDING' && script.resubmitted_at && (
+          <p className="text-xs text-gray-500 mb-3">
+            Resubmitted {formatDate(script.resubmitted_at)} — waiting for review
+          </p>
+        )}
+
         <div className="flex flex-wrap gap-2 mb-3">
           <span className="text-xs bg-gray-100 text-gray-600 px-2 py-1 rounded-full">
             {getPlatformIcon(script.platform)} {script.platform?.replace('_', ' ')}
@@ -158,16 +183,25 @@ export default function ScriptDetailPage() {
           </span>
         </div>
 
-        {/* Reference URL */}
-        <a
-          href={script.reference_url}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="flex items-center gap-2 text-blue-500 text-sm"
-        >
-          <ExternalLink className="w-4 h-4" />
-          View Reference Video
-        </a>
+        <div className="flex items-center justify-between">
+          {/* Reference URL */}
+          <a
+            href={script.reference_url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-2 text-blue-500 text-sm"
+          >
+            <ExternalLink className="w-4 h-4" />
+            View Reference Video
+          </a>
+          <button
+            onClick={() => setShowHistory(true)}
+            className="flex items-center gap-1.5 text-gray-500 text-sm"
+          >
+            <History className="w-4 h-4" />
+            History
+          </button>
+        </div>
       </motion.div>
 
       {/* Production Stage (if approved) */}
@@ -216,6 +250,16 @@ export default function ScriptDetailPage() {
             <span className="absolute -top-1 -right-1 w-2 h-2 bg-red-500 rounded-full" />
           )}
         </button>
+        <button
+          onClick={() => setActiveTab('comments')}
+          className={`flex-1 py-2 text-sm font-medium rounded-lg transition-colors ${
+            activeTab === 'comments'
+              ? 'bg-blue-500 text-white'
+              : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          Chat
+        </button>
       </div>
 
       {/* Details Tab */}
@@ -240,6 +284,7 @@ export default function ScriptDetailPage() {
                 Play Voice Note
               </button>
             )}
+            <VoiceNoteTranscript transcript={script.why_viral_voice_note_transcript} />
           </div>
 
           {/* Target Emotion */}
@@ -259,6 +304,7 @@ export default function ScriptDetailPage() {
                 <Play className="w-4 h-4" />
                 Play Voice Note
               </button>
+              <VoiceNoteTranscript transcript={script.hook_voice_note_transcript} />
             </div>
           )}
 
@@ -287,6 +333,14 @@ export default function ScriptDetailPage() {
           animate={{ opacity: 1 }}
           className="space-y-4"
         >
+          {/* Rejection Reasons */}
+          {hasReasons && (
+            <div className="bg-white border border-gray-200 rounded-xl p-4">
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Why it was rejected</h3>
+              <RejectionReasonChips codes={script.rejection_reasons!} reasons={reasons} />
+            </div>
+          )}
+
           {/* Written Feedback */}
           {script.feedback && (
             <div className="bg-white border border-gray-200 rounded-xl p-4">
@@ -309,6 +363,7 @@ export default function ScriptDetailPage() {
                 <Play className="w-4 h-4" />
                 Play Feedback
               </button>
+              <VoiceNoteTranscript transcript={script.feedback_voice_note_transcript} />
             </div>
           )}
 
@@ -333,6 +388,18 @@ export default function ScriptDetailPage() {
                 )}
               </div>
             )}
+
+          <ReviewRoundsList analysisId={script.id} />
+        </motion.div>
+      )}
+
+      {/* Comments Tab */}
+      {activeTab === 'comments' && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+        >
+          <ProjectComments analysisId={script.id} />
         </motion.div>
       )}
 
@@ -344,13 +411,36 @@ export default function ScriptDetailPage() {
           className="fixed bottom-20 left-0 right-0 px-4 pb-4 bg-gradient-to-t from-gray-50 pt-6"
         >
           <button
-            onClick={() => navigate(`/writer/edit/${script.id}`)}
+            onClick={() => setShowResubmit(true)}
             className="w-full py-3 bg-blue-500 text-white rounded-xl font-medium active:bg-blue-600"
           >
             Revise & Resubmit
           </button>
         </motion.div>
       )}
+
+      {showResubmit && (
+        <ResubmitSheet
+          script={script}
+          onClose={() => setShowResubmit(false)}
+          onResubmitted={(updated) => {
+            setScript({ ...script, ...updated });
+            setShowResubmit(false);
+          }}
+        />
+      )}
+
+      {showHistory && (
+        <ScriptHistorySheet
+          script={script}
+          canRestore={script.status !== 'APPROVED' && !script.is_dissolved}
+          onClose={() => setShowHistory(false)}
+          onRestored={(updated) => {
+            setScript({ ...script, ...updated });
+            setShowHistory(false);
+          }}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { activityService, diffFields } from '../activityService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown; count?: number }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete', 'upsert',
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+    'in', 'is', 'not', 'or', 'like', 'ilike',
+    'order', 'limit', 'range', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown; count?: number }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'user-1', email: 'u@test.com' } }, error: null });
+
+  return {
+    supabase: {
+      from,
+      rpc: vi.fn(),
+      auth: { getUser: getUserMock, getSession: vi.fn() },
+    },
+    auth: {
+      getUser: getUserMock,
+      getSession: vi.fn(),
+      getAccessToken: vi.fn().mockReturnValue('mock-token'),
+    },
+  };
+});
+
+function insertedRow() {
+  const insertCall = fromCalls['project_events']?.find((c) => c.method === 'insert');
+  return insertCall?.args[0] as Record<string, unknown> | undefined;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+});
+
+// ---- Tests ----
+
+describe('activityService', () => {
+  // ========================================
+  // diffFields
+  // ========================================
+  describe('diffFields', () => {
+    it('should only include fields whose value changed', () => {
+      expect(
+        diffFields(
+          { status: 'PENDING', posting_caption: 'Same' },
+          { status: 'APPROVED', posting_caption: 'Same' },
+        ),
+      ).toEqual({ status: { from: 'PENDING', to: 'APPROVED' } });
+    });
+
+    it('should treat a missing snapshot as all nulls', () => {
+      expect(diffFields(null, { posted_url: 'https://x.com/1' })).toEqual({
+        posted_url: { from: null, to: 'https://x.com/1' },
+      });
+    });
+
+    it('should compare arrays by value', () => {
+      expect(diffFields({ posting_hashtags: ['a', 'b'] }, { posting_hashtags: ['a', 'b'] })).toEqual({});
+    });
+  });
+
+  // ========================================
+  // logEvent
+  // ========================================
+  describe('logEvent', () => {
+    it('should insert an event row with the given actor', async () => {
+      await activityService.logEvent({
+        analysisId: 'a1',
+        eventType: 'SHOOT_COMPLETED',
+        actorId: 'vid-1',
+        fromStage: 'SHOOTING',
+        toStage: 'READY_FOR_EDIT',
+        note: 'All takes done',
+      });
+
+      expect(insertedRow()).toEqual({
+        analysis_id: 'a1',
+        actor_id: 'vid-1',
+        event_type: 'SHOOT_COMPLETED',
+        from_stage: 'SHOOTING',
+        to_stage: 'READY_FOR_EDIT',
+        changes: {},
+        note: 'All takes done',
+      });
+      expect(getUserMock).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the signed-in user as actor', async () => {
+      await activityService.logEvent({ analysisId: 'a1', eventType: 'EDIT_APPROVED' });
+
+      expect(insertedRow()?.actor_id).toBe('user-1');
+    });
+
+    it('should not throw when the insert fails', async () => {
+      const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      fromResults['project_events'] = { data: null, error: { message: 'Insert failed' } };
+
+      await expect(
+        activityService.logEvent({ analysisId: 'a1', eventType: 'POSTED', actorId: 'pm-1' }),
+      ).resolves.toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalled();
+
+      consoleSpy.mockRestore();
+    });
+  });
+
+  // ========================================
+  // getProjectEvents
+  // ========================================
+  describe('getProjectEvents', () => {
+    it('should return events newest first with empty changes defaulted', async () => {
+      fromResults['project_events'] = {
+        data: [
+          { id: 'e2', event_type: 'EDIT_APPROVED', changes: null, created_at: '2026-10-02' },
+          { id: 'e1', event_type: 'PROJECT_PICKED', changes: { deadline: { from: null, to: '2026-10-10' } }, created_at: '2026-10-01' },
+        ],
+        error: null,
+      };
+
+      const result = await activityService.getProjectEvents('a1');
+
+      expect(result).toHaveLength(2);
+      expect(result[0].changes).toEqual({});
+      expect(fromCalls['project_events']).toContainEqual({
+        method: 'order',
+        args: ['created_at', { ascending: false }],
+      });
+    });
+
+    it('should throw on query error', async () => {
+      fromResults['project_events'] = { data: null, error: { message: 'Query failed' } };
+
+      await expect(activityService.getProjectEvents('a1')).rejects.toEqual({ message: 'Query failed' });
+    });
+  });
+});
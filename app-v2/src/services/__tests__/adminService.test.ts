@@ -340,6 +340,59 @@ describe('adminService', () => {
         expect.anything()
       );
     });
+
+    it('should store rejection reasons and record the reviewed version', async () => {
+      fromResults['viral_analyses'] = {
+        data: { id: 'a1', status: 'PENDING', title: 'Desk hack', hook: 'Old hook', created_at: '2026-10-01T00:00:00Z' },
+        error: null,
+      };
+
+      await adminService.reviewAnalysis('a1', {
+        status: 'REJECTED',
+        feedback: 'Hook is slow',
+        rejectionReasons: ['WEAK_HOOK'],
+      });
+
+      const update = fromCalls['viral_analyses'].find((c) => c.method === 'update');
+      expect(update?.args[0]).toMatchObject({ rejection_reasons: ['WEAK_HOOK'] });
+      const round = fromCalls['script_review_rounds'].find((c) => c.method === 'insert');
+      expect(round?.args[0]).toMatchObject({
+        analysis_id: 'a1',
+        status: 'REJECTED',
+        rejection_reasons: ['WEAK_HOOK'],
+        feedback: 'Hook is slow',
+        submitted_at: '2026-10-01T00:00:00Z',
+        snapshot: expect.objectContaining({ title: 'Desk hack', hook: 'Old hook' }),
+      });
+    });
+
+    it('should weight per-criterion scores by the configured criteria', async () => {
+      fromResults['viral_analyses'] = {
+        data: { id: 'a1', status: 'APPROVED' },
+        error: null,
+      };
+      fromResults['review_criteria'] = {
+        data: [
+          { key: 'hook_strength', weight: 3, is_active: true },
+          { key: 'pacing', weight: 1, is_active: true },
+        ],
+        error: null,
+      };
+
+      await adminService.reviewAnalysis('a1', {
+        status: 'APPROVED',
+        scores: { hook_strength: 10, pacing: 6 },
+      });
+
+      // (10*3 + 6*1) / 4 = 9
+      const update = fromCalls['viral_analyses'].find((c) => c.method === 'update');
+      expect(update?.args[0]).toMatchObject({
+        review_scores: { hook_strength: 10, pacing: 6 },
+        hook_strength: 10,
+        overall_score: 9,
+      });
+      expect(update?.args[0]).not.toHaveProperty('content_quality');
+    });
   });
 
   // ========================================
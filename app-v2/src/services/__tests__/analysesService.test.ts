@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { analysesService } from '../analysesService';
+import { scriptRevisionService } from '../scriptRevisionService';
 
 // ---- Helpers ----
 
@@ -443,6 +444,34 @@ describe('analysesService', () => {
       expect(result.title).toBe('Updated');
     });
 
+    it('should save script text edits as a new revision', async () => {
+      fromResults['viral_analyses'] = {
+        data: { id: 'a1', created_at: '2026-10-01T00:00:00Z', hook: 'Stop scrolling', script_body: 'Body' },
+        error: null,
+      };
+      const recordSpy = vi.spyOn(scriptRevisionService, 'recordRevision').mockResolvedValue();
+
+      await analysesService.updateAnalysis('a1', { hookText: 'Stop scrolling', scriptBody: 'Body' });
+
+      expect(recordSpy).toHaveBeenCalledWith(
+        'a1',
+        expect.objectContaining({ hook: 'Stop scrolling', script_body: 'Body' }),
+        expect.objectContaining({ hook: 'Stop scrolling', script_body: 'Body' }),
+        { createdBy: 'user-1', originalAt: '2026-10-01T00:00:00Z' },
+      );
+      recordSpy.mockRestore();
+    });
+
+    it('should not look up revisions when only non-text fields change', async () => {
+      fromResults['viral_analyses'] = { data: { id: 'a1', platform: 'youtube_shorts' }, error: null };
+      const recordSpy = vi.spyOn(scriptRevisionService, 'recordRevision');
+
+      await analysesService.updateAnalysis('a1', { platform: 'youtube_shorts' });
+
+      expect(recordSpy).not.toHaveBeenCalled();
+      recordSpy.mockRestore();
+    });
+
     it('should throw on update error', async () => {
       fromResults['viral_analyses'] = { data: null, error: { message: 'Update failed' } };
 
@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { assignmentService } from '../assignmentService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'or', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from, rpc: rpcMock },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: null, error: null });
+});
+
+// ---- Tests ----
+
+const people = [
+  { id: 'v1', email: 'busy@test.com', full_name: 'Busy' },
+  { id: 'v2', email: 'free@test.com', full_name: 'Free' },
+];
+
+describe('assignmentService', () => {
+  it('builds candidates with their load, profile history and skips', async () => {
+    fromResults.profiles = { data: people, error: null };
+    fromResults.project_assignments = {
+      data: [
+        { user_id: 'v1', analysis: { production_stage: 'SHOOTING', profile_id: 'brand' } },
+        { user_id: 'v1', analysis: { production_stage: 'POSTED', profile_id: 'brand' } },
+        { user_id: 'v2', analysis: null },
+      ],
+      error: null,
+    };
+    fromResults.project_skips = { data: [{ analysis_id: 'p1', user_id: 'v2' }], error: null };
+
+    const [busy, free] = await assignmentService.getCandidates('VIDEOGRAPHER');
+
+    expect(busy).toMatchObject({ userId: 'v1', name: 'Busy', activeCount: 1, profileCounts: { brand: 2 } });
+    expect(free.activeCount).toBe(0);
+    expect([...free.skippedIds]).toEqual(['p1']);
+    expect(callArgs('profiles', 'in')).toEqual(['role', ['VIDEOGRAPHER', 'videographer']]);
+  });
+
+  it('only queues editor projects that are unclaimed and have raw footage', async () => {
+    fromResults.viral_analyses = {
+      data: [
+        { id: 'claimed', created_at: '2026-10-01' },
+        { id: 'no-footage', created_at: '2026-10-01' },
+        { id: 'ready', created_at: '2026-10-01' },
+      ],
+      error: null,
+    };
+    fromResults.project_assignments = { data: [{ analysis_id: 'claimed' }], error: null };
+    fromResults.production_files = { data: [{ analysis_id: 'ready' }], error: null };
+
+    const queue = await assignmentService.getQueue('EDITOR');
+
+    expect(queue.map((p) => p.id)).toEqual(['ready']);
+    expect(fromCalls.viral_analyses.filter((c) => c.method === 'eq').map((c) => c.args))
+      .toContainEqual(['production_stage', 'READY_FOR_EDIT']);
+  });
+
+  it('assigns through the assign_project rpc with the reasons it chose', async () => {
+    fromResults.assignment_settings = { data: { role: 'VIDEOGRAPHER', auto_assign: true, max_active: 3 }, error: null };
+    fromResults.viral_analyses = {
+      data: [{ id: 'p1', priority: 'URGENT', created_at: '2026-10-01' }],
+      error: null,
+    };
+    fromResults.profiles = { data: people, error: null };
+    fromResults.project_assignments = {
+      data: [{ analysis_id: 'other', user_id: 'v1', analysis: { production_stage: 'SHOOTING' } }],
+      error: null,
+    };
+
+    const result = await assignmentService.runAutoAssign('VIDEOGRAPHER');
+
+    expect(result.assigned.map((p) => p.userId)).toEqual(['v2']);
+    expect(rpcMock).toHaveBeenCalledWith('assign_project', {
+      p_analysis_id: 'p1',
+      p_user_id: 'v2',
+      p_role: 'VIDEOGRAPHER',
+      p_assigned_by: 'admin-1',
+      p_reason: 'Urgent priority · 0 active projects (lightest load)',
+      p_auto: true,
+    });
+    expect(rpcMock).toHaveBeenCalledWith('create_notifications', expect.objectContaining({
+      p_type: 'PROJECT_ASSIGNED',
+      p_user_ids: ['v2'],
+    }));
+  });
+
+  it('skips projects that were claimed during the run', async () => {
+    fromResults.assignment_settings = { data: { max_active: 3 }, error: null };
+    fromResults.viral_analyses = { data: [{ id: 'p1', created_at: '2026-10-01' }], error: null };
+    fromResults.profiles = { data: people, error: null };
+    fromResults.project_assignments = { data: [], error: null };
+    rpcMock.mockResolvedValueOnce({ data: null, error: { code: 'PT409', message: 'This project has already been picked' } });
+
+    const result = await assignmentService.runAutoAssign('VIDEOGRAPHER');
+
+    expect(result).toEqual({ assigned: [], skipped: 1 });
+  });
+
+  it('does nothing after a stage change while auto-assign is off', async () => {
+    fromResults.assignment_settings = { data: { auto_assign: false, max_active: 3 }, error: null };
+
+    const assigned = await assignmentService.autoAssignIfEnabled('p1', 'EDITOR');
+
+    expect(assigned).toBe(false);
+    expect(fromCalls.viral_analyses).toBeUndefined();
+    expect(rpcMock).not.toHaveBeenCalled();
+  });
+
+  it('reassigns an already-claimed project in place', async () => {
+    fromResults.project_assignments = { data: { id: 'as-1', user_id: 'v1' }, error: null };
+
+    await assignmentService.assignManually('p1', 'VIDEOGRAPHER', 'v2');
+
+    expect(callArgs('project_assignments', 'update')?.[0]).toMatchObject({
+      user_id: 'v2',
+      assigned_by: 'admin-1',
+      assignment_reason: 'Reassigned by an admin',
+      auto_assigned: false,
+    });
+    expect(rpcMock).not.toHaveBeenCalledWith('assign_project', expect.anything());
+  });
+
+  it('claims an unassigned project through the rpc when an admin picks someone', async () => {
+    fromResults.project_assignments = { data: null, error: null };
+
+    await assignmentService.assignManually('p1', 'EDITOR', 'e1');
+
+    expect(rpcMock).toHaveBeenCalledWith('assign_project', expect.objectContaining({
+      p_user_id: 'e1',
+      p_role: 'EDITOR',
+      p_auto: false,
+    }));
+  });
+
+  it('rejects a max-active limit below one', async () => {
+    await expect(assignmentService.updateSettings('EDITOR', { maxActive: 0 }))
+      .rejects.toThrow('Allow at least one active project per person');
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { bulkActionService, type BulkScript } from '../bulkActionService';
+
+const mocks = vi.hoisted(() => ({
+  reviewAnalysis: vi.fn(),
+  assignManually: vi.fn(),
+}));
+
+vi.mock('../adminService', () => ({
+  adminService: { reviewAnalysis: mocks.reviewAnalysis },
+}));
+vi.mock('../assignmentService', () => ({
+  assignmentService: { assignManually: mocks.assignManually },
+}));
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'or', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from, rpc: rpcMock },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: null, error: null });
+});
+
+// ---- Tests ----
+
+const scripts: BulkScript[] = [
+  { id: 's1', title: 'Desk hack', full_name: 'Asha Rao', email: 'asha@test.com' },
+  { id: 's2', title: 'Morning routine', email: 'sam@test.com' },
+];
+
+describe('bulkActionService', () => {
+  it('requires feedback when rejecting', async () => {
+    await expect(bulkActionService.reviewScripts(scripts, { status: 'REJECTED', feedbackTemplate: '  ' }))
+      .rejects.toThrow('Feedback is required when rejecting scripts');
+    expect(mocks.reviewAnalysis).not.toHaveBeenCalled();
+  });
+
+  it('reviews each script with its own filled-in feedback and reports failures', async () => {
+    mocks.reviewAnalysis
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('Already reviewed'));
+
+    const result = await bulkActionService.reviewScripts(scripts, {
+      status: 'REJECTED',
+      feedbackTemplate: 'Sorry {writer}, "{title}" is a pass',
+    });
+
+    expect(mocks.reviewAnalysis).toHaveBeenNthCalledWith(1, 's1', {
+      status: 'REJECTED',
+      feedback: 'Sorry Asha, "Desk hack" is a pass',
+      profileId: undefined,
+    });
+    expect(mocks.reviewAnalysis.mock.calls[1][1].feedback).toBe('Sorry sam, "Morning routine" is a pass');
+    expect(result.succeeded.map((i) => i.id)).toEqual(['s1']);
+    expect(result.failed).toEqual([{ id: 's2', title: 'Morning routine', error: 'Already reviewed' }]);
+  });
+
+  it('updates priority and deadline and logs the change', async () => {
+    fromResults.viral_analyses = { data: { priority: 'NORMAL', deadline: null }, error: null };
+
+    const result = await bulkActionService.updateDetails([{ id: 'p1', title: 'One' }], {
+      priority: 'URGENT',
+      deadline: '2026-11-01',
+    });
+
+    expect(result.failed).toEqual([]);
+    expect(callArgs('viral_analyses', 'update')).toEqual([{ priority: 'URGENT', deadline: '2026-11-01' }]);
+    expect(callArgs('project_events', 'insert')?.[0]).toMatchObject({
+      analysis_id: 'p1',
+      event_type: 'DETAILS_UPDATED',
+      actor_id: 'admin-1',
+    });
+  });
+
+  it('refuses a details update with nothing to change', async () => {
+    await expect(bulkActionService.updateDetails([{ id: 'p1', title: 'One' }], {}))
+      .rejects.toThrow('Choose a priority or deadline to apply');
+  });
+
+  it('reassigns each project through the admin override', async () => {
+    mocks.assignManually.mockResolvedValue(undefined);
+
+    const result = await bulkActionService.reassign(
+      [{ id: 'p1', title: 'One' }, { id: 'p2', title: 'Two' }],
+      'EDITOR',
+      'e1',
+    );
+
+    expect(mocks.assignManually).toHaveBeenCalledWith('p1', 'EDITOR', 'e1');
+    expect(mocks.assignManually).toHaveBeenCalledWith('p2', 'EDITOR', 'e1');
+    expect(result.succeeded).toHaveLength(2);
+  });
+
+  it('generates a content ID only for approved projects', async () => {
+    fromResults.viral_analyses = { data: { content_id: null, status: 'APPROVED' }, error: null };
+    rpcMock.mockResolvedValue({ data: 'BR-0042', error: null });
+
+    await bulkActionService.assignProfile([{ id: 'p1', title: 'One' }], 'brand');
+
+    expect(callArgs('viral_analyses', 'update')).toEqual([{ profile_id: 'brand' }]);
+    expect(rpcMock).toHaveBeenCalledWith('generate_content_id_on_approval', {
+      p_analysis_id: 'p1',
+      p_profile_id: 'brand',
+    });
+
+    rpcMock.mockClear();
+    fromResults.viral_analyses = { data: { content_id: null, status: 'PENDING' }, error: null };
+
+    await bulkActionService.assignProfile([{ id: 'p2', title: 'Two' }], 'brand');
+
+    expect(rpcMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,261 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { commentService, extractMentions, mentionHandle } from '../commentService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown; count?: number }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete', 'upsert',
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+    'in', 'is', 'not', 'or', 'like', 'ilike',
+    'order', 'limit', 'range', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown; count?: number }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const rpcMock = vi.hoisted(() => vi.fn());
+const getUserMock = vi.hoisted(() => vi.fn());
+const storageUploadMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  rpcMock.mockResolvedValue({ data: 0, error: null });
+  getUserMock.mockResolvedValue({ data: { user: { id: 'user-1', email: 'u@test.com' } }, error: null });
+  storageUploadMock.mockResolvedValue({ error: null });
+
+  return {
+    supabase: {
+      from,
+      rpc: rpcMock,
+      auth: { getUser: getUserMock, getSession: vi.fn() },
+    },
+    auth: {
+      getUser: getUserMock,
+      getSession: vi.fn(),
+      getAccessToken: vi.fn().mockReturnValue('mock-token'),
+    },
+    storage: {
+      from: vi.fn(() => ({
+        upload: storageUploadMock,
+        getPublicUrl: vi.fn(() => ({ data: { publicUrl: 'https://cdn.example.com/comment.webm' } })),
+      })),
+    },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+});
+
+// ---- Tests ----
+
+describe('commentService', () => {
+  const members = [
+    { id: 'u-anna', full_name: 'Anna Lee', email: 'anna@test.com' },
+    { id: 'u-raj', email: 'raj@test.com' },
+  ];
+
+  // ========================================
+  // mentions
+  // ========================================
+  describe('mentionHandle / extractMentions', () => {
+    it('should fall back to the email local part when there is no name', () => {
+      expect(mentionHandle(members[1])).toBe('raj');
+    });
+
+    it('should keep only mentions still present in the text', () => {
+      expect(extractMentions('Thanks @Anna Lee, looks good', members)).toEqual(['u-anna']);
+    });
+
+    it('should de-duplicate repeated mentions', () => {
+      expect(extractMentions('@raj @raj please check', [members[1], members[1]])).toEqual(['u-raj']);
+    });
+  });
+
+  // ========================================
+  // getComments
+  // ========================================
+  describe('getComments', () => {
+    it('should nest replies under their parent comment', async () => {
+      fromResults['project_comments'] = {
+        data: [
+          { id: 'c1', parent_id: null, body: 'First', mentions: [], is_deleted: false },
+          { id: 'c2', parent_id: 'c1', body: 'Reply', mentions: null, is_deleted: false },
+          { id: 'c3', parent_id: null, body: 'Second', mentions: ['u-anna'], is_deleted: false },
+        ],
+        error: null,
+      };
+
+      const result = await commentService.getComments('a1');
+
+      expect(result.map((c) => c.id)).toEqual(['c1', 'c3']);
+      expect(result[0].replies?.map((r) => r.id)).toEqual(['c2']);
+      expect(result[0].replies?.[0].mentions).toEqual([]);
+    });
+
+    it('should drop deleted comments that have no visible replies', async () => {
+      fromResults['project_comments'] = {
+        data: [
+          { id: 'c1', parent_id: null, body: '', mentions: [], is_deleted: true },
+          { id: 'c2', parent_id: null, body: '', mentions: [], is_deleted: true },
+          { id: 'c3', parent_id: 'c2', body: 'Still here', mentions: [], is_deleted: false },
+        ],
+        error: null,
+      };
+
+      const result = await commentService.getComments('a1');
+
+      expect(result.map((c) => c.id)).toEqual(['c2']);
+    });
+
+    it('should throw on query error', async () => {
+      fromResults['project_comments'] = { data: null, error: { message: 'Query failed' } };
+
+      await expect(commentService.getComments('a1')).rejects.toEqual({ message: 'Query failed' });
+    });
+  });
+
+  // ========================================
+  // addComment
+  // ========================================
+  describe('addComment', () => {
+    it('should throw if not authenticated', async () => {
+      getUserMock.mockResolvedValueOnce({ data: { user: null }, error: null });
+
+      await expect(commentService.addComment({ analysisId: 'a1', body: 'Hi' })).rejects.toThrow('Not authenticated');
+    });
+
+    it('should reject an empty comment without a voice note', async () => {
+      await expect(commentService.addComment({ analysisId: 'a1', body: '   ' }))
+        .rejects.toThrow('Write a comment or record a voice note');
+    });
+
+    it('should insert the comment without mentioning the author', async () => {
+      fromResults['project_comments'] = { data: { id: 'c1', body: 'Hi @Anna Lee' }, error: null };
+
+      const result = await commentService.addComment({
+        analysisId: 'a1',
+        body: '  Hi @Anna Lee ',
+        mentions: ['u-anna', 'user-1'],
+      });
+
+      expect(result.id).toBe('c1');
+      expect(callArgs('project_comments', 'insert')?.[0]).toMatchObject({
+        analysis_id: 'a1',
+        author_id: 'user-1',
+        parent_id: null,
+        body: 'Hi @Anna Lee',
+        mentions: ['u-anna'],
+      });
+      // Posting marks the thread as read
+      expect(callArgs('project_comment_reads', 'upsert')?.[0]).toMatchObject({
+        user_id: 'user-1',
+        analysis_id: 'a1',
+      });
+    });
+
+    it('should upload the voice note and store its URL', async () => {
+      fromResults['project_comments'] = { data: { id: 'c2' }, error: null };
+
+      await commentService.addComment({
+        analysisId: 'a1',
+        body: '',
+        voiceNote: new Blob(['audio'], { type: 'audio/webm' }),
+      });
+
+      expect(storageUploadMock).toHaveBeenCalled();
+      expect(callArgs('project_comments', 'insert')?.[0]).toMatchObject({
+        voice_note_url: 'https://cdn.example.com/comment.webm',
+      });
+    });
+
+    it('should throw if the voice note upload fails', async () => {
+      storageUploadMock.mockResolvedValueOnce({ error: { message: 'Upload failed' } });
+
+      await expect(
+        commentService.addComment({ analysisId: 'a1', body: '', voiceNote: new Blob(['x']) })
+      ).rejects.toEqual({ message: 'Upload failed' });
+    });
+  });
+
+  // ========================================
+  // deleteComment
+  // ========================================
+  describe('deleteComment', () => {
+    it('should soft-delete and clear the content', async () => {
+      await commentService.deleteComment('c1');
+
+      expect(callArgs('project_comments', 'update')?.[0]).toMatchObject({
+        is_deleted: true,
+        body: '',
+        voice_note_url: null,
+      });
+    });
+
+    it('should send an update the project_comments_not_empty check accepts', async () => {
+      await commentService.deleteComment('c1');
+
+      // Mirrors CHECK (is_deleted OR body <> '' OR voice_note_url IS NOT NULL)
+      const row = callArgs('project_comments', 'update')?.[0] as { is_deleted: boolean; body: string; voice_note_url: string | null };
+      expect(row.is_deleted || row.body !== '' || row.voice_note_url !== null).toBe(true);
+    });
+  });
+
+  // ========================================
+  // getUnreadCount
+  // ========================================
+  describe('getUnreadCount', () => {
+    it('should call the unread_comment_count rpc for the current user', async () => {
+      rpcMock.mockResolvedValueOnce({ data: 4, error: null });
+
+      await expect(commentService.getUnreadCount()).resolves.toBe(4);
+      expect(rpcMock).toHaveBeenCalledWith('unread_comment_count', { p_user_id: 'user-1' });
+    });
+
+    it('should return 0 when signed out', async () => {
+      getUserMock.mockResolvedValueOnce({ data: { user: null }, error: null });
+
+      await expect(commentService.getUnreadCount()).resolves.toBe(0);
+      expect(rpcMock).not.toHaveBeenCalled();
+    });
+  });
+});
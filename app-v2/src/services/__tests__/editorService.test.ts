@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { editorService } from '../editorService';
+import { ProjectConflictError, InvalidTransitionError } from '../../lib/errors';
 
 // ---- Helpers ----
 
@@ -26,6 +27,7 @@ function createQueryBuilder(resolvedValue: { data: unknown; error: unknown; coun
 
 // ---- Module-level mock state ----
 
+const rpcMock = vi.hoisted(() => vi.fn());
 const getUserMock = vi.hoisted(() => vi.fn());
 let fromResultsQueue: Record<string, Array<{ data: unknown; error: unknown; count?: number }>> = {};
 
@@ -42,12 +44,13 @@ vi.mock('../../lib/api', () => {
     return createQueryBuilder(result);
   });
 
+  rpcMock.mockResolvedValue({ data: null, error: null });
   getUserMock.mockResolvedValue({ data: { user: { id: 'ed-1', email: 'editor@test.com' } }, error: null });
 
   return {
     supabase: {
       from,
-      rpc: vi.fn().mockResolvedValue({ data: null, error: null }),
+      rpc: rpcMock,
       auth: { getUser: getUserMock, getSession: vi.fn() },
     },
     auth: {
@@ -324,46 +327,9 @@ describe('editorService', () => {
       await expect(editorService.pickProject({ analysisId: 'a1' })).rejects.toThrow('Not authenticated');
     });
 
-    it('should throw if project is not in READY_FOR_EDIT stage', async () => {
+    it('should claim the project through the pick_project rpc', async () => {
       fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'EDITING' }, error: null },
-      ];
-
-      await expect(editorService.pickProject({ analysisId: 'a1' })).rejects.toThrow('This project is no longer available for editing');
-    });
-
-    it('should throw if project already has an editor', async () => {
-      fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'READY_FOR_EDIT' }, error: null },
-      ];
-      fromResultsQueue['project_assignments'] = [
-        { data: { id: 'existing' }, error: null },
-      ];
-
-      await expect(editorService.pickProject({ analysisId: 'a1' })).rejects.toThrow('This project has already been picked by another editor');
-    });
-
-    it('should throw if no raw footage files exist', async () => {
-      fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'READY_FOR_EDIT' }, error: null },
-      ];
-      fromResultsQueue['project_assignments'] = [
-        { data: null, error: null }, // no existing assignment
-      ];
-      fromResultsQueue['production_files'] = [
-        { data: null, error: null, count: 0 },
-      ];
-
-      await expect(editorService.pickProject({ analysisId: 'a1' })).rejects.toThrow('This project has no raw footage files');
-    });
-
-    it('should pick project successfully when all conditions are met', async () => {
-      fromResultsQueue['viral_analyses'] = [
-        // 1: fetch project
-        { data: { id: 'a1', production_stage: 'READY_FOR_EDIT' }, error: null },
-        // 2: update to EDITING
-        { data: null, error: null },
-        // 3: getProjectById refetch
+        // getProjectById refetch
         {
           data: {
             id: 'a1',
@@ -374,37 +340,39 @@ describe('editorService', () => {
           error: null,
         },
       ];
-      fromResultsQueue['project_assignments'] = [
-        { data: null, error: null }, // no existing assignment
-        { data: null, error: null }, // insert assignment
-      ];
-      fromResultsQueue['production_files'] = [
-        { data: null, error: null, count: 5 },
-      ];
 
       const result = await editorService.pickProject({ analysisId: 'a1' });
 
+      expect(rpcMock).toHaveBeenCalledWith('pick_project', {
+        p_analysis_id: 'a1',
+        p_user_id: 'ed-1',
+        p_role: 'EDITOR',
+      });
       expect(result.id).toBe('a1');
       expect(result.production_stage).toBe('EDITING');
     });
 
-    it('should rollback stage on assignment insert failure', async () => {
-      fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'READY_FOR_EDIT' }, error: null },
-        // update to EDITING succeeds
-        { data: null, error: null },
-        // rollback update
-        { data: null, error: null },
-      ];
-      fromResultsQueue['project_assignments'] = [
-        { data: null, error: null }, // no existing assignment
-        { data: null, error: { message: 'Unique constraint violated' } }, // insert fails
-      ];
-      fromResultsQueue['production_files'] = [
-        { data: null, error: null, count: 3 },
-      ];
+    it('should throw ProjectConflictError if another editor already picked it', async () => {
+      rpcMock.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'This project has already been picked by another editor', code: 'PT409' },
+      });
+
+      const promise = editorService.pickProject({ analysisId: 'a1' });
+      await expect(promise).rejects.toBeInstanceOf(ProjectConflictError);
+      await expect(promise).rejects.toThrow('This project has already been picked by another editor');
+    });
 
-      await expect(editorService.pickProject({ analysisId: 'a1' })).rejects.toEqual({ message: 'Unique constraint violated' });
+    it('should rethrow non-conflict rpc errors unchanged', async () => {
+      rpcMock.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'This project has no raw footage files', code: 'P0001' },
+      });
+
+      await expect(editorService.pickProject({ analysisId: 'a1' })).rejects.toEqual({
+        message: 'This project has no raw footage files',
+        code: 'P0001',
+      });
     });
   });
 
@@ -422,6 +390,9 @@ describe('editorService', () => {
       fromResultsQueue['production_files'] = [
         { data: null, error: null, count: 0 },
       ];
+      fromResultsQueue['viral_analyses'] = [
+        { data: { production_stage: 'EDITING', production_notes: null }, error: null },
+      ];
 
       await expect(editorService.markEditingComplete({ analysisId: 'a1' })).rejects.toThrow('Please upload at least one edited video before marking as complete');
     });
@@ -434,11 +405,24 @@ describe('editorService', () => {
       await expect(editorService.markEditingComplete({ analysisId: 'a1' })).rejects.toThrow('Failed to verify files');
     });
 
+    it('should reject when the project is not in EDITING', async () => {
+      fromResultsQueue['production_files'] = [
+        { data: null, error: null, count: 1 },
+      ];
+      fromResultsQueue['viral_analyses'] = [
+        { data: { production_stage: 'EDIT_REVIEW', production_notes: null }, error: null },
+      ];
+
+      await expect(editorService.markEditingComplete({ analysisId: 'a1' })).rejects.toBeInstanceOf(InvalidTransitionError);
+    });
+
     it('should update to READY_TO_POST when edited files exist', async () => {
       fromResultsQueue['production_files'] = [
         { data: null, error: null, count: 2 },
       ];
       fromResultsQueue['viral_analyses'] = [
+        // fetch current stage + notes
+        { data: { production_stage: 'EDITING', production_notes: null }, error: null },
         // update call
         { data: null, error: null },
         // getProjectById refetch
@@ -462,8 +446,8 @@ describe('editorService', () => {
         { data: null, error: null, count: 1 },
       ];
       fromResultsQueue['viral_analyses'] = [
-        // fetch current notes
-        { data: { production_notes: '[Videographer Notes]\nGood lighting' }, error: null },
+        // fetch current stage + notes
+        { data: { production_stage: 'EDITING', production_notes: '[Videographer Notes]\nGood lighting' }, error: null },
         // update call
         { data: null, error: null },
         // getProjectById refetch
@@ -490,8 +474,8 @@ describe('editorService', () => {
         { data: null, error: null, count: 1 },
       ];
       fromResultsQueue['viral_analyses'] = [
-        // fetch current notes (null)
-        { data: { production_notes: null }, error: null },
+        // fetch current stage + notes (null)
+        { data: { production_stage: 'EDITING', production_notes: null }, error: null },
         // update call
         { data: null, error: null },
         // getProjectById refetch
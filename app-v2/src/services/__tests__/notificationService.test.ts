@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { notificationService } from '../notificationService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown; count?: number }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete', 'upsert',
+    'eq', 'neq', 'gt', 'gte', 'lt', 'lte',
+    'in', 'is', 'not', 'or', 'like', 'ilike',
+    'order', 'limit', 'range', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown; count?: number }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'user-1', email: 'u@test.com' } }, error: null });
+
+  return {
+    supabase: {
+      from,
+      rpc: rpcMock,
+      auth: { getUser: getUserMock, getSession: vi.fn() },
+    },
+    auth: {
+      getUser: getUserMock,
+      getSession: vi.fn(),
+      getAccessToken: vi.fn().mockReturnValue('mock-token'),
+    },
+  };
+});
+
+function callsOf(table: string, method: string) {
+  return (fromCalls[table] || []).filter((c) => c.method === method);
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: 1, error: null });
+});
+
+// ---- Tests ----
+
+describe('notificationService.notify', () => {
+  it('calls create_notifications with the current user as actor', async () => {
+    await notificationService.notify({
+      type: 'PROJECT_AVAILABLE',
+      title: 'New project ready to shoot',
+      analysisId: 'a-1',
+      roles: ['VIDEOGRAPHER'],
+    });
+
+    expect(rpcMock).toHaveBeenCalledWith('create_notifications', {
+      p_type: 'PROJECT_AVAILABLE',
+      p_title: 'New project ready to shoot',
+      p_analysis_id: 'a-1',
+      p_actor_id: 'user-1',
+      p_body: null,
+      p_user_ids: [],
+      p_roles: ['VIDEOGRAPHER'],
+      p_assignee_roles: [],
+    });
+  });
+
+  it('does not throw when the RPC fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    rpcMock.mockResolvedValueOnce({ data: null, error: { message: 'boom' } });
+
+    await expect(
+      notificationService.notify({ type: 'MENTION', title: 'x', userIds: ['u-2'] })
+    ).resolves.toBeUndefined();
+
+    expect(consoleSpy).toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('does not throw when the RPC rejects', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    rpcMock.mockRejectedValueOnce(new Error('network'));
+
+    await expect(
+      notificationService.notify({ type: 'MENTION', title: 'x', userIds: ['u-2'] })
+    ).resolves.toBeUndefined();
+
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('notificationService inbox', () => {
+  it('loads the current user\'s notifications newest first', async () => {
+    fromResults['notifications'] = {
+      data: [{ id: 'n-1', type: 'MENTION', title: 'Sam mentioned you', read_at: null }],
+      error: null,
+    };
+
+    const result = await notificationService.getNotifications();
+
+    expect(result).toHaveLength(1);
+    expect(callsOf('notifications', 'eq')[0].args).toEqual(['user_id', 'user-1']);
+    expect(callsOf('notifications', 'order')[0].args).toEqual(['created_at', { ascending: false }]);
+  });
+
+  it('counts only unread notifications', async () => {
+    fromResults['notifications'] = { data: null, error: null, count: 3 };
+
+    const count = await notificationService.getUnreadCount();
+
+    expect(count).toBe(3);
+    expect(callsOf('notifications', 'is')[0].args).toEqual(['read_at', null]);
+  });
+
+  it('returns 0 unread when signed out', async () => {
+    getUserMock.mockResolvedValueOnce({ data: { user: null }, error: null });
+
+    expect(await notificationService.getUnreadCount()).toBe(0);
+  });
+
+  it('marks all unread notifications for the current user as read', async () => {
+    await notificationService.markAllRead();
+
+    const update = callsOf('notifications', 'update')[0].args[0] as Record<string, unknown>;
+    expect(update.read_at).toEqual(expect.any(String));
+    expect(callsOf('notifications', 'eq')[0].args).toEqual(['user_id', 'user-1']);
+    expect(callsOf('notifications', 'is')[0].args).toEqual(['read_at', null]);
+  });
+});
+
+describe('notificationService preferences', () => {
+  it('returns defaults when the user has never saved preferences', async () => {
+    fromResults['notification_preferences'] = { data: null, error: null };
+
+    const prefs = await notificationService.getPreferences();
+
+    expect(prefs).toEqual({ newScripts: true, approvals: true, mentions: true, dailyDigest: false });
+  });
+
+  it('maps a saved row to camelCase', async () => {
+    fromResults['notification_preferences'] = {
+      data: { new_scripts: false, approvals: true, mentions: false, daily_digest: true },
+      error: null,
+    };
+
+    const prefs = await notificationService.getPreferences();
+
+    expect(prefs).toEqual({ newScripts: false, approvals: true, mentions: false, dailyDigest: true });
+  });
+
+  it('upserts preferences for the current user', async () => {
+    await notificationService.updatePreferences({
+      newScripts: false,
+      approvals: true,
+      mentions: true,
+      dailyDigest: true,
+    });
+
+    const [row, options] = callsOf('notification_preferences', 'upsert')[0].args as [Record<string, unknown>, unknown];
+    expect(row).toMatchObject({
+      user_id: 'user-1',
+      new_scripts: false,
+      approvals: true,
+      mentions: true,
+      daily_digest: true,
+    });
+    expect(options).toEqual({ onConflict: 'user_id' });
+  });
+
+  it('throws when saving fails', async () => {
+    fromResults['notification_preferences'] = { data: null, error: { message: 'denied' } };
+
+    await expect(
+      notificationService.updatePreferences({ newScripts: true, approvals: true, mentions: true, dailyDigest: false })
+    ).rejects.toEqual({ message: 'denied' });
+  });
+});
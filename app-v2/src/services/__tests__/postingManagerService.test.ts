@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { postingManagerService } from '../postingManagerService';
+import { InvalidTransitionError } from '../../lib/errors';
 
 // ---- Helpers ----
 
@@ -266,6 +267,8 @@ describe('postingManagerService', () => {
 
     it('should not require heading for Instagram platform', async () => {
       fromResultsQueue['viral_analyses'] = [
+        // snapshot for activity log
+        { data: { posting_platform: null, posting_caption: null }, error: null },
         // update call
         { data: null, error: null },
         // getProjectById refetch
@@ -294,6 +297,7 @@ describe('postingManagerService', () => {
 
     it('should assign posting manager if not already assigned', async () => {
       fromResultsQueue['viral_analyses'] = [
+        { data: { posting_platform: null, posting_caption: null }, error: null },
         { data: null, error: null },
         {
           data: {
@@ -320,6 +324,7 @@ describe('postingManagerService', () => {
 
     it('should not re-assign if posting manager already exists', async () => {
       fromResultsQueue['viral_analyses'] = [
+        { data: { posting_platform: null, posting_caption: null }, error: null },
         { data: null, error: null },
         {
           data: {
@@ -401,6 +406,8 @@ describe('postingManagerService', () => {
 
     it('should move to POSTED stage on final post', async () => {
       fromResultsQueue['viral_analyses'] = [
+        // fetch current stage
+        { data: { production_stage: 'READY_TO_POST' }, error: null },
         // update
         { data: null, error: null },
         // getProjectById
@@ -475,8 +482,22 @@ describe('postingManagerService', () => {
       expect(result).toBeDefined();
     });
 
+    it('should refuse to post a project that is not ready to post', async () => {
+      fromResultsQueue['viral_analyses'] = [
+        { data: { production_stage: 'EDITING' }, error: null },
+      ];
+
+      await expect(
+        postingManagerService.markAsPosted({
+          analysisId: 'a1',
+          postedUrl: 'https://instagram.com/reel/123',
+        })
+      ).rejects.toBeInstanceOf(InvalidTransitionError);
+    });
+
     it('should throw on update error (final post)', async () => {
       fromResultsQueue['viral_analyses'] = [
+        { data: { production_stage: 'READY_TO_POST' }, error: null },
         { data: null, error: { message: 'Update failed' } },
       ];
 
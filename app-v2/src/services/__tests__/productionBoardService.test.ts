@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { productionBoardService } from '../productionBoardService';
+import { InvalidTransitionError } from '@/lib/errors';
+
+const mocks = vi.hoisted(() => ({
+  markShootingComplete: vi.fn(),
+  markEditingComplete: vi.fn(),
+  approveEditedVideo: vi.fn(),
+  rejectEditedVideo: vi.fn(),
+  markAsPosted: vi.fn(),
+}));
+
+vi.mock('../videographerService', () => ({
+  videographerService: { markShootingComplete: mocks.markShootingComplete },
+}));
+vi.mock('../editorService', () => ({
+  editorService: { markEditingComplete: mocks.markEditingComplete },
+}));
+vi.mock('../adminService', () => ({
+  adminService: { approveEditedVideo: mocks.approveEditedVideo, rejectEditedVideo: mocks.rejectEditedVideo },
+}));
+vi.mock('../postingManagerService', () => ({
+  postingManagerService: { markAsPosted: mocks.markAsPosted },
+}));
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('productionBoardService', () => {
+  it('completes a shoot as an admin', async () => {
+    await productionBoardService.moveProject('p1', 'SHOOTING', 'READY_FOR_EDIT');
+
+    expect(mocks.markShootingComplete).toHaveBeenCalledWith('p1', undefined, 'ADMIN');
+  });
+
+  it('submits an edit for review as an admin', async () => {
+    await productionBoardService.moveProject('p1', 'EDITING', 'EDIT_REVIEW');
+
+    expect(mocks.markEditingComplete).toHaveBeenCalledWith({ analysisId: 'p1' }, 'ADMIN');
+  });
+
+  it('approves or sends back an edit under review', async () => {
+    await productionBoardService.moveProject('p1', 'EDIT_REVIEW', 'READY_TO_POST');
+    await productionBoardService.moveProject('p2', 'EDIT_REVIEW', 'EDITING', { reason: ' Music too loud ' });
+
+    expect(mocks.approveEditedVideo).toHaveBeenCalledWith('p1');
+    expect(mocks.rejectEditedVideo).toHaveBeenCalledWith('p2', 'Music too loud');
+  });
+
+  it('requires a reason to send an edit back', async () => {
+    await expect(productionBoardService.moveProject('p1', 'EDIT_REVIEW', 'EDITING'))
+      .rejects.toThrow('Rejection reason is required');
+    expect(mocks.rejectEditedVideo).not.toHaveBeenCalled();
+  });
+
+  it('marks a project posted with the URL', async () => {
+    await productionBoardService.moveProject('p1', 'READY_TO_POST', 'POSTED', { postedUrl: 'https://ig.me/r/1' });
+
+    expect(mocks.markAsPosted).toHaveBeenCalledWith({ analysisId: 'p1', postedUrl: 'https://ig.me/r/1' }, 'ADMIN');
+  });
+
+  it('rejects moves outside the transition table before calling anything', async () => {
+    await expect(productionBoardService.moveProject('p1', 'PLANNING', 'READY_TO_POST'))
+      .rejects.toBeInstanceOf(InvalidTransitionError);
+    expect(Object.values(mocks).every((m) => m.mock.calls.length === 0)).toBe(true);
+  });
+
+  it('leaves picks to the assignment flow', async () => {
+    await expect(productionBoardService.moveProject('p1', 'PLANNING', 'SHOOTING'))
+      .rejects.toThrow('Choose a videographer to move this project');
+  });
+});
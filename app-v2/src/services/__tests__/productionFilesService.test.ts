@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { productionFilesService } from '../productionFilesService';
+import { supabase } from '../../lib/api';
 
 // ---- Helpers ----
 
@@ -339,6 +340,58 @@ describe('productionFilesService', () => {
       const result = await productionFilesService.rejectFile('f1', 'Bad quality');
       expect(result.id).toBe('f1');
     });
+
+    it('should require a rejection reason', async () => {
+      await expect(productionFilesService.rejectFile('f1', '   ')).rejects.toThrow('Rejection reason is required');
+      expect(supabase.from).not.toHaveBeenCalled();
+    });
+
+    it('should notify the uploader with the reason', async () => {
+      fromResultsQueue['production_files'] = [
+        {
+          data: {
+            id: 'f1',
+            analysis_id: 'a1',
+            file_name: 'hook.mp4',
+            uploaded_by: 'vg-1',
+            approval_status: 'rejected',
+          },
+          error: null,
+        },
+      ];
+
+      await productionFilesService.rejectFile('f1', ' Out of focus ');
+
+      expect(supabase.rpc).toHaveBeenCalledWith('create_notifications', expect.objectContaining({
+        p_type: 'FILE_REJECTED',
+        p_title: 'hook.mp4 was rejected',
+        p_body: 'Out of focus',
+        p_analysis_id: 'a1',
+        p_user_ids: ['vg-1'],
+      }));
+    });
+  });
+
+  describe('getMyRejectedFiles', () => {
+    it('should return rejected files with their project', async () => {
+      fromResultsQueue['production_files'] = [
+        {
+          data: [
+            {
+              id: 'f1',
+              approval_status: 'rejected',
+              review_notes: 'Out of focus',
+              analysis: { id: 'a1', title: 'Project' },
+            },
+          ],
+          error: null,
+        },
+      ];
+
+      const result = await productionFilesService.getMyRejectedFiles();
+      expect(result).toHaveLength(1);
+      expect(result[0].analysis?.title).toBe('Project');
+    });
   });
 
   // ========================================
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { pushService, urlBase64ToUint8Array } from '../pushService';
+
+// ---- Module-level mock state ----
+
+const { getAccessTokenMock, fetchWithAuthMock } = vi.hoisted(() => ({
+  getAccessTokenMock: vi.fn(),
+  fetchWithAuthMock: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => {
+  getAccessTokenMock.mockReturnValue('mock-access-token');
+
+  return {
+    auth: {
+      getUser: vi.fn(),
+      getSession: vi.fn(),
+      getAccessToken: getAccessTokenMock,
+    },
+    fetchWithAuth: fetchWithAuthMock,
+  };
+});
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+// ---- Tests ----
+
+describe('urlBase64ToUint8Array', () => {
+  it('decodes base64url without padding', () => {
+    // "hi?" → base64 "aGk/" → base64url "aGk_"
+    expect(Array.from(urlBase64ToUint8Array('aGk_'))).toEqual([104, 105, 63]);
+  });
+
+  it('restores missing padding', () => {
+    // "hi" → base64 "aGk="
+    expect(Array.from(urlBase64ToUint8Array('aGk'))).toEqual([104, 105]);
+  });
+});
+
+describe('pushService', () => {
+  it('is not supported without PushManager', () => {
+    expect(pushService.isSupported()).toBe(false);
+  });
+
+  it('refuses to subscribe when push is not supported', async () => {
+    await expect(pushService.subscribe()).rejects.toThrow('not supported');
+    expect(fetchWithAuthMock).not.toHaveBeenCalled();
+  });
+
+  it('sends a test push through the authenticated fetch', async () => {
+    fetchWithAuthMock.mockResolvedValueOnce({
+      ok: true,
+      json: () => Promise.resolve({ success: true, delivered: 2 }),
+    });
+
+    const delivered = await pushService.sendTest();
+
+    expect(delivered).toBe(2);
+    const [url, init] = fetchWithAuthMock.mock.calls[0];
+    expect(url).toMatch(/\/api\/push\/test$/);
+    expect(init.method).toBe('POST');
+  });
+
+  it('surfaces the backend error message', async () => {
+    fetchWithAuthMock.mockResolvedValueOnce({
+      ok: false,
+      json: () => Promise.resolve({ error: 'Push notifications are not configured' }),
+    });
+
+    await expect(pushService.sendTest()).rejects.toThrow('Push notifications are not configured');
+  });
+
+  it('throws when not signed in', async () => {
+    getAccessTokenMock.mockReturnValueOnce(null);
+
+    await expect(pushService.sendTest()).rejects.toThrow('Not authenticated');
+    expect(fetchWithAuthMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { reviewScorecardService } from '../reviewScorecardService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'or', 'not', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from, rpc: rpcMock },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: null, error: null });
+});
+
+// ---- Tests ----
+
+const criteria = [
+  { key: 'hook_strength', label: 'Hook Strength', weight: '2.00', sort_order: 1, is_active: true },
+  { key: 'pacing', label: 'Pacing', weight: '1.00', sort_order: 5, is_active: false },
+];
+
+describe('reviewScorecardService', () => {
+  it('returns criteria with numeric weights', async () => {
+    fromResults.review_criteria = { data: criteria, error: null };
+
+    const result = await reviewScorecardService.getCriteria();
+
+    expect(result.map((c) => c.weight)).toEqual([2, 1]);
+    expect(callArgs('review_criteria', 'order')).toEqual(['sort_order', { ascending: true }]);
+  });
+
+  it('adds a criterion keyed from its label at the end of the scorecard', async () => {
+    fromResults.review_criteria = { data: criteria, error: null };
+
+    await reviewScorecardService.addCriterion({ label: ' On-screen Energy! ', weight: 1.5 });
+
+    expect(callArgs('review_criteria', 'insert')?.[0]).toMatchObject({
+      key: 'on_screen_energy',
+      label: 'On-screen Energy!',
+      weight: 1.5,
+      sort_order: 6,
+      updated_by: 'admin-1',
+    });
+  });
+
+  it('rejects duplicate criteria and out-of-range weights', async () => {
+    fromResults.review_criteria = { data: criteria, error: null };
+
+    await expect(reviewScorecardService.addCriterion({ label: 'Pacing', weight: 1 }))
+      .rejects.toThrow('There is already a criterion called "Pacing"');
+    await expect(reviewScorecardService.updateCriterion('pacing', { weight: 12 }))
+      .rejects.toThrow('Weight must be between 0 and 10');
+    await expect(reviewScorecardService.addCriterion({ label: '!!', weight: 1 }))
+      .rejects.toThrow('Give the criterion a name');
+  });
+
+  it('flattens writer details onto the score history', async () => {
+    fromResults.viral_analyses = {
+      data: [{ user_id: 'w1', overall_score: '7.5', profiles: { full_name: 'Asha Rao', email: 'asha@test.com' } }],
+      error: null,
+    };
+
+    const history = await reviewScorecardService.getScoreHistory();
+
+    expect(history).toEqual([{ user_id: 'w1', overall_score: 7.5, full_name: 'Asha Rao', email: 'asha@test.com' }]);
+    expect(callArgs('viral_analyses', 'not')).toEqual(['overall_score', 'is', null]);
+  });
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { scriptReviewService } from '../scriptReviewService';
+
+const notifyMock = vi.hoisted(() => vi.fn());
+vi.mock('../notificationService', () => ({
+  notificationService: { notify: notifyMock },
+}));
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown; count?: number }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'or', 'not', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+type MockResult = { data: unknown; error: unknown; count?: number };
+
+// A list is used up one query at a time, for tables read before and after a write
+let fromResults: Record<string, MockResult | MockResult[]> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const queued = fromResults[table];
+    const result = (Array.isArray(queued) ? queued.shift() : queued) || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from, rpc: rpcMock },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: null, error: null });
+});
+
+// ---- Tests ----
+
+const rejected = {
+  user_id: 'admin-1',
+  status: 'REJECTED',
+  is_dissolved: false,
+  title: 'Desk hack',
+  hook: 'Old hook',
+  script_body: 'Body',
+};
+
+describe('scriptReviewService', () => {
+  it('numbers review rounds after the existing ones', async () => {
+    fromResults.script_review_rounds = { data: null, error: null, count: 2 };
+
+    await scriptReviewService.recordRound('a1', {
+      snapshot: { title: 'Desk hack' },
+      status: 'REJECTED',
+      rejectionReasons: ['WEAK_HOOK'],
+      feedback: 'Hook is slow',
+      reviewedBy: 'admin-1',
+    });
+
+    expect(callArgs('script_review_rounds', 'insert')?.[0]).toMatchObject({
+      analysis_id: 'a1',
+      round: 3,
+      status: 'REJECTED',
+      rejection_reasons: ['WEAK_HOOK'],
+      feedback: 'Hook is slow',
+    });
+  });
+
+  it('counts again when a concurrent review took the same round number', async () => {
+    fromResults.script_review_rounds = [
+      { data: null, error: null, count: 1 },
+      { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } },
+      { data: null, error: null, count: 2 },
+      { data: null, error: null },
+    ];
+
+    await scriptReviewService.recordRound('a1', {
+      snapshot: { title: 'Desk hack' },
+      status: 'APPROVED',
+      reviewedBy: 'admin-1',
+    });
+
+    expect(callArgs('script_review_rounds', 'insert')?.[0]).toMatchObject({ analysis_id: 'a1', round: 3 });
+    expect(fromResults.script_review_rounds).toEqual([]);
+  });
+
+  it('does not throw when a round cannot be recorded', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    fromResults.script_review_rounds = { data: null, error: { message: 'boom' } };
+
+    await expect(scriptReviewService.recordRound('a1', {
+      snapshot: {},
+      status: 'APPROVED',
+      reviewedBy: 'admin-1',
+    })).resolves.toBeUndefined();
+    consoleSpy.mockRestore();
+  });
+
+  it('resubmits only the changed fields and clears the last review', async () => {
+    fromResults.viral_analyses = { data: rejected, error: null };
+
+    await scriptReviewService.resubmit('a1', { hook: 'New hook', script_body: 'Body' }, 'Tightened the hook');
+
+    const update = callArgs('viral_analyses', 'update')?.[0] as Record<string, unknown>;
+    expect(update).toMatchObject({
+      hook: 'New hook',
+      status: 'PENDING',
+      feedback: null,
+      rejection_reasons: null,
+    });
+    expect(update).not.toHaveProperty('script_body');
+    expect(update.resubmitted_at).toEqual(expect.any(String));
+    expect(callArgs('project_events', 'insert')?.[0]).toMatchObject({
+      event_type: 'SCRIPT_RESUBMITTED',
+      note: 'Revised hook — Tightened the hook',
+    });
+    expect(notifyMock).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'SCRIPT_RESUBMITTED',
+      roles: ['SUPER_ADMIN', 'CREATOR'],
+    }));
+  });
+
+  it('refuses to resubmit unchanged, pending, dissolved or other writers\' scripts', async () => {
+    fromResults.viral_analyses = { data: rejected, error: null };
+    await expect(scriptReviewService.resubmit('a1', { hook: 'Old hook' }))
+      .rejects.toThrow('Change the script before resubmitting it');
+
+    fromResults.viral_analyses = { data: { ...rejected, status: 'PENDING' }, error: null };
+    await expect(scriptReviewService.resubmit('a1', { hook: 'New' }))
+      .rejects.toThrow('Only rejected scripts can be resubmitted');
+
+    fromResults.viral_analyses = { data: { ...rejected, is_dissolved: true }, error: null };
+    await expect(scriptReviewService.resubmit('a1', { hook: 'New' }))
+      .rejects.toThrow('This script was dissolved after too many rejections');
+
+    fromResults.viral_analyses = { data: { ...rejected, user_id: 'someone-else' }, error: null };
+    await expect(scriptReviewService.resubmit('a1', { hook: 'New' }))
+      .rejects.toThrow('You can only resubmit your own scripts');
+  });
+
+  it('groups rejection reasons by writer', async () => {
+    fromResults.script_review_rounds = {
+      data: [
+        { rejection_reasons: ['WEAK_HOOK'], analysis: { user_id: 'w1', profiles: { full_name: 'Asha Rao' } } },
+        { rejection_reasons: ['WEAK_HOOK', 'DUPLICATE'], analysis: { user_id: 'w1', profiles: null } },
+        { rejection_reasons: ['DUPLICATE'], analysis: null },
+      ],
+      error: null,
+    };
+
+    const stats = await scriptReviewService.getRejectionStats();
+
+    expect(stats.overall[0]).toEqual({ code: 'WEAK_HOOK', count: 2 });
+    expect(stats.byWriter).toHaveLength(1);
+    expect(stats.byWriter[0]).toMatchObject({ writerId: 'w1', name: 'Asha Rao', rejections: 2 });
+  });
+});
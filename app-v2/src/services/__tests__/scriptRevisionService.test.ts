@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { scriptRevisionService } from '../scriptRevisionService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown; count?: number }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'or', 'not', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+type MockResult = { data: unknown; error: unknown; count?: number };
+
+// A list is used up one query at a time, for tables read before and after a write
+let fromResults: Record<string, MockResult | MockResult[]> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const queued = fromResults[table];
+    const result = (Array.isArray(queued) ? queued.shift() : queued) || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from, rpc: rpcMock },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: null, error: null });
+});
+
+// ---- Tests ----
+
+describe('scriptRevisionService', () => {
+  it('stores the replaced version as revision 1 on the first tracked edit', async () => {
+    fromResults.script_revisions = { data: null, error: null, count: 0 };
+
+    await scriptRevisionService.recordRevision(
+      'a1',
+      { title: 'Desk hack', hook: 'Old hook' },
+      { title: 'Desk hack', hook: 'New hook' },
+      { createdBy: 'admin-1', originalAt: '2026-10-01T00:00:00Z' },
+    );
+
+    expect(callArgs('script_revisions', 'insert')?.[0]).toEqual([
+      expect.objectContaining({ revision: 1, snapshot: { title: 'Desk hack', hook: 'Old hook' }, changed_fields: [], created_at: '2026-10-01T00:00:00Z' }),
+      expect.objectContaining({ revision: 2, snapshot: { title: 'Desk hack', hook: 'New hook' }, changed_fields: ['hook'], created_by: 'admin-1' }),
+    ]);
+  });
+
+  it('numbers later revisions after the existing ones and skips unchanged text', async () => {
+    fromResults.script_revisions = { data: null, error: null, count: 4 };
+
+    await scriptRevisionService.recordRevision('a1', { hook: 'Same' }, { hook: 'Same ' }, { createdBy: 'admin-1' });
+    expect(fromCalls.script_revisions).toBeUndefined();
+
+    await scriptRevisionService.recordRevision('a1', { script_cta: 'Follow' }, { script_cta: 'Follow for more' }, { createdBy: 'admin-1' });
+    expect(callArgs('script_revisions', 'insert')?.[0]).toEqual([
+      expect.objectContaining({ revision: 5, changed_fields: ['script_cta'] }),
+    ]);
+  });
+
+  it('counts again when a concurrent edit took the same revision number', async () => {
+    fromResults.script_revisions = [
+      { data: null, error: null, count: 2 },
+      { data: null, error: { code: '23505', message: 'duplicate key value violates unique constraint' } },
+      { data: null, error: null, count: 3 },
+      { data: null, error: null },
+    ];
+
+    await scriptRevisionService.recordRevision('a1', { hook: 'A' }, { hook: 'B' }, { createdBy: 'admin-1' });
+
+    expect(callArgs('script_revisions', 'insert')?.[0]).toEqual([
+      expect.objectContaining({ revision: 4, changed_fields: ['hook'] }),
+    ]);
+    expect(fromResults.script_revisions).toEqual([]);
+  });
+
+  it('does not throw when a revision cannot be stored', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    fromResults.script_revisions = { data: null, error: { message: 'boom' } };
+
+    await expect(scriptRevisionService.recordRevision('a1', { hook: 'A' }, { hook: 'B' }, { createdBy: 'admin-1' }))
+      .resolves.toBeUndefined();
+    consoleSpy.mockRestore();
+  });
+
+  it('restores an earlier version as a new revision', async () => {
+    fromResults.script_revisions = [
+      { data: { analysis_id: 'a1', revision: 1, snapshot: { title: 'Desk hack', hook: 'Original hook' } }, error: null },
+      { data: null, error: null, count: 3 },
+      { data: null, error: null },
+    ];
+    fromResults.viral_analyses = [
+      { data: { created_at: '2026-10-01T00:00:00Z', title: 'Desk hack', hook: 'Edited hook' }, error: null },
+      { data: { id: 'a1', title: 'Desk hack', hook: 'Original hook' }, error: null },
+    ];
+
+    const result = await scriptRevisionService.restore('a1', 'rev-1');
+
+    expect(result.hook).toBe('Original hook');
+    expect(callArgs('viral_analyses', 'update')?.[0]).toEqual({ hook: 'Original hook' });
+    expect(callArgs('script_revisions', 'insert')?.[0]).toEqual([
+      expect.objectContaining({ revision: 4, restored_from: 1, changed_fields: ['hook'] }),
+    ]);
+    expect(callArgs('project_events', 'insert')?.[0]).toMatchObject({
+      event_type: 'SCRIPT_RESTORED',
+      note: 'Restored version 1 (hook)',
+    });
+  });
+
+  it('refuses to restore a version of another script or one that matches the script', async () => {
+    fromResults.script_revisions = { data: { analysis_id: 'other', revision: 1, snapshot: {} }, error: null };
+    await expect(scriptRevisionService.restore('a1', 'rev-1')).rejects.toThrow('That version belongs to another script');
+
+    fromResults.script_revisions = { data: { analysis_id: 'a1', revision: 2, snapshot: { hook: 'Same' } }, error: null };
+    fromResults.viral_analyses = { data: { hook: 'Same' }, error: null };
+    await expect(scriptRevisionService.restore('a1', 'rev-2')).rejects.toThrow('The script already matches this version');
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { shootDayService } from '../shootDayService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'vg-1', email: 'v@test.com' } }, error: null });
+
+  return {
+    supabase: { from },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+});
+
+// ---- Tests ----
+
+const dayData = {
+  shootDate: '2026-10-20',
+  startTime: '09:00',
+  endTime: '13:00',
+  location: '  Café Madras ',
+  propsNotes: '',
+  analysisIds: ['a1', 'a2'],
+};
+
+describe('shootDayService', () => {
+  it('returns days with their projects flattened', async () => {
+    fromResults.shoot_days = {
+      data: [{ id: 'd1', shoot_date: '2026-10-20', projects: [{ analysis: { id: 'a1', title: 'One' } }, { analysis: null }] }],
+      error: null,
+    };
+
+    const days = await shootDayService.getMyShootDays('2026-10-18');
+
+    expect(days[0].projects).toEqual([{ id: 'a1', title: 'One' }]);
+    expect(callArgs('shoot_days', 'eq')).toEqual(['videographer_id', 'vg-1']);
+    expect(callArgs('shoot_days', 'gte')).toEqual(['shoot_date', '2026-10-18']);
+  });
+
+  it('creates the day, links its projects and sets their planned date', async () => {
+    fromResults.shoot_days = { data: { id: 'd1', projects: [] }, error: null };
+
+    await shootDayService.createShootDay(dayData);
+
+    expect(callArgs('shoot_day_projects', 'insert')).toEqual([[
+      { shoot_day_id: 'd1', analysis_id: 'a1' },
+      { shoot_day_id: 'd1', analysis_id: 'a2' },
+    ]]);
+    expect(callArgs('viral_analyses', 'update')).toEqual([{ planned_date: '2026-10-20' }]);
+    expect(callArgs('viral_analyses', 'in')).toEqual(['id', ['a1', 'a2']]);
+  });
+
+  it('removes the new day again when its projects cannot be linked', async () => {
+    fromResults.shoot_days = { data: { id: 'd1' }, error: null };
+    fromResults.shoot_day_projects = { data: null, error: { message: 'FK violation' } };
+
+    await expect(shootDayService.createShootDay(dayData)).rejects.toEqual({ message: 'FK violation' });
+    expect(fromCalls.shoot_days.map((c) => c.method)).toContain('delete');
+    expect(callArgs('shoot_days', 'eq')).toEqual(['id', 'd1']);
+  });
+
+  it('rejects a day without projects or with the end before the start', async () => {
+    await expect(shootDayService.createShootDay({ ...dayData, analysisIds: [] }))
+      .rejects.toThrow('Add at least one project to the shoot day');
+    await expect(shootDayService.createShootDay({ ...dayData, startTime: '14:00', endTime: '10:00' }))
+      .rejects.toThrow('The shoot has to end after it starts');
+    expect(fromCalls.shoot_days).toBeUndefined();
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { slaService } from '../slaService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'or', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const rpcMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from, rpc: rpcMock },
+    auth: { getUser: getUserMock },
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  rpcMock.mockResolvedValue({ data: null, error: null });
+});
+
+// ---- Tests ----
+
+describe('slaService', () => {
+  it('updates the limit for one stage and priority', async () => {
+    await slaService.updateSla('SHOOTING', 'URGENT', 12);
+
+    expect(callArgs('stage_slas', 'update')?.[0]).toMatchObject({ hours: 12, updated_by: 'admin-1' });
+    expect(fromCalls.stage_slas.filter((c) => c.method === 'eq').map((c) => c.args)).toEqual([
+      ['stage', 'SHOOTING'],
+      ['priority', 'URGENT'],
+    ]);
+  });
+
+  it('clears a limit with null', async () => {
+    await slaService.updateSla('EDITING', 'LOW', null);
+
+    expect(callArgs('stage_slas', 'update')?.[0]).toMatchObject({ hours: null });
+  });
+
+  it('rejects limits that are not whole hours', async () => {
+    await expect(slaService.updateSla('EDITING', 'LOW', 0)).rejects.toThrow('The limit must be a whole number of hours');
+    await expect(slaService.updateSla('EDITING', 'LOW', 1.5)).rejects.toThrow('The limit must be a whole number of hours');
+    expect(fromCalls.stage_slas).toBeUndefined();
+  });
+
+  it('lists active projects past their stage limit', async () => {
+    const enteredAt = (hoursAgo: number) => new Date(Date.now() - hoursAgo * 60 * 60 * 1000).toISOString();
+    fromResults.stage_slas = {
+      data: [{ stage: 'EDITING', priority: 'NORMAL', hours: 72 }, { stage: 'EDITING', priority: 'HIGH', hours: 24 }],
+      error: null,
+    };
+    fromResults.viral_analyses = {
+      data: [
+        { id: 'late', production_stage: 'EDITING', priority: 'NORMAL', stage_entered_at: enteredAt(80) },
+        { id: 'fine', production_stage: 'EDITING', priority: 'NORMAL', stage_entered_at: enteredAt(10) },
+        { id: 'late-high', production_stage: 'EDITING', priority: 'HIGH', stage_entered_at: enteredAt(40) },
+      ],
+      error: null,
+    };
+
+    const overdue = await slaService.getOverdueProjects();
+
+    expect(overdue.map((p) => p.id)).toEqual(['late-high', 'late']);
+    expect(callArgs('viral_analyses', 'in')).toEqual(['production_stage', ['SHOOTING', 'READY_FOR_EDIT', 'EDITING', 'EDIT_REVIEW']]);
+  });
+});
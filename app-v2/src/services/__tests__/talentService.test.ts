@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { talentService } from '../talentService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'neq', 'in', 'gte', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const uploadMock = vi.hoisted(() => vi.fn());
+const fetchWithAuthMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  const storage = {
+    from: (bucket: string) => ({
+      upload: uploadMock,
+      getPublicUrl: (path: string) => ({ data: { publicUrl: `http://backend/files/${bucket}/${path}` } }),
+    }),
+  };
+
+  return {
+    supabase: { from },
+    auth: { getUser: getUserMock },
+    storage,
+    fetchWithAuth: fetchWithAuthMock,
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+  uploadMock.mockResolvedValue({ data: { path: 'x' }, error: null });
+});
+
+// ---- Tests ----
+
+describe('talentService', () => {
+  it('trims contact details and strips the @ from instagram handles', async () => {
+    fromResults.talent = { data: { id: 't1' }, error: null };
+
+    await talentService.createTalent({
+      fullName: ' Anya Rao ',
+      category: 'woman',
+      phone: '',
+      instagram: '@anya.rao',
+    });
+
+    expect(callArgs('talent', 'insert')).toEqual([{
+      full_name: 'Anya Rao',
+      category: 'woman',
+      phone: null,
+      email: null,
+      instagram: 'anya.rao',
+      notes: null,
+      created_by: 'admin-1',
+    }]);
+  });
+
+  it('rejects talent without a name or a known category', async () => {
+    await expect(talentService.createTalent({ fullName: '  ', category: 'woman' }))
+      .rejects.toThrow('Enter a name');
+    await expect(talentService.createTalent({ fullName: 'Anya', category: 'extra' as any }))
+      .rejects.toThrow('Pick a category');
+    expect(fromCalls.talent).toBeUndefined();
+  });
+
+  it('rejects an unavailability range that ends before it starts', async () => {
+    await expect(talentService.addUnavailability('t1', '2026-10-22', '2026-10-20'))
+      .rejects.toThrow('The end date has to be on or after the start date');
+    expect(fromCalls.talent_unavailability).toBeUndefined();
+  });
+
+  it('uploads a photo under the talent id and appends its URL', async () => {
+    fromResults.talent = { data: null, error: null };
+    const file = new File(['img'], 'Head Shot.PNG', { type: 'image/png' });
+
+    const urls = await talentService.addPhoto({ id: 't1', photo_urls: ['old.jpg'] }, file);
+
+    const [path] = uploadMock.mock.calls[0];
+    expect(path).toMatch(/^t1\/\d+\.png$/);
+    expect(urls).toEqual(['old.jpg', `http://backend/files/talent-photos/${path}`]);
+    expect(callArgs('talent', 'update')?.[0]).toMatchObject({ photo_urls: urls });
+  });
+
+  it('loads photos with the auth token into an object URL', async () => {
+    const photo = new Blob(['img'], { type: 'image/jpeg' });
+    fetchWithAuthMock.mockResolvedValueOnce({ ok: true, blob: () => Promise.resolve(photo) });
+    const createObjectURL = vi.fn(() => 'blob:photo');
+    vi.stubGlobal('URL', { ...URL, createObjectURL });
+
+    try {
+      await expect(talentService.loadPhoto('http://backend/files/talent-photos/t1/1.jpg')).resolves.toBe('blob:photo');
+      expect(fetchWithAuthMock).toHaveBeenCalledWith('http://backend/files/talent-photos/t1/1.jpg');
+      expect(createObjectURL).toHaveBeenCalledWith(photo);
+
+      fetchWithAuthMock.mockResolvedValueOnce({ ok: false });
+      await expect(talentService.loadPhoto('http://backend/files/talent-photos/t1/2.jpg')).rejects.toThrow('Failed to load photo');
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('refuses non-image photos', async () => {
+    const file = new File(['x'], 'notes.pdf', { type: 'application/pdf' });
+
+    await expect(talentService.addPhoto({ id: 't1', photo_urls: [] }, file))
+      .rejects.toThrow('Photos have to be images');
+    expect(uploadMock).not.toHaveBeenCalled();
+  });
+
+  it('finds talent booked on other projects planned for the same day', async () => {
+    fromResults.viral_analyses = { data: [{ id: 'p2' }, { id: 'p3' }], error: null };
+    fromResults.project_talent = { data: [{ talent_id: 't1' }, { talent_id: 't2' }], error: null };
+
+    const booked = await talentService.getBookedElsewhere('2026-10-20', 'p1');
+
+    expect([...booked]).toEqual(['t1', 't2']);
+    expect(callArgs('viral_analyses', 'eq')).toEqual(['planned_date', '2026-10-20']);
+    expect(callArgs('viral_analyses', 'neq')).toEqual(['id', 'p1']);
+    expect(callArgs('project_talent', 'in')).toEqual(['analysis_id', ['p2', 'p3']]);
+  });
+
+  it('skips the bookings lookup when nothing else is planned that day', async () => {
+    fromResults.viral_analyses = { data: [], error: null };
+
+    const booked = await talentService.getBookedElsewhere('2026-10-20', 'p1');
+
+    expect(booked.size).toBe(0);
+    expect(fromCalls.project_talent).toBeUndefined();
+  });
+
+  it('proposes roster talent for the project cast', async () => {
+    fromResults.talent = {
+      data: [
+        { id: 't1', full_name: 'Anya', category: 'woman', is_active: true, photo_urls: [] },
+        { id: 't2', full_name: 'Ravi', category: 'man', is_active: true, photo_urls: [] },
+      ],
+      error: null,
+    };
+    fromResults.project_talent = { data: [], error: null };
+
+    const slots = await talentService.getProposals({ id: 'p1', cast_composition: { woman: 1 } as any, planned_date: null });
+
+    expect(slots).toHaveLength(1);
+    expect(slots[0].candidates.map((t) => t.id)).toEqual(['t1']);
+    expect(fromCalls.viral_analyses).toBeUndefined();
+  });
+
+  it('books talent as booked and records the booker', async () => {
+    await talentService.bookTalent('p1', 't1', 'woman');
+
+    expect(callArgs('project_talent', 'insert')).toEqual([
+      { analysis_id: 'p1', talent_id: 't1', category: 'woman', status: 'booked', added_by: 'admin-1' },
+    ]);
+  });
+
+  it('searches past projects by performer using confirmed appearances only', async () => {
+    fromResults.project_talent = { data: [{ analysis_id: 'p1', analysis: { id: 'p1' } }], error: null };
+
+    const appearances = await talentService.getAppearances('t1');
+
+    expect(appearances).toHaveLength(1);
+    expect(fromCalls.project_talent.filter((c) => c.method === 'eq').map((c) => c.args)).toEqual([
+      ['talent_id', 't1'],
+      ['status', 'appeared'],
+    ]);
+  });
+});
@@ -0,0 +1,386 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UploadQueueService, summarizeUploads, type QueuedUpload } from '../uploadQueueService';
+import { createMemoryUploadQueueStore, type UploadQueueStore } from '../../lib/uploadQueueDb';
+import { UploadSessionExpiredError } from '../../lib/errors';
+
+// ---- Mocks ----
+
+const drive = vi.hoisted(() => ({
+  initUpload: vi.fn(),
+  getUploadStatus: vi.fn(),
+  resumeUpload: vi.fn(),
+  finalizeUpload: vi.fn(),
+  abortUpload: vi.fn(),
+  pauseUpload: vi.fn(),
+}));
+
+vi.mock('../driveUploadService', () => ({
+  driveUploadService: drive,
+}));
+
+const thumbnails = vi.hoisted(() => ({
+  prepare: vi.fn(),
+}));
+
+vi.mock('../videoThumbnailService', () => ({
+  videoThumbnailService: thumbnails,
+}));
+
+const DRIVE_RESULT = {
+  fileId: 'drive-1',
+  fileName: 'BCH-1001_A_ROLL_1.mp4',
+  webViewLink: 'https://drive.google.com/file/d/drive-1/view',
+  size: 100,
+};
+
+function makeFile(size = 100, name = 'clip.mp4'): File {
+  return new File([new Uint8Array(size)], name, { type: 'video/mp4' });
+}
+
+function storedUpload(overrides: Partial<QueuedUpload> = {}): QueuedUpload {
+  const file = makeFile();
+  return {
+    id: 'stored-1',
+    analysisId: 'a-1',
+    contentId: 'BCH-1001',
+    uploadType: 'raw-footage',
+    fileType: 'A_ROLL',
+    file,
+    originalName: 'clip.mp4',
+    fileName: 'BCH-1001_A_ROLL_1.mp4',
+    mimeType: 'video/mp4',
+    size: file.size,
+    resumableUri: 'https://upload.example/session-1',
+    confirmedOffset: 32,
+    uploadedBytes: 32,
+    status: 'uploading',
+    createdAt: 1,
+    updatedAt: 1,
+    ...overrides,
+  };
+}
+
+let store: UploadQueueStore;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  store = createMemoryUploadQueueStore();
+  drive.initUpload.mockResolvedValue({ resumableUri: 'https://upload.example/new', fileName: 'BCH-1001_A_ROLL_1.mp4' });
+  drive.resumeUpload.mockResolvedValue(DRIVE_RESULT);
+  drive.finalizeUpload.mockResolvedValue({ success: true });
+  thumbnails.prepare.mockResolvedValue({});
+});
+
+function enqueueParams(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    analysisId: 'a-1',
+    contentId: 'BCH-1001',
+    uploadType: 'raw-footage' as const,
+    fileType: 'A_ROLL',
+    file: makeFile(100, `clip-${i}.mp4`),
+    fileIndex: i,
+  }));
+}
+
+function statusOf(queue: UploadQueueService, id: string) {
+  return queue.getItems().find((i) => i.id === id)?.status;
+}
+
+// ---- Tests ----
+
+describe('UploadQueueService', () => {
+  it('uploads a new file and finalizes only after Drive returns the file', async () => {
+    const queue = new UploadQueueService(store);
+    const onComplete = vi.fn();
+    queue.onUploadComplete(onComplete);
+
+    const [item] = await queue.enqueue([{
+      analysisId: 'a-1',
+      contentId: 'BCH-1001',
+      uploadType: 'raw-footage',
+      fileType: 'A_ROLL',
+      file: makeFile(),
+      fileIndex: 0,
+    }]);
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('complete'));
+
+    expect(drive.initUpload).toHaveBeenCalledWith(expect.objectContaining({
+      analysisId: 'a-1',
+      fileType: 'raw-footage',
+      fileIndex: 0,
+    }));
+    expect(drive.resumeUpload).toHaveBeenCalledWith(
+      expect.any(Blob),
+      'https://upload.example/new',
+      expect.objectContaining({ startOffset: 0, uploadKey: item.id })
+    );
+    expect(drive.finalizeUpload).toHaveBeenCalledWith(expect.objectContaining({
+      fileType: 'A_ROLL',
+      fileName: 'BCH-1001_A_ROLL_1.mp4',
+      fileId: 'drive-1',
+    }));
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ id: item.id }));
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('sends the thumbnail and duration with finalize, extracting them only once', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    thumbnails.prepare.mockResolvedValue({ thumbnailUrl: 'https://files.example/thumbnails/a-1/x.jpg', durationSeconds: 42 });
+    drive.finalizeUpload.mockRejectedValueOnce(new Error('Failed to finalize upload'));
+
+    const queue = new UploadQueueService(store);
+    const [item] = await queue.enqueue(enqueueParams(1));
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('error'));
+    queue.retry(item.id);
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('complete'));
+
+    expect(thumbnails.prepare).toHaveBeenCalledTimes(1);
+    expect(thumbnails.prepare).toHaveBeenCalledWith(expect.any(Blob), 'a-1', item.id);
+    expect(drive.finalizeUpload).toHaveBeenLastCalledWith(expect.objectContaining({
+      thumbnailUrl: 'https://files.example/thumbnails/a-1/x.jpg',
+      durationSeconds: 42,
+    }));
+    consoleSpy.mockRestore();
+  });
+
+  it('persists the confirmed offset after each chunk', async () => {
+    let confirmed: number[] = [];
+    drive.resumeUpload.mockImplementationOnce(async (_file, _uri, options) => {
+      options.onChunkConfirmed(16);
+      confirmed = (await store.getAll()).map((i) => i.confirmedOffset);
+      return DRIVE_RESULT;
+    });
+
+    const queue = new UploadQueueService(store);
+    const [item] = await queue.enqueue([{
+      analysisId: 'a-1',
+      contentId: 'BCH-1001',
+      uploadType: 'raw-footage',
+      fileType: 'A_ROLL',
+      file: makeFile(),
+    }]);
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('complete'));
+    expect(confirmed).toEqual([16]);
+  });
+
+  it('resumes a stored upload from the offset Drive reports', async () => {
+    store = createMemoryUploadQueueStore([storedUpload()]);
+    drive.getUploadStatus.mockResolvedValue({ offset: 48, result: null });
+
+    const queue = new UploadQueueService(store);
+    await queue.init();
+
+    await vi.waitFor(() => expect(statusOf(queue, 'stored-1')).toBe('complete'));
+
+    expect(drive.initUpload).not.toHaveBeenCalled();
+    expect(drive.getUploadStatus).toHaveBeenCalledWith('https://upload.example/session-1', 100);
+    expect(drive.resumeUpload).toHaveBeenCalledWith(
+      expect.any(Blob),
+      'https://upload.example/session-1',
+      expect.objectContaining({ startOffset: 48 })
+    );
+  });
+
+  it('skips straight to finalize when Drive already has the whole file', async () => {
+    store = createMemoryUploadQueueStore([storedUpload()]);
+    drive.getUploadStatus.mockResolvedValue({ offset: 100, result: DRIVE_RESULT });
+
+    const queue = new UploadQueueService(store);
+    await queue.init();
+
+    await vi.waitFor(() => expect(statusOf(queue, 'stored-1')).toBe('complete'));
+    expect(drive.resumeUpload).not.toHaveBeenCalled();
+    expect(drive.finalizeUpload).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses on a network error and resumes when back online', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    drive.resumeUpload.mockRejectedValueOnce(new Error('Network error during chunk upload'));
+    drive.getUploadStatus.mockResolvedValue({ offset: 16, result: null });
+
+    const queue = new UploadQueueService(store);
+    const [item] = await queue.enqueue([{
+      analysisId: 'a-1',
+      contentId: 'BCH-1001',
+      uploadType: 'raw-footage',
+      fileType: 'A_ROLL',
+      file: makeFile(),
+    }]);
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('paused'));
+    expect(drive.finalizeUpload).not.toHaveBeenCalled();
+
+    window.dispatchEvent(new Event('online'));
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('complete'));
+    expect(drive.resumeUpload).toHaveBeenLastCalledWith(
+      expect.any(Blob),
+      'https://upload.example/new',
+      expect.objectContaining({ startOffset: 16 })
+    );
+    consoleSpy.mockRestore();
+  });
+
+  it('only re-runs finalize when retrying after a finalize failure', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    drive.finalizeUpload.mockRejectedValueOnce(new Error('Failed to finalize upload'));
+
+    const queue = new UploadQueueService(store);
+    const [item] = await queue.enqueue([{
+      analysisId: 'a-1',
+      contentId: 'BCH-1001',
+      uploadType: 'raw-footage',
+      fileType: 'A_ROLL',
+      file: makeFile(),
+    }]);
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('error'));
+    expect(queue.getItems()[0].error).toBe('Failed to finalize upload');
+
+    queue.retry(item.id);
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('complete'));
+    expect(drive.resumeUpload).toHaveBeenCalledTimes(1);
+    expect(drive.finalizeUpload).toHaveBeenCalledTimes(2);
+    consoleSpy.mockRestore();
+  });
+
+  it('starts over with a new session when the old one expired', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    store = createMemoryUploadQueueStore([storedUpload()]);
+    drive.getUploadStatus.mockRejectedValueOnce(new UploadSessionExpiredError());
+
+    const queue = new UploadQueueService(store);
+    await queue.init();
+
+    await vi.waitFor(() => expect(statusOf(queue, 'stored-1')).toBe('error'));
+    expect(queue.getItems()[0]).toMatchObject({ resumableUri: undefined, confirmedOffset: 0 });
+
+    queue.retry('stored-1');
+
+    await vi.waitFor(() => expect(statusOf(queue, 'stored-1')).toBe('complete'));
+    expect(drive.initUpload).toHaveBeenCalledTimes(1);
+    consoleSpy.mockRestore();
+  });
+
+  it('cancels an upload and forgets it', async () => {
+    const queue = new UploadQueueService(store);
+    drive.resumeUpload.mockImplementationOnce(() => new Promise(() => {}));
+
+    const [item] = await queue.enqueue([{
+      analysisId: 'a-1',
+      contentId: 'BCH-1001',
+      uploadType: 'raw-footage',
+      fileType: 'A_ROLL',
+      file: makeFile(),
+    }]);
+
+    await vi.waitFor(() => expect(drive.resumeUpload).toHaveBeenCalled());
+    await queue.remove(item.id);
+
+    expect(drive.abortUpload).toHaveBeenCalledWith(item.id);
+    expect(queue.getItems()).toEqual([]);
+    expect(await store.getAll()).toEqual([]);
+  });
+
+  it('never runs more uploads at once than the concurrency limit', async () => {
+    const pending: Array<() => void> = [];
+    drive.resumeUpload.mockImplementation(() => new Promise((resolve) => {
+      pending.push(() => resolve(DRIVE_RESULT));
+    }));
+
+    const queue = new UploadQueueService(store, { concurrency: 2 });
+    const items = await queue.enqueue(enqueueParams(3));
+
+    await vi.waitFor(() => expect(drive.resumeUpload).toHaveBeenCalledTimes(2));
+    expect(statusOf(queue, items[2].id)).toBe('queued');
+
+    pending.shift()!();
+    await vi.waitFor(() => expect(drive.resumeUpload).toHaveBeenCalledTimes(3));
+
+    pending.splice(0).forEach((resolve) => resolve());
+    await vi.waitFor(() => expect(queue.getItems().every((i) => i.status === 'complete')).toBe(true));
+  });
+
+  it('pauses one upload and resumes it from the offset Drive reports', async () => {
+    let rejectInFlight: (error: Error) => void = () => {};
+    drive.resumeUpload.mockImplementationOnce(() => new Promise((_, reject) => {
+      rejectInFlight = reject;
+    }));
+    drive.pauseUpload.mockImplementation(() => rejectInFlight(new Error('Upload paused')));
+    drive.getUploadStatus.mockResolvedValue({ offset: 64, result: null });
+
+    const queue = new UploadQueueService(store);
+    const [item] = await queue.enqueue(enqueueParams(1));
+
+    await vi.waitFor(() => expect(drive.resumeUpload).toHaveBeenCalledTimes(1));
+    queue.pause(item.id);
+
+    expect(drive.pauseUpload).toHaveBeenCalledWith(item.id);
+    expect(queue.getItems()[0]).toMatchObject({ status: 'paused', pausedByUser: true });
+
+    // Coming back online doesn't override a pause the user asked for
+    window.dispatchEvent(new Event('online'));
+    expect(statusOf(queue, item.id)).toBe('paused');
+
+    queue.resume(item.id);
+
+    await vi.waitFor(() => expect(statusOf(queue, item.id)).toBe('complete'));
+    expect(drive.resumeUpload).toHaveBeenLastCalledWith(
+      expect.any(Blob),
+      'https://upload.example/new',
+      expect.objectContaining({ startOffset: 64 })
+    );
+  });
+
+  it('retries only the failed uploads', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    drive.resumeUpload.mockImplementation(async (file: File) => {
+      if (file.name === 'clip-1.mp4' && drive.resumeUpload.mock.calls.length <= 2) {
+        throw new Error('Drive rejected the chunk');
+      }
+      return DRIVE_RESULT;
+    });
+
+    const queue = new UploadQueueService(store, { concurrency: 1 });
+    const [first, second] = await queue.enqueue(enqueueParams(2));
+
+    await vi.waitFor(() => expect(statusOf(queue, second.id)).toBe('error'));
+    expect(statusOf(queue, first.id)).toBe('complete');
+
+    queue.retryFailed();
+
+    await vi.waitFor(() => expect(statusOf(queue, second.id)).toBe('complete'));
+    expect(drive.resumeUpload).toHaveBeenCalledTimes(3);
+    expect(drive.finalizeUpload).toHaveBeenCalledTimes(2);
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('summarizeUploads', () => {
+  it('adds up active uploads and estimates time remaining', () => {
+    const summary = summarizeUploads([
+      storedUpload({ id: 'u1', size: 1000, uploadedBytes: 250 }),
+      storedUpload({ id: 'u2', size: 1000, uploadedBytes: 750, status: 'paused' }),
+      storedUpload({ id: 'u3', size: 500, uploadedBytes: 500, status: 'complete' }),
+      storedUpload({ id: 'u4', size: 500, uploadedBytes: 0, status: 'error' }),
+    ], 100);
+
+    expect(summary).toEqual({
+      activeCount: 2,
+      failedCount: 1,
+      totalBytes: 2000,
+      uploadedBytes: 1000,
+      percentage: 50,
+      bytesPerSecond: 100,
+      etaSeconds: 10,
+    });
+  });
+
+  it('has no ETA before there is a speed measurement', () => {
+    expect(summarizeUploads([storedUpload()], 0).etaSeconds).toBeNull();
+  });
+});
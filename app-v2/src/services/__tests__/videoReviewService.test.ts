@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { videoReviewService, formatTimecode } from '../videoReviewService';
+
+// ---- Helpers to build a chainable mock that records calls ----
+
+interface CallRecord {
+  method: string;
+  args: unknown[];
+}
+
+function createQueryBuilder(resolvedValue: { data: unknown; error: unknown }) {
+  const calls: CallRecord[] = [];
+
+  const chainMethods = [
+    'select', 'insert', 'update', 'delete',
+    'eq', 'in', 'order', 'limit', 'single', 'maybeSingle',
+  ] as const;
+
+  const builder: Record<string, any> = {};
+
+  for (const m of chainMethods) {
+    builder[m] = vi.fn((...args: unknown[]) => {
+      calls.push({ method: m, args });
+      return builder;
+    });
+  }
+
+  builder.then = (resolve: (v: any) => void, reject?: (r: any) => void) => {
+    return Promise.resolve(resolvedValue).then(resolve, reject);
+  };
+
+  return { builder, calls };
+}
+
+// ---- Module-level mock state ----
+
+let fromResults: Record<string, { data: unknown; error: unknown }> = {};
+let fromCalls: Record<string, CallRecord[]> = {};
+const getUserMock = vi.hoisted(() => vi.fn());
+const fetchWithAuthMock = vi.hoisted(() => vi.fn());
+
+vi.mock('../../lib/api', () => {
+  const from = vi.fn((table: string) => {
+    const result = fromResults[table] || { data: null, error: null };
+    const { builder, calls } = createQueryBuilder(result);
+    fromCalls[table] = calls;
+    return builder;
+  });
+
+  getUserMock.mockResolvedValue({ data: { user: { id: 'admin-1', email: 'a@test.com' } }, error: null });
+
+  return {
+    supabase: { from },
+    auth: { getUser: getUserMock },
+    fetchWithAuth: fetchWithAuthMock,
+  };
+});
+
+function callArgs(table: string, method: string) {
+  return fromCalls[table]?.find((c) => c.method === method)?.args;
+}
+
+// ---- Setup ----
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  fromResults = {};
+  fromCalls = {};
+});
+
+// ---- Tests ----
+
+describe('videoReviewService', () => {
+  it('formats timecodes to the millisecond', () => {
+    expect(formatTimecode(42.48)).toBe('0:42.480');
+    expect(formatTimecode(125.0333)).toBe('2:05.033');
+    expect(formatTimecode(0)).toBe('0:00.000');
+  });
+
+  it('returns notes in playback order with numeric timestamps', async () => {
+    fromResults.video_review_notes = {
+      data: [{ id: 'n1', file_id: 'f1', timestamp_seconds: '42.480', body: 'Cut is late', is_resolved: false }],
+      error: null,
+    };
+
+    const notes = await videoReviewService.getNotes('f1');
+
+    expect(notes[0].timestamp_seconds).toBe(42.48);
+    expect(callArgs('video_review_notes', 'eq')).toEqual(['file_id', 'f1']);
+    expect(callArgs('video_review_notes', 'order')).toEqual(['timestamp_seconds', { ascending: true }]);
+  });
+
+  it('pins a note to the given time, rounded to the millisecond', async () => {
+    fromResults.video_review_notes = {
+      data: { id: 'n1', timestamp_seconds: '42.481', body: 'Cut is late' },
+      error: null,
+    };
+
+    await videoReviewService.addNote({
+      analysisId: 'a1',
+      fileId: 'f1',
+      timestampSeconds: 42.48066,
+      body: '  Cut is late ',
+    });
+
+    expect(callArgs('video_review_notes', 'insert')).toEqual([{
+      analysis_id: 'a1',
+      file_id: 'f1',
+      author_id: 'admin-1',
+      timestamp_seconds: 42.481,
+      body: 'Cut is late',
+    }]);
+  });
+
+  it('rejects empty notes without writing', async () => {
+    await expect(videoReviewService.addNote({
+      analysisId: 'a1',
+      fileId: 'f1',
+      timestampSeconds: 1,
+      body: '   ',
+    })).rejects.toThrow('Write a note first');
+    expect(fromCalls.video_review_notes).toBeUndefined();
+  });
+
+  it('records who resolved a note and clears it when re-opened', async () => {
+    await videoReviewService.setResolved('n1', true);
+    expect(callArgs('video_review_notes', 'update')?.[0]).toMatchObject({
+      is_resolved: true,
+      resolved_by: 'admin-1',
+      resolved_at: expect.any(String),
+    });
+
+    await videoReviewService.setResolved('n1', false);
+    expect(callArgs('video_review_notes', 'update')?.[0]).toEqual({
+      is_resolved: false,
+      resolved_by: null,
+      resolved_at: null,
+    });
+  });
+
+  it('turns the signed stream path into a full URL', async () => {
+    fetchWithAuthMock.mockResolvedValue({
+      ok: true,
+      json: async () => ({ url: '/api/upload/stream/drive-1?expires=1&sig=abc' }),
+    });
+
+    const url = await videoReviewService.getStreamUrl('drive-1');
+
+    expect(fetchWithAuthMock).toHaveBeenCalledWith(
+      expect.stringContaining('/api/upload/stream-url/drive-1'),
+      { method: 'POST' }
+    );
+    expect(url).toMatch(/\/api\/upload\/stream\/drive-1\?expires=1&sig=abc$/);
+  });
+});
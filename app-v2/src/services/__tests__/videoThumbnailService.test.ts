@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { videoThumbnailService } from '../videoThumbnailService';
+import { getPosterTime, formatDuration } from '../../lib/videoMetadata';
+
+// ---- Mocks ----
+
+const { uploadMock, extractMock } = vi.hoisted(() => ({
+  uploadMock: vi.fn(),
+  extractMock: vi.fn(),
+}));
+
+vi.mock('../../lib/api', () => ({
+  storage: {
+    from: vi.fn((bucket: string) => ({
+      upload: uploadMock,
+      getPublicUrl: (path: string) => ({ data: { publicUrl: `https://api.example/files/${bucket}/${path}` } }),
+    })),
+  },
+}));
+
+vi.mock('../../lib/videoMetadata', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../lib/videoMetadata')>()),
+  extractVideoMetadata: extractMock,
+}));
+
+function video(): Blob {
+  return new Blob([new Uint8Array(10)], { type: 'video/mp4' });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  uploadMock.mockResolvedValue({ data: { path: 'x' }, error: null });
+});
+
+// ---- Tests ----
+
+describe('videoThumbnailService.prepare', () => {
+  it('uploads the poster frame and returns its URL with the duration', async () => {
+    const frame = new Blob(['jpeg'], { type: 'image/jpeg' });
+    extractMock.mockResolvedValue({ durationSeconds: 75, thumbnail: frame });
+
+    const result = await videoThumbnailService.prepare(video(), 'a-1', 'up-1');
+
+    expect(uploadMock).toHaveBeenCalledWith('a-1/up-1.jpg', frame, { contentType: 'image/jpeg', upsert: true });
+    expect(result).toEqual({
+      thumbnailUrl: 'https://api.example/files/thumbnails/a-1/up-1.jpg',
+      durationSeconds: 75,
+    });
+  });
+
+  it('keeps the duration when the thumbnail upload fails', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    extractMock.mockResolvedValue({ durationSeconds: 12, thumbnail: new Blob(['jpeg']) });
+    uploadMock.mockResolvedValue({ data: null, error: { message: 'Upload failed' } });
+
+    expect(await videoThumbnailService.prepare(video(), 'a-1', 'up-1')).toEqual({ durationSeconds: 12 });
+    consoleSpy.mockRestore();
+  });
+
+  it('resolves empty when the video cannot be decoded', async () => {
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    extractMock.mockRejectedValue(new Error('Timed out reading video'));
+
+    expect(await videoThumbnailService.prepare(video(), 'a-1', 'up-1')).toEqual({});
+    expect(uploadMock).not.toHaveBeenCalled();
+    consoleSpy.mockRestore();
+  });
+
+  it('skips non-video files', async () => {
+    const audio = new Blob([new Uint8Array(10)], { type: 'audio/mpeg' });
+
+    expect(await videoThumbnailService.prepare(audio, 'a-1', 'up-1')).toEqual({});
+    expect(extractMock).not.toHaveBeenCalled();
+  });
+});
+
+describe('videoMetadata helpers', () => {
+  it('picks a poster time inside short clips', () => {
+    expect(getPosterTime(30)).toBe(1);
+    expect(getPosterTime(4)).toBeCloseTo(0.4);
+    expect(getPosterTime(NaN)).toBe(0);
+  });
+
+  it('formats durations', () => {
+    expect(formatDuration(75)).toBe('1:15');
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { videographerService } from '../videographerService';
+import { ProjectConflictError } from '../../lib/errors';
 
 // ---- Helpers ----
 
@@ -310,33 +311,11 @@ describe('videographerService', () => {
       getUserMock.mockResolvedValueOnce({ data: { user: null }, error: null });
 
       await expect(videographerService.pickProject({ analysisId: 'a1' })).rejects.toThrow('Not authenticated');
+      expect(rpcMock).not.toHaveBeenCalled();
     });
 
-    it('should throw if project is not in planning stage', async () => {
+    it('should claim the project through the pick_project rpc', async () => {
       fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'SHOOTING' }, error: null },
-      ];
-
-      await expect(videographerService.pickProject({ analysisId: 'a1' })).rejects.toThrow('This project is no longer available');
-    });
-
-    it('should throw if project already has a videographer', async () => {
-      fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'PLANNING' }, error: null },
-      ];
-      fromResultsQueue['project_assignments'] = [
-        { data: { id: 'existing-assignment' }, error: null },
-      ];
-
-      await expect(videographerService.pickProject({ analysisId: 'a1' })).rejects.toThrow('This project has already been picked');
-    });
-
-    it('should accept project in PLANNING stage with no existing assignment', async () => {
-      // 1: fetch project
-      fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'PLANNING', content_id: null, profile_id: null }, error: null },
-        // update call
-        { data: null, error: null },
         // getProjectById refetch
         {
           data: {
@@ -348,64 +327,53 @@ describe('videographerService', () => {
           error: null,
         },
       ];
-      // assignment check: no existing
-      fromResultsQueue['project_assignments'] = [
-        { data: null, error: null },
-        // insert assignment
-        { data: null, error: null },
-      ];
 
-      const result = await videographerService.pickProject({ analysisId: 'a1' });
+      const result = await videographerService.pickProject({ analysisId: 'a1', profileId: 'prof-1', deadline: '2026-11-01' });
 
+      expect(rpcMock).toHaveBeenCalledWith('pick_project', {
+        p_analysis_id: 'a1',
+        p_user_id: 'vg-1',
+        p_role: 'VIDEOGRAPHER',
+        p_profile_id: 'prof-1',
+        p_deadline: '2026-11-01',
+      });
       expect(result.id).toBe('a1');
+      expect(result.videographer).toEqual({ id: 'vg-1' });
     });
 
-    it('should accept project with null production_stage (treated as planning)', async () => {
+    it('should pass null profile and deadline when not provided', async () => {
       fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: null, content_id: null, profile_id: null }, error: null },
-        { data: null, error: null },
-        {
-          data: {
-            id: 'a1',
-            production_stage: 'SHOOTING',
-            profiles: { email: 'w@test.com', full_name: 'W', avatar_url: null },
-            assignments: [],
-          },
-          error: null,
-        },
-      ];
-      fromResultsQueue['project_assignments'] = [
-        { data: null, error: null },
-        { data: null, error: null },
+        { data: { id: 'a1', profiles: null, assignments: [] }, error: null },
       ];
 
-      const result = await videographerService.pickProject({ analysisId: 'a1' });
-      expect(result).toBeDefined();
+      await videographerService.pickProject({ analysisId: 'a1' });
+
+      expect(rpcMock).toHaveBeenCalledWith('pick_project', expect.objectContaining({
+        p_profile_id: null,
+        p_deadline: null,
+      }));
     });
 
-    it('should call rpc to generate content_id when profileId is provided', async () => {
-      fromResultsQueue['viral_analyses'] = [
-        { data: { id: 'a1', production_stage: 'PLANNING', content_id: null, profile_id: null }, error: null },
-        { data: null, error: null },
-        {
-          data: {
-            id: 'a1',
-            profiles: { email: 'w@test.com', full_name: 'W', avatar_url: null },
-            assignments: [],
-          },
-          error: null,
-        },
-      ];
-      fromResultsQueue['project_assignments'] = [
-        { data: null, error: null },
-        { data: null, error: null },
-      ];
+    it('should throw ProjectConflictError when the project was already picked', async () => {
+      rpcMock.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'This project has already been picked', code: 'PT409' },
+      });
 
-      await videographerService.pickProject({ analysisId: 'a1', profileId: 'prof-1' });
+      const promise = videographerService.pickProject({ analysisId: 'a1' });
+      await expect(promise).rejects.toBeInstanceOf(ProjectConflictError);
+      await expect(promise).rejects.toThrow('This project has already been picked');
+    });
 
-      expect(rpcMock).toHaveBeenCalledWith('generate_content_id_on_approval', {
-        p_analysis_id: 'a1',
-        p_profile_id: 'prof-1',
+    it('should rethrow network errors unchanged', async () => {
+      rpcMock.mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Request timed out', code: 'TIMEOUT' },
+      });
+
+      await expect(videographerService.pickProject({ analysisId: 'a1' })).rejects.toEqual({
+        message: 'Request timed out',
+        code: 'TIMEOUT',
       });
     });
   });
@@ -422,25 +390,68 @@ describe('videographerService', () => {
 
     it('should throw if no files uploaded', async () => {
       fromResultsQueue['production_files'] = [
-        { data: null, error: null, count: 0 },
+        { data: [], error: null },
+      ];
+      fromResultsQueue['viral_analyses'] = [
+        { data: { production_stage: 'SHOOTING', production_notes: null }, error: null },
       ];
 
       await expect(videographerService.markShootingComplete('a1')).rejects.toThrow('Please upload at least one file before marking as complete');
     });
 
-    it('should throw on file count query error', async () => {
+    it('should throw on file query error', async () => {
       fromResultsQueue['production_files'] = [
-        { data: null, error: { message: 'Count error' }, count: undefined },
+        { data: null, error: { message: 'Query error' } },
       ];
 
       await expect(videographerService.markShootingComplete('a1')).rejects.toThrow('Failed to verify files');
     });
 
+    it('should throw while any raw footage is rejected', async () => {
+      fromResultsQueue['production_files'] = [
+        {
+          data: [
+            { file_type: 'A_ROLL', approval_status: 'approved' },
+            { file_type: 'B_ROLL', approval_status: 'pending' },
+            { file_type: 'B_ROLL', approval_status: 'rejected' },
+          ],
+          error: null,
+        },
+      ];
+      fromResultsQueue['viral_analyses'] = [
+        { data: { production_stage: 'SHOOTING', production_notes: null }, error: null },
+      ];
+
+      await expect(videographerService.markShootingComplete('a1')).rejects.toThrow('Some footage was rejected');
+    });
+
+    it('should throw while a scripted section has no footage and there is no A-Roll', async () => {
+      fromResultsQueue['production_files'] = [
+        {
+          data: [
+            { file_type: 'HOOK', approval_status: 'approved' },
+            { file_type: 'B_ROLL', approval_status: null },
+          ],
+          error: null,
+        },
+      ];
+      fromResultsQueue['viral_analyses'] = [
+        {
+          data: { production_stage: 'SHOOTING', production_notes: null, hook: 'Stop!', script_body: 'Step 1', script_cta: 'Follow' },
+          error: null,
+        },
+      ];
+
+      await expect(videographerService.markShootingComplete('a1')).rejects.toThrow('Missing footage: Body, CTA');
+    });
+
     it('should update stage to READY_FOR_EDIT when files exist', async () => {
       fromResultsQueue['production_files'] = [
-        { data: null, error: null, count: 3 },
+        { data: [{ file_type: 'A_ROLL', approval_status: 'pending' }, { file_type: 'B_ROLL', approval_status: null }], error: null },
       ];
       fromResultsQueue['viral_analyses'] = [
+        // fetch current stage + notes
+        { data: { production_stage: 'SHOOTING', production_notes: null }, error: null },
         // update call
         { data: null, error: null },
         // getProjectById refetch
@@ -461,11 +472,11 @@ describe('videographerService', () => {
 
     it('should append production notes when provided', async () => {
       fromResultsQueue['production_files'] = [
-        { data: null, error: null, count: 2 },
+        { data: [{ file_type: 'RAW_FOOTAGE', approval_status: 'approved' }], error: null },
       ];
       fromResultsQueue['viral_analyses'] = [
-        // fetch current notes
-        { data: { production_notes: 'Existing notes' }, error: null },
+        // fetch current stage + notes
+        { data: { production_stage: 'SHOOTING', production_notes: 'Existing notes' }, error: null },
         // update call
         { data: null, error: null },
         // getProjectById refetch
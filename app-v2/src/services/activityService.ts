@@ -0,0 +1,94 @@
+/**
+ * Activity Service
+ *
+ * Append-only audit log for projects (project_events table).
+ * State-changing service calls record an event after their write succeeds;
+ * the detail pages read the events back as a timeline.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import type { ProjectEvent, ProjectEventChange, ProjectEventType } from '@/types';
+
+export interface LogEventData {
+  analysisId: string;
+  eventType: ProjectEventType;
+  /** Defaults to the signed-in user */
+  actorId?: string;
+  fromStage?: string | null;
+  toStage?: string | null;
+  changes?: Record<string, ProjectEventChange>;
+  note?: string | null;
+}
+
+/**
+ * Field-level diff between two snapshots. Only keys present in `after` are
+ * compared, and unchanged values are left out.
+ */
+export function diffFields(
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown>,
+): Record<string, ProjectEventChange> {
+  const changes: Record<string, ProjectEventChange> = {};
+  for (const [key, to] of Object.entries(after)) {
+    const from = before?.[key] ?? null;
+    if (JSON.stringify(from) !== JSON.stringify(to ?? null)) {
+      changes[key] = { from, to: to ?? null };
+    }
+  }
+  return changes;
+}
+
+export const activityService = {
+  /**
+   * Record an event for a project.
+   * Never throws — the state change it describes has already been written,
+   * so a failed log write is reported to the console and otherwise ignored.
+   */
+  async logEvent(event: LogEventData): Promise<void> {
+    try {
+      let actorId = event.actorId;
+      if (!actorId) {
+        const { data: { user } } = await auth.getUser();
+        actorId = user?.id;
+      }
+
+      const { error } = await supabase
+        .from('project_events')
+        .insert({
+          analysis_id: event.analysisId,
+          actor_id: actorId || null,
+          event_type: event.eventType,
+          from_stage: event.fromStage || null,
+          to_stage: event.toStage || null,
+          changes: event.changes || {},
+          note: event.note || null,
+        });
+
+      if (error) {
+        console.error('Failed to log project event:', error);
+      }
+    } catch (error) {
+      console.error('Failed to log project event:', error);
+    }
+  },
+
+  /**
+   * Get the activity timeline for a project, newest first
+   */
+  async getProjectEvents(analysisId: string): Promise<ProjectEvent[]> {
+    const { data, error } = await supabase
+      .from('project_events')
+      .select(`
+        *,
+        actor:profiles!project_events_actor_id_fkey (id, email, full_name, avatar_url, role)
+      `)
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return ((data || []) as any[]).map((e) => ({
+      ...e,
+      changes: e.changes || {},
+    })) as ProjectEvent[];
+  },
+};
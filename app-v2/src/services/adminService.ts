@@ -9,16 +9,30 @@
  */
 
 import { supabase, auth, storage } from '@/lib/api';
+import { PLANNING_STAGES, EDITED_FILE_TYPES, assertTransition } from '@/lib/productionStages';
+import { LEGACY_SCORE_COLUMNS, computeOverallScore } from '@/lib/reviewScorecard';
+import { SNAPSHOT_COLUMNS, takeSnapshot } from '@/lib/scriptSnapshot';
+import { activityService, diffFields } from '@/services/activityService';
+import { assignmentService } from '@/services/assignmentService';
+import { notificationService } from '@/services/notificationService';
+import { reviewScorecardService } from '@/services/reviewScorecardService';
+import { scriptReviewService } from '@/services/scriptReviewService';
 import type { ViralAnalysis } from '@/types';
 
 export interface ReviewData {
   status: 'APPROVED' | 'REJECTED';
   feedback?: string;
   feedbackVoiceNote?: Blob | null;
-  hookStrength: number;
-  contentQuality: number;
-  viralPotential: number;
-  replicationClarity: number;
+  /** Rejections only: codes from rejection_reasons */
+  rejectionReasons?: string[];
+  /** Score per review criterion key; weighted into overall_score */
+  scores?: Record<string, number>;
+  /** Shorthand for the four default criteria when `scores` is not given.
+   *  Scores are left unset when none are given (bulk review). */
+  hookStrength?: number;
+  contentQuality?: number;
+  viralPotential?: number;
+  replicationClarity?: number;
   profileId?: string;
 }
 
@@ -207,13 +221,19 @@ export const adminService = {
       throw new Error('Feedback is required when rejecting an analysis');
     }
 
-    // Calculate overall score
-    const overall_score = (
-      reviewData.hookStrength +
-      reviewData.contentQuality +
-      reviewData.viralPotential +
-      reviewData.replicationClarity
-    ) / 4;
+    // Calculate the weighted overall score
+    const scores: Record<string, number> = reviewData.scores ?? Object.fromEntries(
+      Object.entries({
+        hook_strength: reviewData.hookStrength,
+        content_quality: reviewData.contentQuality,
+        viral_potential: reviewData.viralPotential,
+        replication_clarity: reviewData.replicationClarity,
+      }).filter(([, score]) => score !== undefined) as [string, number][]
+    );
+    const isScored = Object.keys(scores).length > 0;
+    const overall_score = isScored
+      ? computeOverallScore(scores, await reviewScorecardService.getCriteria())
+      : null;
 
     // Upload voice feedback if provided
     let feedback_voice_note_url: string | undefined;
@@ -235,6 +255,13 @@ export const adminService = {
       feedback_voice_note_url = publicUrl;
     }
 
+    // Snapshot for the activity log and the review history
+    const { data: before } = await supabase
+      .from('viral_analyses')
+      .select(`status, production_stage, profile_id, created_at, resubmitted_at, ${SNAPSHOT_COLUMNS}`)
+      .eq('id', id)
+      .single();
+
     // Increment rejection counter if rejecting
     if (reviewData.status === 'REJECTED') {
       await supabase.rpc('increment_rejection_counter', {
@@ -247,11 +274,12 @@ export const adminService = {
       status: reviewData.status,
       feedback: reviewData.feedback,
       feedback_voice_note_url,
-      hook_strength: reviewData.hookStrength,
-      content_quality: reviewData.contentQuality,
-      viral_potential: reviewData.viralPotential,
-      replication_clarity: reviewData.replicationClarity,
-      overall_score: parseFloat(overall_score.toFixed(1)),
+      rejection_reasons: reviewData.status === 'REJECTED' ? reviewData.rejectionReasons || [] : null,
+      ...(overall_score !== null && {
+        review_scores: scores,
+        ...Object.fromEntries(LEGACY_SCORE_COLUMNS.filter((key) => key in scores).map((key) => [key, scores[key]])),
+        overall_score,
+      }),
       reviewed_by: user.id,
       reviewed_at: new Date().toISOString(),
     };
@@ -283,7 +311,53 @@ export const adminService = {
       });
     }
 
-    return data as ViralAnalysis;
+    const beforeInfo = before as (Partial<ViralAnalysis> & { status?: string }) | null;
+    await scriptReviewService.recordRound(id, {
+      snapshot: takeSnapshot(beforeInfo || {}),
+      status: reviewData.status,
+      rejectionReasons: reviewData.rejectionReasons,
+      feedback: reviewData.feedback,
+      feedbackVoiceNoteUrl: feedback_voice_note_url,
+      submittedAt: beforeInfo?.resubmitted_at || beforeInfo?.created_at,
+      reviewedBy: user.id,
+    });
+
+    await activityService.logEvent({
+      analysisId: id,
+      eventType: reviewData.status === 'APPROVED' ? 'SCRIPT_APPROVED' : 'SCRIPT_REJECTED',
+      actorId: user.id,
+      fromStage: beforeInfo?.production_stage,
+      toStage: updateData.production_stage as string | undefined,
+      changes: diffFields(beforeInfo, {
+        status: updateData.status,
+        ...(updateData.profile_id !== undefined && { profile_id: updateData.profile_id }),
+        ...(updateData.overall_score !== undefined && { overall_score: updateData.overall_score }),
+        ...(reviewData.status === 'REJECTED' && (reviewData.rejectionReasons?.length ?? 0) > 0 && {
+          rejection_reasons: reviewData.rejectionReasons,
+        }),
+      }),
+      note: reviewData.feedback,
+    });
+
+    const reviewed = data as ViralAnalysis;
+    await notificationService.notify({
+      type: reviewData.status === 'APPROVED' ? 'SCRIPT_APPROVED' : 'SCRIPT_REJECTED',
+      title: reviewData.status === 'APPROVED' ? 'Your script was approved' : 'Your script was rejected',
+      analysisId: id,
+      body: reviewData.status === 'REJECTED' ? reviewData.feedback : undefined,
+      userIds: reviewed?.user_id ? [reviewed.user_id] : [],
+    });
+    // Only announce it to everyone if auto-assign didn't already hand it out
+    if (reviewData.status === 'APPROVED' && !(await assignmentService.autoAssignIfEnabled(id, 'VIDEOGRAPHER'))) {
+      await notificationService.notify({
+        type: 'PROJECT_AVAILABLE',
+        title: 'New project ready to shoot',
+        analysisId: id,
+        roles: ['VIDEOGRAPHER'],
+      });
+    }
+
+    return reviewed;
   },
 
   /**
@@ -305,7 +379,7 @@ export const adminService = {
       activeBase().eq('status', 'PENDING'),
       activeBase().eq('status', 'APPROVED'),
       activeBase().eq('status', 'REJECTED'),
-      approvedBase().in('production_stage', ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED']),
+      approvedBase().in('production_stage', PLANNING_STAGES),
       approvedBase().is('production_stage', null),
       approvedBase().eq('production_stage', 'SHOOTING'),
       approvedBase().in('production_stage', ['READY_FOR_EDIT', 'SHOOT_REVIEW']),
@@ -394,7 +468,7 @@ export const adminService = {
       postedResult,
     ] = await Promise.all([
       supabase.from('viral_analyses').select('id', { count: 'exact', head: true }).eq('status', 'PENDING'),
-      approvedBase().in('production_stage', ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED']),
+      approvedBase().in('production_stage', PLANNING_STAGES),
       approvedBase().is('production_stage', null),
       approvedBase().eq('production_stage', 'SHOOTING'),
       approvedBase().in('production_stage', ['READY_FOR_EDIT', 'SHOOT_REVIEW']),
@@ -670,7 +744,7 @@ export const adminService = {
       profiles:user_id (email, full_name, avatar_url),
       profile:profile_list (id, name, platform),
       assignments:project_assignments (
-        id, role,
+        id, role, user_id, assignment_reason, auto_assigned,
         user:profiles!project_assignments_user_id_fkey (id, email, full_name)
       )
     `;
@@ -705,7 +779,7 @@ export const adminService = {
 
     switch (stage) {
       case 'planning':
-        stageFilter = ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED'];
+        stageFilter = PLANNING_STAGES;
         includeNullStage = true;
         break;
       case 'shooting':
@@ -786,18 +860,22 @@ export const adminService = {
    * Approve edited video - move from EDIT_REVIEW to READY_TO_POST
    */
   async approveEditedVideo(analysisId: string, notes?: string): Promise<void> {
+    const { data: currentProject, error: fetchError } = await supabase
+      .from('viral_analyses')
+      .select('production_stage, production_notes')
+      .eq('id', analysisId)
+      .single();
+
+    if (fetchError) throw fetchError;
+
+    const projectInfo = currentProject as { production_stage?: string; production_notes?: string } | null;
+    assertTransition(projectInfo?.production_stage, 'READY_TO_POST', 'ADMIN');
+
     const updateData: Record<string, unknown> = {
       production_stage: 'READY_TO_POST',
     };
 
     if (notes) {
-      const { data: currentProject } = await supabase
-        .from('viral_analyses')
-        .select('production_notes')
-        .eq('id', analysisId)
-        .single();
-
-      const projectInfo = currentProject as { production_notes?: string } | null;
       const existingNotes = projectInfo?.production_notes || '';
       updateData.production_notes = existingNotes
         ? `${existingNotes}\n\n[Admin Edit Approval]\n${notes}`
@@ -810,21 +888,44 @@ export const adminService = {
       .eq('id', analysisId);
 
     if (error) throw error;
+
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'EDIT_APPROVED',
+      fromStage: projectInfo?.production_stage,
+      toStage: 'READY_TO_POST',
+      note: notes,
+    });
+
+    await notificationService.notify({
+      type: 'EDIT_APPROVED',
+      title: 'Your edit was approved',
+      analysisId,
+      assigneeRoles: ['EDITOR'],
+    });
+    await notificationService.notify({
+      type: 'PROJECT_AVAILABLE',
+      title: 'New video ready to post',
+      analysisId,
+      roles: ['POSTING_MANAGER'],
+    });
   },
 
   /**
    * Reject edited video - move from EDIT_REVIEW back to EDITING
    */
   async rejectEditedVideo(analysisId: string, reason: string): Promise<void> {
-    if (!reason) throw new Error('Rejection reason is required');
-
-    const { data: currentProject } = await supabase
+    const { data: currentProject, error: fetchError } = await supabase
       .from('viral_analyses')
-      .select('production_notes, disapproval_count')
+      .select('production_stage, production_notes, disapproval_count')
       .eq('id', analysisId)
       .single();
 
-    const projectInfo = currentProject as { production_notes?: string; disapproval_count?: number } | null;
+    if (fetchError) throw fetchError;
+
+    const projectInfo = currentProject as { production_stage?: string; production_notes?: string; disapproval_count?: number } | null;
+    assertTransition(projectInfo?.production_stage, 'EDITING', 'ADMIN', { reason });
+
     const existingNotes = projectInfo?.production_notes || '';
     const newNotes = existingNotes
       ? `${existingNotes}\n\n[Edit Rejected]\n${reason}`
@@ -842,6 +943,43 @@ export const adminService = {
       .eq('id', analysisId);
 
     if (error) throw error;
+
+    // Attach the reason to the revision it was about — every edited file
+    // that hasn't been rejected yet belongs to the cut under review
+    const { error: revisionError } = await supabase
+      .from('production_files')
+      .update({
+        revision_rejection_reason: reason,
+        revision_rejected_at: new Date().toISOString(),
+      })
+      .eq('analysis_id', analysisId)
+      .in('file_type', EDITED_FILE_TYPES)
+      .eq('is_deleted', false)
+      .is('revision_rejection_reason', null);
+
+    if (revisionError) {
+      console.error('Failed to record rejection on revision:', revisionError);
+    }
+
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'EDIT_REJECTED',
+      fromStage: projectInfo?.production_stage,
+      toStage: 'EDITING',
+      changes: diffFields(
+        { disapproval_count: projectInfo?.disapproval_count || 0 },
+        { disapproval_count: (projectInfo?.disapproval_count || 0) + 1 },
+      ),
+      note: reason,
+    });
+
+    await notificationService.notify({
+      type: 'EDIT_REJECTED',
+      title: 'Your edit needs changes',
+      analysisId,
+      body: reason,
+      assigneeRoles: ['EDITOR'],
+    });
   },
 
   /**
@@ -879,12 +1017,28 @@ export const adminService = {
    * Remove a skip (re-assign project to user's available list)
    */
   async removeSkip(skipId: string): Promise<void> {
+    // Read the skip first so the activity log knows which project it was for
+    const { data: skip } = await supabase
+      .from('project_skips')
+      .select('analysis_id, role')
+      .eq('id', skipId)
+      .maybeSingle();
+
     const { error } = await supabase
       .from('project_skips')
       .delete()
       .eq('id', skipId);
 
     if (error) throw error;
+
+    const skipInfo = skip as { analysis_id: string; role: string } | null;
+    if (skipInfo?.analysis_id) {
+      await activityService.logEvent({
+        analysisId: skipInfo.analysis_id,
+        eventType: 'SKIP_REMOVED',
+        note: `Restored to the ${skipInfo.role.toLowerCase()} available list`,
+      });
+    }
   },
 
   /**
@@ -1166,7 +1320,7 @@ export const adminService = {
       supabase
         .from('production_files')
         .select('*')
-        .in('file_type', ['EDITED_VIDEO', 'FINAL_VIDEO', 'edited-video', 'final-video'])
+        .in('file_type', EDITED_FILE_TYPES)
         .eq('is_deleted', false),
     ]);
 
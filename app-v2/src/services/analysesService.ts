@@ -5,10 +5,12 @@
  * - Fetching user's analyses
  * - Creating new analyses
  * - Uploading voice notes
- * - Updating analyses
+ * - Updating analyses (each text change is kept as a script revision)
  */
 
 import { supabase, auth, storage } from '@/lib/api';
+import { SNAPSHOT_COLUMNS, SNAPSHOT_FIELDS, takeSnapshot } from '@/lib/scriptSnapshot';
+import { scriptRevisionService } from '@/services/scriptRevisionService';
 import type { ViralAnalysis, AnalysisFormData } from '@/types';
 
 export interface AnalysisStats {
@@ -223,6 +225,7 @@ export const analysesService = {
         hook: formData.hookText || null,
         script_body: formData.scriptBody || null,
         script_cta: formData.scriptCta || null,
+        script_language: formData.scriptLanguage || null,
         cast_composition: formData.castComposition ? {
           man: formData.castComposition.man ?? 0,
           woman: formData.castComposition.woman ?? 0,
@@ -296,7 +299,8 @@ export const analysesService = {
   },
 
   /**
-   * Update an existing analysis
+   * Update an existing analysis. If the script text changes, the new version
+   * is stored as a revision (see scriptRevisionService).
    */
   async updateAnalysis(id: string, formData: Partial<AnalysisFormData>): Promise<ViralAnalysis> {
     const { data: { user } } = await auth.getUser();
@@ -322,11 +326,29 @@ export const analysesService = {
     if (formData.shootType !== undefined) updateData.shoot_type = formData.shootType;
     if (formData.whyViral !== undefined) updateData.why_viral = formData.whyViral;
     if (formData.targetEmotion !== undefined) updateData.target_emotion = formData.targetEmotion;
+    if (formData.hookText !== undefined) updateData.hook = formData.hookText;
+    if (formData.scriptBody !== undefined) updateData.script_body = formData.scriptBody;
+    if (formData.scriptCta !== undefined) updateData.script_cta = formData.scriptCta;
+    if (formData.productionNotes !== undefined) updateData.production_notes = formData.productionNotes;
+    if (formData.scriptLanguage !== undefined) updateData.script_language = formData.scriptLanguage;
 
     // Voice note URLs
     if (hookVoiceUrl) updateData.hook_voice_note_url = hookVoiceUrl;
     if (whyViralVoiceUrl) updateData.why_viral_voice_note_url = whyViralVoiceUrl;
 
+    // Version being replaced, only needed when the script text is touched
+    let before: Partial<ViralAnalysis> | null = null;
+    if (SNAPSHOT_FIELDS.some(({ key }) => key in updateData)) {
+      const { data: current, error: fetchError } = await supabase
+        .from('viral_analyses')
+        .select(`created_at, ${SNAPSHOT_COLUMNS}`)
+        .eq('id', id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      before = current as Partial<ViralAnalysis>;
+    }
+
     const { data, error } = await supabase
       .from('viral_analyses')
       .update(updateData)
@@ -335,7 +357,16 @@ export const analysesService = {
       .single();
 
     if (error) throw error;
-    return data as ViralAnalysis;
+
+    const updated = data as ViralAnalysis;
+    if (before) {
+      await scriptRevisionService.recordRevision(id, takeSnapshot(before), takeSnapshot(updated), {
+        createdBy: user.id,
+        originalAt: before.created_at,
+      });
+    }
+
+    return updated;
   },
 
   /**
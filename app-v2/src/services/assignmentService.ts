@@ -0,0 +1,318 @@
+/**
+ * Assignment Service
+ *
+ * Auto-assignment of PLANNING projects to videographers and READY_FOR_EDIT
+ * projects to editors, plus admin overrides. Who gets what is decided by
+ * lib/autoAssign; this service gathers the inputs (queue, loads, skips,
+ * profile history), applies the result through the assign_project() RPC and
+ * records why each person was chosen on the assignment row.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import { planAssignments, rankCandidates, type AssignableProject, type AssignmentCandidate, type AssignmentProposal, type CandidateScore } from '@/lib/autoAssign';
+import { toServiceError } from '@/lib/errors';
+import { PLANNING_STAGES, RAW_FILE_TYPES } from '@/lib/productionStages';
+import { activityService } from '@/services/activityService';
+import { notificationService } from '@/services/notificationService';
+import type { AssignableRole, AssignmentSettings } from '@/types';
+
+/**
+ * The stage an assignment moves a project into, which is also what counts
+ * as someone's load (getMyStats' activeShoots / inProgress)
+ */
+const ACTIVE_STAGE: Record<AssignableRole, string> = {
+  VIDEOGRAPHER: 'SHOOTING',
+  EDITOR: 'EDITING',
+};
+
+const QUEUE_COLS = 'id, title, priority, deadline, profile_id, created_at';
+
+export interface AutoAssignResult {
+  assigned: AssignmentProposal[];
+  /** Projects that were claimed by someone else while the run was going */
+  skipped: number;
+}
+
+export const assignmentService = {
+  async getSettings(): Promise<AssignmentSettings[]> {
+    const { data, error } = await supabase
+      .from('assignment_settings')
+      .select('*')
+      .order('role', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as AssignmentSettings[];
+  },
+
+  async getRoleSettings(role: AssignableRole): Promise<AssignmentSettings | null> {
+    const { data, error } = await supabase
+      .from('assignment_settings')
+      .select('*')
+      .eq('role', role)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data as AssignmentSettings | null;
+  },
+
+  async updateSettings(role: AssignableRole, updates: { autoAssign?: boolean; maxActive?: number }): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    if (updates.maxActive !== undefined && updates.maxActive < 1) {
+      throw new Error('Allow at least one active project per person');
+    }
+
+    const { error } = await supabase
+      .from('assignment_settings')
+      .update({
+        ...(updates.autoAssign !== undefined && { auto_assign: updates.autoAssign }),
+        ...(updates.maxActive !== undefined && { max_active: updates.maxActive }),
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('role', role);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Unclaimed projects waiting for `role`. Editors only get projects that
+   * have raw footage, same as their Available list.
+   */
+  async getQueue(role: AssignableRole): Promise<AssignableProject[]> {
+    let query = supabase
+      .from('viral_analyses')
+      .select(QUEUE_COLS)
+      .eq('status', 'APPROVED')
+      .or('is_dissolved.eq.false,is_dissolved.is.null');
+
+    query = role === 'VIDEOGRAPHER'
+      ? query.or(`production_stage.in.(${PLANNING_STAGES.join(',')}),production_stage.is.null`)
+      : query.eq('production_stage', 'READY_FOR_EDIT');
+
+    const [projectsResult, assignedResult] = await Promise.all([
+      query,
+      supabase.from('project_assignments').select('analysis_id').eq('role', role),
+    ]);
+
+    if (projectsResult.error) throw projectsResult.error;
+    const assignedIds = new Set(((assignedResult.data || []) as { analysis_id: string }[]).map((a) => a.analysis_id));
+    const unclaimed = ((projectsResult.data || []) as AssignableProject[]).filter((p) => !assignedIds.has(p.id));
+
+    if (role === 'VIDEOGRAPHER' || unclaimed.length === 0) return unclaimed;
+
+    const { data: rawFiles } = await supabase
+      .from('production_files')
+      .select('analysis_id')
+      .in('analysis_id', unclaimed.map((p) => p.id))
+      .in('file_type', RAW_FILE_TYPES)
+      .eq('is_deleted', false);
+
+    const withRaw = new Set(((rawFiles || []) as { analysis_id: string }[]).map((f) => f.analysis_id));
+    return unclaimed.filter((p) => withRaw.has(p.id));
+  },
+
+  /**
+   * Everyone in `role` with their current load, skips and how often they
+   * have worked on each profile
+   */
+  async getCandidates(role: AssignableRole): Promise<AssignmentCandidate[]> {
+    const [peopleResult, assignmentsResult, skipsResult] = await Promise.all([
+      supabase.from('profiles').select('id, email, full_name').in('role', [role, role.toLowerCase()]),
+      supabase.from('project_assignments')
+        .select('user_id, analysis:viral_analyses(production_stage, profile_id)')
+        .eq('role', role),
+      supabase.from('project_skips').select('analysis_id, user_id').eq('role', role),
+    ]);
+
+    if (peopleResult.error) throw peopleResult.error;
+    if (assignmentsResult.error) throw assignmentsResult.error;
+
+    const candidates = new Map<string, AssignmentCandidate>();
+    for (const person of (peopleResult.data || []) as { id: string; email: string; full_name?: string }[]) {
+      candidates.set(person.id, {
+        userId: person.id,
+        name: person.full_name || person.email,
+        activeCount: 0,
+        skippedIds: new Set(),
+        profileCounts: {},
+      });
+    }
+
+    for (const row of (assignmentsResult.data || []) as { user_id: string; analysis?: { production_stage?: string; profile_id?: string } | null }[]) {
+      const candidate = candidates.get(row.user_id);
+      if (!candidate || !row.analysis) continue;
+      if (row.analysis.production_stage === ACTIVE_STAGE[role]) candidate.activeCount++;
+      if (row.analysis.profile_id) {
+        candidate.profileCounts[row.analysis.profile_id] = (candidate.profileCounts[row.analysis.profile_id] || 0) + 1;
+      }
+    }
+
+    for (const skip of (skipsResult.data || []) as { analysis_id: string; user_id: string }[]) {
+      candidates.get(skip.user_id)?.skippedIds.add(skip.analysis_id);
+    }
+
+    return [...candidates.values()];
+  },
+
+  /**
+   * Who would get what if auto-assign ran now. Pass `analysisIds` to limit
+   * the run to those projects.
+   */
+  async previewAutoAssign(role: AssignableRole, analysisIds?: string[]): Promise<AssignmentProposal[]> {
+    const [settings, queue, candidates] = await Promise.all([
+      this.getRoleSettings(role),
+      this.getQueue(role),
+      this.getCandidates(role),
+    ]);
+
+    const projects = analysisIds ? queue.filter((p) => analysisIds.includes(p.id)) : queue;
+    return planAssignments(projects, candidates, settings?.max_active ?? 3);
+  },
+
+  /**
+   * Assign the queue (or just `analysisIds`) for `role`. A project claimed by
+   * someone else in the meantime is skipped, not treated as a failure.
+   */
+  async runAutoAssign(role: AssignableRole, analysisIds?: string[]): Promise<AutoAssignResult> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const proposals = await this.previewAutoAssign(role, analysisIds);
+    const assigned: AssignmentProposal[] = [];
+    let skipped = 0;
+
+    for (const proposal of proposals) {
+      try {
+        await this.applyAssignment(proposal.project.id, role, proposal.userId, proposal.reasons.join(' · '), true, user.id);
+        assigned.push(proposal);
+      } catch (error) {
+        console.error('Auto-assign skipped a project:', error);
+        skipped++;
+      }
+    }
+
+    return { assigned, skipped };
+  },
+
+  /**
+   * Called after a project enters a role's queue. Does nothing unless the
+   * role is in auto-assign mode, and never fails the action that called it.
+   * Resolves true when the project got an assignee.
+   */
+  async autoAssignIfEnabled(analysisId: string, role: AssignableRole): Promise<boolean> {
+    try {
+      const settings = await this.getRoleSettings(role);
+      if (!settings?.auto_assign) return false;
+      const { assigned } = await this.runAutoAssign(role, [analysisId]);
+      return assigned.length > 0;
+    } catch (error) {
+      console.error('Auto-assign failed:', error);
+      return false;
+    }
+  },
+
+  /**
+   * People who could take a project, best first, for the admin override
+   */
+  async rankForProject(project: AssignableProject, role: AssignableRole): Promise<CandidateScore[]> {
+    const [settings, candidates] = await Promise.all([
+      this.getRoleSettings(role),
+      this.getCandidates(role),
+    ]);
+    // Admins may go past the limit, so rank against it without excluding anyone
+    const maxActive = Math.max(settings?.max_active ?? 3, ...candidates.map((c) => c.activeCount + 1));
+    return rankCandidates(project, candidates, maxActive);
+  },
+
+  /**
+   * Admin override: give the project to `userId`, replacing whoever has it
+   */
+  async assignManually(analysisId: string, role: AssignableRole, userId: string): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: existing, error: existingError } = await supabase
+      .from('project_assignments')
+      .select('id, user_id')
+      .eq('analysis_id', analysisId)
+      .eq('role', role)
+      .maybeSingle();
+
+    if (existingError) throw existingError;
+    const current = existing as { id: string; user_id: string } | null;
+    if (current?.user_id === userId) return;
+
+    if (!current) {
+      await this.applyAssignment(analysisId, role, userId, 'Assigned by an admin', false, user.id);
+      return;
+    }
+
+    const { error } = await supabase
+      .from('project_assignments')
+      .update({
+        user_id: userId,
+        assigned_by: user.id,
+        assigned_at: new Date().toISOString(),
+        assignment_reason: 'Reassigned by an admin',
+        auto_assigned: false,
+      })
+      .eq('id', current.id);
+
+    if (error) throw error;
+
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'PROJECT_ASSIGNED',
+      actorId: user.id,
+      note: 'Reassigned by an admin',
+    });
+
+    await notificationService.notify({
+      type: 'PROJECT_ASSIGNED',
+      title: 'A project was assigned to you',
+      analysisId,
+      userIds: [userId],
+    });
+  },
+
+  /**
+   * Claim a project for someone through assign_project(), then log and notify
+   */
+  async applyAssignment(
+    analysisId: string,
+    role: AssignableRole,
+    userId: string,
+    reason: string,
+    auto: boolean,
+    actorId: string,
+  ): Promise<void> {
+    const { error } = await supabase.rpc('assign_project', {
+      p_analysis_id: analysisId,
+      p_user_id: userId,
+      p_role: role,
+      p_assigned_by: actorId,
+      p_reason: reason,
+      p_auto: auto,
+    });
+
+    if (error) throw toServiceError(error);
+
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'PROJECT_ASSIGNED',
+      actorId,
+      fromStage: role === 'VIDEOGRAPHER' ? 'PLANNING' : 'READY_FOR_EDIT',
+      toStage: ACTIVE_STAGE[role],
+      note: auto ? `Auto-assigned: ${reason}` : reason,
+    });
+
+    await notificationService.notify({
+      type: 'PROJECT_ASSIGNED',
+      title: role === 'VIDEOGRAPHER' ? 'A shoot was assigned to you' : 'An edit was assigned to you',
+      analysisId,
+      body: auto ? reason : undefined,
+      userIds: [userId],
+    });
+  },
+};
@@ -0,0 +1,142 @@
+/**
+ * Bulk Action Service
+ *
+ * Multi-select actions for the admin Pending and Production queues. Each
+ * project goes through the same path as the single-project action (review,
+ * assignment) or a plain update with an activity entry, one at a time, and
+ * the caller gets a per-item list of what worked and what didn't.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import { fillFeedbackTemplate, runBulk, type BulkResult } from '@/lib/bulkActions';
+import { activityService, diffFields } from '@/services/activityService';
+import { adminService } from '@/services/adminService';
+import { assignmentService } from '@/services/assignmentService';
+import type { AssignableRole, Priority, ViralAnalysis } from '@/types';
+
+export type BulkScript = Pick<ViralAnalysis, 'id' | 'title' | 'full_name' | 'email'>;
+export type BulkProject = Pick<ViralAnalysis, 'id' | 'title'>;
+
+export interface BulkReviewData {
+  status: 'APPROVED' | 'REJECTED';
+  /** Shared feedback; {title} and {writer} are filled per script */
+  feedbackTemplate?: string;
+  /** Approvals only: profile to file the projects under (generates content IDs) */
+  profileId?: string;
+}
+
+export interface BulkDetailsData {
+  priority?: Priority;
+  /** YYYY-MM-DD, or null to clear */
+  deadline?: string | null;
+}
+
+export const bulkActionService = {
+  /**
+   * Approve or reject several pending scripts with one shared feedback text
+   */
+  async reviewScripts(scripts: BulkScript[], data: BulkReviewData): Promise<BulkResult> {
+    if (data.status === 'REJECTED' && !data.feedbackTemplate?.trim()) {
+      throw new Error('Feedback is required when rejecting scripts');
+    }
+
+    return runBulk(scripts, (script) => adminService.reviewAnalysis(script.id, {
+      status: data.status,
+      feedback: data.feedbackTemplate?.trim() ? fillFeedbackTemplate(data.feedbackTemplate.trim(), script) : undefined,
+      profileId: data.profileId,
+    }));
+  },
+
+  /**
+   * Set priority and/or deadline on several projects
+   */
+  async updateDetails(projects: BulkProject[], data: BulkDetailsData): Promise<BulkResult> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const updates: Record<string, unknown> = {
+      ...(data.priority !== undefined && { priority: data.priority }),
+      ...(data.deadline !== undefined && { deadline: data.deadline }),
+    };
+    if (Object.keys(updates).length === 0) throw new Error('Choose a priority or deadline to apply');
+
+    return runBulk(projects, async (project) => {
+      const { data: before, error: fetchError } = await supabase
+        .from('viral_analyses')
+        .select('priority, deadline')
+        .eq('id', project.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const { error } = await supabase
+        .from('viral_analyses')
+        .update(updates)
+        .eq('id', project.id);
+
+      if (error) throw error;
+
+      await activityService.logEvent({
+        analysisId: project.id,
+        eventType: 'DETAILS_UPDATED',
+        actorId: user.id,
+        changes: diffFields(before as Record<string, unknown> | null, updates),
+        note: 'Bulk update',
+      });
+    });
+  },
+
+  /**
+   * Give several projects to one videographer or editor. Each goes through
+   * the admin override, so unclaimed projects are picked on their behalf.
+   */
+  async reassign(projects: BulkProject[], role: AssignableRole, userId: string): Promise<BulkResult> {
+    return runBulk(projects, (project) => assignmentService.assignManually(project.id, role, userId));
+  },
+
+  /**
+   * File several projects under a profile. Projects without a content ID
+   * (or with a placeholder one) get one generated from the profile.
+   */
+  async assignProfile(projects: BulkProject[], profileId: string): Promise<BulkResult> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    return runBulk(projects, async (project) => {
+      const { data: before, error: fetchError } = await supabase
+        .from('viral_analyses')
+        .select('content_id, status')
+        .eq('id', project.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+      const beforeInfo = before as { content_id?: string | null; status?: string } | null;
+
+      const { error } = await supabase
+        .from('viral_analyses')
+        .update({ profile_id: profileId })
+        .eq('id', project.id);
+
+      if (error) throw error;
+
+      // Pending scripts get their content ID when they are approved
+      let contentId = beforeInfo?.content_id || null;
+      if (beforeInfo?.status === 'APPROVED') {
+        const { data: generated, error: rpcError } = await supabase.rpc('generate_content_id_on_approval', {
+          p_analysis_id: project.id,
+          p_profile_id: profileId,
+        });
+        if (rpcError) throw rpcError;
+        contentId = (generated as string | null) || contentId;
+      }
+
+      await activityService.logEvent({
+        analysisId: project.id,
+        eventType: 'DETAILS_UPDATED',
+        actorId: user.id,
+        changes: diffFields({ content_id: beforeInfo?.content_id || null }, { content_id: contentId }),
+        note: 'Profile changed (bulk update)',
+      });
+    });
+  },
+};
@@ -0,0 +1,195 @@
+/**
+ * Comment Service
+ *
+ * Per-project comment threads (project_comments) with replies, optional voice
+ * clips and @mentions. Read markers live in project_comment_reads and feed the
+ * unread badge in BottomNav.
+ */
+
+import { supabase, auth, storage } from '@/lib/api';
+import { notificationService } from '@/services/notificationService';
+import type { ProjectComment } from '@/types';
+
+export interface AddCommentData {
+  analysisId: string;
+  body: string;
+  parentId?: string;
+  /** Profile IDs picked from the @mention autocomplete */
+  mentions?: string[];
+  voiceNote?: Blob | null;
+}
+
+export interface MentionCandidate {
+  id: string;
+  full_name?: string;
+  email: string;
+}
+
+/** Name shown after "@" for a team member */
+export function mentionHandle(member: MentionCandidate): string {
+  return member.full_name || member.email.split('@')[0];
+}
+
+/**
+ * Keep only the picked mentions whose "@Name" is still in the text
+ * (the user may have deleted it after choosing from the autocomplete).
+ */
+export function extractMentions(body: string, picked: MentionCandidate[]): string[] {
+  const ids = picked
+    .filter((m) => body.includes(`@${mentionHandle(m)}`))
+    .map((m) => m.id);
+  return [...new Set(ids)];
+}
+
+const COMMENT_SELECT = `
+  *,
+  author:profiles!project_comments_author_id_fkey (id, email, full_name, avatar_url, role)
+`;
+
+export const commentService = {
+  /**
+   * Get the comment thread for a project — top-level comments oldest first,
+   * each with its replies nested under `replies`
+   */
+  async getComments(analysisId: string): Promise<ProjectComment[]> {
+    const { data, error } = await supabase
+      .from('project_comments')
+      .select(COMMENT_SELECT)
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    const comments = ((data || []) as ProjectComment[]).map((c) => ({
+      ...c,
+      mentions: c.mentions || [],
+      replies: [] as ProjectComment[],
+    }));
+
+    const byId = new Map(comments.map((c) => [c.id, c]));
+    const roots: ProjectComment[] = [];
+    for (const comment of comments) {
+      const parent = comment.parent_id ? byId.get(comment.parent_id) : undefined;
+      if (parent) {
+        parent.replies!.push(comment);
+      } else {
+        roots.push(comment);
+      }
+    }
+
+    // Hide deleted comments unless someone replied to them
+    return roots.filter((c) => !c.is_deleted || (c.replies && c.replies.some((r) => !r.is_deleted)));
+  },
+
+  /**
+   * Post a comment or reply. Uploads the voice clip first if one was recorded.
+   */
+  async addComment(data: AddCommentData): Promise<ProjectComment> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const body = data.body.trim();
+    if (!body && !data.voiceNote) {
+      throw new Error('Write a comment or record a voice note');
+    }
+
+    let voice_note_url: string | undefined;
+    if (data.voiceNote) {
+      const fileName = `comment-${data.analysisId}-${Date.now()}.webm`;
+      const { error: uploadError } = await storage
+        .from('voice-notes')
+        .upload(fileName, data.voiceNote, {
+          contentType: 'audio/webm',
+          upsert: false,
+        });
+
+      if (uploadError) throw uploadError;
+
+      const { data: { publicUrl } } = storage
+        .from('voice-notes')
+        .getPublicUrl(fileName);
+
+      voice_note_url = publicUrl;
+    }
+
+    const mentions = (data.mentions || []).filter((id) => id !== user.id);
+
+    const { data: comment, error } = await supabase
+      .from('project_comments')
+      .insert({
+        analysis_id: data.analysisId,
+        author_id: user.id,
+        parent_id: data.parentId || null,
+        body,
+        voice_note_url,
+        mentions,
+      })
+      .select(COMMENT_SELECT)
+      .single();
+
+    if (error) throw error;
+
+    if (mentions.length > 0) {
+      const authorName = (user.user_metadata?.full_name as string) || user.email;
+      await notificationService.notify({
+        type: 'MENTION',
+        title: `${authorName} mentioned you`,
+        analysisId: data.analysisId,
+        body: body ? body.slice(0, 140) : 'Voice note',
+        userIds: mentions,
+      });
+    }
+
+    // Posting counts as reading the thread
+    await this.markRead(data.analysisId);
+
+    return { ...(comment as ProjectComment), replies: [] };
+  },
+
+  /**
+   * Soft-delete a comment (replies stay visible)
+   */
+  async deleteComment(commentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_comments')
+      .update({ is_deleted: true, body: '', voice_note_url: null, updated_at: new Date().toISOString() })
+      .eq('id', commentId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Mark a project's thread as read for the current user
+   */
+  async markRead(analysisId: string): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('project_comment_reads')
+      .upsert({
+        user_id: user.id,
+        analysis_id: analysisId,
+        last_read_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,analysis_id' });
+
+    if (error) {
+      console.error('Failed to mark comments as read:', error);
+    }
+  },
+
+  /**
+   * Unread comments across every project the current user is involved in
+   */
+  async getUnreadCount(): Promise<number> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) return 0;
+
+    const { data, error } = await supabase.rpc('unread_comment_count', {
+      p_user_id: user.id,
+    });
+
+    if (error) throw error;
+    return (data as number) || 0;
+  },
+};
@@ -10,10 +10,12 @@
  * - Chunked resumable upload (16MB chunks) with auto-retry
  * - Exponential backoff retry (3 attempts per chunk)
  * - Throttled progress callbacks (max 2/sec to prevent React re-render storms)
- * - Abort support for cancelling in-flight uploads
+ * - Abort/pause support for in-flight uploads (keyed by uploadKey)
+ * - Resume from the last byte Drive confirmed (used by uploadQueueService)
  */
 
 import { fetchWithAuth } from '@/lib/api';
+import { UploadSessionExpiredError } from '@/lib/errors';
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
 const CHUNK_SIZE = 16 * 1024 * 1024; // 16MB chunks (must be multiple of 256KiB)
@@ -44,6 +46,22 @@ export interface InitUploadParams {
   fileIndex?: number;
 }
 
+export interface ResumeUploadOptions {
+  /** First byte to send — the offset Drive last confirmed */
+  startOffset?: number;
+  onProgress?: (progress: UploadProgress) => void;
+  /** Called after every chunk Drive accepts, with the new confirmed offset */
+  onChunkConfirmed?: (offset: number) => void;
+  uploadKey?: string;
+}
+
+export interface UploadStatus {
+  /** Bytes Drive has stored so far */
+  offset: number;
+  /** Set when Drive already has the whole file */
+  result: UploadResult | null;
+}
+
 export interface FinalizeParams {
   analysisId: string;
   fileType: string;
@@ -52,6 +70,9 @@ export interface FinalizeParams {
   fileUrl: string;
   fileSize: number;
   mimeType: string;
+  /** Poster frame stored in the thumbnails bucket */
+  thumbnailUrl?: string;
+  durationSeconds?: number;
 }
 
 function sleep(ms: number): Promise<void> {
@@ -73,8 +94,19 @@ function createThrottledProgress(
   };
 }
 
+function parseDriveResponse(responseText: string): UploadResult {
+  const response = JSON.parse(responseText);
+  return {
+    fileId: response.id,
+    fileName: response.name,
+    webViewLink: response.webViewLink || `https://drive.google.com/file/d/${response.id}/view`,
+    size: parseInt(response.size, 10),
+  };
+}
+
 class DriveUploadService {
   private activeUploads: Map<string, XMLHttpRequest> = new Map();
+  private pausedUploads: Set<string> = new Set();
 
   /**
    * Step 1: Ask backend for a resumable upload URI
@@ -120,6 +152,67 @@ class DriveUploadService {
     }
   }
 
+  /**
+   * Continue an upload from a known offset (after a reload or lost connection).
+   * Unlike uploadFile, errors are passed through unwrapped so callers can tell
+   * an expired session or a network drop apart.
+   */
+  async resumeUpload(file: Blob, resumableUri: string, options: ResumeUploadOptions = {}): Promise<UploadResult> {
+    const throttledProgress = createThrottledProgress(options.onProgress);
+    if (options.uploadKey) {
+      this.pausedUploads.delete(options.uploadKey);
+    }
+
+    try {
+      return await this.chunkedResumableUpload(
+        file,
+        resumableUri,
+        throttledProgress,
+        options.uploadKey,
+        options.startOffset || 0,
+        options.onChunkConfirmed
+      );
+    } finally {
+      if (options.uploadKey) {
+        this.activeUploads.delete(options.uploadKey);
+      }
+    }
+  }
+
+  /**
+   * Ask Drive how much of a resumable upload it has stored
+   * (PUT with `Content-Range: bytes *\/total` and an empty body)
+   */
+  getUploadStatus(resumableUri: string, totalSize: number): Promise<UploadStatus> {
+    return new Promise<UploadStatus>((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      xhr.open('PUT', resumableUri);
+      xhr.setRequestHeader('Content-Range', `bytes */${totalSize}`);
+
+      xhr.onload = () => {
+        if (xhr.status === 308) {
+          // Range: bytes=0-12345 → next byte to send is 12346
+          const range = xhr.getResponseHeader('Range');
+          const match = range?.match(/bytes=\d+-(\d+)/);
+          resolve({ offset: match ? parseInt(match[1], 10) + 1 : 0, result: null });
+        } else if (xhr.status === 200 || xhr.status === 201) {
+          try {
+            resolve({ offset: totalSize, result: parseDriveResponse(xhr.responseText) });
+          } catch {
+            reject(new Error('Failed to parse upload response'));
+          }
+        } else if (xhr.status === 404 || xhr.status === 410) {
+          reject(new UploadSessionExpiredError());
+        } else {
+          reject(new Error(`Upload status check failed: ${xhr.status} ${xhr.statusText}`));
+        }
+      };
+
+      xhr.onerror = () => reject(new Error('Network error during upload status check'));
+      xhr.send();
+    });
+  }
+
   /**
    * Step 3: Tell backend to finalize — make file public + save DB record
    */
@@ -150,24 +243,46 @@ class DriveUploadService {
     }
   }
 
+  /**
+   * Pause an in-flight upload. The chunk in flight is dropped; resumeUpload
+   * continues from the last offset Drive confirmed.
+   */
+  pauseUpload(uploadKey: string): void {
+    const xhr = this.activeUploads.get(uploadKey);
+    if (xhr) {
+      this.pausedUploads.add(uploadKey);
+      xhr.abort();
+      this.activeUploads.delete(uploadKey);
+    }
+  }
+
   /**
    * Chunked resumable upload
    */
   private async chunkedResumableUpload(
-    file: File,
+    file: Blob,
     resumableUri: string,
     onProgress: (progress: UploadProgress) => void,
-    uploadKey?: string
+    uploadKey?: string,
+    startOffset: number = 0,
+    onChunkConfirmed?: (offset: number) => void
   ): Promise<UploadResult> {
-    console.log(`Starting chunked upload: ${file.name} (${(file.size / (1024 * 1024)).toFixed(1)}MB)`);
+    const name = file instanceof File ? file.name : 'blob';
+    console.log(`Starting chunked upload: ${name} (${(file.size / (1024 * 1024)).toFixed(1)}MB)${startOffset ? ` from byte ${startOffset}` : ''}`);
 
-    let offset = 0;
+    let offset = startOffset;
 
     while (offset < file.size) {
+      // Paused between chunks (no request in flight to abort)
+      if (uploadKey && this.pausedUploads.delete(uploadKey)) {
+        throw new Error('Upload paused');
+      }
+
       const chunkEnd = Math.min(offset + CHUNK_SIZE, file.size);
       const chunk = file.slice(offset, chunkEnd);
       const isLastChunk = chunkEnd === file.size;
 
+      const chunkStart = offset;
       const result = await this.retryWithBackoff(async () => {
         return await this.uploadChunk(
           resumableUri,
@@ -176,7 +291,15 @@ class DriveUploadService {
           chunkEnd - 1,
           file.size,
           file.type || 'application/octet-stream',
-          uploadKey
+          uploadKey,
+          (chunkLoaded) => {
+            const loaded = chunkStart + chunkLoaded;
+            onProgress({
+              loaded,
+              total: file.size,
+              percentage: Math.round((loaded / file.size) * 100),
+            });
+          }
         );
       });
 
@@ -192,6 +315,7 @@ class DriveUploadService {
       }
 
       offset = chunkEnd;
+      onChunkConfirmed?.(offset);
     }
 
     throw new Error('Upload completed but no result received');
@@ -207,11 +331,16 @@ class DriveUploadService {
     endByte: number,
     totalSize: number,
     contentType: string,
-    uploadKey?: string
+    uploadKey?: string,
+    onChunkProgress?: (loaded: number) => void
   ): Promise<UploadResult | null> {
     return new Promise<UploadResult | null>((resolve, reject) => {
       const xhr = new XMLHttpRequest();
 
+      if (onChunkProgress) {
+        xhr.upload.onprogress = (e) => onChunkProgress(e.loaded);
+      }
+
       if (uploadKey) {
         this.activeUploads.set(uploadKey, xhr);
       }
@@ -223,25 +352,27 @@ class DriveUploadService {
       xhr.onload = () => {
         if (xhr.status === 200 || xhr.status === 201) {
           try {
-            const response = JSON.parse(xhr.responseText);
-            resolve({
-              fileId: response.id,
-              fileName: response.name,
-              webViewLink: response.webViewLink || `https://drive.google.com/file/d/${response.id}/view`,
-              size: parseInt(response.size, 10),
-            });
+            resolve(parseDriveResponse(xhr.responseText));
           } catch {
             reject(new Error('Failed to parse upload response'));
           }
         } else if (xhr.status === 308) {
           // Chunk accepted, more to send
           resolve(null);
+        } else if (xhr.status === 404 || xhr.status === 410) {
+          reject(new UploadSessionExpiredError());
         } else {
           reject(new Error(`Chunk upload failed: ${xhr.status} ${xhr.statusText}`));
         }
       };
 
-      xhr.onabort = () => reject(new Error('Upload cancelled'));
+      xhr.onabort = () => {
+        if (uploadKey && this.pausedUploads.delete(uploadKey)) {
+          reject(new Error('Upload paused'));
+        } else {
+          reject(new Error('Upload cancelled'));
+        }
+      };
       xhr.onerror = () => reject(new Error('Network error during chunk upload'));
       xhr.send(chunk);
     });
@@ -260,6 +391,14 @@ class DriveUploadService {
         return await fn();
       } catch (error: any) {
         lastError = error;
+        // Retrying can't help once the session is gone or the user cancelled
+        if (
+          error instanceof UploadSessionExpiredError ||
+          error.message === 'Upload cancelled' ||
+          error.message === 'Upload paused'
+        ) {
+          throw error;
+        }
         if (attempt < maxRetries) {
           const delayMs = Math.pow(2, attempt) * 1000;
           console.warn(`Retry ${attempt + 1}/${maxRetries} after ${delayMs}ms:`, error.message);
@@ -9,6 +9,9 @@
  */
 
 import { supabase, auth } from '@/lib/api';
+import { toServiceError } from '@/lib/errors';
+import { RAW_FILE_TYPES, EDITED_FILE_TYPES, assertTransition, type StageActor } from '@/lib/productionStages';
+import { activityService } from '@/services/activityService';
 import type { ViralAnalysis } from '@/types';
 
 export interface EditorStats {
@@ -26,15 +29,9 @@ export interface MarkEditingCompleteData {
   productionNotes?: string;
 }
 
-// Raw file types that indicate footage is ready for editing
-const RAW_FILE_TYPES = ['RAW_FOOTAGE', 'A_ROLL', 'B_ROLL', 'HOOK', 'BODY', 'CTA', 'AUDIO_CLIP', 'OTHER', 'raw-footage'];
-
-// Edited file types that indicate editing is complete
-const EDITED_FILE_TYPES = ['EDITED_VIDEO', 'FINAL_VIDEO', 'edited-video', 'final-video'];
-
 // Minimal columns for card/list display — excludes heavy text fields like script_body, audio URLs, etc.
 const CARD_COLS = `id, title, content_id, platform, shoot_type, production_stage, priority, status,
-  created_at, deadline, profile_id, industry_id, cast_composition, content_type, is_dissolved,
+  created_at, deadline, stage_entered_at, profile_id, industry_id, cast_composition, content_type, is_dissolved,
   hook, script_body, script_cta, production_notes, creator_name, reference_url`;
 
 export const editorService = {
@@ -414,102 +411,62 @@ export const editorService = {
 
   /**
    * Pick a project from the READY_FOR_EDIT queue
+   * The claim runs server-side in pick_project() (stage, raw footage and assignment
+   * checks happen under a row lock). Throws ProjectConflictError if another editor won.
    */
   async pickProject(data: PickEditProjectData): Promise<ViralAnalysis> {
     const { data: { user } } = await auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
-    // Check if project is still available
-    const { data: project, error: fetchError } = await supabase
-      .from('viral_analyses')
-      .select('id, production_stage')
-      .eq('id', data.analysisId)
-      .single();
-
-    if (fetchError) throw fetchError;
-
-    const projectData = project as { id: string; production_stage?: string };
-    if (projectData.production_stage !== 'READY_FOR_EDIT') {
-      throw new Error('This project is no longer available for editing');
-    }
-
-    // Check if already assigned to an editor
-    const { data: existingAssignment, error: assignCheckError } = await supabase
-      .from('project_assignments')
-      .select('id')
-      .eq('analysis_id', data.analysisId)
-      .eq('role', 'EDITOR')
-      .maybeSingle();
-
-    if (assignCheckError) {
-      throw new Error('Failed to check project availability');
-    }
-    if (existingAssignment) {
-      throw new Error('This project has already been picked by another editor');
-    }
-
-    // Verify raw footage exists
-    const { count: rawFilesCount } = await supabase
-      .from('production_files')
-      .select('id', { count: 'exact', head: true })
-      .eq('analysis_id', data.analysisId)
-      .in('file_type', RAW_FILE_TYPES)
-      .eq('is_deleted', false);
-
-    if (!rawFilesCount || rawFilesCount === 0) {
-      throw new Error('This project has no raw footage files');
-    }
-
-    // Update the analysis to EDITING stage
-    const { error: updateError } = await supabase
-      .from('viral_analyses')
-      .update({
-        production_stage: 'EDITING',
-      })
-      .eq('id', data.analysisId);
+    const { error } = await supabase.rpc('pick_project', {
+      p_analysis_id: data.analysisId,
+      p_user_id: user.id,
+      p_role: 'EDITOR',
+    });
 
-    if (updateError) throw updateError;
+    if (error) throw toServiceError(error);
 
-    // Assign editor to the project — rollback stage on failure
-    const { error: assignmentError } = await supabase
-      .from('project_assignments')
-      .insert({
-        analysis_id: data.analysisId,
-        user_id: user.id,
-        role: 'EDITOR',
-        assigned_by: user.id,
-      });
-
-    if (assignmentError) {
-      // Rollback: revert production_stage back to READY_FOR_EDIT
-      await supabase.from('viral_analyses')
-        .update({ production_stage: 'READY_FOR_EDIT' })
-        .eq('id', data.analysisId);
-      throw assignmentError;
-    }
+    await activityService.logEvent({
+      analysisId: data.analysisId,
+      eventType: 'PROJECT_PICKED',
+      actorId: user.id,
+      fromStage: 'READY_FOR_EDIT',
+      toStage: 'EDITING',
+    });
 
     return this.getProjectById(data.analysisId);
   },
 
   /**
-   * Mark editing as complete - move to EDIT_REVIEW for admin approval
+   * Mark editing as complete - move to EDIT_REVIEW for admin approval.
+   * Admins moving a project on the production board pass actor 'ADMIN'.
    */
-  async markEditingComplete(data: MarkEditingCompleteData): Promise<ViralAnalysis> {
+  async markEditingComplete(data: MarkEditingCompleteData, actor: StageActor = 'EDITOR'): Promise<ViralAnalysis> {
     const { data: { user } } = await auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
-    // Verify edited files exist
-    const { count: editedCount, error: countError } = await supabase
-      .from('production_files')
-      .select('id', { count: 'exact', head: true })
-      .eq('analysis_id', data.analysisId)
-      .in('file_type', EDITED_FILE_TYPES)
-      .eq('is_deleted', false);
+    // Gather facts for the transition guard
+    const [filesResult, projectResult] = await Promise.all([
+      supabase
+        .from('production_files')
+        .select('id', { count: 'exact', head: true })
+        .eq('analysis_id', data.analysisId)
+        .in('file_type', EDITED_FILE_TYPES)
+        .eq('is_deleted', false),
+      supabase
+        .from('viral_analyses')
+        .select('production_stage, production_notes')
+        .eq('id', data.analysisId)
+        .single(),
+    ]);
 
-    if (countError) throw new Error('Failed to verify files');
-    if (!editedCount || editedCount === 0) {
-      throw new Error('Please upload at least one edited video before marking as complete');
-    }
+    if (filesResult.error) throw new Error('Failed to verify files');
+    if (projectResult.error) throw projectResult.error;
+
+    const projectInfo = projectResult.data as { production_stage?: string; production_notes?: string } | null;
+    assertTransition(projectInfo?.production_stage, 'EDIT_REVIEW', actor, {
+      editedFileCount: filesResult.count || 0,
+    });
 
     // Update the analysis - send to admin for edit review
     const updateData: Record<string, unknown> = {
@@ -517,14 +474,7 @@ export const editorService = {
     };
 
     if (data.productionNotes) {
-      // Get current notes and append
-      const { data: currentProject } = await supabase
-        .from('viral_analyses')
-        .select('production_notes')
-        .eq('id', data.analysisId)
-        .single();
-
-      const projectInfo = currentProject as { production_notes?: string } | null;
+      // Append to current notes
       const existingNotes = projectInfo?.production_notes || '';
       updateData.production_notes = existingNotes
         ? `${existingNotes}\n\n[Editor Notes]\n${data.productionNotes}`
@@ -538,6 +488,15 @@ export const editorService = {
 
     if (updateError) throw updateError;
 
+    await activityService.logEvent({
+      analysisId: data.analysisId,
+      eventType: 'EDIT_SUBMITTED',
+      actorId: user.id,
+      fromStage: projectInfo?.production_stage,
+      toStage: 'EDIT_REVIEW',
+      note: data.productionNotes,
+    });
+
     return this.getProjectById(data.analysisId);
   },
 
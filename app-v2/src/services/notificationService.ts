@@ -0,0 +1,170 @@
+/**
+ * Notification Service
+ *
+ * In-app inbox (notifications table) and per-user preferences
+ * (notification_preferences). Notifications are created through the
+ * create_notifications() RPC, which resolves recipients and drops anyone
+ * whose preferences turn that type off.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/types';
+import type { AppNotification, NotificationPreferences, NotificationType } from '@/types';
+
+export interface NotifyData {
+  type: NotificationType;
+  title: string;
+  analysisId?: string;
+  /** Defaults to the project title */
+  body?: string;
+  /** Explicit recipients (script author, mentioned users) */
+  userIds?: string[];
+  /** Everyone with these profile roles, e.g. ['VIDEOGRAPHER'] */
+  roles?: string[];
+  /** Whoever is assigned to the project in these roles, e.g. ['EDITOR'] */
+  assigneeRoles?: string[];
+}
+
+const INBOX_LIMIT = 50;
+
+export const notificationService = {
+  /**
+   * Send a notification. Never throws — callers fire this after their own
+   * write has succeeded, so a failure is only reported to the console.
+   */
+  async notify(data: NotifyData): Promise<void> {
+    try {
+      const { data: { user } } = await auth.getUser();
+
+      const { error } = await supabase.rpc('create_notifications', {
+        p_type: data.type,
+        p_title: data.title,
+        p_analysis_id: data.analysisId || null,
+        p_actor_id: user?.id || null,
+        p_body: data.body || null,
+        p_user_ids: data.userIds || [],
+        p_roles: data.roles || [],
+        p_assignee_roles: data.assigneeRoles || [],
+      });
+
+      if (error) {
+        console.error('Failed to send notification:', error);
+      }
+    } catch (error) {
+      console.error('Failed to send notification:', error);
+    }
+  },
+
+  /**
+   * Get the current user's most recent notifications, newest first
+   */
+  async getNotifications(): Promise<AppNotification[]> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('notifications')
+      .select(`
+        *,
+        actor:profiles!notifications_actor_id_fkey (id, email, full_name, avatar_url, role)
+      `)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(INBOX_LIMIT);
+
+    if (error) throw error;
+    return (data || []) as AppNotification[];
+  },
+
+  /**
+   * Count unread notifications (HEAD request)
+   */
+  async getUnreadCount(): Promise<number> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) return 0;
+
+    const { count, error } = await supabase
+      .from('notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) throw error;
+    return count || 0;
+  },
+
+  /**
+   * Mark one notification as read
+   */
+  async markRead(notificationId: string): Promise<void> {
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('id', notificationId)
+      .is('read_at', null);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Mark all of the current user's notifications as read
+   */
+  async markAllRead(): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('notifications')
+      .update({ read_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('read_at', null);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Get the current user's preferences (defaults if never saved)
+   */
+  async getPreferences(): Promise<NotificationPreferences> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('notification_preferences')
+      .select('new_scripts, approvals, mentions, daily_digest')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return { ...DEFAULT_NOTIFICATION_PREFERENCES };
+
+    const row = data as { new_scripts: boolean; approvals: boolean; mentions: boolean; daily_digest: boolean };
+    return {
+      newScripts: row.new_scripts,
+      approvals: row.approvals,
+      mentions: row.mentions,
+      dailyDigest: row.daily_digest,
+    };
+  },
+
+  /**
+   * Save the current user's preferences
+   */
+  async updatePreferences(prefs: NotificationPreferences): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert({
+        user_id: user.id,
+        new_scripts: prefs.newScripts,
+        approvals: prefs.approvals,
+        mentions: prefs.mentions,
+        daily_digest: prefs.dailyDigest,
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  },
+};
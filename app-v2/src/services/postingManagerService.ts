@@ -9,6 +9,8 @@
  */
 
 import { supabase, auth } from '@/lib/api';
+import { EDITED_FILE_TYPES, assertTransition, type StageActor } from '@/lib/productionStages';
+import { activityService, diffFields } from '@/services/activityService';
 import type { ViralAnalysis } from '@/types';
 
 export interface PostingStats {
@@ -34,9 +36,6 @@ export interface MarkAsPostedData {
   keepInQueue?: boolean;  // If true, keeps project in queue for posting to more platforms
 }
 
-// Edited file types for video preview
-const EDITED_FILE_TYPES = ['EDITED_VIDEO', 'FINAL_VIDEO', 'edited-video', 'final-video'];
-
 // Minimal columns for card/list display — excludes heavy text fields like script_body, audio URLs, etc.
 // Posting pages also need posting-specific columns
 const CARD_COLS = `id, title, content_id, platform, shoot_type, production_stage, priority, status,
@@ -314,6 +313,13 @@ export const postingManagerService = {
       updateData.profile_id = data.profileId;
     }
 
+    // Snapshot for the activity log diff
+    const { data: before } = await supabase
+      .from('viral_analyses')
+      .select(Object.keys(updateData).join(', '))
+      .eq('id', data.analysisId)
+      .single();
+
     const { error } = await supabase
       .from('viral_analyses')
       .update(updateData)
@@ -321,6 +327,13 @@ export const postingManagerService = {
 
     if (error) throw error;
 
+    await activityService.logEvent({
+      analysisId: data.analysisId,
+      eventType: 'POSTING_DETAILS_UPDATED',
+      actorId: user.id,
+      changes: diffFields(before as Record<string, unknown> | null, updateData),
+    });
+
     // Assign posting manager if not already assigned
     const { data: existingAssignment, error: assignCheckError } = await supabase
       .from('project_assignments')
@@ -364,9 +377,10 @@ export const postingManagerService = {
   },
 
   /**
-   * Mark project as posted with the live URL
+   * Mark project as posted with the live URL. Admins moving a project on the
+   * production board pass actor 'ADMIN'.
    */
-  async markAsPosted(data: MarkAsPostedData): Promise<ViralAnalysis> {
+  async markAsPosted(data: MarkAsPostedData, actor: StageActor = 'POSTING_MANAGER'): Promise<ViralAnalysis> {
     const { data: { user } } = await auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
@@ -417,8 +431,29 @@ export const postingManagerService = {
         .eq('id', data.analysisId);
 
       if (error) throw error;
+
+      await activityService.logEvent({
+        analysisId: data.analysisId,
+        eventType: 'POSTED',
+        actorId: user.id,
+        changes: diffFields(null, { posted_url: data.postedUrl }),
+        note: 'Kept in queue for more platforms',
+      });
     } else {
       // Final post - move to POSTED stage
+      const { data: currentProject, error: fetchError } = await supabase
+        .from('viral_analyses')
+        .select('production_stage')
+        .eq('id', data.analysisId)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      const projectInfo = currentProject as { production_stage?: string } | null;
+      assertTransition(projectInfo?.production_stage, 'POSTED', actor, {
+        postedUrl: data.postedUrl,
+      });
+
       const { error } = await supabase
         .from('viral_analyses')
         .update({
@@ -430,6 +465,15 @@ export const postingManagerService = {
         .eq('id', data.analysisId);
 
       if (error) throw error;
+
+      await activityService.logEvent({
+        analysisId: data.analysisId,
+        eventType: 'POSTED',
+        actorId: user.id,
+        fromStage: projectInfo?.production_stage,
+        toStage: 'POSTED',
+        changes: diffFields(null, { posted_url: data.postedUrl }),
+      });
     }
 
     return this.getProjectById(data.analysisId);
@@ -0,0 +1,66 @@
+/**
+ * Production Board Service
+ *
+ * Performs the stage moves admins make by dragging cards on the production
+ * board. Each move goes through the same service method the responsible
+ * role uses (with actor 'ADMIN'), so the transition guard, activity log,
+ * notifications and auto-assignment behave exactly as they do there.
+ * Moves that need an assignee go through assignmentService instead.
+ */
+
+import { planDrop } from '@/lib/productionBoard';
+import { normalizeStage } from '@/lib/productionStages';
+import { InvalidTransitionError } from '@/lib/errors';
+import { adminService } from '@/services/adminService';
+import { editorService } from '@/services/editorService';
+import { postingManagerService } from '@/services/postingManagerService';
+import { videographerService } from '@/services/videographerService';
+import type { ProductionStageV2 } from '@/types';
+
+export interface BoardMoveInput {
+  /** Required when sending an edit back (EDIT_REVIEW → EDITING) */
+  reason?: string;
+  /** Required when marking a project posted */
+  postedUrl?: string;
+}
+
+export const productionBoardService = {
+  /**
+   * Move a project from `from` to `to` as an admin
+   */
+  async moveProject(analysisId: string, from: string | null | undefined, to: ProductionStageV2, input: BoardMoveInput = {}): Promise<void> {
+    const plan = planDrop(from, to);
+    const fromStage = normalizeStage(from);
+
+    if (plan.type === 'none') return;
+    if (plan.type === 'invalid') throw new InvalidTransitionError(plan.message, fromStage, to);
+    if (plan.type === 'assign') {
+      throw new InvalidTransitionError(
+        `Choose ${plan.role === 'VIDEOGRAPHER' ? 'a videographer' : 'an editor'} to move this project`,
+        fromStage,
+        to,
+      );
+    }
+
+    switch (to) {
+      case 'READY_FOR_EDIT':
+        await videographerService.markShootingComplete(analysisId, undefined, 'ADMIN');
+        return;
+      case 'EDIT_REVIEW':
+        await editorService.markEditingComplete({ analysisId }, 'ADMIN');
+        return;
+      case 'READY_TO_POST':
+        await adminService.approveEditedVideo(analysisId);
+        return;
+      case 'EDITING':
+        if (!input.reason?.trim()) throw new Error('Rejection reason is required');
+        await adminService.rejectEditedVideo(analysisId, input.reason.trim());
+        return;
+      case 'POSTED':
+        await postingManagerService.markAsPosted({ analysisId, postedUrl: input.postedUrl || '' }, 'ADMIN');
+        return;
+      default:
+        throw new InvalidTransitionError('This move is not allowed', fromStage, to);
+    }
+  },
+};
@@ -6,7 +6,9 @@
  */
 
 import { supabase, auth } from '@/lib/api';
-import type { ProductionFile } from '@/types';
+import { activityService } from '@/services/activityService';
+import { notificationService } from '@/services/notificationService';
+import type { ProductionFile, ViralAnalysis } from '@/types';
 
 // File types for Drive folder organization
 export type DriveFileType = 'raw-footage' | 'edited-video' | 'final-video';
@@ -27,6 +29,11 @@ export interface FileUploadData {
   description?: string;
 }
 
+/** A rejected file with the project it belongs to, for the re-shoot list */
+export interface RejectedFile extends ProductionFile {
+  analysis?: Pick<ViralAnalysis, 'id' | 'title' | 'content_id' | 'production_stage'>;
+}
+
 export const productionFilesService = {
   /**
    * Get all files for an analysis
@@ -183,22 +190,35 @@ export const productionFilesService = {
       .single();
 
     if (error) throw error;
-    return data as ProductionFile;
+    const file = data as ProductionFile;
+
+    await activityService.logEvent({
+      analysisId: file.analysis_id,
+      eventType: 'FILE_APPROVED',
+      actorId: user.id,
+      note: file.file_name,
+    });
+
+    return file;
   },
 
   /**
-   * Reject a file
+   * Reject a file. The uploader is notified and the file blocks
+   * markShootingComplete until it is re-shot or removed.
    */
   async rejectFile(fileId: string, reviewNotes: string): Promise<ProductionFile> {
     const { data: { user } } = await auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
+    const notes = reviewNotes.trim();
+    if (!notes) throw new Error('Rejection reason is required');
+
     const { data, error } = await supabase
       .from('production_files')
       .update({
         approval_status: 'rejected',
         reviewed_by: user.id,
-        review_notes: reviewNotes,
+        review_notes: notes,
         reviewed_at: new Date().toISOString(),
       })
       .eq('id', fileId)
@@ -209,7 +229,49 @@ export const productionFilesService = {
       .single();
 
     if (error) throw error;
-    return data as ProductionFile;
+    const file = data as ProductionFile;
+
+    await activityService.logEvent({
+      analysisId: file.analysis_id,
+      eventType: 'FILE_REJECTED',
+      actorId: user.id,
+      note: `${file.file_name}: ${notes}`,
+    });
+
+    if (file.uploaded_by) {
+      await notificationService.notify({
+        type: 'FILE_REJECTED',
+        title: `${file.file_name} was rejected`,
+        body: notes,
+        analysisId: file.analysis_id,
+        userIds: [file.uploaded_by],
+      });
+    }
+
+    return file;
+  },
+
+  /**
+   * Files the current user uploaded that an admin rejected and that have not
+   * been removed yet, newest rejection first (the "needs re-shoot" list)
+   */
+  async getMyRejectedFiles(): Promise<RejectedFile[]> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('production_files')
+      .select(`
+        *,
+        analysis:viral_analyses (id, title, content_id, production_stage)
+      `)
+      .eq('uploaded_by', user.id)
+      .eq('approval_status', 'rejected')
+      .eq('is_deleted', false)
+      .order('reviewed_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as RejectedFile[];
   },
 
   /**
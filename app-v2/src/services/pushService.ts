@@ -0,0 +1,125 @@
+/**
+ * Push Service
+ *
+ * Subscribes this device to Web Push (VAPID) through the PWA service worker
+ * and registers the subscription with the backend (/api/push/*). Push
+ * handlers live in public/push-sw.js.
+ */
+
+import { auth, fetchWithAuth } from '@/lib/api';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
+
+interface VapidKeyResponse {
+  publicKey: string;
+}
+
+interface PushActionResponse {
+  success: boolean;
+}
+
+interface PushTestResponse extends PushActionResponse {
+  /** Devices that accepted the test push */
+  delivered: number;
+}
+
+/** Convert a base64url VAPID key to the bytes pushManager.subscribe() expects */
+export function urlBase64ToUint8Array(base64String: string): Uint8Array<ArrayBuffer> {
+  const padding = '='.repeat((4 - (base64String.length % 4)) % 4);
+  const base64 = (base64String + padding).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const output = new Uint8Array(new ArrayBuffer(raw.length));
+  for (let i = 0; i < raw.length; i++) {
+    output[i] = raw.charCodeAt(i);
+  }
+  return output;
+}
+
+async function backendRequest<T>(path: string, body?: unknown): Promise<T> {
+  if (!auth.getAccessToken()) {
+    throw new Error('Not authenticated');
+  }
+
+  const response = await fetchWithAuth(`${BACKEND_URL}/api/push${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || 'Push request failed');
+  }
+
+  return response.json() as Promise<T>;
+}
+
+export const pushService = {
+  /**
+   * Whether this browser can receive Web Push at all
+   * (iOS only allows it once the PWA is installed to the home screen)
+   */
+  isSupported(): boolean {
+    return typeof window !== 'undefined'
+      && 'serviceWorker' in navigator
+      && 'PushManager' in window
+      && 'Notification' in window;
+  },
+
+  /**
+   * This device's current subscription, if any
+   */
+  async getSubscription(): Promise<PushSubscription | null> {
+    if (!this.isSupported()) return null;
+    const registration = await navigator.serviceWorker.ready;
+    return registration.pushManager.getSubscription();
+  },
+
+  /**
+   * Ask for permission, subscribe this device and register it with the backend
+   */
+  async subscribe(): Promise<void> {
+    if (!this.isSupported()) {
+      throw new Error('Push notifications are not supported on this device');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Notification permission was denied');
+    }
+
+    const keyResponse = await fetchWithAuth(`${BACKEND_URL}/api/push/vapid-public-key`);
+    if (!keyResponse.ok) {
+      throw new Error('Push notifications are not configured on the server');
+    }
+    const { publicKey }: VapidKeyResponse = await keyResponse.json();
+
+    const registration = await navigator.serviceWorker.ready;
+    const subscription = await registration.pushManager.getSubscription()
+      || await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+
+    await backendRequest<PushActionResponse>('/subscribe', { subscription: subscription.toJSON() });
+  },
+
+  /**
+   * Remove this device's subscription from the backend and the browser
+   */
+  async unsubscribe(): Promise<void> {
+    const subscription = await this.getSubscription();
+    if (!subscription) return;
+
+    await backendRequest<PushActionResponse>('/unsubscribe', { endpoint: subscription.endpoint });
+    await subscription.unsubscribe();
+  },
+
+  /**
+   * Send a test push to all of the current user's devices
+   */
+  async sendTest(): Promise<number> {
+    const result = await backendRequest<PushTestResponse>('/test');
+    return result.delivered ?? 0;
+  },
+};
@@ -0,0 +1,113 @@
+/**
+ * Review Scorecard Service
+ *
+ * The criteria scripts are scored on (review_criteria) and the reviewed
+ * scores behind writer distributions and pending-score predictions. The
+ * weighting maths lives in lib/reviewScorecard.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import type { ScoredScript } from '@/lib/reviewScorecard';
+import type { ReviewCriterion } from '@/types';
+
+export interface CriterionInput {
+  label: string;
+  description?: string | null;
+  weight: number;
+}
+
+function assertWeight(weight: number) {
+  if (!Number.isFinite(weight) || weight < 0 || weight > 10) {
+    throw new Error('Weight must be between 0 and 10');
+  }
+}
+
+export const reviewScorecardService = {
+  /**
+   * All criteria, inactive ones included, in scorecard order
+   */
+  async getCriteria(): Promise<ReviewCriterion[]> {
+    const { data, error } = await supabase
+      .from('review_criteria')
+      .select('*')
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as ReviewCriterion[]).map((c) => ({ ...c, weight: Number(c.weight) }));
+  },
+
+  /**
+   * Add a criterion at the end of the scorecard. Its key is derived from the label.
+   */
+  async addCriterion(input: CriterionInput): Promise<ReviewCriterion> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const label = input.label.trim();
+    const key = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^[^a-z]+|_+$/g, '');
+    if (!key) throw new Error('Give the criterion a name');
+    assertWeight(input.weight);
+
+    const existing = await this.getCriteria();
+    if (existing.some((c) => c.key === key)) throw new Error(`There is already a criterion called "${label}"`);
+
+    const { data, error } = await supabase
+      .from('review_criteria')
+      .insert({
+        key,
+        label,
+        description: input.description?.trim() || null,
+        weight: input.weight,
+        sort_order: Math.max(0, ...existing.map((c) => c.sort_order)) + 1,
+        updated_by: user.id,
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as ReviewCriterion;
+  },
+
+  /**
+   * Rename, reweight or switch a criterion on or off. Turning one off keeps
+   * past scores but leaves it out of new reviews.
+   */
+  async updateCriterion(key: string, updates: Partial<CriterionInput> & { is_active?: boolean }): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    if (updates.weight !== undefined) assertWeight(updates.weight);
+    if (updates.label !== undefined && !updates.label.trim()) throw new Error('Give the criterion a name');
+
+    const { error } = await supabase
+      .from('review_criteria')
+      .update({
+        ...updates,
+        ...(updates.label !== undefined && { label: updates.label.trim() }),
+        updated_by: user.id,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('key', key);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Overall scores of reviewed scripts with their writer, latest first
+   */
+  async getScoreHistory(): Promise<ScoredScript[]> {
+    const { data, error } = await supabase
+      .from('viral_analyses')
+      .select('user_id, overall_score, profiles:user_id (full_name, email)')
+      .not('overall_score', 'is', null)
+      .order('reviewed_at', { ascending: false })
+      .limit(1000);
+
+    if (error) throw error;
+    return ((data || []) as any[]).map((row) => ({
+      user_id: row.user_id,
+      overall_score: Number(row.overall_score),
+      full_name: row.profiles?.full_name,
+      email: row.profiles?.email,
+    }));
+  },
+};
@@ -0,0 +1,188 @@
+/**
+ * Script Review Service
+ *
+ * Rejection reasons, the review history of a script (one round per review,
+ * with the version that was reviewed) and the writer's revise-and-resubmit
+ * step. Reviews themselves go through adminService.reviewAnalysis, which
+ * records each round here.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import { isUniqueViolation } from '@/lib/errors';
+import { rejectionStats, type RejectionStats } from '@/lib/rejectionStats';
+import { SNAPSHOT_COLUMNS, changedFields, takeSnapshot } from '@/lib/scriptSnapshot';
+import { activityService } from '@/services/activityService';
+import { notificationService } from '@/services/notificationService';
+import { scriptRevisionService } from '@/services/scriptRevisionService';
+import type { RejectionReason, ScriptReviewRound, ScriptSnapshot, ViralAnalysis } from '@/types';
+
+export interface ReviewRoundData {
+  snapshot: ScriptSnapshot;
+  status: 'APPROVED' | 'REJECTED';
+  rejectionReasons?: string[];
+  feedback?: string;
+  feedbackVoiceNoteUrl?: string;
+  submittedAt?: string | null;
+  reviewedBy: string;
+}
+
+// Rounds are numbered by counting first, so a concurrent review can take the
+// same one; UNIQUE(analysis_id, round) rejects it and we count again
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export const scriptReviewService = {
+  /**
+   * Active rejection reasons in display order
+   */
+  async getReasons(): Promise<RejectionReason[]> {
+    const { data, error } = await supabase
+      .from('rejection_reasons')
+      .select('*')
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as RejectionReason[];
+  },
+
+  /**
+   * Every review of a script, oldest first
+   */
+  async getRounds(analysisId: string): Promise<ScriptReviewRound[]> {
+    const { data, error } = await supabase
+      .from('script_review_rounds')
+      .select('*')
+      .eq('analysis_id', analysisId)
+      .order('round', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ScriptReviewRound[];
+  },
+
+  /**
+   * Store the version that was just reviewed and the outcome. Never throws —
+   * the review itself has already been saved.
+   */
+  async recordRound(analysisId: string, data: ReviewRoundData): Promise<void> {
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const { count, error: countError } = await supabase
+          .from('script_review_rounds')
+          .select('id', { count: 'exact', head: true })
+          .eq('analysis_id', analysisId);
+
+        if (countError) throw countError;
+
+        const { error } = await supabase
+          .from('script_review_rounds')
+          .insert({
+            analysis_id: analysisId,
+            round: (count || 0) + 1,
+            snapshot: data.snapshot,
+            status: data.status,
+            rejection_reasons: data.rejectionReasons || [],
+            feedback: data.feedback || null,
+            feedback_voice_note_url: data.feedbackVoiceNoteUrl || null,
+            submitted_at: data.submittedAt || null,
+            reviewed_by: data.reviewedBy,
+          });
+
+        if (!error) return;
+        if (!isUniqueViolation(error) || attempt === MAX_NUMBERING_ATTEMPTS) throw error;
+      }
+    } catch (error) {
+      console.error('Failed to record review round:', error);
+    }
+  },
+
+  /**
+   * Send a revised version of a rejected script back for review. Earlier
+   * versions and their feedback stay in the review rounds.
+   */
+  async resubmit(analysisId: string, changes: ScriptSnapshot, note?: string): Promise<ViralAnalysis> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: current, error: fetchError } = await supabase
+      .from('viral_analyses')
+      .select(`user_id, status, is_dissolved, created_at, ${SNAPSHOT_COLUMNS}`)
+      .eq('id', analysisId)
+      .single();
+
+    if (fetchError) throw fetchError;
+    const script = current as Partial<ViralAnalysis>;
+    if (script.user_id !== user.id) throw new Error('You can only resubmit your own scripts');
+    if (script.is_dissolved) throw new Error('This script was dissolved after too many rejections');
+    if (script.status !== 'REJECTED') throw new Error('Only rejected scripts can be resubmitted');
+
+    const before = takeSnapshot(script);
+    const revised = takeSnapshot({ ...before, ...changes });
+    const changed = changedFields(before, revised);
+    if (changed.length === 0) throw new Error('Change the script before resubmitting it');
+
+    const { data, error } = await supabase
+      .from('viral_analyses')
+      .update({
+        ...Object.fromEntries(changed.map((c) => [c.key, revised[c.key] || null])),
+        status: 'PENDING',
+        feedback: null,
+        feedback_voice_note_url: null,
+        rejection_reasons: null,
+        resubmitted_at: new Date().toISOString(),
+      })
+      .eq('id', analysisId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    const resubmitted = data as ViralAnalysis;
+
+    await scriptRevisionService.recordRevision(analysisId, before, takeSnapshot(resubmitted), {
+      createdBy: user.id,
+      originalAt: script.created_at,
+    });
+
+    const revisedLabels = changed.map((c) => c.label.toLowerCase()).join(', ');
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'SCRIPT_RESUBMITTED',
+      actorId: user.id,
+      changes: { status: { from: 'REJECTED', to: 'PENDING' } },
+      note: [`Revised ${revisedLabels}`, note?.trim()].filter(Boolean).join(' — '),
+    });
+
+    await notificationService.notify({
+      type: 'SCRIPT_RESUBMITTED',
+      title: `Script resubmitted: ${resubmitted?.title || 'Untitled'}`,
+      body: note?.trim() || `Revised ${revisedLabels}`,
+      analysisId,
+      roles: ['SUPER_ADMIN', 'CREATOR'],
+    });
+
+    return resubmitted;
+  },
+
+  /**
+   * Rejection reason counts overall and per writer, from the latest 1000
+   * rejections
+   */
+  async getRejectionStats(): Promise<RejectionStats> {
+    const { data, error } = await supabase
+      .from('script_review_rounds')
+      .select('rejection_reasons, analysis:viral_analyses(user_id, profiles:user_id(full_name, email))')
+      .eq('status', 'REJECTED')
+      .order('reviewed_at', { ascending: false })
+      .limit(1000);
+
+    if (error) throw error;
+    return rejectionStats(
+      ((data || []) as any[])
+        .filter((row) => row.analysis?.user_id)
+        .map((row) => ({
+          rejection_reasons: row.rejection_reasons || [],
+          writerId: row.analysis.user_id,
+          writerName: row.analysis.profiles?.full_name || row.analysis.profiles?.email || 'Unknown',
+        }))
+    );
+  },
+};
@@ -0,0 +1,152 @@
+/**
+ * Script Revision Service
+ *
+ * Version history of a script's text. Every edit that changes a snapshot
+ * field (analysesService.updateAnalysis, resubmitting, restoring) stores the
+ * version it produced, so earlier wording can be compared and put back.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import { isUniqueViolation } from '@/lib/errors';
+import { SNAPSHOT_COLUMNS, changedFields, takeSnapshot } from '@/lib/scriptSnapshot';
+import { activityService } from '@/services/activityService';
+import type { ScriptRevision, ScriptSnapshot, ViralAnalysis } from '@/types';
+
+export interface RecordRevisionOptions {
+  createdBy: string;
+  /** Revision number a restore brought back */
+  restoredFrom?: number;
+  /** When the pre-edit version was written, if it becomes revision 1 */
+  originalAt?: string | null;
+}
+
+// Numbers are taken by counting first, so a concurrent edit can take the
+// same one; UNIQUE(analysis_id, revision) rejects it and we count again
+const MAX_NUMBERING_ATTEMPTS = 3;
+
+export const scriptRevisionService = {
+  /**
+   * Every saved version of a script, oldest first
+   */
+  async getRevisions(analysisId: string): Promise<ScriptRevision[]> {
+    const { data, error } = await supabase
+      .from('script_revisions')
+      .select(`
+        *,
+        author:profiles!script_revisions_created_by_fkey (full_name, email)
+      `)
+      .eq('analysis_id', analysisId)
+      .order('revision', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ScriptRevision[];
+  },
+
+  /**
+   * Store the version an edit produced. The first tracked edit also stores
+   * the version it replaced as revision 1. Does nothing if the text did not
+   * change, and never throws — the edit itself has already been saved.
+   */
+  async recordRevision(
+    analysisId: string,
+    before: ScriptSnapshot,
+    after: ScriptSnapshot,
+    options: RecordRevisionOptions,
+  ): Promise<void> {
+    const changed = changedFields(before, after);
+    if (changed.length === 0) return;
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const { count, error: countError } = await supabase
+          .from('script_revisions')
+          .select('id', { count: 'exact', head: true })
+          .eq('analysis_id', analysisId);
+
+        if (countError) throw countError;
+
+        const rows: Record<string, unknown>[] = [];
+        if (!count) {
+          rows.push({
+            analysis_id: analysisId,
+            revision: 1,
+            snapshot: before,
+            changed_fields: [],
+            created_by: null,
+            ...(options.originalAt && { created_at: options.originalAt }),
+          });
+        }
+        rows.push({
+          analysis_id: analysisId,
+          revision: (count || 0) + rows.length + 1,
+          snapshot: after,
+          changed_fields: changed.map((c) => c.key),
+          restored_from: options.restoredFrom ?? null,
+          created_by: options.createdBy,
+        });
+
+        const { error } = await supabase.from('script_revisions').insert(rows);
+        if (!error) return;
+        if (!isUniqueViolation(error) || attempt === MAX_NUMBERING_ATTEMPTS) throw error;
+      }
+    } catch (error) {
+      console.error('Failed to record script revision:', error);
+    }
+  },
+
+  /**
+   * Put an earlier version's text back. The restore is itself a new
+   * revision, so it can be undone the same way.
+   */
+  async restore(analysisId: string, revisionId: string): Promise<ViralAnalysis> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: revisionData, error: revisionError } = await supabase
+      .from('script_revisions')
+      .select('analysis_id, revision, snapshot')
+      .eq('id', revisionId)
+      .single();
+
+    if (revisionError) throw revisionError;
+    const revision = revisionData as Pick<ScriptRevision, 'analysis_id' | 'revision' | 'snapshot'>;
+    if (revision.analysis_id !== analysisId) throw new Error('That version belongs to another script');
+
+    const { data: current, error: fetchError } = await supabase
+      .from('viral_analyses')
+      .select(`created_at, ${SNAPSHOT_COLUMNS}`)
+      .eq('id', analysisId)
+      .single();
+
+    if (fetchError) throw fetchError;
+    const before = takeSnapshot(current as Partial<ViralAnalysis>);
+    const restored = takeSnapshot(revision.snapshot || {});
+    const changed = changedFields(before, restored);
+    if (changed.length === 0) throw new Error('The script already matches this version');
+
+    const { data, error } = await supabase
+      .from('viral_analyses')
+      .update(Object.fromEntries(changed.map((c) => [c.key, restored[c.key] || null])))
+      .eq('id', analysisId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    const updated = data as ViralAnalysis;
+
+    await this.recordRevision(analysisId, before, takeSnapshot(updated), {
+      createdBy: user.id,
+      restoredFrom: revision.revision,
+      originalAt: (current as Partial<ViralAnalysis>).created_at,
+    });
+
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'SCRIPT_RESTORED',
+      actorId: user.id,
+      note: `Restored version ${revision.revision} (${changed.map((c) => c.label.toLowerCase()).join(', ')})`,
+    });
+
+    return updated;
+  },
+};
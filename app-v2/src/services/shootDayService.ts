@@ -0,0 +1,169 @@
+/**
+ * Shoot Day Service
+ *
+ * A videographer's planned shoot days (shoot_days) and the projects each one
+ * covers (shoot_day_projects). Projects on a day get their planned_date set
+ * to the day so the rest of the app sees when they will be shot.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import type { ShootDay } from '@/types';
+
+export interface ShootDayData {
+  /** YYYY-MM-DD */
+  shootDate: string;
+  startTime?: string | null;
+  endTime?: string | null;
+  location?: string;
+  propsNotes?: string;
+  analysisIds: string[];
+}
+
+const SHOOT_DAY_SELECT = `
+  *,
+  projects:shoot_day_projects(
+    analysis:viral_analyses(id, title, content_id, production_stage, cast_composition)
+  )
+`;
+
+function normalizeShootDay(row: any): ShootDay {
+  return {
+    ...row,
+    projects: (row.projects || []).map((p: any) => p.analysis).filter(Boolean),
+  } as ShootDay;
+}
+
+function toRow(data: ShootDayData) {
+  return {
+    shoot_date: data.shootDate,
+    start_time: data.startTime || null,
+    end_time: data.endTime || null,
+    location: data.location?.trim() || null,
+    props_notes: data.propsNotes?.trim() || null,
+  };
+}
+
+function validate(data: ShootDayData) {
+  if (!data.shootDate) throw new Error('Pick a date for the shoot');
+  if (data.analysisIds.length === 0) throw new Error('Add at least one project to the shoot day');
+  if (data.startTime && data.endTime && data.endTime <= data.startTime) {
+    throw new Error('The shoot has to end after it starts');
+  }
+}
+
+export const shootDayService = {
+  /**
+   * The current videographer's shoot days from `fromDate` on, soonest first
+   */
+  async getMyShootDays(fromDate?: string): Promise<ShootDay[]> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    let query = supabase
+      .from('shoot_days')
+      .select(SHOOT_DAY_SELECT)
+      .eq('videographer_id', user.id);
+
+    if (fromDate) query = query.gte('shoot_date', fromDate);
+
+    const { data, error } = await query
+      .order('shoot_date', { ascending: true })
+      .order('start_time', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as any[]).map(normalizeShootDay);
+  },
+
+  /**
+   * Plan a new shoot day
+   */
+  async createShootDay(data: ShootDayData): Promise<ShootDay> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    validate(data);
+
+    const { data: day, error } = await supabase
+      .from('shoot_days')
+      .insert({ ...toRow(data), videographer_id: user.id })
+      .select('id')
+      .single();
+
+    if (error) throw error;
+    const dayId = (day as { id: string }).id;
+
+    try {
+      await this.setProjects(dayId, data.analysisIds, data.shootDate);
+    } catch (linkError) {
+      // Don't leave an empty day behind
+      await supabase.from('shoot_days').delete().eq('id', dayId);
+      throw linkError;
+    }
+
+    return this.getShootDay(dayId);
+  },
+
+  /**
+   * Change a shoot day's details and replace its projects
+   */
+  async updateShootDay(dayId: string, data: ShootDayData): Promise<ShootDay> {
+    validate(data);
+
+    const { error } = await supabase
+      .from('shoot_days')
+      .update({ ...toRow(data), updated_at: new Date().toISOString() })
+      .eq('id', dayId);
+
+    if (error) throw error;
+
+    const { error: clearError } = await supabase
+      .from('shoot_day_projects')
+      .delete()
+      .eq('shoot_day_id', dayId);
+
+    if (clearError) throw clearError;
+
+    await this.setProjects(dayId, data.analysisIds, data.shootDate);
+    return this.getShootDay(dayId);
+  },
+
+  async deleteShootDay(dayId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shoot_days')
+      .delete()
+      .eq('id', dayId);
+
+    if (error) throw error;
+  },
+
+  async getShootDay(dayId: string): Promise<ShootDay> {
+    const { data, error } = await supabase
+      .from('shoot_days')
+      .select(SHOOT_DAY_SELECT)
+      .eq('id', dayId)
+      .single();
+
+    if (error) throw error;
+    return normalizeShootDay(data);
+  },
+
+  /**
+   * Link projects to a day and move their planned_date to it
+   */
+  async setProjects(dayId: string, analysisIds: string[], shootDate: string): Promise<void> {
+    const { error } = await supabase
+      .from('shoot_day_projects')
+      .insert(analysisIds.map((analysisId) => ({ shoot_day_id: dayId, analysis_id: analysisId })));
+
+    if (error) throw error;
+
+    // The day itself is saved; a stale planned_date is only cosmetic
+    const { error: dateError } = await supabase
+      .from('viral_analyses')
+      .update({ planned_date: shootDate })
+      .in('id', analysisIds);
+
+    if (dateError) {
+      console.error('Failed to update planned dates:', dateError);
+    }
+  },
+};
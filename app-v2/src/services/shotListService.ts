@@ -0,0 +1,57 @@
+/**
+ * Shot List Service
+ *
+ * Files attached to shot list items (shot_list_attachments). The items
+ * themselves are built from the script in lib/shotList; only which uploaded
+ * file covers which item is stored here.
+ */
+
+import { supabase, auth } from '@/lib/api';
+import type { ShotListAttachment } from '@/types';
+
+export const shotListService = {
+  /**
+   * Attachments for one project
+   */
+  async getAttachments(analysisId: string): Promise<ShotListAttachment[]> {
+    const { data, error } = await supabase
+      .from('shot_list_attachments')
+      .select('*')
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ShotListAttachment[];
+  },
+
+  /**
+   * Attach an uploaded file to a shot list item
+   */
+  async attachFile(analysisId: string, itemKey: string, fileId: string): Promise<ShotListAttachment> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data, error } = await supabase
+      .from('shot_list_attachments')
+      .insert({
+        analysis_id: analysisId,
+        item_key: itemKey,
+        file_id: fileId,
+        attached_by: user.id,
+      })
+      .select('*')
+      .single();
+
+    if (error) throw error;
+    return data as ShotListAttachment;
+  },
+
+  async detachFile(attachmentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('shot_list_attachments')
+      .delete()
+      .eq('id', attachmentId);
+
+    if (error) throw error;
+  },
+};
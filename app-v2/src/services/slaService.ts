@@ -0,0 +1,61 @@
+/**
+ * SLA Service
+ *
+ * Per-stage, per-priority time limits (stage_slas) and the projects that
+ * are past them. The time-in-stage maths lives in lib/stageSla; escalation
+ * notifications are sent server-side by escalate_overdue_projects().
+ */
+
+import { supabase, auth } from '@/lib/api';
+import { overdueProjects, SLA_STAGES } from '@/lib/stageSla';
+import type { Priority, SlaStage, StageSla, ViralAnalysis } from '@/types';
+
+export type OverdueProject = Pick<ViralAnalysis, 'id' | 'title' | 'content_id' | 'production_stage' | 'priority' | 'stage_entered_at'>;
+
+export const slaService = {
+  async getSlas(): Promise<StageSla[]> {
+    const { data, error } = await supabase
+      .from('stage_slas')
+      .select('*');
+
+    if (error) throw error;
+    return (data || []) as StageSla[];
+  },
+
+  /**
+   * Set the limit for a stage and priority. `hours` null removes the limit.
+   */
+  async updateSla(stage: SlaStage, priority: Priority, hours: number | null): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    if (hours !== null && (!Number.isInteger(hours) || hours < 1)) {
+      throw new Error('The limit must be a whole number of hours');
+    }
+
+    const { error } = await supabase
+      .from('stage_slas')
+      .update({ hours, updated_by: user.id, updated_at: new Date().toISOString() })
+      .eq('stage', stage)
+      .eq('priority', priority);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Active projects past their stage SLA, longest overdue first
+   */
+  async getOverdueProjects(): Promise<OverdueProject[]> {
+    const [slas, projectsResult] = await Promise.all([
+      this.getSlas(),
+      supabase
+        .from('viral_analyses')
+        .select('id, title, content_id, production_stage, priority, stage_entered_at')
+        .eq('status', 'APPROVED')
+        .in('production_stage', SLA_STAGES)
+        .or('is_dissolved.eq.false,is_dissolved.is.null'),
+    ]);
+
+    if (projectsResult.error) throw projectsResult.error;
+    return overdueProjects((projectsResult.data || []) as OverdueProject[], slas);
+  },
+};
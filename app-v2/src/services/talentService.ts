@@ -0,0 +1,285 @@
+/**
+ * Talent Service
+ *
+ * The talent roster (talent, talent_unavailability), photo uploads to the
+ * talent-photos bucket (served only with a token), and who is booked for or
+ * appeared in a project (project_talent). Proposals for a project's cast
+ * come from lib/talentMatching.
+ */
+
+import { supabase, auth, storage, fetchWithAuth } from '@/lib/api';
+import { matchTalent, type TalentSlot } from '@/lib/talentMatching';
+import { CastMemberLabels } from '@/types';
+import type { CastMemberKey, ProjectTalent, ProjectTalentStatus, Talent, TalentUnavailability, ViralAnalysis } from '@/types';
+
+const TALENT_PHOTOS_BUCKET = 'talent-photos';
+
+export interface TalentData {
+  fullName: string;
+  category: CastMemberKey;
+  phone?: string;
+  email?: string;
+  instagram?: string;
+  notes?: string;
+}
+
+const TALENT_SELECT = '*, unavailability:talent_unavailability(*)';
+
+function toRow(data: TalentData) {
+  return {
+    full_name: data.fullName.trim(),
+    category: data.category,
+    phone: data.phone?.trim() || null,
+    email: data.email?.trim() || null,
+    instagram: data.instagram?.trim().replace(/^@/, '') || null,
+    notes: data.notes?.trim() || null,
+  };
+}
+
+function validate(data: TalentData) {
+  if (!data.fullName.trim()) throw new Error('Enter a name');
+  if (!(data.category in CastMemberLabels)) throw new Error('Pick a category');
+}
+
+export const talentService = {
+  /**
+   * The roster by name, with each person's blocked-out dates
+   */
+  async getRoster(options: { includeInactive?: boolean } = {}): Promise<Talent[]> {
+    let query = supabase
+      .from('talent')
+      .select(TALENT_SELECT);
+
+    if (!options.includeInactive) query = query.eq('is_active', true);
+
+    const { data, error } = await query.order('full_name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as Talent[];
+  },
+
+  async createTalent(data: TalentData): Promise<Talent> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+    validate(data);
+
+    const { data: created, error } = await supabase
+      .from('talent')
+      .insert({ ...toRow(data), created_by: user.id })
+      .select(TALENT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return created as Talent;
+  },
+
+  async updateTalent(talentId: string, data: TalentData): Promise<Talent> {
+    validate(data);
+
+    const { data: updated, error } = await supabase
+      .from('talent')
+      .update({ ...toRow(data), updated_at: new Date().toISOString() })
+      .eq('id', talentId)
+      .select(TALENT_SELECT)
+      .single();
+
+    if (error) throw error;
+    return updated as Talent;
+  },
+
+  /**
+   * Archive or restore someone. Archived talent keeps their project history
+   * but is no longer proposed.
+   */
+  async setActive(talentId: string, isActive: boolean): Promise<void> {
+    const { error } = await supabase
+      .from('talent')
+      .update({ is_active: isActive, updated_at: new Date().toISOString() })
+      .eq('id', talentId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Upload a photo and add it to the person's photo_urls
+   */
+  async addPhoto(talent: Pick<Talent, 'id' | 'photo_urls'>, file: File): Promise<string[]> {
+    if (!file.type.startsWith('image/')) throw new Error('Photos have to be images');
+
+    const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+    const path = `${talent.id}/${Date.now()}.${extension}`;
+
+    const { error: uploadError } = await storage
+      .from(TALENT_PHOTOS_BUCKET)
+      .upload(path, file, { contentType: file.type });
+
+    if (uploadError) throw new Error(uploadError.message);
+
+    const url = storage.from(TALENT_PHOTOS_BUCKET).getPublicUrl(path).data.publicUrl;
+    const photoUrls = [...talent.photo_urls, url];
+    await this.setPhotos(talent.id, photoUrls);
+    return photoUrls;
+  },
+
+  /**
+   * Drop a photo from the person's profile (the file itself stays on disk)
+   */
+  async removePhoto(talent: Pick<Talent, 'id' | 'photo_urls'>, url: string): Promise<string[]> {
+    const photoUrls = talent.photo_urls.filter((u) => u !== url);
+    await this.setPhotos(talent.id, photoUrls);
+    return photoUrls;
+  },
+
+  /**
+   * Load a photo with the user's token and return an object URL an <img>
+   * can show. Callers revoke it when done.
+   */
+  async loadPhoto(url: string): Promise<string> {
+    const response = await fetchWithAuth(url);
+    if (!response.ok) throw new Error('Failed to load photo');
+    return URL.createObjectURL(await response.blob());
+  },
+
+  async setPhotos(talentId: string, photoUrls: string[]): Promise<void> {
+    const { error } = await supabase
+      .from('talent')
+      .update({ photo_urls: photoUrls, updated_at: new Date().toISOString() })
+      .eq('id', talentId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Block out an inclusive date range (YYYY-MM-DD)
+   */
+  async addUnavailability(
+    talentId: string,
+    startDate: string,
+    endDate: string,
+    note?: string,
+  ): Promise<TalentUnavailability> {
+    if (!startDate || !endDate) throw new Error('Pick the dates they are away');
+    if (endDate < startDate) throw new Error('The end date has to be on or after the start date');
+
+    const { data, error } = await supabase
+      .from('talent_unavailability')
+      .insert({ talent_id: talentId, start_date: startDate, end_date: endDate, note: note?.trim() || null })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data as TalentUnavailability;
+  },
+
+  async removeUnavailability(unavailabilityId: string): Promise<void> {
+    const { error } = await supabase
+      .from('talent_unavailability')
+      .delete()
+      .eq('id', unavailabilityId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Talent booked for a project, with their roster entry
+   */
+  async getProjectTalent(analysisId: string): Promise<ProjectTalent[]> {
+    const { data, error } = await supabase
+      .from('project_talent')
+      .select(`*, talent:talent(${TALENT_SELECT})`)
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []) as ProjectTalent[];
+  },
+
+  /**
+   * Ids of talent booked on other projects planned for `date`
+   */
+  async getBookedElsewhere(date: string, analysisId: string): Promise<Set<string>> {
+    const { data: sameDay, error: projectsError } = await supabase
+      .from('viral_analyses')
+      .select('id')
+      .eq('planned_date', date)
+      .neq('id', analysisId);
+
+    if (projectsError) throw projectsError;
+    const projectIds = ((sameDay || []) as { id: string }[]).map((p) => p.id);
+    if (projectIds.length === 0) return new Set();
+
+    const { data, error } = await supabase
+      .from('project_talent')
+      .select('talent_id')
+      .in('analysis_id', projectIds);
+
+    if (error) throw error;
+    return new Set(((data || []) as { talent_id: string }[]).map((row) => row.talent_id));
+  },
+
+  /**
+   * Per cast category: who is booked and who could be, given the project's
+   * planned_date
+   */
+  async getProposals(
+    project: Pick<ViralAnalysis, 'id' | 'cast_composition' | 'planned_date'>,
+  ): Promise<TalentSlot[]> {
+    const date = project.planned_date?.slice(0, 10) || null;
+    const [roster, projectTalent, bookedElsewhere] = await Promise.all([
+      this.getRoster(),
+      this.getProjectTalent(project.id),
+      date ? this.getBookedElsewhere(date, project.id) : Promise.resolve(new Set<string>()),
+    ]);
+
+    return matchTalent(project.cast_composition, roster, projectTalent, { date, bookedElsewhere });
+  },
+
+  async bookTalent(analysisId: string, talentId: string, category: CastMemberKey): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('project_talent')
+      .insert({ analysis_id: analysisId, talent_id: talentId, category, status: 'booked', added_by: user.id });
+
+    if (error) throw error;
+  },
+
+  /**
+   * Confirm someone appeared on camera, or undo it
+   */
+  async setStatus(analysisId: string, talentId: string, status: ProjectTalentStatus): Promise<void> {
+    const { error } = await supabase
+      .from('project_talent')
+      .update({ status, updated_at: new Date().toISOString() })
+      .eq('analysis_id', analysisId)
+      .eq('talent_id', talentId);
+
+    if (error) throw error;
+  },
+
+  async unbookTalent(analysisId: string, talentId: string): Promise<void> {
+    const { error } = await supabase
+      .from('project_talent')
+      .delete()
+      .eq('analysis_id', analysisId)
+      .eq('talent_id', talentId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Projects a person actually appeared in, newest first
+   */
+  async getAppearances(talentId: string): Promise<ProjectTalent[]> {
+    const { data, error } = await supabase
+      .from('project_talent')
+      .select('*, analysis:viral_analyses(id, title, content_id, production_stage, planned_date)')
+      .eq('talent_id', talentId)
+      .eq('status', 'appeared')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []) as ProjectTalent[];
+  },
+};
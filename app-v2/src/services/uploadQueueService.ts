@@ -0,0 +1,531 @@
+/**
+ * Upload Queue Service
+ *
+ * Persistent queue in front of driveUploadService. Each queued file is kept in
+ * IndexedDB together with its resumable upload URI and the last byte offset
+ * Drive confirmed, so an upload picks up where it stopped after a reload or
+ * when the connection comes back. finalizeUpload (DB record) only runs once
+ * Drive has returned the finished file.
+ *
+ * Videos get a poster frame and duration extracted (videoThumbnailService)
+ * before their bytes are sent; both are saved with the file on finalize.
+ *
+ * Up to `concurrency` files upload at once (configurable, remembered per
+ * device). Each file can be paused, resumed or cancelled on its own.
+ *
+ * Status flow:
+ *   queued → uploading → finalizing → complete
+ *                ↓            ↓
+ *             paused (by the user, or offline until reconnect) / error (retry)
+ */
+
+import { driveUploadService, type InitUploadParams, type UploadResult } from '@/services/driveUploadService';
+import { videoThumbnailService } from '@/services/videoThumbnailService';
+import { UploadSessionExpiredError } from '@/lib/errors';
+import { getDefaultUploadQueueStore, type UploadQueueStore } from '@/lib/uploadQueueDb';
+
+export type QueuedUploadStatus = 'queued' | 'uploading' | 'paused' | 'finalizing' | 'complete' | 'error';
+
+export interface QueuedUpload {
+  id: string;
+  analysisId: string;
+  contentId: string;
+  /** Drive folder the file goes to */
+  uploadType: InitUploadParams['fileType'];
+  /** production_files.file_type written on finalize (e.g. A_ROLL, edited-video) */
+  fileType: string;
+  /** Position within the batch it was added in (used for Drive auto-numbering) */
+  fileIndex?: number;
+  file: Blob;
+  originalName: string;
+  /** Name Drive assigned at init */
+  fileName?: string;
+  mimeType: string;
+  size: number;
+  resumableUri?: string;
+  /** Bytes Drive has confirmed — where a resume starts */
+  confirmedOffset: number;
+  /** Bytes sent so far, including the chunk in flight (not persisted) */
+  uploadedBytes: number;
+  driveResult?: UploadResult;
+  /** Set once thumbnail/duration extraction has run (whether or not it produced anything) */
+  metadataPrepared?: boolean;
+  thumbnailUrl?: string;
+  durationSeconds?: number;
+  status: QueuedUploadStatus;
+  /** Paused from the UI — stays paused when the connection comes back */
+  pausedByUser?: boolean;
+  error?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface EnqueueUploadParams {
+  analysisId: string;
+  contentId: string;
+  uploadType: InitUploadParams['fileType'];
+  fileType: string;
+  file: File;
+  fileIndex?: number;
+}
+
+export interface UploadQueueSummary {
+  /** Files not yet finished (including paused ones) */
+  activeCount: number;
+  failedCount: number;
+  totalBytes: number;
+  uploadedBytes: number;
+  percentage: number;
+  /** Recent aggregate upload speed across all files */
+  bytesPerSecond: number;
+  /** null while there is no speed measurement yet */
+  etaSeconds: number | null;
+}
+
+type Listener = () => void;
+type CompleteListener = (item: QueuedUpload) => void;
+
+const ACTIVE_STATUSES: QueuedUploadStatus[] = ['queued', 'uploading', 'paused', 'finalizing'];
+
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+export const MAX_UPLOAD_CONCURRENCY = 6;
+const CONCURRENCY_STORAGE_KEY = 'upload_concurrency';
+const THROUGHPUT_WINDOW_MS = 10_000;
+
+export function isActiveUpload(item: QueuedUpload): boolean {
+  return ACTIVE_STATUSES.includes(item.status);
+}
+
+export function getUploadPercentage(item: QueuedUpload): number {
+  if (item.status === 'complete' || item.status === 'finalizing') return 100;
+  if (!item.size) return 0;
+  return Math.min(100, Math.round((item.uploadedBytes / item.size) * 100));
+}
+
+/**
+ * Aggregate progress, speed and ETA for a set of queued uploads
+ */
+export function summarizeUploads(items: QueuedUpload[], bytesPerSecond: number): UploadQueueSummary {
+  const active = items.filter(isActiveUpload);
+  const totalBytes = active.reduce((sum, i) => sum + i.size, 0);
+  const uploadedBytes = active.reduce((sum, i) => sum + Math.min(i.uploadedBytes, i.size), 0);
+  const remaining = totalBytes - uploadedBytes;
+
+  return {
+    activeCount: active.length,
+    failedCount: items.filter((i) => i.status === 'error').length,
+    totalBytes,
+    uploadedBytes,
+    percentage: totalBytes ? Math.round((uploadedBytes / totalBytes) * 100) : 100,
+    bytesPerSecond,
+    etaSeconds: bytesPerSecond > 0 ? Math.ceil(remaining / bytesPerSecond) : null,
+  };
+}
+
+function readStoredConcurrency(): number {
+  try {
+    const stored = parseInt(localStorage.getItem(CONCURRENCY_STORAGE_KEY) || '', 10);
+    if (stored >= 1 && stored <= MAX_UPLOAD_CONCURRENCY) return stored;
+  } catch { /* ignore */ }
+  return DEFAULT_UPLOAD_CONCURRENCY;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+function isNetworkError(error: unknown): boolean {
+  if (isOffline()) return true;
+  const message = error instanceof Error ? error.message : '';
+  return error instanceof TypeError || /network error/i.test(message);
+}
+
+export class UploadQueueService {
+  private items: QueuedUpload[] = [];
+  private listeners = new Set<Listener>();
+  private completeListeners = new Set<CompleteListener>();
+  private initPromise: Promise<void> | null = null;
+  private running = new Set<string>();
+  private concurrency: number;
+  /** (time, bytes sent) samples for the throughput estimate */
+  private samples: Array<{ at: number; bytes: number }> = [];
+
+  constructor(
+    private store: UploadQueueStore = getDefaultUploadQueueStore(),
+    options: { concurrency?: number } = {}
+  ) {
+    this.concurrency = options.concurrency ?? readStoredConcurrency();
+  }
+
+  /**
+   * Load persisted uploads and start resuming them. Safe to call repeatedly.
+   */
+  init(): Promise<void> {
+    if (!this.initPromise) {
+      this.initPromise = this.restore();
+      if (typeof window !== 'undefined') {
+        window.addEventListener('online', () => this.resumePaused());
+      }
+    }
+    return this.initPromise;
+  }
+
+  /** Current queue (new array on every change — safe for useSyncExternalStore) */
+  getItems = (): QueuedUpload[] => this.items;
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getConcurrency(): number {
+    return this.concurrency;
+  }
+
+  /**
+   * Change how many files upload at once (remembered on this device)
+   */
+  setConcurrency(value: number): void {
+    this.concurrency = Math.max(1, Math.min(MAX_UPLOAD_CONCURRENCY, Math.round(value)));
+    try {
+      localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(this.concurrency));
+    } catch { /* ignore */ }
+    this.listeners.forEach((listener) => listener());
+    this.processQueue();
+  }
+
+  /**
+   * Aggregate upload speed over the last few seconds, in bytes per second
+   */
+  getThroughput(now: number = Date.now()): number {
+    const recent = this.samples.filter((s) => now - s.at <= THROUGHPUT_WINDOW_MS);
+    if (recent.length === 0 || this.running.size === 0) return 0;
+    const bytes = recent.reduce((sum, s) => sum + s.bytes, 0);
+    const elapsedMs = Math.max(1000, now - recent[0].at);
+    return Math.round(bytes / (elapsedMs / 1000));
+  }
+
+  /**
+   * Called once per file after finalizeUpload succeeds
+   */
+  onUploadComplete(listener: CompleteListener): () => void {
+    this.completeListeners.add(listener);
+    return () => {
+      this.completeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add files to the queue and start uploading
+   */
+  async enqueue(params: EnqueueUploadParams[]): Promise<QueuedUpload[]> {
+    await this.init();
+
+    const now = Date.now();
+    const added: QueuedUpload[] = params.map((p, index) => ({
+      id: `${now}-${index}-${Math.random().toString(36).slice(2, 8)}`,
+      analysisId: p.analysisId,
+      contentId: p.contentId,
+      uploadType: p.uploadType,
+      fileType: p.fileType,
+      fileIndex: p.fileIndex,
+      file: p.file,
+      originalName: p.file.name,
+      mimeType: p.file.type || 'application/octet-stream',
+      size: p.file.size,
+      confirmedOffset: 0,
+      uploadedBytes: 0,
+      status: isOffline() ? 'paused' : 'queued',
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    this.setItems([...this.items, ...added]);
+    await Promise.all(added.map((item) =>
+      this.store.add(item).catch((error) => {
+        // Still uploads for this session, just won't survive a reload
+        console.error('Failed to persist queued upload:', error);
+      })
+    ));
+
+    this.processQueue();
+    return added;
+  }
+
+  /**
+   * Try a failed upload again (resumes from the confirmed offset if the
+   * Drive session is still valid)
+   */
+  retry(id: string): void {
+    this.update(id, { status: 'queued', error: undefined });
+    this.processQueue();
+  }
+
+  /**
+   * Retry every failed upload (optionally only one project's), leaving
+   * finished and in-flight ones alone
+   */
+  retryFailed(analysisId?: string): void {
+    this.setItems(this.items.map((item) =>
+      item.status === 'error' && (!analysisId || item.analysisId === analysisId)
+        ? { ...item, status: 'queued' as const, error: undefined, updatedAt: Date.now() }
+        : item
+    ));
+    this.processQueue();
+  }
+
+  /**
+   * Pause one upload. Drive keeps the bytes already confirmed, so resume()
+   * continues from there.
+   */
+  pause(id: string): void {
+    const item = this.get(id);
+    if (!item || (item.status !== 'uploading' && item.status !== 'queued')) return;
+
+    this.update(id, { status: 'paused', pausedByUser: true, error: undefined }, true);
+    driveUploadService.pauseUpload(id);
+  }
+
+  resume(id: string): void {
+    const item = this.get(id);
+    if (!item || item.status !== 'paused') return;
+
+    this.update(id, { status: 'queued', pausedByUser: false, error: undefined }, true);
+    this.processQueue();
+  }
+
+  /**
+   * Cancel an upload and forget it
+   */
+  async remove(id: string): Promise<void> {
+    driveUploadService.abortUpload(id);
+    this.setItems(this.items.filter((i) => i.id !== id));
+    await this.store.delete(id).catch((error) => {
+      console.error('Failed to remove queued upload:', error);
+    });
+  }
+
+  /**
+   * Drop finished uploads from the list
+   */
+  clearCompleted(): void {
+    this.setItems(this.items.filter((i) => i.status !== 'complete'));
+  }
+
+  // ─── Internals ──────────────────────────────────────────────────────────────
+
+  private async restore(): Promise<void> {
+    try {
+      const stored = await this.store.getAll();
+      const restored = stored
+        .filter((item) => item.status !== 'complete')
+        .map((item) => ({
+          ...item,
+          uploadedBytes: item.confirmedOffset,
+          // Anything that was mid-flight when the page closed goes back in line
+          status: item.status === 'error'
+            ? 'error' as const
+            : item.pausedByUser || isOffline() ? 'paused' as const : 'queued' as const,
+        }))
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+      if (restored.length > 0) {
+        this.setItems([...restored, ...this.items.filter((i) => !restored.some((r) => r.id === i.id))]);
+        this.processQueue();
+      }
+    } catch (error) {
+      console.error('Failed to restore upload queue:', error);
+    }
+  }
+
+  private resumePaused(): void {
+    let changed = false;
+    const items = this.items.map((item) => {
+      if (item.status !== 'paused' || item.pausedByUser) return item;
+      changed = true;
+      return { ...item, status: 'queued' as const, error: undefined, updatedAt: Date.now() };
+    });
+    if (changed) {
+      this.setItems(items);
+      this.processQueue();
+    }
+  }
+
+  /**
+   * Start queued uploads until `concurrency` are in flight
+   */
+  private processQueue(): void {
+    if (isOffline()) {
+      this.pauseQueued();
+      return;
+    }
+
+    while (this.running.size < this.concurrency) {
+      const next = this.items.find((i) => i.status === 'queued' && !this.running.has(i.id));
+      if (!next) break;
+
+      this.running.add(next.id);
+      this.processItem(next.id).finally(() => {
+        this.running.delete(next.id);
+        this.processQueue();
+      });
+    }
+  }
+
+  /** Paused or removed while an await was pending — stop working on it */
+  private isHalted(id: string): boolean {
+    const item = this.get(id);
+    return !item || item.status === 'paused';
+  }
+
+  private recordProgress(id: string, uploadedBytes: number): void {
+    const previous = this.get(id)?.uploadedBytes ?? uploadedBytes;
+    const delta = uploadedBytes - previous;
+    if (delta > 0) {
+      const now = Date.now();
+      this.samples.push({ at: now, bytes: delta });
+      this.samples = this.samples.filter((s) => now - s.at <= THROUGHPUT_WINDOW_MS);
+    }
+  }
+
+  private pauseQueued(): void {
+    this.setItems(this.items.map((item) =>
+      item.status === 'queued' ? { ...item, status: 'paused' as const } : item
+    ));
+  }
+
+  private async processItem(id: string): Promise<void> {
+    this.update(id, { status: 'uploading', error: undefined });
+
+    try {
+      let item = this.get(id);
+      if (!item) return;
+
+      if (!item.metadataPrepared) {
+        const metadata = await videoThumbnailService.prepare(item.file, item.analysisId, id);
+        item = this.update(id, { ...metadata, metadataPrepared: true }, true);
+        if (!item || this.isHalted(id)) return;
+      }
+
+      let driveResult = item.driveResult;
+
+      if (!driveResult) {
+        if (!item.resumableUri) {
+          const { resumableUri, fileName } = await driveUploadService.initUpload({
+            contentId: item.contentId,
+            analysisId: item.analysisId,
+            fileName: item.originalName,
+            mimeType: item.mimeType,
+            fileSize: item.size,
+            fileType: item.uploadType,
+            fileIndex: item.fileIndex,
+          });
+          if (!this.get(id)) return;
+          item = this.update(id, { resumableUri, fileName, confirmedOffset: 0, uploadedBytes: 0 }, true);
+        } else {
+          // Ask Drive where it got to — it may have stored more than we recorded
+          const status = await driveUploadService.getUploadStatus(item.resumableUri, item.size);
+          driveResult = status.result || undefined;
+          item = this.update(id, { confirmedOffset: status.offset, uploadedBytes: status.offset }, true);
+        }
+
+        if (!item || this.isHalted(id)) return;
+
+        if (!driveResult) {
+          driveResult = await driveUploadService.resumeUpload(item.file, item.resumableUri!, {
+            startOffset: item.confirmedOffset,
+            uploadKey: id,
+            onProgress: (progress) => {
+              this.recordProgress(id, progress.loaded);
+              this.update(id, { uploadedBytes: progress.loaded });
+            },
+            onChunkConfirmed: (offset) => {
+              this.update(id, { confirmedOffset: offset }, true);
+            },
+          });
+        }
+
+        item = this.update(id, { driveResult, confirmedOffset: item.size, uploadedBytes: item.size }, true);
+        if (!item) return;
+      }
+
+      this.update(id, { status: 'finalizing' }, true);
+      await driveUploadService.finalizeUpload({
+        analysisId: item.analysisId,
+        fileType: item.fileType,
+        fileName: item.fileName || item.originalName,
+        fileId: driveResult.fileId,
+        fileUrl: driveResult.webViewLink,
+        fileSize: driveResult.size,
+        mimeType: item.mimeType,
+        thumbnailUrl: item.thumbnailUrl,
+        durationSeconds: item.durationSeconds,
+      });
+
+      const completed = this.update(id, { status: 'complete' });
+      await this.store.delete(id).catch((error) => {
+        console.error('Failed to clear finished upload:', error);
+      });
+      if (completed) {
+        this.completeListeners.forEach((listener) => listener(completed));
+      }
+    } catch (error) {
+      // Removed, paused, or paused and already resumed while in flight
+      const current = this.get(id);
+      if (!current || current.pausedByUser || current.status === 'queued') return;
+
+      console.error('Queued upload failed:', error);
+
+      if (error instanceof UploadSessionExpiredError) {
+        this.update(id, {
+          status: 'error',
+          error: 'Upload session expired — retry to start this file again',
+          resumableUri: undefined,
+          confirmedOffset: 0,
+          uploadedBytes: 0,
+        }, true);
+      } else if (isNetworkError(error)) {
+        this.update(id, { status: 'paused', error: 'Waiting for connection' }, true);
+      } else {
+        this.update(id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Upload failed',
+        }, true);
+      }
+    }
+  }
+
+  private get(id: string): QueuedUpload | undefined {
+    return this.items.find((i) => i.id === id);
+  }
+
+  private update(id: string, patch: Partial<QueuedUpload>, persist: boolean = false): QueuedUpload | undefined {
+    let updated: QueuedUpload | undefined;
+    this.setItems(this.items.map((item) => {
+      if (item.id !== id) return item;
+      updated = { ...item, ...patch, updatedAt: Date.now() };
+      return updated;
+    }));
+    if (updated && persist) {
+      this.persist(updated);
+    }
+    return updated;
+  }
+
+  private async persist(item: QueuedUpload): Promise<void> {
+    try {
+      await this.store.update(item);
+    } catch (error) {
+      console.error('Failed to save upload progress:', error);
+    }
+  }
+
+  private setItems(items: QueuedUpload[]): void {
+    this.items = items;
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const uploadQueueService = new UploadQueueService();
@@ -0,0 +1,142 @@
+/**
+ * Video Review Service
+ *
+ * Timestamped review notes on edited videos (video_review_notes). Admins add
+ * them from the in-app player on EditedReviewPage; editors tick them off as a
+ * checklist on their project page. Playback streams the Drive file through a
+ * signed backend URL so the player can seek.
+ */
+
+import { supabase, auth, fetchWithAuth } from '@/lib/api';
+import type { VideoReviewNote } from '@/types';
+
+const BACKEND_URL = import.meta.env.VITE_BACKEND_URL;
+
+export interface AddReviewNoteData {
+  analysisId: string;
+  /** production_files.id */
+  fileId: string;
+  timestampSeconds: number;
+  body: string;
+}
+
+const NOTE_SELECT = `
+  *,
+  author:profiles!video_review_notes_author_id_fkey (id, email, full_name, avatar_url, role)
+`;
+
+/** 42.48 → "0:42.480" */
+export function formatTimecode(seconds: number): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const m = Math.floor(totalMs / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${m}:${s.toString().padStart(2, '0')}.${ms.toString().padStart(3, '0')}`;
+}
+
+// NUMERIC columns come back from PostgREST as strings
+function normalizeNote(note: VideoReviewNote): VideoReviewNote {
+  return { ...note, timestamp_seconds: Number(note.timestamp_seconds) };
+}
+
+export const videoReviewService = {
+  /**
+   * Notes on one file, in playback order
+   */
+  async getNotes(fileId: string): Promise<VideoReviewNote[]> {
+    const { data, error } = await supabase
+      .from('video_review_notes')
+      .select(NOTE_SELECT)
+      .eq('file_id', fileId)
+      .order('timestamp_seconds', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as VideoReviewNote[]).map(normalizeNote);
+  },
+
+  /**
+   * Every note on a project's edited videos (for finding which files have
+   * feedback), in playback order per file
+   */
+  async getProjectNotes(analysisId: string): Promise<VideoReviewNote[]> {
+    const { data, error } = await supabase
+      .from('video_review_notes')
+      .select('*')
+      .eq('analysis_id', analysisId)
+      .order('timestamp_seconds', { ascending: true });
+
+    if (error) throw error;
+    return ((data || []) as VideoReviewNote[]).map(normalizeNote);
+  },
+
+  /**
+   * Pin a note to the current playback position
+   */
+  async addNote(data: AddReviewNoteData): Promise<VideoReviewNote> {
+    const { data: { user } } = await auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const body = data.body.trim();
+    if (!body) throw new Error('Write a note first');
+
+    const { data: note, error } = await supabase
+      .from('video_review_notes')
+      .insert({
+        analysis_id: data.analysisId,
+        file_id: data.fileId,
+        author_id: user.id,
+        timestamp_seconds: Math.round(data.timestampSeconds * 1000) / 1000,
+        body,
+      })
+      .select(NOTE_SELECT)
+      .single();
+
+    if (error) throw error;
+    return normalizeNote(note as VideoReviewNote);
+  },
+
+  /**
+   * Tick a note off (or re-open it)
+   */
+  async setResolved(noteId: string, resolved: boolean): Promise<void> {
+    const { data: { user } } = await auth.getUser();
+
+    const { error } = await supabase
+      .from('video_review_notes')
+      .update({
+        is_resolved: resolved,
+        resolved_by: resolved ? user?.id || null : null,
+        resolved_at: resolved ? new Date().toISOString() : null,
+      })
+      .eq('id', noteId);
+
+    if (error) throw error;
+  },
+
+  async deleteNote(noteId: string): Promise<void> {
+    const { error } = await supabase
+      .from('video_review_notes')
+      .delete()
+      .eq('id', noteId);
+
+    if (error) throw error;
+  },
+
+  /**
+   * Short-lived URL a <video> element can stream the Drive file from
+   * @param driveFileId - production_files.file_id
+   */
+  async getStreamUrl(driveFileId: string): Promise<string> {
+    const response = await fetchWithAuth(`${BACKEND_URL}/api/upload/stream-url/${encodeURIComponent(driveFileId)}`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: response.statusText }));
+      throw new Error(error.error || 'Failed to load video');
+    }
+
+    const { url } = await response.json();
+    return `${BACKEND_URL}${url}`;
+  },
+};
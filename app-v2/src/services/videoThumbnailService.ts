@@ -0,0 +1,51 @@
+/**
+ * Video Thumbnail Service
+ *
+ * Runs before a video is uploaded: reads its duration and stores a poster
+ * frame in the thumbnails bucket. Both end up on the production_files row
+ * via finalizeUpload. Nothing here is allowed to block the upload itself.
+ */
+
+import { storage } from '@/lib/api';
+import { extractVideoMetadata, isVideoFile } from '@/lib/videoMetadata';
+
+const THUMBNAILS_BUCKET = 'thumbnails';
+
+export interface PreparedVideoMetadata {
+  thumbnailUrl?: string;
+  durationSeconds?: number;
+}
+
+export const videoThumbnailService = {
+  /**
+   * Extract duration + poster frame and upload the frame. Resolves with
+   * whatever could be produced — an empty object for non-video files or when
+   * the browser can't decode the video.
+   */
+  async prepare(file: Blob, analysisId: string, key: string): Promise<PreparedVideoMetadata> {
+    if (!isVideoFile(file)) return {};
+
+    try {
+      const { durationSeconds, thumbnail } = await extractVideoMetadata(file);
+      const prepared: PreparedVideoMetadata = {};
+      if (durationSeconds !== null) prepared.durationSeconds = durationSeconds;
+      if (!thumbnail) return prepared;
+
+      const path = `${analysisId}/${key}.jpg`;
+      const { error } = await storage
+        .from(THUMBNAILS_BUCKET)
+        .upload(path, thumbnail, { contentType: 'image/jpeg', upsert: true });
+
+      if (error) {
+        console.error('Failed to upload thumbnail:', error);
+        return prepared;
+      }
+
+      prepared.thumbnailUrl = storage.from(THUMBNAILS_BUCKET).getPublicUrl(path).data.publicUrl;
+      return prepared;
+    } catch (error) {
+      console.error('Failed to read video metadata:', error);
+      return {};
+    }
+  },
+};
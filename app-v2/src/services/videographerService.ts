@@ -9,7 +9,19 @@
  */
 
 import { supabase, auth } from '@/lib/api';
-import type { ViralAnalysis } from '@/types';
+import { toServiceError } from '@/lib/errors';
+import {
+  PLANNING_STAGES,
+  RAW_FILE_TYPES,
+  assertTransition,
+  getMissingShootFileTypes,
+  type StageActor,
+} from '@/lib/productionStages';
+import { buildShotList } from '@/lib/shotList';
+import { activityService, diffFields } from '@/services/activityService';
+import { assignmentService } from '@/services/assignmentService';
+import { notificationService } from '@/services/notificationService';
+import type { ProductionFile, ViralAnalysis } from '@/types';
 
 export interface VideographerStats {
   activeShoots: number;      // Currently shooting
@@ -27,8 +39,9 @@ export interface PickProjectData {
 
 // Card columns — includes script text fields so smartSearch can search them
 const CARD_COLS = `id, title, content_id, platform, shoot_type, production_stage, priority, status,
-  created_at, deadline, profile_id, industry_id, cast_composition, content_type, is_dissolved,
-  hook, script_body, script_cta, production_notes, creator_name`;
+  created_at, deadline, stage_entered_at, profile_id, industry_id, cast_composition, content_type, is_dissolved,
+  hook, script_body, script_cta, production_notes, creator_name,
+  hook_voice_note_transcript, why_viral_voice_note_transcript`;
 
 export const videographerService = {
   /**
@@ -36,7 +49,6 @@ export const videographerService = {
    * These are approved scripts waiting to be picked by a videographer
    */
   async getAvailableProjects(): Promise<ViralAnalysis[]> {
-    const planningStages = ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED'];
 
     // All queries in parallel — combined planning+null stage into one OR query
     const [assignedResult, projectsResult, userResult] = await Promise.all([
@@ -49,7 +61,7 @@ export const videographerService = {
           character_tags:analysis_character_tags(character_tag:character_tags(id, name, is_active))
         `)
         .eq('status', 'APPROVED')
-        .or(`production_stage.in.(${planningStages.join(',')}),production_stage.is.null`)
+        .or(`production_stage.in.(${PLANNING_STAGES.join(',')}),production_stage.is.null`)
         .or('is_dissolved.eq.false,is_dissolved.is.null')
         .order('priority', { ascending: false })
         .order('created_at', { ascending: false }),
@@ -100,8 +112,8 @@ export const videographerService = {
 
     const analysisIds = assignmentsList.map((a) => a.analysis_id);
 
-    // Fetch projects (minimal columns) and file counts in parallel
-    const [projectsResult, filesResult] = await Promise.all([
+    // Fetch projects (minimal columns), file counts and shot list progress in parallel
+    const [projectsResult, filesResult, shotListResult] = await Promise.all([
       supabase.from('viral_analyses').select(`
           ${CARD_COLS},
           industry:industries(id, name, short_code),
@@ -121,6 +133,9 @@ export const videographerService = {
       supabase.from('production_files')
         .select('id, analysis_id, is_deleted')
         .in('analysis_id', analysisIds),
+      supabase.from('shot_list_attachments')
+        .select('id, analysis_id, item_key, file_id')
+        .in('analysis_id', analysisIds),
     ]);
 
     if (projectsResult.error) throw projectsResult.error;
@@ -132,6 +147,14 @@ export const videographerService = {
       filesByAnalysis.set(file.analysis_id, existing);
     }
 
+    // Progress is optional on the cards — ignore a failed attachments query
+    const attachmentsByAnalysis = new Map<string, any[]>();
+    for (const attachment of (shotListResult.data || []) as any[]) {
+      const existing = attachmentsByAnalysis.get(attachment.analysis_id) || [];
+      existing.push(attachment);
+      attachmentsByAnalysis.set(attachment.analysis_id, existing);
+    }
+
     return ((projectsResult.data || []) as any[]).map((project: any) => ({
       ...project,
       email: project.profiles?.email,
@@ -140,6 +163,7 @@ export const videographerService = {
       videographer: project.assignments?.find((a: any) => a.role === 'VIDEOGRAPHER')?.user,
       editor: project.assignments?.find((a: any) => a.role === 'EDITOR')?.user,
       production_files: filesByAnalysis.get(project.id) || [],
+      shot_list_attachments: attachmentsByAnalysis.get(project.id) || [],
       character_tags: (project.character_tags || []).map((ct: any) => ct.character_tag).filter(Boolean),
     })) as ViralAnalysis[];
   },
@@ -183,7 +207,6 @@ export const videographerService = {
     const myIds = ((assignments || []) as { analysis_id: string }[]).map((a) => a.analysis_id);
 
     // Run all queries in parallel
-    const planningStages = ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED'];
     const completedStages = ['READY_FOR_EDIT', 'EDITING', 'EDIT_REVIEW', 'READY_TO_POST', 'POSTED'];
 
     const [
@@ -196,7 +219,7 @@ export const videographerService = {
     ] = await Promise.all([
       // Planning stage project IDs
       supabase.from('viral_analyses').select('id')
-        .eq('status', 'APPROVED').in('production_stage', planningStages),
+        .eq('status', 'APPROVED').in('production_stage', PLANNING_STAGES),
       // Null stage project IDs
       supabase.from('viral_analyses').select('id')
         .eq('status', 'APPROVED').is('production_stage', null),
@@ -249,7 +272,6 @@ export const videographerService = {
     scripts: ViralAnalysis[];
     available: ViralAnalysis[];
   }> {
-    const planningStages = ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED'];
     const completedStages = ['READY_FOR_EDIT', 'EDITING', 'EDIT_REVIEW', 'READY_TO_POST', 'POSTED'];
 
     // Round 1: Cached auth (~0ms after first validation)
@@ -271,7 +293,7 @@ export const videographerService = {
         ${CARD_COLS}, profile:profile_list(id, name, platform),
         profiles:user_id(email, full_name, avatar_url)
       `).eq('status', 'APPROVED')
-        .or(`production_stage.in.(${planningStages.join(',')}),production_stage.is.null`)
+        .or(`production_stage.in.(${PLANNING_STAGES.join(',')}),production_stage.is.null`)
         .or('is_dissolved.eq.false,is_dissolved.is.null')
         .order('priority', { ascending: false }).order('created_at', { ascending: false }),
       // Skipped projects
@@ -376,106 +398,79 @@ export const videographerService = {
 
   /**
    * Pick a project from the PLANNING queue
+   * The claim runs server-side in pick_project() so two videographers can't both win.
+   * Throws ProjectConflictError if the project was already picked or moved on.
    */
   async pickProject(data: PickProjectData): Promise<ViralAnalysis> {
     const { data: { user } } = await auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
-    // Check if project is still available
-    const { data: project, error: fetchError } = await supabase
-      .from('viral_analyses')
-      .select('id, production_stage, content_id, profile_id')
-      .eq('id', data.analysisId)
-      .single();
-
-    if (fetchError) throw fetchError;
-
-    const projectData = project as { id: string; production_stage?: string; content_id?: string; profile_id?: string };
-    const planningStages = ['PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED'];
-    const isInPlanningStage = planningStages.includes(projectData.production_stage || '') || !projectData.production_stage;
-    if (!isInPlanningStage) {
-      throw new Error('This project is no longer available');
-    }
-
-    // Check if already assigned
-    const { data: existingAssignment, error: assignCheckError } = await supabase
-      .from('project_assignments')
-      .select('id')
-      .eq('analysis_id', data.analysisId)
-      .eq('role', 'VIDEOGRAPHER')
-      .maybeSingle();
-
-    if (assignCheckError) {
-      throw new Error('Failed to check project availability');
-    }
-    if (existingAssignment) {
-      throw new Error('This project has already been picked');
-    }
-
-    // Generate content_id if profile provided and not already set
-    if (data.profileId && !projectData.content_id) {
-      await supabase.rpc('generate_content_id_on_approval', {
-        p_analysis_id: data.analysisId,
-        p_profile_id: data.profileId,
-      });
-    }
-
-    // Update the analysis
-    const updateData: Record<string, unknown> = {
-      production_stage: 'SHOOTING',
-      production_started_at: new Date().toISOString(),
-    };
-
-    if (data.profileId) {
-      updateData.profile_id = data.profileId;
-    }
-
-    if (data.deadline) {
-      updateData.deadline = data.deadline;
-    }
-
-    const { error: updateError } = await supabase
-      .from('viral_analyses')
-      .update(updateData)
-      .eq('id', data.analysisId);
-
-    if (updateError) throw updateError;
-
-    // Assign videographer — rollback stage on failure
-    const { error: assignmentError } = await supabase
-      .from('project_assignments')
-      .insert({
-        analysis_id: data.analysisId,
-        user_id: user.id,
-        role: 'VIDEOGRAPHER',
-        assigned_by: user.id,
-      });
-
-    if (assignmentError) {
-      // Rollback: revert production_stage and clear started_at
-      const rollbackData: Record<string, unknown> = {
-        production_stage: projectData.production_stage || 'PLANNING',
-        production_started_at: null,
-      };
-      if (data.profileId) rollbackData.profile_id = projectData.profile_id || null;
-      await supabase.from('viral_analyses')
-        .update(rollbackData)
-        .eq('id', data.analysisId);
-      throw assignmentError;
-    }
+    const { error } = await supabase.rpc('pick_project', {
+      p_analysis_id: data.analysisId,
+      p_user_id: user.id,
+      p_role: 'VIDEOGRAPHER',
+      p_profile_id: data.profileId || null,
+      p_deadline: data.deadline || null,
+    });
+
+    if (error) throw toServiceError(error);
+
+    await activityService.logEvent({
+      analysisId: data.analysisId,
+      eventType: 'PROJECT_PICKED',
+      actorId: user.id,
+      fromStage: 'PLANNING',
+      toStage: 'SHOOTING',
+      changes: diffFields(null, {
+        ...(data.profileId && { profile_id: data.profileId }),
+        ...(data.deadline && { deadline: data.deadline }),
+      }),
+    });
 
     return this.getProjectById(data.analysisId);
   },
 
   /**
-   * Mark shooting as complete - move to READY_FOR_EDIT
+   * Mark shooting as complete - move to READY_FOR_EDIT. Admins moving a
+   * project on the production board pass actor 'ADMIN'.
    */
-  async markShootingComplete(analysisId: string, productionNotes?: string): Promise<ViralAnalysis> {
+  async markShootingComplete(analysisId: string, productionNotes?: string, actor: StageActor = 'VIDEOGRAPHER'): Promise<ViralAnalysis> {
     const { data: { user } } = await auth.getUser();
     if (!user) throw new Error('Not authenticated');
 
-    // File verification is done by the UI before calling this method
-    // (UploadPage checks existingFiles.length > 0)
+    // Gather facts for the transition guard
+    const [filesResult, projectResult] = await Promise.all([
+      supabase
+        .from('production_files')
+        .select('file_type, approval_status')
+        .eq('analysis_id', analysisId)
+        .in('file_type', RAW_FILE_TYPES)
+        .eq('is_deleted', false),
+      supabase
+        .from('viral_analyses')
+        .select('production_stage, production_notes, hook, script_body, script_cta, cast_composition')
+        .eq('id', analysisId)
+        .single(),
+    ]);
+
+    if (filesResult.error) throw new Error('Failed to verify files');
+    if (projectResult.error) throw projectResult.error;
+
+    const rawFiles = (filesResult.data || []) as Pick<ProductionFile, 'file_type' | 'approval_status'>[];
+    const rejectedCount = rawFiles.filter((f) => f.approval_status === 'rejected').length;
+    const projectInfo = projectResult.data as Pick<
+      ViralAnalysis,
+      'production_stage' | 'production_notes' | 'hook' | 'script_body' | 'script_cta' | 'cast_composition'
+    > | null;
+    const scriptedSections = projectInfo
+      ? buildShotList(projectInfo).flatMap((item) => (item.section ? [item.section] : []))
+      : [];
+
+    assertTransition(projectInfo?.production_stage, 'READY_FOR_EDIT', actor, {
+      rawFileCount: rawFiles.length - rejectedCount,
+      rejectedRawFileCount: rejectedCount,
+      missingFileTypes: getMissingShootFileTypes(rawFiles, scriptedSections),
+    });
 
     // Update the analysis
     const updateData: Record<string, unknown> = {
@@ -483,14 +478,7 @@ export const videographerService = {
     };
 
     if (productionNotes) {
-      // Get current notes and append instead of overwriting
-      const { data: currentProject } = await supabase
-        .from('viral_analyses')
-        .select('production_notes')
-        .eq('id', analysisId)
-        .single();
-
-      const projectInfo = currentProject as { production_notes?: string } | null;
+      // Append to current notes instead of overwriting
       const existingNotes = projectInfo?.production_notes || '';
       updateData.production_notes = existingNotes
         ? `${existingNotes}\n\n[Videographer Notes]\n${productionNotes}`
@@ -504,6 +492,24 @@ export const videographerService = {
 
     if (updateError) throw updateError;
 
+    await activityService.logEvent({
+      analysisId,
+      eventType: 'SHOOT_COMPLETED',
+      actorId: user.id,
+      fromStage: projectInfo?.production_stage,
+      toStage: 'READY_FOR_EDIT',
+      note: productionNotes,
+    });
+
+    if (!(await assignmentService.autoAssignIfEnabled(analysisId, 'EDITOR'))) {
+      await notificationService.notify({
+        type: 'PROJECT_AVAILABLE',
+        title: 'New footage ready to edit',
+        analysisId,
+        roles: ['EDITOR'],
+      });
+    }
+
     return this.getProjectById(analysisId);
   },
 
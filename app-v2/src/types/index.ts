@@ -170,6 +170,20 @@ export interface CastComposition {
   total: number;
 }
 
+/** The per-person counts in a CastComposition */
+export type CastMemberKey = Exclude<keyof CastComposition, 'include_owner' | 'total'>;
+
+export const CastMemberLabels: Record<CastMemberKey, string> = {
+  man: 'Man',
+  woman: 'Woman',
+  boy: 'Boy',
+  girl: 'Girl',
+  teen_boy: 'Teen boy',
+  teen_girl: 'Teen girl',
+  senior_man: 'Senior man',
+  senior_woman: 'Senior woman',
+};
+
 export const DEFAULT_CAST_COMPOSITION: CastComposition = {
   man: 0,
   woman: 0,
@@ -196,12 +210,17 @@ export interface ViralAnalysis {
   // Core analysis
   hook?: string;
   hook_voice_note_url?: string;
+  /** Filled in by the backend once the voice note is transcribed */
+  hook_voice_note_transcript?: string | null;
   why_viral?: string;
 
   // Script content (Phase 1)
   script_body?: string;
   script_cta?: string;
+  /** Spoken language code (see lib/scriptTiming) */
+  script_language?: string | null;
   why_viral_voice_note_url?: string;
+  why_viral_voice_note_transcript?: string | null;
   target_emotion: string;
   expected_outcome: string;
 
@@ -234,22 +253,35 @@ export interface ViralAnalysis {
   reviewed_at?: string;
   feedback?: string;
   feedback_voice_note_url?: string;
+  feedback_voice_note_transcript?: string | null;
   hook_strength?: number;
   content_quality?: number;
   viral_potential?: number;
   replication_clarity?: number;
   overall_score?: number;
+  /** Score per review criterion key (see ReviewCriterion) */
+  review_scores?: Record<string, number> | null;
 
   // Production workflow
   priority?: Priority;
   deadline?: string;
+  /** Set from the shoot day the project is planned on */
+  planned_date?: string | null;
   production_notes?: string;
   production_started_at?: string;
   production_completed_at?: string;
+  /** When the project moved into its current production_stage */
+  stage_entered_at?: string | null;
+  /** When admins were told it is past its stage SLA (cleared on the next stage change) */
+  sla_escalated_at?: string | null;
   admin_remarks?: string;
 
   // Rejection tracking
   rejection_count?: number;
+  /** Reason codes given with the latest rejection (see RejectionReason) */
+  rejection_reasons?: string[] | null;
+  /** When the writer last sent a revised version back for review */
+  resubmitted_at?: string | null;
   is_dissolved?: boolean;
   dissolution_reason?: string;
 
@@ -290,6 +322,7 @@ export interface ViralAnalysis {
 
   // Files
   production_files?: ProductionFile[];
+  shot_list_attachments?: ShotListAttachment[];
   files_count?: number;
   video_duration?: number;
 
@@ -310,9 +343,98 @@ export interface ProjectAssignment {
   assigned_by: string;
   assigned_at: string;
   created_at: string;
+  /** Why this person was chosen, for auto and admin assignments */
+  assignment_reason?: string | null;
+  auto_assigned?: boolean;
   user?: UserProfile;
 }
 
+export type AssignableRole = 'VIDEOGRAPHER' | 'EDITOR';
+
+/** Per-role auto-assignment switch (see lib/autoAssign) */
+export interface AssignmentSettings {
+  role: AssignableRole;
+  auto_assign: boolean;
+  max_active: number;
+  updated_by?: string | null;
+  updated_at: string;
+}
+
+/** An entry in the fixed list of reasons a script can be rejected for */
+export interface RejectionReason {
+  code: string;
+  label: string;
+  description?: string | null;
+  sort_order: number;
+  is_active: boolean;
+}
+
+/** One review of a script: the version that was reviewed and the outcome */
+export interface ScriptReviewRound {
+  id: string;
+  analysis_id: string;
+  round: number;
+  snapshot: ScriptSnapshot;
+  status: 'APPROVED' | 'REJECTED';
+  rejection_reasons: string[];
+  feedback?: string | null;
+  feedback_voice_note_url?: string | null;
+  feedback_voice_note_transcript?: string | null;
+  submitted_at?: string | null;
+  reviewed_by?: string | null;
+  reviewed_at: string;
+}
+
+/** The writer-editable parts of a script (see lib/scriptSnapshot) */
+export interface ScriptSnapshot {
+  title?: string | null;
+  reference_url?: string | null;
+  hook?: string | null;
+  script_body?: string | null;
+  script_cta?: string | null;
+  why_viral?: string | null;
+  target_emotion?: string | null;
+  production_notes?: string | null;
+}
+
+/** A saved version of a script's text (see lib/scriptSnapshot) */
+export interface ScriptRevision {
+  id: string;
+  analysis_id: string;
+  revision: number;
+  snapshot: ScriptSnapshot;
+  changed_fields: string[];
+  /** Revision this version was restored from */
+  restored_from?: number | null;
+  created_by?: string | null;
+  created_at: string;
+  author?: Pick<UserProfile, 'full_name' | 'email'> | null;
+}
+
+/** A scorecard line and its weight in overall_score (see lib/reviewScorecard) */
+export interface ReviewCriterion {
+  key: string;
+  label: string;
+  description?: string | null;
+  weight: number;
+  sort_order: number;
+  is_active: boolean;
+  updated_by?: string | null;
+  updated_at: string;
+}
+
+export type SlaStage = 'SHOOTING' | 'READY_FOR_EDIT' | 'EDITING' | 'EDIT_REVIEW';
+
+/** How long a project may stay in a stage, per priority (see lib/stageSla) */
+export interface StageSla {
+  stage: SlaStage;
+  priority: Priority;
+  /** null = no limit */
+  hours: number | null;
+  updated_by?: string | null;
+  updated_at: string;
+}
+
 export interface ProjectSkip {
   id: string;
   analysis_id: string;
@@ -347,6 +469,8 @@ export type FileType =
   | 'FINAL_VIDEO'
   | 'OTHER';
 
+export type FileApprovalStatus = 'pending' | 'approved' | 'rejected';
+
 export interface ProductionFile {
   id: string;
   analysis_id: string;
@@ -361,10 +485,243 @@ export interface ProductionFile {
   mime_type?: string;
   description?: string;
   thumbnail_url?: string;
+  /** Whole seconds, read in the browser at upload time */
+  duration_seconds?: number;
+  /** Edited videos only: 1 for the first cut, 2 for the re-edit, ... */
+  revision_number?: number | null;
+  /** Why the admin rejected this revision */
+  revision_rejection_reason?: string | null;
+  revision_rejected_at?: string | null;
+  /** Per-file review by an admin; rejected files have to be re-shot or re-cut */
+  approval_status?: FileApprovalStatus;
+  reviewed_by?: string | null;
+  review_notes?: string | null;
+  reviewed_at?: string | null;
   created_at: string;
   uploader?: UserProfile;
 }
 
+// ============================================
+// SHOOT DAYS
+// ============================================
+
+/** A project as it appears on a shoot day */
+export type ShootDayProject = Pick<ViralAnalysis, 'id' | 'title' | 'content_id' | 'production_stage' | 'cast_composition'>;
+
+/** One planned shoot covering several projects at one location */
+export interface ShootDay {
+  id: string;
+  videographer_id: string;
+  /** YYYY-MM-DD */
+  shoot_date: string;
+  /** HH:MM[:SS]; both null means the whole day */
+  start_time?: string | null;
+  end_time?: string | null;
+  location?: string | null;
+  props_notes?: string | null;
+  created_at: string;
+  updated_at: string;
+  projects: ShootDayProject[];
+}
+
+/** A file ticked against a shot list item (see lib/shotList) */
+export interface ShotListAttachment {
+  id: string;
+  analysis_id: string;
+  item_key: string;
+  file_id: string;
+  attached_by?: string;
+  created_at: string;
+}
+
+// ============================================
+// TALENT ROSTER
+// ============================================
+
+/** A date range (inclusive, YYYY-MM-DD) when someone can't shoot */
+export interface TalentUnavailability {
+  id: string;
+  talent_id: string;
+  start_date: string;
+  end_date: string;
+  note?: string | null;
+  created_at: string;
+}
+
+/** A person on the roster; category matches a CastComposition key */
+export interface Talent {
+  id: string;
+  full_name: string;
+  category: CastMemberKey;
+  phone?: string | null;
+  email?: string | null;
+  instagram?: string | null;
+  notes?: string | null;
+  photo_urls: string[];
+  is_active: boolean;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  unavailability?: TalentUnavailability[];
+}
+
+export type ProjectTalentStatus = 'booked' | 'appeared';
+
+/** Talent booked for a project, and whether they actually appeared */
+export interface ProjectTalent {
+  analysis_id: string;
+  talent_id: string;
+  category: CastMemberKey;
+  status: ProjectTalentStatus;
+  added_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  talent?: Talent;
+  analysis?: Pick<ViralAnalysis, 'id' | 'title' | 'content_id' | 'production_stage' | 'planned_date'>;
+}
+
+// ============================================
+// PROJECT ACTIVITY (AUDIT LOG)
+// ============================================
+
+export type ProjectEventType =
+  | 'SCRIPT_APPROVED'
+  | 'SCRIPT_REJECTED'
+  | 'PROJECT_PICKED'
+  | 'SHOOT_COMPLETED'
+  | 'EDIT_SUBMITTED'
+  | 'EDIT_APPROVED'
+  | 'EDIT_REJECTED'
+  | 'POSTING_DETAILS_UPDATED'
+  | 'POSTED'
+  | 'SKIP_REMOVED'
+  | 'FILE_APPROVED'
+  | 'FILE_REJECTED'
+  | 'PROJECT_ASSIGNED'
+  | 'DETAILS_UPDATED'
+  | 'SCRIPT_RESUBMITTED'
+  | 'SCRIPT_RESTORED';
+
+export const ProjectEventLabels: Record<ProjectEventType, string> = {
+  SCRIPT_APPROVED: 'Script approved',
+  SCRIPT_REJECTED: 'Script rejected',
+  PROJECT_PICKED: 'Project picked',
+  SHOOT_COMPLETED: 'Shoot completed',
+  EDIT_SUBMITTED: 'Edit submitted for review',
+  EDIT_APPROVED: 'Edit approved',
+  EDIT_REJECTED: 'Edit sent back',
+  POSTING_DETAILS_UPDATED: 'Posting details updated',
+  POSTED: 'Posted',
+  SKIP_REMOVED: 'Skip removed',
+  FILE_APPROVED: 'File approved',
+  FILE_REJECTED: 'File rejected',
+  PROJECT_ASSIGNED: 'Project assigned',
+  DETAILS_UPDATED: 'Details updated',
+  SCRIPT_RESUBMITTED: 'Script resubmitted',
+  SCRIPT_RESTORED: 'Earlier script version restored',
+};
+
+/** One changed field: value before and after the call */
+export interface ProjectEventChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ProjectEvent {
+  id: string;
+  analysis_id: string;
+  actor_id?: string;
+  event_type: ProjectEventType;
+  from_stage?: string;
+  to_stage?: string;
+  changes: Record<string, ProjectEventChange>;
+  note?: string;
+  created_at: string;
+  actor?: UserProfile;
+}
+
+// ============================================
+// PROJECT COMMENTS
+// ============================================
+
+export interface ProjectComment {
+  id: string;
+  analysis_id: string;
+  author_id?: string;
+  parent_id?: string | null;
+  body: string;
+  voice_note_url?: string;
+  mentions: string[];
+  is_deleted: boolean;
+  created_at: string;
+  updated_at: string;
+  author?: UserProfile;
+  replies?: ProjectComment[];
+}
+
+// ============================================
+// VIDEO REVIEW NOTES
+// ============================================
+
+/** Feedback pinned to a moment of an edited video (production_files row) */
+export interface VideoReviewNote {
+  id: string;
+  analysis_id: string;
+  file_id: string;
+  author_id?: string;
+  timestamp_seconds: number;
+  body: string;
+  is_resolved: boolean;
+  resolved_by?: string | null;
+  resolved_at?: string | null;
+  created_at: string;
+  author?: UserProfile;
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+export type NotificationType =
+  | 'SCRIPT_APPROVED'
+  | 'SCRIPT_REJECTED'
+  | 'PROJECT_AVAILABLE'
+  | 'EDIT_APPROVED'
+  | 'EDIT_REJECTED'
+  | 'FILE_REJECTED'
+  | 'PROJECT_ASSIGNED'
+  | 'SLA_OVERDUE'
+  | 'SCRIPT_RESUBMITTED'
+  | 'MENTION'
+  | 'DAILY_DIGEST';
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body?: string;
+  analysis_id?: string;
+  actor_id?: string;
+  read_at?: string | null;
+  created_at: string;
+  actor?: UserProfile;
+}
+
+export interface NotificationPreferences {
+  newScripts: boolean;
+  approvals: boolean;
+  mentions: boolean;
+  dailyDigest: boolean;
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  newScripts: true,
+  approvals: true,
+  mentions: true,
+  dailyDigest: false,
+};
+
 // ============================================
 // FORM DATA TYPES
 // ============================================
@@ -382,6 +739,7 @@ export interface AnalysisFormData {
   hookText?: string;
   scriptBody?: string;
   scriptCta?: string;
+  scriptLanguage?: string;
   castComposition?: Partial<CastComposition>;
   characterTagIds?: string[];
 
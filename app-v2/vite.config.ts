@@ -43,6 +43,9 @@ export default defineConfig({
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
         globIgnores: ['pwascript/**'],
 
+        // Web Push 'push' and 'notificationclick' handlers (public/push-sw.js)
+        importScripts: ['push-sw.js'],
+
         // Activate new SW immediately — no waiting for tabs to close
         skipWaiting: true,
         clientsClaim: true,
@@ -6,6 +6,11 @@ const http = require('http');
 const pool = require('./db');
 const { verifyAuth, verifyAdmin } = require('./middleware/jwtAuth');
 const voiceNoteService = require('./services/voiceNoteService');
+const thumbnailService = require('./services/thumbnailService');
+const talentPhotoService = require('./services/talentPhotoService');
+const pushService = require('./services/pushService');
+const slaService = require('./services/slaService');
+const digestService = require('./services/digestService');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -45,24 +50,47 @@ app.use(cors({
 }));
 app.use(express.json());
 
-// Serve voice notes with authentication
-app.get('/files/voice-notes/*', verifyAuth, (req, res) => {
+/**
+ * Send a stored file from baseDir for the path after the route prefix,
+ * refusing anything that would resolve outside it
+ */
+const serveStoredFile = (getBaseDir, cacheControl) => (req, res) => {
   const filePath = req.params[0];
   const normalized = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, '');
   if (normalized !== path.normalize(filePath) || path.isAbsolute(filePath)) {
     return res.status(400).json({ error: 'Invalid path' });
   }
-  const baseDir = path.resolve(voiceNoteService.getBaseDir());
+  const baseDir = path.resolve(getBaseDir());
   const fullPath = path.resolve(baseDir, normalized);
   if (!fullPath.startsWith(baseDir + path.sep) && fullPath !== baseDir) {
     return res.status(400).json({ error: 'Invalid path' });
   }
-  res.sendFile(fullPath, (err) => {
+  if (cacheControl) res.set('Cache-Control', cacheControl);
+  res.sendFile(fullPath, { cacheControl: !cacheControl }, (err) => {
     if (err && !res.headersSent) {
       res.status(404).json({ error: 'File not found' });
     }
   });
-});
+};
+
+// Serve voice notes with authentication
+app.get('/files/voice-notes/*', verifyAuth, serveStoredFile(() => voiceNoteService.getBaseDir()));
+
+// Thumbnails are loaded by <img> tags, which can't send a bearer token.
+// Paths are per-project and timestamped, and the frames aren't sensitive.
+app.use('/files/thumbnails', express.static(thumbnailService.getBaseDir(), {
+  maxAge: '7d',
+  fallthrough: false,
+}));
+
+// Roster headshots are personal data, so unlike thumbnails they need a
+// token; the app fetches them with it and shows the result as a blob URL.
+// Private caching only, so shared proxies never keep a copy.
+app.get(
+  '/files/talent-photos/*',
+  verifyAuth,
+  serveStoredFile(() => talentPhotoService.getBaseDir(), 'private, max-age=604800')
+);
 
 // ─── PostgREST Proxy ────────────────────────────────────────────────────────
 // Proxies /postgrest/* to the PostgREST container over HTTP/1.1, avoiding
@@ -295,6 +323,11 @@ app.use('/api/storage', storageRoutes);
 const uploadRoutes = require('./routes/uploadRoutes');
 app.use('/api/upload', uploadRoutes);
 
+// ─── Push Routes (Web Push) ─────────────────────────────────────────────────
+
+const pushRoutes = require('./routes/pushRoutes');
+app.use('/api/push', pushRoutes);
+
 // ─── Start Server ───────────────────────────────────────────────────────────
 
 const server = app.listen(PORT, () => {
@@ -303,6 +336,10 @@ const server = app.listen(PORT, () => {
   console.log(`Upload endpoints: http://localhost:${PORT}/api/upload/*`);
   console.log(`Auth endpoints: http://localhost:${PORT}/api/auth/*`);
   console.log(`Storage endpoints: http://localhost:${PORT}/api/storage/*`);
+  console.log(`Push endpoints: http://localhost:${PORT}/api/push/*`);
+  pushService.startListener();
+  slaService.start();
+  digestService.start();
 });
 
 // Prevent stale connections with Traefik reverse proxy.
@@ -315,7 +352,10 @@ server.headersTimeout = 66000;     // must be > keepAliveTimeout
 // Graceful shutdown
 function shutdown(signal) {
   console.log(`${signal} received. Shutting down gracefully...`);
-  server.close(() => {
+  slaService.stop();
+  digestService.stop();
+  server.close(async () => {
+    await pushService.stopListener().catch(() => {});
     const pool = require('./db');
     if (pool) pool.end();
     process.exit(0);
@@ -0,0 +1,105 @@
+/**
+ * Push Routes
+ * Web Push (VAPID) subscription management
+ */
+
+const express = require('express');
+const { verifyAuth } = require('../middleware/jwtAuth');
+const pushService = require('../services/pushService');
+
+const router = express.Router();
+
+/**
+ * GET /api/push/vapid-public-key
+ * Public key the browser needs to subscribe
+ */
+router.get('/vapid-public-key', (req, res) => {
+  if (!pushService.isConfigured()) {
+    return res.status(503).json({ error: 'Push notifications are not configured' });
+  }
+  res.json({ publicKey: pushService.getPublicKey() });
+});
+
+/**
+ * POST /api/push/subscribe
+ * Save this device's PushSubscription for the current user
+ */
+router.post('/subscribe', verifyAuth, async (req, res) => {
+  try {
+    const { subscription } = req.body;
+
+    if (!subscription?.endpoint || !subscription?.keys?.p256dh || !subscription?.keys?.auth) {
+      return res.status(400).json({ error: 'A PushSubscription with endpoint and keys is required' });
+    }
+
+    await pushService.saveSubscription(req.user.id, subscription, req.headers['user-agent']);
+    res.status(201).json({ success: true });
+  } catch (error) {
+    console.error('Push subscribe error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/push/unsubscribe
+ * Forget this device's subscription
+ */
+router.post('/unsubscribe', verifyAuth, async (req, res) => {
+  try {
+    const { endpoint } = req.body;
+
+    if (!endpoint) {
+      return res.status(400).json({ error: 'Endpoint is required' });
+    }
+
+    await pushService.removeSubscription(req.user.id, endpoint);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Push unsubscribe error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/push/test
+ * Send a test push to all of the current user's devices
+ */
+router.post('/test', verifyAuth, async (req, res) => {
+  try {
+    if (!pushService.isConfigured()) {
+      return res.status(503).json({ error: 'Push notifications are not configured' });
+    }
+
+    const delivered = await pushService.sendToUser(req.user.id, {
+      type: 'TEST',
+      title: 'Test notification',
+      body: 'Push notifications are working on this device',
+      url: '/',
+    });
+
+    res.json({ success: true, delivered });
+  } catch (error) {
+    console.error('Push test error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/push/stub/:id
+ * Local stand-in for a browser push service (enabled with PUSH_STUB_ENABLED=true).
+ * Register a subscription whose endpoint points here to see pushes in the
+ * backend log without a real browser.
+ */
+if (process.env.PUSH_STUB_ENABLED === 'true') {
+  router.post('/stub/:id', express.raw({ type: '*/*', limit: '10kb' }), (req, res) => {
+    console.log('[push stub] received push', {
+      id: req.params.id,
+      ttl: req.headers.ttl,
+      encoding: req.headers['content-encoding'],
+      bytes: req.body ? req.body.length : 0,
+    });
+    res.status(201).end();
+  });
+}
+
+module.exports = router;
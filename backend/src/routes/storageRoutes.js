@@ -1,12 +1,15 @@
 /**
  * Storage Routes
- * Handles voice note uploads to local disk (replacing Supabase Storage)
+ * Handles voice note, video thumbnail and talent photo uploads to local disk (replacing Supabase Storage)
+ * and voice note transcription
  */
 
 const express = require('express');
 const multer = require('multer');
 const { verifyAuth } = require('../middleware/jwtAuth');
 const voiceNoteService = require('../services/voiceNoteService');
+const thumbnailService = require('../services/thumbnailService');
+const talentPhotoService = require('../services/talentPhotoService');
 
 const router = express.Router();
 
@@ -18,7 +21,8 @@ const upload = multer({
 
 /**
  * POST /api/storage/upload
- * Upload a file (voice note) to local storage
+ * Upload a file to local storage — bucket "thumbnails" for video poster
+ * frames, "talent-photos" for roster headshots, anything else is a voice note
  */
 router.post('/upload', verifyAuth, upload.single('file'), async (req, res) => {
   try {
@@ -33,12 +37,22 @@ router.post('/upload', verifyAuth, upload.single('file'), async (req, res) => {
       return res.status(400).json({ error: 'File path is required' });
     }
 
-    const result = await voiceNoteService.uploadFile(
+    const buckets = {
+      thumbnails: thumbnailService,
+      'talent-photos': talentPhotoService,
+    };
+    const target = buckets[req.body.bucket] || voiceNoteService;
+    const result = await target.uploadFile(
       req.file.buffer,
       filePath,
       { upsert }
     );
 
+    // Transcribe in the background; the transcript lands next to the URL later
+    if (target === voiceNoteService) {
+      voiceNoteService.queueTranscription(result.path);
+    }
+
     res.json({
       success: true,
       path: result.path,
@@ -49,6 +63,30 @@ router.post('/upload', verifyAuth, upload.single('file'), async (req, res) => {
   }
 });
 
+/**
+ * POST /api/storage/transcribe
+ * (Re)queue transcription of a stored voice note, e.g. one uploaded before
+ * transcription was set up or one that failed
+ */
+router.post('/transcribe', verifyAuth, async (req, res) => {
+  try {
+    const { path: filePath } = req.body;
+
+    if (!filePath) {
+      return res.status(400).json({ error: 'File path is required' });
+    }
+    if (!voiceNoteService.engine) {
+      return res.status(503).json({ error: 'Transcription is not configured' });
+    }
+
+    voiceNoteService.queueTranscription(filePath);
+    res.status(202).json({ success: true });
+  } catch (error) {
+    console.error('Transcription queue error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
 /**
  * GET /api/storage/list
  * List files in a bucket/folder
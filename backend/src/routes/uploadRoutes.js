@@ -3,6 +3,7 @@
  * Handles video uploads to Google Drive (replaces Supabase Storage)
  */
 
+const crypto = require('crypto');
 const express = require('express');
 const pool = require('../db');
 const googleDriveUploadService = require('../services/googleDriveUploadService');
@@ -10,6 +11,30 @@ const { verifyAuth } = require('../middleware/jwtAuth');
 
 const router = express.Router();
 
+// production_files.file_type values for an editor's cut
+const EDITED_FILE_TYPES = ['edited-video', 'EDITED_VIDEO', 'FINAL_VIDEO', 'final-video'];
+
+// Signed stream URLs for the in-app review player stay valid this long
+const STREAM_URL_TTL_SECONDS = 4 * 60 * 60;
+
+const STREAM_SECRET = process.env.JWT_SECRET;
+
+// Without a secret anyone could sign a stream URL, so callers must check first
+function signStream(fileId, expires) {
+  return crypto
+    .createHmac('sha256', STREAM_SECRET)
+    .update(`${fileId}:${expires}`)
+    .digest('hex');
+}
+
+function isValidStreamSignature(fileId, expires, sig) {
+  if (!STREAM_SECRET) return false;
+  if (!sig || !expires || Number(expires) < Math.floor(Date.now() / 1000)) return false;
+  const expected = Buffer.from(signStream(fileId, expires));
+  const given = Buffer.from(String(sig));
+  return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+}
+
 // Legacy memory-buffered upload routes — disabled (frontend uses resumable uploads)
 router.post('/raw-footage', verifyAuth, (req, res) => {
   res.status(410).json({ error: 'Legacy upload disabled. Use resumable upload.' });
@@ -103,7 +128,9 @@ router.post('/init-resumable', verifyAuth, async (req, res) => {
  */
 router.post('/finalize', verifyAuth, async (req, res) => {
   try {
-    const { analysisId, fileType, fileName, fileId, fileUrl, fileSize, mimeType } = req.body;
+    const {
+      analysisId, fileType, fileName, fileId, fileUrl, fileSize, mimeType, thumbnailUrl, durationSeconds,
+    } = req.body;
 
     if (!analysisId || !fileType || !fileName || !fileId) {
       return res.status(400).json({ error: 'Missing required fields: analysisId, fileType, fileName, fileId' });
@@ -114,12 +141,48 @@ router.post('/finalize', verifyAuth, async (req, res) => {
 
     // Save record to production_files table
     if (pool) {
-      const result = await pool.query(
-        `INSERT INTO production_files (analysis_id, file_type, file_name, file_url, file_id, file_size, mime_type, uploaded_by)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-         RETURNING *`,
-        [analysisId, fileType, fileName, fileUrl || `https://drive.google.com/file/d/${fileId}/view`, fileId, fileSize || null, mimeType || null, req.user.id]
-      );
+      const duration = Number.isFinite(durationSeconds) ? Math.round(durationSeconds) : null;
+      const isEdit = EDITED_FILE_TYPES.includes(fileType);
+
+      const client = await pool.connect();
+      let result;
+      try {
+        await client.query('BEGIN');
+
+        // Each edited upload is the next revision (v1, v2, ...) of the project's
+        // cut. Locking the project makes parallel finalizes take turns, so two
+        // uploads can't both become the same vN.
+        if (isEdit) {
+          await client.query('SELECT id FROM viral_analyses WHERE id = $1 FOR UPDATE', [analysisId]);
+        }
+
+        result = await client.query(
+          `INSERT INTO production_files (analysis_id, file_type, file_name, file_url, file_id, file_size, mime_type, uploaded_by, thumbnail_url, duration_seconds, revision_number)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10,
+             CASE WHEN $11 THEN (
+               SELECT COALESCE(MAX(revision_number), 0) + 1
+               FROM production_files
+               WHERE analysis_id = $1 AND file_type = ANY($12)
+             ) END)
+           RETURNING *`,
+          [analysisId, fileType, fileName, fileUrl || `https://drive.google.com/file/d/${fileId}/view`, fileId, fileSize || null, mimeType || null, req.user.id, thumbnailUrl || null, duration, isEdit, EDITED_FILE_TYPES]
+        );
+
+        // The newest edit is the one that gets posted
+        if (duration !== null && isEdit) {
+          await client.query(
+            'UPDATE viral_analyses SET video_duration = $1 WHERE id = $2',
+            [duration, analysisId]
+          );
+        }
+
+        await client.query('COMMIT');
+      } catch (dbError) {
+        await client.query('ROLLBACK');
+        throw dbError;
+      } finally {
+        client.release();
+      }
 
       res.json({
         success: true,
@@ -137,6 +200,75 @@ router.post('/finalize', verifyAuth, async (req, res) => {
   }
 });
 
+/**
+ * Get a short-lived URL the in-app review player can stream a Drive video from
+ * POST /api/upload/stream-url/:fileId
+ */
+router.post('/stream-url/:fileId', verifyAuth, async (req, res) => {
+  try {
+    const { fileId } = req.params;
+
+    if (!STREAM_SECRET) {
+      return res.status(500).json({ error: 'Video streaming is not configured' });
+    }
+    if (!pool) {
+      return res.status(500).json({ error: 'Database not configured' });
+    }
+
+    // Only sign links for files the app still knows about
+    const fileResult = await pool.query(
+      'SELECT 1 FROM production_files WHERE file_id = $1 AND is_deleted = false LIMIT 1',
+      [fileId]
+    );
+    if (fileResult.rows.length === 0) {
+      return res.status(404).json({ error: 'File not found' });
+    }
+
+    const expires = Math.floor(Date.now() / 1000) + STREAM_URL_TTL_SECONDS;
+    const sig = signStream(fileId, expires);
+    res.json({ url: `/api/upload/stream/${encodeURIComponent(fileId)}?expires=${expires}&sig=${sig}` });
+  } catch (error) {
+    console.error('Stream URL error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * Stream a Drive video with HTTP Range support so <video> can seek
+ * GET /api/upload/stream/:fileId?expires=...&sig=...
+ * <video> can't send an Authorization header, so the URL itself is signed.
+ */
+router.get('/stream/:fileId', async (req, res) => {
+  const { fileId } = req.params;
+  const { expires, sig } = req.query;
+
+  if (!isValidStreamSignature(fileId, expires, sig)) {
+    return res.status(403).json({ error: 'Stream link is invalid or has expired' });
+  }
+
+  try {
+    const { stream, status, headers } = await googleDriveUploadService.downloadFileRange(fileId, req.headers.range);
+
+    res.status(status);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader('Cache-Control', 'private, max-age=3600');
+    for (const header of ['content-type', 'content-length', 'content-range']) {
+      if (headers[header]) res.setHeader(header, headers[header]);
+    }
+
+    stream.on('error', (err) => {
+      console.error('Stream error:', err.message);
+      res.destroy(err);
+    });
+    req.on('close', () => stream.destroy());
+    stream.pipe(res);
+  } catch (error) {
+    const status = error.response?.status === 416 ? 416 : 500;
+    console.error('Video stream error:', error.message);
+    if (!res.headersSent) res.status(status).json({ error: error.message });
+  }
+});
+
 /**
  * Download multiple files as a streamed zip
  * GET /api/upload/download-zip?fileIds=id1,id2&name=project-name
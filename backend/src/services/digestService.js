@@ -0,0 +1,55 @@
+/**
+ * Daily Digest Service
+ * Once a day, at DIGEST_HOUR (server time), runs send_daily_digests() (see
+ * the notifications_daily_digest migration), which sends each user who
+ * turned on the daily digest a summary of their unread notifications.
+ */
+
+const pool = require('../db');
+
+const DIGEST_HOUR = parseInt(process.env.DIGEST_HOUR, 10);
+const SEND_HOUR = Number.isInteger(DIGEST_HOUR) && DIGEST_HOUR >= 0 && DIGEST_HOUR < 24 ? DIGEST_HOUR : 8;
+const CHECK_INTERVAL_MINUTES = 15;
+
+class DigestService {
+  constructor() {
+    this.timer = null;
+  }
+
+  /**
+   * Send digests now. Resolves with how many users got one.
+   */
+  async sendDigests() {
+    if (!pool) return 0;
+    const { rows } = await pool.query('SELECT send_daily_digests() AS sent');
+    return rows[0]?.sent || 0;
+  }
+
+  start() {
+    if (!pool || this.timer) return;
+
+    // Checked every few minutes rather than scheduled, so a restart during
+    // the digest hour still sends; the database skips anyone already sent today
+    const run = () => {
+      if (new Date().getHours() !== SEND_HOUR) return;
+      this.sendDigests()
+        .then((count) => {
+          if (count > 0) console.log(`Sent ${count} daily digest(s)`);
+        })
+        .catch((error) => {
+          console.error('Daily digest failed:', error.message);
+        });
+    };
+
+    run();
+    this.timer = setInterval(run, CHECK_INTERVAL_MINUTES * 60 * 1000);
+    console.log(`Daily digest scheduled for ${SEND_HOUR}:00`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new DigestService();
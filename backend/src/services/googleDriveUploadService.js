@@ -235,6 +235,23 @@ class GoogleDriveUploadService {
     return response.data;
   }
 
+  /**
+   * Download a byte range of a file as a stream (for video seeking)
+   * @param {string} fileId - File ID
+   * @param {string} [range] - HTTP Range header value, e.g. "bytes=0-"
+   * @returns {Promise<{ stream: import('stream').Readable, status: number, headers: object }>}
+   */
+  async downloadFileRange(fileId, range) {
+    await this.initialize();
+
+    const response = await this.drive.files.get(
+      { fileId, alt: 'media', supportsAllDrives: true },
+      { responseType: 'stream', headers: range ? { Range: range } : {} }
+    );
+
+    return { stream: response.data, status: response.status, headers: response.headers };
+  }
+
   /**
    * Create a resumable upload session and return the resumable URI.
    * The URI is a capability URL — no auth header is needed when uploading chunks to it.
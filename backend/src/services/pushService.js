@@ -0,0 +1,238 @@
+/**
+ * Web Push Service
+ * Stores device subscriptions and delivers notifications via VAPID Web Push.
+ *
+ * Pushes are triggered by the notification_created channel (see the
+ * push_subscriptions migration), so every row create_notifications() inserts
+ * is also sent to the recipient's devices.
+ */
+
+const webpush = require('web-push');
+const pool = require('../db');
+
+const VAPID_PUBLIC_KEY = process.env.VAPID_PUBLIC_KEY;
+const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY;
+const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:admin@2xg.in';
+
+const LISTEN_CHANNEL = 'notification_created';
+const RECONNECT_DELAY_MS = 5000;
+const PUSH_TTL_SECONDS = 60 * 60 * 24; // 24 hours
+
+// Where tapping a notification opens the app, per profile role
+const ROLE_BASE_PATHS = {
+  SUPER_ADMIN: 'admin',
+  CREATOR: 'admin',
+  SCRIPT_WRITER: 'writer',
+  VIDEOGRAPHER: 'videographer',
+  EDITOR: 'editor',
+  POSTING_MANAGER: 'posting',
+};
+
+class PushService {
+  constructor() {
+    this.listenClient = null;
+    this.reconnectTimer = null;
+    this.stopped = false;
+
+    if (this.isConfigured()) {
+      webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY);
+    } else {
+      console.warn('VAPID keys not configured — Web Push is disabled');
+    }
+  }
+
+  isConfigured() {
+    return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+  }
+
+  getPublicKey() {
+    return VAPID_PUBLIC_KEY || null;
+  }
+
+  /**
+   * Save (or move to this user) a browser PushSubscription
+   * @param {string} userId
+   * @param {{ endpoint: string, keys: { p256dh: string, auth: string } }} subscription
+   * @param {string} [userAgent]
+   */
+  async saveSubscription(userId, subscription, userAgent) {
+    await pool.query(
+      `INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (endpoint) DO UPDATE
+         SET user_id = EXCLUDED.user_id,
+             p256dh = EXCLUDED.p256dh,
+             auth = EXCLUDED.auth,
+             user_agent = EXCLUDED.user_agent`,
+      [userId, subscription.endpoint, subscription.keys.p256dh, subscription.keys.auth, userAgent || null]
+    );
+  }
+
+  /**
+   * Remove one of the user's subscriptions
+   */
+  async removeSubscription(userId, endpoint) {
+    await pool.query(
+      'DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2',
+      [userId, endpoint]
+    );
+  }
+
+  /**
+   * Send a payload to every device the user has subscribed.
+   * Subscriptions the push service reports as gone (404/410) are deleted.
+   * @returns {Promise<number>} number of devices that accepted the push
+   */
+  async sendToUser(userId, payload) {
+    if (!this.isConfigured()) return 0;
+
+    const { rows } = await pool.query(
+      'SELECT id, endpoint, p256dh, auth FROM push_subscriptions WHERE user_id = $1',
+      [userId]
+    );
+
+    const body = JSON.stringify(payload);
+    let delivered = 0;
+
+    await Promise.all(rows.map(async (row) => {
+      try {
+        await webpush.sendNotification(
+          { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+          body,
+          { TTL: PUSH_TTL_SECONDS }
+        );
+        delivered++;
+        await pool.query('UPDATE push_subscriptions SET last_used_at = NOW() WHERE id = $1', [row.id]);
+      } catch (error) {
+        if (error.statusCode === 404 || error.statusCode === 410) {
+          await pool.query('DELETE FROM push_subscriptions WHERE id = $1', [row.id]);
+        } else {
+          console.error('Web Push send failed:', error.statusCode || '', error.message);
+        }
+      }
+    }));
+
+    return delivered;
+  }
+
+  /**
+   * Build the push payload for a notifications row and send it
+   */
+  async pushNotification(notificationId) {
+    const { rows } = await pool.query(
+      `SELECT n.id, n.user_id, n.type, n.title, n.body, n.analysis_id, p.role
+       FROM notifications n
+       JOIN profiles p ON p.id = n.user_id
+       WHERE n.id = $1`,
+      [notificationId]
+    );
+
+    const notification = rows[0];
+    if (!notification) return;
+
+    await this.sendToUser(notification.user_id, {
+      id: notification.id,
+      type: notification.type,
+      title: notification.title,
+      body: notification.body || '',
+      url: this.getNotificationUrl(notification),
+    });
+  }
+
+  /**
+   * Mirrors the in-app bell's links so tapping a push opens the same page
+   */
+  getNotificationUrl(notification) {
+    const base = ROLE_BASE_PATHS[(notification.role || '').toUpperCase()];
+    if (!base) return '/';
+    if (!notification.analysis_id) return `/${base}`;
+
+    if (notification.type === 'PROJECT_AVAILABLE' && (base === 'videographer' || base === 'editor')) {
+      return `/${base}/available`;
+    }
+
+    switch (base) {
+      case 'posting':
+        return `/posting/post/${notification.analysis_id}`;
+      case 'writer':
+        return `/writer/scripts/${notification.analysis_id}`;
+      default:
+        return `/${base}/project/${notification.analysis_id}`;
+    }
+  }
+
+  /**
+   * LISTEN for new notification rows and push them. Reconnects if the
+   * dedicated connection drops.
+   */
+  async startListener() {
+    if (!pool || !this.isConfigured()) return;
+    this.stopped = false;
+
+    try {
+      const client = await pool.connect();
+      this.listenClient = client;
+
+      client.on('notification', (msg) => {
+        if (msg.channel !== LISTEN_CHANNEL || !msg.payload) return;
+        this.pushNotification(msg.payload).catch((error) => {
+          console.error('Failed to push notification:', error.message);
+        });
+      });
+
+      client.on('error', (error) => {
+        console.error('Push listener connection error:', error.message);
+        this._restartListener(client);
+      });
+
+      client.on('end', () => {
+        this._restartListener(client);
+      });
+
+      await client.query(`LISTEN ${LISTEN_CHANNEL}`);
+      console.log('Web Push listener started');
+    } catch (error) {
+      console.error('Failed to start push listener:', error.message);
+      this._restartListener();
+    }
+  }
+
+  /**
+   * Drop the current connection and reconnect after a delay. A dropped
+   * connection can emit both 'error' and 'end', so only one reconnect is
+   * ever pending, and events from a connection already replaced are ignored.
+   */
+  _restartListener(client) {
+    if (client && client !== this.listenClient) return;
+
+    if (this.listenClient) {
+      const current = this.listenClient;
+      this.listenClient = null;
+      current.release(true);
+    }
+    if (this.stopped || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.startListener();
+    }, RECONNECT_DELAY_MS);
+  }
+
+  async stopListener() {
+    this.stopped = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (!this.listenClient) return;
+    const client = this.listenClient;
+    this.listenClient = null;
+    try {
+      await client.query(`UNLISTEN ${LISTEN_CHANNEL}`);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+module.exports = new PushService();
@@ -0,0 +1,50 @@
+/**
+ * Stage SLA Escalation Service
+ * Periodically runs escalate_overdue_projects() (see the stage_sla migration),
+ * which notifies admins once about each project that has been in its current
+ * production stage longer than the configured limit.
+ */
+
+const pool = require('../db');
+
+const CHECK_INTERVAL_MINUTES = parseInt(process.env.SLA_CHECK_INTERVAL_MINUTES, 10) || 15;
+
+class SlaService {
+  constructor() {
+    this.timer = null;
+  }
+
+  /**
+   * Escalate overdue projects now. Resolves with how many were escalated.
+   */
+  async checkOverdue() {
+    if (!pool) return 0;
+    const { rows } = await pool.query('SELECT escalate_overdue_projects() AS escalated');
+    return rows[0]?.escalated || 0;
+  }
+
+  start() {
+    if (!pool || this.timer) return;
+
+    const run = () => {
+      this.checkOverdue()
+        .then((count) => {
+          if (count > 0) console.log(`SLA check escalated ${count} overdue project(s)`);
+        })
+        .catch((error) => {
+          console.error('SLA check failed:', error.message);
+        });
+    };
+
+    run();
+    this.timer = setInterval(run, CHECK_INTERVAL_MINUTES * 60 * 1000);
+    console.log(`SLA escalation check running every ${CHECK_INTERVAL_MINUTES} minutes`);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+}
+
+module.exports = new SlaService();
@@ -0,0 +1,64 @@
+/**
+ * Talent Photo Storage Service
+ * Stores headshots for the talent roster on local disk
+ */
+
+const fs = require('fs');
+const fsPromises = require('fs/promises');
+const path = require('path');
+
+const TALENT_PHOTOS_DIR = path.resolve(process.env.TALENT_PHOTOS_DIR || '/data/talent-photos');
+
+class TalentPhotoService {
+  constructor() {
+    // Sync init is fine — runs once at startup
+    if (!fs.existsSync(TALENT_PHOTOS_DIR)) {
+      fs.mkdirSync(TALENT_PHOTOS_DIR, { recursive: true });
+      console.log(`Created talent photos directory: ${TALENT_PHOTOS_DIR}`);
+    }
+  }
+
+  /**
+   * Validate and resolve a relative file path against the base directory.
+   * Prevents path traversal attacks.
+   */
+  _validatePath(filePath) {
+    const normalized = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, '');
+    if (normalized !== path.normalize(filePath) || path.isAbsolute(filePath)) {
+      throw new Error('Invalid file path');
+    }
+    const fullPath = path.resolve(TALENT_PHOTOS_DIR, normalized);
+    if (!fullPath.startsWith(TALENT_PHOTOS_DIR + path.sep)) {
+      throw new Error('Invalid file path');
+    }
+    return fullPath;
+  }
+
+  /**
+   * Save a talent photo
+   * @param {Buffer} fileBuffer - Image content
+   * @param {string} filePath - Relative path (e.g. "talentId/1700000000000.jpg")
+   * @param {object} options - { upsert }
+   * @returns {{ path: string }}
+   */
+  async uploadFile(fileBuffer, filePath, options = {}) {
+    const fullPath = this._validatePath(filePath);
+    await fsPromises.mkdir(path.dirname(fullPath), { recursive: true });
+
+    if (!options.upsert && fs.existsSync(fullPath)) {
+      throw new Error(`File already exists: ${filePath}`);
+    }
+
+    await fsPromises.writeFile(fullPath, fileBuffer);
+    return { path: filePath };
+  }
+
+  /**
+   * Get the base directory for serving static files
+   */
+  getBaseDir() {
+    return TALENT_PHOTOS_DIR;
+  }
+}
+
+module.exports = new TalentPhotoService();
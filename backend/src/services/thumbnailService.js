@@ -0,0 +1,64 @@
+/**
+ * Thumbnail Storage Service
+ * Stores video poster frames (generated in the browser at upload time) on local disk
+ */
+
+const fs = require('fs');
+const fsPromises = require('fs/promises');
+const path = require('path');
+
+const THUMBNAILS_DIR = path.resolve(process.env.THUMBNAILS_DIR || '/data/thumbnails');
+
+class ThumbnailService {
+  constructor() {
+    // Sync init is fine — runs once at startup
+    if (!fs.existsSync(THUMBNAILS_DIR)) {
+      fs.mkdirSync(THUMBNAILS_DIR, { recursive: true });
+      console.log(`Created thumbnails directory: ${THUMBNAILS_DIR}`);
+    }
+  }
+
+  /**
+   * Validate and resolve a relative file path against the base directory.
+   * Prevents path traversal attacks.
+   */
+  _validatePath(filePath) {
+    const normalized = path.normalize(filePath).replace(/^(\.\.(\/|\\|$))+/, '');
+    if (normalized !== path.normalize(filePath) || path.isAbsolute(filePath)) {
+      throw new Error('Invalid file path');
+    }
+    const fullPath = path.resolve(THUMBNAILS_DIR, normalized);
+    if (!fullPath.startsWith(THUMBNAILS_DIR + path.sep)) {
+      throw new Error('Invalid file path');
+    }
+    return fullPath;
+  }
+
+  /**
+   * Save a thumbnail image
+   * @param {Buffer} fileBuffer - JPEG content
+   * @param {string} filePath - Relative path (e.g. "analysisId/1700000000000-0.jpg")
+   * @param {object} options - { upsert }
+   * @returns {{ path: string }}
+   */
+  async uploadFile(fileBuffer, filePath, options = {}) {
+    const fullPath = this._validatePath(filePath);
+    await fsPromises.mkdir(path.dirname(fullPath), { recursive: true });
+
+    if (!options.upsert && fs.existsSync(fullPath)) {
+      throw new Error(`File already exists: ${filePath}`);
+    }
+
+    await fsPromises.writeFile(fullPath, fileBuffer);
+    return { path: filePath };
+  }
+
+  /**
+   * Get the base directory for serving static files
+   */
+  getBaseDir() {
+    return THUMBNAILS_DIR;
+  }
+}
+
+module.exports = new ThumbnailService();
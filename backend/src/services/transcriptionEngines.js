@@ -0,0 +1,97 @@
+/**
+ * Transcription Engines
+ * Speech-to-text backends for voice notes. An engine is any object with
+ *
+ *   name: string
+ *   transcribe(filePath): Promise<{ text: string }>
+ *
+ * where filePath is an absolute path to the audio file. TRANSCRIPTION_ENGINE
+ * picks one at startup: "whisper" runs a local whisper.cpp-style binary,
+ * "stub" returns canned text (tests, local development), anything else
+ * turns transcription off.
+ */
+
+const { execFile } = require('child_process');
+const fsPromises = require('fs/promises');
+const os = require('os');
+const path = require('path');
+
+const run = (bin, args, timeoutMs) => new Promise((resolve, reject) => {
+  execFile(bin, args, { timeout: timeoutMs, maxBuffer: 10 * 1024 * 1024 }, (error, stdout, stderr) => {
+    if (error) {
+      error.message = `${path.basename(bin)} failed: ${(stderr || error.message).toString().trim().slice(0, 500)}`;
+      return reject(error);
+    }
+    resolve(stdout.toString());
+  });
+});
+
+/**
+ * Local whisper.cpp-style CLI. Browser recordings are WebM/Opus, which
+ * whisper.cpp can't read, so each note is first converted to 16 kHz mono
+ * WAV with ffmpeg.
+ */
+class WhisperCliEngine {
+  constructor(options = {}) {
+    this.name = 'whisper';
+    this.bin = options.bin || process.env.WHISPER_BIN || 'whisper-cli';
+    this.model = options.model || process.env.WHISPER_MODEL || '/models/ggml-base.bin';
+    this.ffmpegBin = options.ffmpegBin || process.env.FFMPEG_BIN || 'ffmpeg';
+    // "auto" lets whisper detect the language (Hindi, English, ...)
+    this.language = options.language || process.env.WHISPER_LANGUAGE || 'auto';
+    this.threads = options.threads || parseInt(process.env.WHISPER_THREADS, 10) || 2;
+    this.timeoutMs = options.timeoutMs || 5 * 60 * 1000;
+  }
+
+  async transcribe(filePath) {
+    const tmpDir = await fsPromises.mkdtemp(path.join(os.tmpdir(), 'transcribe-'));
+    const wavPath = path.join(tmpDir, 'audio.wav');
+
+    try {
+      await run(this.ffmpegBin, ['-nostdin', '-y', '-i', filePath, '-ar', '16000', '-ac', '1', wavPath], this.timeoutMs);
+      const output = await run(this.bin, [
+        '-m', this.model,
+        '-f', wavPath,
+        '-l', this.language,
+        '-t', String(this.threads),
+        '--no-timestamps',
+        '--no-prints',
+      ], this.timeoutMs);
+
+      return { text: output.replace(/\s+/g, ' ').trim() };
+    } finally {
+      await fsPromises.rm(tmpDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * Returns fixed text without touching the audio
+ */
+class StubEngine {
+  constructor(text) {
+    this.name = 'stub';
+    this.text = text;
+  }
+
+  async transcribe(filePath) {
+    return { text: this.text ?? `Transcript of ${path.basename(filePath)}` };
+  }
+}
+
+/**
+ * Engine for the given name (defaults to TRANSCRIPTION_ENGINE), or null when
+ * transcription is off
+ */
+function createEngine(name = process.env.TRANSCRIPTION_ENGINE) {
+  switch ((name || '').toLowerCase()) {
+    case 'whisper':
+      return new WhisperCliEngine();
+    case 'stub':
+      return new StubEngine();
+    default:
+      return null;
+  }
+}
+
+module.exports = { WhisperCliEngine, StubEngine, createEngine };
@@ -1,11 +1,17 @@
 /**
  * Voice Note Storage Service
- * Stores voice notes on local disk, replacing Supabase Storage
+ * Stores voice notes on local disk, replacing Supabase Storage, and
+ * transcribes them in the background with the configured engine (see
+ * transcriptionEngines). Transcripts are saved with
+ * apply_voice_note_transcript() (see the voice_note_transcripts migration),
+ * which copies them next to the voice note URLs that point at the file.
  */
 
 const fs = require('fs');
 const fsPromises = require('fs/promises');
 const path = require('path');
+const pool = require('../db');
+const { createEngine } = require('./transcriptionEngines');
 
 const VOICE_NOTES_DIR = path.resolve(process.env.VOICE_NOTES_DIR || '/data/voice-notes');
 
@@ -16,6 +22,11 @@ class VoiceNoteService {
       fs.mkdirSync(VOICE_NOTES_DIR, { recursive: true });
       console.log(`Created voice notes directory: ${VOICE_NOTES_DIR}`);
     }
+
+    this.engine = createEngine();
+    // Notes are transcribed one at a time — the engine is CPU-heavy
+    this.queue = [];
+    this.processing = null;
   }
 
   /**
@@ -116,6 +127,71 @@ class VoiceNoteService {
     return results;
   }
 
+  /**
+   * Swap the transcription engine (null turns transcription off)
+   * @param {{ name: string, transcribe: (filePath: string) => Promise<{ text: string }> } | null} engine
+   */
+  setEngine(engine) {
+    this.engine = engine;
+  }
+
+  /**
+   * Transcribe a stored voice note now
+   * @param {string} filePath - Relative path
+   * @returns {Promise<string>} Transcript text
+   */
+  async transcribe(filePath) {
+    if (!this.engine) throw new Error('Transcription is not configured');
+    const fullPath = this._validatePath(filePath);
+    await fsPromises.access(fullPath);
+
+    const { text } = await this.engine.transcribe(fullPath);
+    return (text || '').trim();
+  }
+
+  /**
+   * Queue a voice note for transcription and store the result. Never
+   * throws — the upload has already succeeded, and a failed transcript is
+   * recorded as FAILED in voice_note_transcripts.
+   * @param {string} filePath - Relative path
+   * @returns {Promise<void>} Resolves once this note has been processed
+   */
+  queueTranscription(filePath) {
+    if (!this.engine || !pool) return Promise.resolve();
+
+    return new Promise((resolve) => {
+      this.queue.push({ filePath, resolve });
+      if (!this.processing) {
+        this.processing = this._processQueue().finally(() => {
+          this.processing = null;
+        });
+      }
+    });
+  }
+
+  async _processQueue() {
+    while (this.queue.length > 0) {
+      const { filePath, resolve } = this.queue.shift();
+      try {
+        await pool.query(
+          `INSERT INTO voice_note_transcripts (path, status)
+           VALUES ($1, 'PENDING')
+           ON CONFLICT (path) DO UPDATE SET status = 'PENDING', error = NULL`,
+          [filePath]
+        );
+        const text = await this.transcribe(filePath);
+        await pool.query('SELECT apply_voice_note_transcript($1, $2, $3)', [filePath, text, this.engine.name]);
+      } catch (error) {
+        console.error(`Transcription failed for ${filePath}:`, error.message);
+        await pool.query(
+          `UPDATE voice_note_transcripts SET status = 'FAILED', error = $2, completed_at = NOW() WHERE path = $1`,
+          [filePath, error.message.slice(0, 1000)]
+        ).catch((dbError) => console.error('Failed to record transcription failure:', dbError.message));
+      }
+      resolve();
+    }
+  }
+
   /**
    * Get the base directory for serving static files
    */
@@ -0,0 +1,146 @@
+-- Migration: Workload-aware auto-assignment
+-- Date: 2026-10-18
+-- Purpose: Let admins switch PLANNING (videographer) and READY_FOR_EDIT
+--          (editor) projects from self-pick to auto-assignment. Who gets a
+--          project is decided in the app (priority, deadline, current load,
+--          skips, profile familiarity); the database keeps the per-role
+--          settings, the reason each assignment was made, and an
+--          assign_project() RPC that claims a project on someone else's
+--          behalf. pick_project() now calls it too, so self-picks and
+--          assignments share one set of locking and checks.
+
+-- ─── assignment_settings ────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.assignment_settings (
+  role TEXT PRIMARY KEY CHECK (role IN ('VIDEOGRAPHER', 'EDITOR')),
+  auto_assign BOOLEAN NOT NULL DEFAULT false,
+  -- Nobody is auto-assigned past this many active projects
+  max_active INTEGER NOT NULL DEFAULT 3 CHECK (max_active > 0),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.assignment_settings (role)
+VALUES ('VIDEOGRAPHER'), ('EDITOR')
+ON CONFLICT (role) DO NOTHING;
+
+-- ─── project_assignments ────────────────────────────────────────────────────
+
+ALTER TABLE public.project_assignments
+  ADD COLUMN IF NOT EXISTS assignment_reason TEXT,
+  ADD COLUMN IF NOT EXISTS auto_assigned BOOLEAN NOT NULL DEFAULT false;
+
+-- ─── assign_project ─────────────────────────────────────────────────────────
+-- The one place a project is claimed: pick_project() calls this with the
+-- picker as both assignee and assigner (see 20261018_pick_project_rpc.sql),
+-- auto-assignment and admins call it on someone else's behalf. The analysis row is locked for the whole claim.
+-- Raises PT409 when the project was picked or moved on in the meantime.
+
+CREATE OR REPLACE FUNCTION assign_project(
+    p_analysis_id UUID,
+    p_user_id UUID,
+    p_role TEXT,
+    p_assigned_by UUID,
+    p_reason TEXT DEFAULT NULL,
+    p_auto BOOLEAN DEFAULT false,
+    p_profile_id UUID DEFAULT NULL,
+    p_deadline TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_stage TEXT;
+    v_content_id TEXT;
+    v_profile_id UUID;
+BEGIN
+    IF p_role NOT IN ('VIDEOGRAPHER', 'EDITOR') THEN
+        RAISE EXCEPTION 'Invalid role for assign_project: %', p_role;
+    END IF;
+
+    -- Lock the analysis row so concurrent claims on the same project serialize here
+    SELECT production_stage, content_id, profile_id INTO v_stage, v_content_id, v_profile_id
+    FROM viral_analyses
+    WHERE id = p_analysis_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Project not found' USING ERRCODE = 'PT404';
+    END IF;
+
+    -- Stage check (legacy planning stages and NULL count as PLANNING)
+    IF p_role = 'VIDEOGRAPHER'
+       AND v_stage IS NOT NULL
+       AND v_stage NOT IN ('PLANNING', 'NOT_STARTED', 'PRE_PRODUCTION', 'PLANNED') THEN
+        RAISE EXCEPTION 'This project is no longer available' USING ERRCODE = 'PT409';
+    END IF;
+
+    IF p_role = 'EDITOR' AND v_stage IS DISTINCT FROM 'READY_FOR_EDIT' THEN
+        RAISE EXCEPTION 'This project is no longer available for editing' USING ERRCODE = 'PT409';
+    END IF;
+
+    -- Assignment check
+    IF EXISTS (
+        SELECT 1 FROM project_assignments
+        WHERE analysis_id = p_analysis_id AND role = p_role
+    ) THEN
+        IF p_role = 'EDITOR' THEN
+            RAISE EXCEPTION 'This project has already been picked by another editor' USING ERRCODE = 'PT409';
+        END IF;
+        RAISE EXCEPTION 'This project has already been picked' USING ERRCODE = 'PT409';
+    END IF;
+
+    IF p_role = 'VIDEOGRAPHER' THEN
+        v_profile_id := COALESCE(p_profile_id, v_profile_id);
+
+        -- Generate content_id once the project has a profile
+        IF v_profile_id IS NOT NULL AND COALESCE(v_content_id, '') = '' THEN
+            v_content_id := generate_content_id_on_approval(p_analysis_id, v_profile_id);
+        END IF;
+
+        UPDATE viral_analyses
+        SET production_stage = 'SHOOTING',
+            production_started_at = NOW(),
+            profile_id = v_profile_id,
+            deadline = COALESCE(p_deadline, deadline)
+        WHERE id = p_analysis_id;
+    ELSE
+        -- Editors can only get projects that actually have raw footage
+        IF NOT EXISTS (
+            SELECT 1 FROM production_files
+            WHERE analysis_id = p_analysis_id
+              AND is_deleted = false
+              AND file_type IN ('RAW_FOOTAGE', 'A_ROLL', 'B_ROLL', 'HOOK', 'BODY', 'CTA', 'AUDIO_CLIP', 'OTHER', 'raw-footage')
+        ) THEN
+            RAISE EXCEPTION 'This project has no raw footage files';
+        END IF;
+
+        UPDATE viral_analyses
+        SET production_stage = 'EDITING'
+        WHERE id = p_analysis_id;
+    END IF;
+
+    INSERT INTO project_assignments (analysis_id, user_id, role, assigned_by, assignment_reason, auto_assigned)
+    VALUES (p_analysis_id, p_user_id, p_role, p_assigned_by, p_reason, p_auto);
+
+    RETURN v_content_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION assign_project(UUID, UUID, TEXT, UUID, TEXT, BOOLEAN, UUID, TIMESTAMPTZ) TO anon;
+GRANT EXECUTE ON FUNCTION assign_project(UUID, UUID, TEXT, UUID, TEXT, BOOLEAN, UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION assign_project(UUID, UUID, TEXT, UUID, TEXT, BOOLEAN, UUID, TIMESTAMPTZ) TO service_role;
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.assignment_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read assignment_settings" ON public.assignment_settings;
+CREATE POLICY "Anon can read assignment_settings"
+  ON public.assignment_settings FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can update assignment_settings" ON public.assignment_settings;
+CREATE POLICY "Anon can update assignment_settings"
+  ON public.assignment_settings FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+GRANT SELECT, UPDATE ON public.assignment_settings TO anon;
@@ -0,0 +1,39 @@
+-- Migration: Edited-video revisions
+-- Date: 2026-10-18
+-- Purpose: Number each edited-video upload per project (v1, v2, ...) so a
+--          re-edit after a rejection is linked to the cut it replaces.
+--          The backend assigns revision_number on finalize, with the project
+--          row locked; a unique index backs that up. When an admin
+--          rejects an edit, the reason is stored on the revision(s) it was
+--          about, so the compare view can show what v2 had to fix.
+
+-- ─── production_files ───────────────────────────────────────────────────────
+
+ALTER TABLE public.production_files
+  ADD COLUMN IF NOT EXISTS revision_number INTEGER,
+  ADD COLUMN IF NOT EXISTS revision_rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS revision_rejected_at TIMESTAMPTZ;
+
+-- ─── Backfill ───────────────────────────────────────────────────────────────
+-- Existing edits are numbered in upload order. Rejection reasons from before
+-- this migration only live in viral_analyses.production_notes and are not
+-- split back out.
+
+WITH numbered AS (
+  SELECT id,
+         ROW_NUMBER() OVER (PARTITION BY analysis_id ORDER BY created_at, id) AS rn
+  FROM public.production_files
+  WHERE file_type IN ('edited-video', 'EDITED_VIDEO', 'final-video', 'FINAL_VIDEO')
+    AND revision_number IS NULL
+)
+UPDATE public.production_files pf
+SET revision_number = numbered.rn
+FROM numbered
+WHERE pf.id = numbered.id;
+
+-- ─── One file per revision ──────────────────────────────────────────────────
+-- Created after the backfill, which numbers each project's edits uniquely
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_production_files_analysis_revision
+  ON public.production_files(analysis_id, revision_number)
+  WHERE revision_number IS NOT NULL;
@@ -0,0 +1,15 @@
+-- Migration: Per-file review
+-- Date: 2026-10-18
+-- Purpose: production_files.approval_status / review_notes have existed since
+--          the initial schema but were never set from the app. Admins now
+--          approve or reject individual files; rejected footage is listed
+--          for the uploader to re-shoot and blocks marking the shoot complete.
+--          FILE_REJECTED notifications follow the "approvals" preference
+--          (see 20261018_notifications_file_rejected.sql).
+
+-- ─── production_files ───────────────────────────────────────────────────────
+
+-- The uploader's "needs re-shoot" list
+CREATE INDEX IF NOT EXISTS idx_production_files_rejected_uploader
+  ON public.production_files(uploaded_by, reviewed_at DESC)
+  WHERE approval_status = 'rejected' AND is_deleted = false;
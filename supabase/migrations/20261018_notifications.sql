@@ -0,0 +1,142 @@
+-- Migration: In-app notifications and per-user notification preferences
+-- Date: 2026-10-18
+-- Purpose: The SettingsPage notification toggles were local state only. This
+--          adds a notifications inbox, persists the toggles per user, and
+--          routes every notification through create_notifications() so the
+--          preferences decide what is actually delivered.
+--
+--          Preference mapping:
+--            new_scripts  → PROJECT_AVAILABLE
+--            approvals    → SCRIPT_APPROVED, SCRIPT_REJECTED, EDIT_APPROVED, EDIT_REJECTED
+--            mentions     → MENTION
+--            daily_digest → DAILY_DIGEST summary (20261018_notifications_daily_digest.sql),
+--                           not used for instant delivery
+
+-- ─── notification_preferences ───────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  new_scripts BOOLEAN NOT NULL DEFAULT true,
+  approvals BOOLEAN NOT NULL DEFAULT true,
+  mentions BOOLEAN NOT NULL DEFAULT true,
+  daily_digest BOOLEAN NOT NULL DEFAULT false,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- ─── notifications ──────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  analysis_id UUID REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON public.notifications(user_id) WHERE read_at IS NULL;
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read notification_preferences" ON public.notification_preferences;
+CREATE POLICY "Anon can read notification_preferences"
+  ON public.notification_preferences FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert notification_preferences" ON public.notification_preferences;
+CREATE POLICY "Anon can insert notification_preferences"
+  ON public.notification_preferences FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update notification_preferences" ON public.notification_preferences;
+CREATE POLICY "Anon can update notification_preferences"
+  ON public.notification_preferences FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+-- Inserts go through create_notifications() so preferences are always applied
+DROP POLICY IF EXISTS "Anon can read notifications" ON public.notifications;
+CREATE POLICY "Anon can read notifications"
+  ON public.notifications FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can update notifications" ON public.notifications;
+CREATE POLICY "Anon can update notifications"
+  ON public.notifications FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.notification_preferences TO anon;
+GRANT SELECT, UPDATE ON public.notifications TO anon;
+
+-- ─── create_notifications ───────────────────────────────────────────────────
+-- Recipients are the union of:
+--   p_user_ids        explicit users (script author, mentioned users)
+--   p_roles           everyone with that profile role (e.g. all VIDEOGRAPHERs)
+--   p_assignee_roles  whoever is assigned to the project in that role (e.g. EDITOR)
+-- minus the actor, minus anyone who turned the matching preference off.
+-- Body defaults to the project title.
+
+CREATE OR REPLACE FUNCTION create_notifications(
+    p_type TEXT,
+    p_title TEXT,
+    p_analysis_id UUID DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL,
+    p_body TEXT DEFAULT NULL,
+    p_user_ids UUID[] DEFAULT '{}',
+    p_roles TEXT[] DEFAULT '{}',
+    p_assignee_roles TEXT[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_body TEXT := p_body;
+    v_count INTEGER;
+BEGIN
+    IF v_body IS NULL AND p_analysis_id IS NOT NULL THEN
+        SELECT COALESCE(NULLIF(title, ''), content_id, 'Untitled project') INTO v_body
+        FROM viral_analyses
+        WHERE id = p_analysis_id;
+    END IF;
+
+    WITH recipients AS (
+        SELECT unnest(COALESCE(p_user_ids, '{}')) AS user_id
+        UNION
+        SELECT id FROM profiles WHERE UPPER(role) = ANY (COALESCE(p_roles, '{}'))
+        UNION
+        SELECT user_id FROM project_assignments
+        WHERE analysis_id = p_analysis_id AND role = ANY (COALESCE(p_assignee_roles, '{}'))
+    ),
+    allowed AS (
+        SELECT r.user_id
+        FROM recipients r
+        LEFT JOIN notification_preferences np ON np.user_id = r.user_id
+        WHERE r.user_id IS NOT NULL
+          AND r.user_id IS DISTINCT FROM p_actor_id
+          AND CASE
+                WHEN p_type = 'PROJECT_AVAILABLE' THEN COALESCE(np.new_scripts, true)
+                WHEN p_type IN ('SCRIPT_APPROVED', 'SCRIPT_REJECTED', 'EDIT_APPROVED', 'EDIT_REJECTED')
+                  THEN COALESCE(np.approvals, true)
+                WHEN p_type = 'MENTION' THEN COALESCE(np.mentions, true)
+                ELSE true
+              END
+    )
+    INSERT INTO notifications (user_id, type, title, body, analysis_id, actor_id)
+    SELECT user_id, p_type, p_title, v_body, p_analysis_id, p_actor_id
+    FROM allowed;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION create_notifications(TEXT, TEXT, UUID, UUID, TEXT, UUID[], TEXT[], TEXT[]) TO anon;
+GRANT EXECUTE ON FUNCTION create_notifications(TEXT, TEXT, UUID, UUID, TEXT, UUID[], TEXT[], TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_notifications(TEXT, TEXT, UUID, UUID, TEXT, UUID[], TEXT[], TEXT[]) TO service_role;
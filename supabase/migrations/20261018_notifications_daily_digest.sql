@@ -0,0 +1,68 @@
+-- Migration: Daily notification digest
+-- Date: 2026-10-18
+-- Purpose: Act on the daily_digest preference from 20261018_notifications.sql.
+--          Once a day the backend (see digestService) calls
+--          send_daily_digests(), which gives every user who turned the digest
+--          on a DAILY_DIGEST notification summing up what they haven't read
+--          from the last day. Instant notifications are unaffected.
+
+-- ─── Last digest per user ───────────────────────────────────────────────────
+
+ALTER TABLE public.notification_preferences
+  ADD COLUMN IF NOT EXISTS last_digest_at TIMESTAMPTZ;
+
+-- ─── send_daily_digests ─────────────────────────────────────────────────────
+-- Covers unread notifications since the user's previous digest (or the last
+-- day for their first one). Users with nothing unread get no digest. The
+-- 20-hour guard keeps a restarted backend from sending twice in one day.
+
+CREATE OR REPLACE FUNCTION send_daily_digests()
+RETURNS INTEGER AS $$
+DECLARE
+    v_user RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_user IN
+        SELECT
+            np.user_id,
+            COUNT(n.id) AS unread,
+            COUNT(n.id) FILTER (WHERE n.type = 'PROJECT_AVAILABLE') AS new_projects,
+            COUNT(n.id) FILTER (
+                WHERE n.type IN ('SCRIPT_APPROVED', 'SCRIPT_REJECTED', 'EDIT_APPROVED', 'EDIT_REJECTED', 'FILE_REJECTED')
+            ) AS decisions,
+            COUNT(n.id) FILTER (WHERE n.type = 'MENTION') AS mentions
+        FROM notification_preferences np
+        LEFT JOIN notifications n
+          ON n.user_id = np.user_id
+         AND n.read_at IS NULL
+         AND n.type <> 'DAILY_DIGEST'
+         AND n.created_at > COALESCE(np.last_digest_at, NOW() - INTERVAL '1 day')
+        WHERE np.daily_digest = true
+          AND (np.last_digest_at IS NULL OR np.last_digest_at < NOW() - INTERVAL '20 hours')
+        GROUP BY np.user_id
+    LOOP
+        UPDATE notification_preferences SET last_digest_at = NOW() WHERE user_id = v_user.user_id;
+
+        CONTINUE WHEN v_user.unread = 0;
+
+        PERFORM create_notifications(
+            'DAILY_DIGEST',
+            'Your daily digest: ' || v_user.unread || ' unread update' || CASE WHEN v_user.unread = 1 THEN '' ELSE 's' END,
+            NULL,
+            NULL,
+            NULLIF(concat_ws(', ',
+                CASE WHEN v_user.new_projects > 0 THEN v_user.new_projects || ' new project' || CASE WHEN v_user.new_projects = 1 THEN '' ELSE 's' END END,
+                CASE WHEN v_user.decisions > 0 THEN v_user.decisions || ' review decision' || CASE WHEN v_user.decisions = 1 THEN '' ELSE 's' END END,
+                CASE WHEN v_user.mentions > 0 THEN v_user.mentions || ' mention' || CASE WHEN v_user.mentions = 1 THEN '' ELSE 's' END END
+            ), ''),
+            ARRAY[v_user.user_id]
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION send_daily_digests() TO service_role;
@@ -0,0 +1,61 @@
+-- Migration: FILE_REJECTED notification preference
+-- Date: 2026-10-18
+-- Purpose: Put FILE_REJECTED notifications (per-file review, see
+--          20261018_file_review.sql) under the "approvals" preference. Kept
+--          separate so it sorts after 20261018_notifications.sql, which
+--          defines create_notifications() first.
+
+-- ─── create_notifications ───────────────────────────────────────────────────
+-- Same as 20261018_notifications.sql, with FILE_REJECTED under approvals.
+
+CREATE OR REPLACE FUNCTION create_notifications(
+    p_type TEXT,
+    p_title TEXT,
+    p_analysis_id UUID DEFAULT NULL,
+    p_actor_id UUID DEFAULT NULL,
+    p_body TEXT DEFAULT NULL,
+    p_user_ids UUID[] DEFAULT '{}',
+    p_roles TEXT[] DEFAULT '{}',
+    p_assignee_roles TEXT[] DEFAULT '{}'
+)
+RETURNS INTEGER AS $$
+DECLARE
+    v_body TEXT := p_body;
+    v_count INTEGER;
+BEGIN
+    IF v_body IS NULL AND p_analysis_id IS NOT NULL THEN
+        SELECT COALESCE(NULLIF(title, ''), content_id, 'Untitled project') INTO v_body
+        FROM viral_analyses
+        WHERE id = p_analysis_id;
+    END IF;
+
+    WITH recipients AS (
+        SELECT unnest(COALESCE(p_user_ids, '{}')) AS user_id
+        UNION
+        SELECT id FROM profiles WHERE UPPER(role) = ANY (COALESCE(p_roles, '{}'))
+        UNION
+        SELECT user_id FROM project_assignments
+        WHERE analysis_id = p_analysis_id AND role = ANY (COALESCE(p_assignee_roles, '{}'))
+    ),
+    allowed AS (
+        SELECT r.user_id
+        FROM recipients r
+        LEFT JOIN notification_preferences np ON np.user_id = r.user_id
+        WHERE r.user_id IS NOT NULL
+          AND r.user_id IS DISTINCT FROM p_actor_id
+          AND CASE
+                WHEN p_type = 'PROJECT_AVAILABLE' THEN COALESCE(np.new_scripts, true)
+                WHEN p_type IN ('SCRIPT_APPROVED', 'SCRIPT_REJECTED', 'EDIT_APPROVED', 'EDIT_REJECTED', 'FILE_REJECTED')
+                  THEN COALESCE(np.approvals, true)
+                WHEN p_type = 'MENTION' THEN COALESCE(np.mentions, true)
+                ELSE true
+              END
+    )
+    INSERT INTO notifications (user_id, type, title, body, analysis_id, actor_id)
+    SELECT user_id, p_type, p_title, v_body, p_analysis_id, p_actor_id
+    FROM allowed;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,37 @@
+-- Migration: Atomic pick_project RPC
+-- Date: 2026-10-18
+-- Purpose: videographerService.pickProject and editorService.pickProject used to
+--          run read-check-update-insert from the browser, so two people tapping
+--          "Pick" at the same moment could both pass the availability check.
+--          pick_project() does the whole claim in one transaction with the
+--          analysis row locked, through the assign_project() claim defined in
+--          20261018_auto_assign.sql. Conflicts are raised with SQLSTATE PT409,
+--          which PostgREST turns into an HTTP 409 the frontend can tell apart
+--          from network failures.
+
+CREATE OR REPLACE FUNCTION pick_project(
+    p_analysis_id UUID,
+    p_user_id UUID,
+    p_role TEXT,
+    p_profile_id UUID DEFAULT NULL,
+    p_deadline TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TEXT AS $$
+BEGIN
+    -- A self-pick is an assignment made by the assignee
+    RETURN assign_project(
+        p_analysis_id,
+        p_user_id,
+        p_role,
+        p_user_id,
+        NULL,
+        false,
+        p_profile_id,
+        p_deadline
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION pick_project(UUID, UUID, TEXT, UUID, TIMESTAMPTZ) TO anon;
+GRANT EXECUTE ON FUNCTION pick_project(UUID, UUID, TEXT, UUID, TIMESTAMPTZ) TO authenticated;
+GRANT EXECUTE ON FUNCTION pick_project(UUID, UUID, TEXT, UUID, TIMESTAMPTZ) TO service_role;
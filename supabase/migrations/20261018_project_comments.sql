@@ -0,0 +1,121 @@
+-- Migration: Threaded project comments with @mentions
+-- Date: 2026-10-18
+-- Purpose: Replace "[Videographer Notes]"-style feedback crammed into
+--          production_notes with a real per-project comment thread.
+--          Comments can be replies (parent_id), carry an optional voice clip
+--          and list the profiles they @mention. project_comment_reads tracks
+--          when each user last opened a thread so BottomNav can show unread
+--          counts via unread_comment_count().
+
+-- ─── project_comments ───────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.project_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  parent_id UUID REFERENCES public.project_comments(id) ON DELETE CASCADE,
+  body TEXT NOT NULL DEFAULT '',
+  voice_note_url TEXT,
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  is_deleted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Deleting a comment clears its content, so only live comments need some
+  CONSTRAINT project_comments_not_empty CHECK (is_deleted OR body <> '' OR voice_note_url IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_comments_analysis_created
+  ON public.project_comments(analysis_id, created_at);
+
+CREATE INDEX IF NOT EXISTS idx_project_comments_mentions
+  ON public.project_comments USING GIN (mentions);
+
+-- ─── project_comment_reads ──────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.project_comment_reads (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, analysis_id)
+);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.project_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_comment_reads ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read project_comments" ON public.project_comments;
+CREATE POLICY "Anon can read project_comments"
+  ON public.project_comments FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert project_comments" ON public.project_comments;
+CREATE POLICY "Anon can insert project_comments"
+  ON public.project_comments FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update project_comments" ON public.project_comments;
+CREATE POLICY "Anon can update project_comments"
+  ON public.project_comments FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can read project_comment_reads" ON public.project_comment_reads;
+CREATE POLICY "Anon can read project_comment_reads"
+  ON public.project_comment_reads FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert project_comment_reads" ON public.project_comment_reads;
+CREATE POLICY "Anon can insert project_comment_reads"
+  ON public.project_comment_reads FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update project_comment_reads" ON public.project_comment_reads;
+CREATE POLICY "Anon can update project_comment_reads"
+  ON public.project_comment_reads FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.project_comments TO anon;
+GRANT SELECT, INSERT, UPDATE ON public.project_comment_reads TO anon;
+
+-- ─── unread_comment_count ───────────────────────────────────────────────────
+-- Comments by other people, newer than the user's last visit to that thread,
+-- on projects the user is involved in (wrote the script, is assigned, or is an
+-- admin) or where the user is @mentioned.
+
+CREATE OR REPLACE FUNCTION unread_comment_count(p_user_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    v_is_admin BOOLEAN;
+    v_count INTEGER;
+BEGIN
+    SELECT UPPER(role) IN ('SUPER_ADMIN', 'CREATOR', 'ADMIN') INTO v_is_admin
+    FROM profiles
+    WHERE id = p_user_id;
+
+    SELECT COUNT(*) INTO v_count
+    FROM project_comments c
+    LEFT JOIN project_comment_reads r
+      ON r.analysis_id = c.analysis_id AND r.user_id = p_user_id
+    WHERE c.is_deleted = false
+      AND c.author_id IS DISTINCT FROM p_user_id
+      AND c.created_at > COALESCE(r.last_read_at, '-infinity'::timestamptz)
+      AND (
+        COALESCE(v_is_admin, false)
+        OR p_user_id = ANY(c.mentions)
+        OR EXISTS (
+          SELECT 1 FROM project_assignments a
+          WHERE a.analysis_id = c.analysis_id AND a.user_id = p_user_id
+        )
+        OR EXISTS (
+          SELECT 1 FROM viral_analyses v
+          WHERE v.id = c.analysis_id AND v.user_id = p_user_id
+        )
+      );
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION unread_comment_count(UUID) TO anon;
+GRANT EXECUTE ON FUNCTION unread_comment_count(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION unread_comment_count(UUID) TO service_role;
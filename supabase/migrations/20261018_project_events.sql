@@ -0,0 +1,44 @@
+-- Migration: Project activity timeline (audit log)
+-- Date: 2026-10-18
+-- Purpose: Record who moved a project between stages, who approved/rejected it
+--          and who changed posting details. Services append one row per
+--          state-changing call; the detail pages render them as a timeline.
+--          Rows are append-only: anon can insert and read, nobody updates or
+--          deletes through PostgREST.
+
+-- ─── project_events ─────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.project_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL,
+  from_stage TEXT,
+  to_stage TEXT,
+  changes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Timeline query: all events for one project, newest first
+CREATE INDEX IF NOT EXISTS idx_project_events_analysis_created
+  ON public.project_events(analysis_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_project_events_actor_id
+  ON public.project_events(actor_id);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.project_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read project_events" ON public.project_events;
+CREATE POLICY "Anon can read project_events"
+  ON public.project_events FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert project_events" ON public.project_events;
+CREATE POLICY "Anon can insert project_events"
+  ON public.project_events FOR INSERT TO anon
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT ON public.project_events TO anon;
@@ -0,0 +1,44 @@
+-- Migration: Web Push subscriptions
+-- Date: 2026-10-18
+-- Purpose: Store each device's Web Push subscription and tell the backend
+--          whenever a notification row is created, so the same events that
+--          land in the in-app inbox (already filtered by the user's
+--          notification_preferences) are also pushed to locked phones.
+--
+--          push_subscriptions is only touched by the backend through
+--          DATABASE_URL, so anon gets no access to it.
+
+-- ─── push_subscriptions ─────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_used_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user
+  ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+-- ─── notification_created ───────────────────────────────────────────────────
+-- The backend LISTENs on this channel and pushes each new notification to
+-- the recipient's subscribed devices.
+
+CREATE OR REPLACE FUNCTION notify_notification_created()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM pg_notify('notification_created', NEW.id::text);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_notification_created ON public.notifications;
+CREATE TRIGGER trg_notification_created
+  AFTER INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION notify_notification_created();
@@ -0,0 +1,71 @@
+-- Migration: Weighted review scorecard
+-- Date: 2026-10-18
+-- Purpose: Let admins configure the criteria scripts are scored on and how
+--          much each one counts. Reviews store a score per criterion in
+--          viral_analyses.review_scores; overall_score is the weighted
+--          average (computed in the app, see lib/reviewScorecard). The four
+--          original criteria keep writing their dedicated columns.
+
+-- ─── review_criteria ────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.review_criteria (
+  key TEXT PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  label TEXT NOT NULL,
+  description TEXT,
+  -- Relative weight in the overall score; 0 keeps the criterion on the
+  -- scorecard without counting it
+  weight NUMERIC(4,2) NOT NULL DEFAULT 1 CHECK (weight >= 0 AND weight <= 10),
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.review_criteria (key, label, description, weight, sort_order)
+VALUES
+  ('hook_strength', 'Hook Strength', 'Does the first few seconds stop the scroll?', 1, 1),
+  ('content_quality', 'Content Quality', 'Is the idea well written and on brand?', 1, 2),
+  ('viral_potential', 'Viral Potential', 'How likely is it to be shared?', 1, 3),
+  ('replication_clarity', 'Replication Clarity', 'Can the team shoot it from the script alone?', 1, 4)
+ON CONFLICT (key) DO NOTHING;
+
+-- ─── viral_analyses ─────────────────────────────────────────────────────────
+
+-- { criterion key: score 0-10 } as given at review time
+ALTER TABLE public.viral_analyses
+  ADD COLUMN IF NOT EXISTS review_scores JSONB;
+
+UPDATE public.viral_analyses
+SET review_scores = jsonb_strip_nulls(jsonb_build_object(
+  'hook_strength', hook_strength,
+  'content_quality', content_quality,
+  'viral_potential', viral_potential,
+  'replication_clarity', replication_clarity
+))
+WHERE review_scores IS NULL AND overall_score IS NOT NULL;
+
+-- Score distributions and predictions read reviewed scripts per writer
+CREATE INDEX IF NOT EXISTS idx_viral_analyses_user_scored
+  ON public.viral_analyses (user_id)
+  WHERE overall_score IS NOT NULL;
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.review_criteria ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read review_criteria" ON public.review_criteria;
+CREATE POLICY "Anon can read review_criteria"
+  ON public.review_criteria FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert review_criteria" ON public.review_criteria;
+CREATE POLICY "Anon can insert review_criteria"
+  ON public.review_criteria FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update review_criteria" ON public.review_criteria;
+CREATE POLICY "Anon can update review_criteria"
+  ON public.review_criteria FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.review_criteria TO anon;
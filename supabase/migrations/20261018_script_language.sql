@@ -0,0 +1,11 @@
+-- Migration: Script language
+-- Date: 2026-10-18
+-- Purpose: Record the language a script is spoken in, so its duration can be
+--          estimated at the right speaking rate in the editor and the
+--          teleprompter starts at a matching scroll speed.
+
+-- ─── viral_analyses ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.viral_analyses
+  -- Code from SCRIPT_LANGUAGES in app-v2/src/lib/scriptTiming.ts (en, hi, ...)
+  ADD COLUMN IF NOT EXISTS script_language TEXT;
@@ -0,0 +1,88 @@
+-- Migration: Rejection reasons and script resubmission
+-- Date: 2026-10-18
+-- Purpose: Give rejections a fixed set of reasons admins pick from, and
+--          keep every reviewed version of a script with its outcome so a
+--          writer can revise and resubmit without losing earlier feedback,
+--          and reviewers can see what changed since the last round.
+
+-- ─── rejection_reasons ──────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.rejection_reasons (
+  code TEXT PRIMARY KEY CHECK (code ~ '^[A-Z][A-Z0-9_]*$'),
+  label TEXT NOT NULL,
+  -- Shown to writers next to the reason
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true
+);
+
+INSERT INTO public.rejection_reasons (code, label, description, sort_order)
+VALUES
+  ('WEAK_HOOK', 'Weak hook', 'The opening does not grab attention in the first few seconds.', 1),
+  ('UNCLEAR_SCRIPT', 'Unclear script', 'The team could not tell how to shoot it from the script.', 2),
+  ('LOW_VIRAL_POTENTIAL', 'Low viral potential', 'The idea is unlikely to be shared widely.', 3),
+  ('OFF_BRAND', 'Off brand', 'Does not fit the tone or audience of our profiles.', 4),
+  ('DUPLICATE', 'Already covered', 'We already have a very similar project.', 5),
+  ('HARD_TO_PRODUCE', 'Hard to produce', 'Needs locations, cast or props we cannot arrange.', 6),
+  ('BAD_REFERENCE', 'Reference unusable', 'The reference video is missing, private or not a fit.', 7),
+  ('OTHER', 'Other', 'See the written feedback.', 99)
+ON CONFLICT (code) DO NOTHING;
+
+-- ─── viral_analyses ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.viral_analyses
+  -- Reasons given with the latest rejection (codes from rejection_reasons)
+  ADD COLUMN IF NOT EXISTS rejection_reasons TEXT[],
+  -- When the writer last sent a revised version back for review
+  ADD COLUMN IF NOT EXISTS resubmitted_at TIMESTAMPTZ;
+
+-- ─── script_review_rounds ───────────────────────────────────────────────────
+-- One row per review: the script as it was reviewed and what the reviewer
+-- decided. Round 1 is the original submission.
+
+CREATE TABLE IF NOT EXISTS public.script_review_rounds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  round INTEGER NOT NULL CHECK (round > 0),
+  -- title, hook, script_body, script_cta, why_viral, ... at review time
+  snapshot JSONB NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL CHECK (status IN ('APPROVED', 'REJECTED')),
+  rejection_reasons TEXT[] NOT NULL DEFAULT '{}',
+  feedback TEXT,
+  feedback_voice_note_url TEXT,
+  submitted_at TIMESTAMPTZ,
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (analysis_id, round)
+);
+
+CREATE INDEX IF NOT EXISTS idx_script_review_rounds_analysis
+  ON public.script_review_rounds (analysis_id, round DESC);
+
+-- Rejection analytics scan rejected rounds only
+CREATE INDEX IF NOT EXISTS idx_script_review_rounds_rejected
+  ON public.script_review_rounds (reviewed_at DESC)
+  WHERE status = 'REJECTED';
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.rejection_reasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.script_review_rounds ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read rejection_reasons" ON public.rejection_reasons;
+CREATE POLICY "Anon can read rejection_reasons"
+  ON public.rejection_reasons FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can read script_review_rounds" ON public.script_review_rounds;
+CREATE POLICY "Anon can read script_review_rounds"
+  ON public.script_review_rounds FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert script_review_rounds" ON public.script_review_rounds;
+CREATE POLICY "Anon can insert script_review_rounds"
+  ON public.script_review_rounds FOR INSERT TO anon
+  WITH CHECK (true);
+
+GRANT SELECT ON public.rejection_reasons TO anon;
+GRANT SELECT, INSERT ON public.script_review_rounds TO anon;
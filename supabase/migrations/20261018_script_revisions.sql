@@ -0,0 +1,44 @@
+-- Migration: Script revisions
+-- Date: 2026-10-18
+-- Purpose: Keep every version of a script's text. Edits used to overwrite
+--          hook, script_body, script_cta and production_notes in place, so
+--          nobody could see what a script said before it was changed or put
+--          an earlier version back.
+
+-- ─── script_revisions ───────────────────────────────────────────────────────
+-- One row per saved version. Revision 1 is the script as it was before its
+-- first tracked edit; each edit or restore adds the version it produced.
+
+CREATE TABLE IF NOT EXISTS public.script_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  revision INTEGER NOT NULL CHECK (revision > 0),
+  -- title, hook, script_body, script_cta, production_notes, ... after the edit
+  snapshot JSONB NOT NULL DEFAULT '{}',
+  -- Snapshot keys that differ from the previous revision
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- Set when this version was made by restoring an earlier revision
+  restored_from INTEGER,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (analysis_id, revision)
+);
+
+CREATE INDEX IF NOT EXISTS idx_script_revisions_analysis
+  ON public.script_revisions (analysis_id, revision DESC);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.script_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read script_revisions" ON public.script_revisions;
+CREATE POLICY "Anon can read script_revisions"
+  ON public.script_revisions FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert script_revisions" ON public.script_revisions;
+CREATE POLICY "Anon can insert script_revisions"
+  ON public.script_revisions FOR INSERT TO anon
+  WITH CHECK (true);
+
+GRANT SELECT, INSERT ON public.script_revisions TO anon;
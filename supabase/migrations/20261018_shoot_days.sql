@@ -0,0 +1,82 @@
+-- Migration: Shoot days
+-- Date: 2026-10-18
+-- Purpose: Let a videographer plan a shoot day that covers several SHOOTING
+--          projects at one location: date, optional time window, location,
+--          props notes and the projects it includes. The required cast is
+--          the sum of the projects' cast_composition and is computed in the
+--          app. Overlapping days for the same videographer are allowed but
+--          flagged in the UI. Projects on a day get planned_date set to it.
+
+-- ─── shoot_days ─────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.shoot_days (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  videographer_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  shoot_date DATE NOT NULL,
+  -- NULL times mean the whole day
+  start_time TIME,
+  end_time TIME,
+  location TEXT,
+  props_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (start_time IS NULL OR end_time IS NULL OR end_time > start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shoot_days_videographer_date
+  ON public.shoot_days(videographer_id, shoot_date);
+
+-- ─── shoot_day_projects ─────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.shoot_day_projects (
+  shoot_day_id UUID NOT NULL REFERENCES public.shoot_days(id) ON DELETE CASCADE,
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (shoot_day_id, analysis_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shoot_day_projects_analysis
+  ON public.shoot_day_projects(analysis_id);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.shoot_days ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shoot_day_projects ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read shoot_days" ON public.shoot_days;
+CREATE POLICY "Anon can read shoot_days"
+  ON public.shoot_days FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert shoot_days" ON public.shoot_days;
+CREATE POLICY "Anon can insert shoot_days"
+  ON public.shoot_days FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update shoot_days" ON public.shoot_days;
+CREATE POLICY "Anon can update shoot_days"
+  ON public.shoot_days FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can delete shoot_days" ON public.shoot_days;
+CREATE POLICY "Anon can delete shoot_days"
+  ON public.shoot_days FOR DELETE TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can read shoot_day_projects" ON public.shoot_day_projects;
+CREATE POLICY "Anon can read shoot_day_projects"
+  ON public.shoot_day_projects FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert shoot_day_projects" ON public.shoot_day_projects;
+CREATE POLICY "Anon can insert shoot_day_projects"
+  ON public.shoot_day_projects FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can delete shoot_day_projects" ON public.shoot_day_projects;
+CREATE POLICY "Anon can delete shoot_day_projects"
+  ON public.shoot_day_projects FOR DELETE TO anon
+  USING (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.shoot_days TO anon;
+GRANT SELECT, INSERT, DELETE ON public.shoot_day_projects TO anon;
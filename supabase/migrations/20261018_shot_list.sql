@@ -0,0 +1,44 @@
+-- Migration: Shot list attachments
+-- Date: 2026-10-18
+-- Purpose: Each project gets a shot list built from its script (one item per
+--          hook / body / CTA section and one per cast member). The items are
+--          derived in the app; this table only records which uploaded file
+--          covers which item, so the videographer can tick the list off and
+--          MyProjectsPage can show progress.
+
+-- ─── shot_list_attachments ──────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.shot_list_attachments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  -- "section:HOOK", "cast:woman:2", ... (see app-v2/src/lib/shotList.ts)
+  item_key TEXT NOT NULL CHECK (item_key <> ''),
+  file_id UUID NOT NULL REFERENCES public.production_files(id) ON DELETE CASCADE,
+  attached_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (analysis_id, item_key, file_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_shot_list_attachments_analysis
+  ON public.shot_list_attachments(analysis_id);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.shot_list_attachments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read shot_list_attachments" ON public.shot_list_attachments;
+CREATE POLICY "Anon can read shot_list_attachments"
+  ON public.shot_list_attachments FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert shot_list_attachments" ON public.shot_list_attachments;
+CREATE POLICY "Anon can insert shot_list_attachments"
+  ON public.shot_list_attachments FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can delete shot_list_attachments" ON public.shot_list_attachments;
+CREATE POLICY "Anon can delete shot_list_attachments"
+  ON public.shot_list_attachments FOR DELETE TO anon
+  USING (true);
+
+GRANT SELECT, INSERT, DELETE ON public.shot_list_attachments TO anon;
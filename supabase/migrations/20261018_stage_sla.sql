@@ -0,0 +1,129 @@
+-- Migration: Per-stage SLAs and overdue escalation
+-- Date: 2026-10-18
+-- Purpose: Track how long each project has been in its current production
+--          stage and compare that against admin-configured limits per stage
+--          and priority. viral_analyses.stage_entered_at is kept by a
+--          trigger; escalate_overdue_projects() notifies admins once per
+--          breach and is run periodically by the backend.
+
+-- ─── viral_analyses ─────────────────────────────────────────────────────────
+
+ALTER TABLE public.viral_analyses
+  ADD COLUMN IF NOT EXISTS stage_entered_at TIMESTAMPTZ,
+  -- Set when admins were told this project is overdue in its current stage
+  ADD COLUMN IF NOT EXISTS sla_escalated_at TIMESTAMPTZ;
+
+-- Backfill from the latest logged move into the current stage, falling back
+-- to when production started (SHOOTING) or the last update
+UPDATE public.viral_analyses va
+SET stage_entered_at = COALESCE(
+  (
+    SELECT MAX(pe.created_at)
+    FROM public.project_events pe
+    WHERE pe.analysis_id = va.id AND pe.to_stage = va.production_stage
+  ),
+  CASE WHEN va.production_stage = 'SHOOTING' THEN va.production_started_at END,
+  va.updated_at,
+  va.created_at
+)
+WHERE va.stage_entered_at IS NULL;
+
+CREATE OR REPLACE FUNCTION track_stage_entered_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.production_stage IS DISTINCT FROM OLD.production_stage THEN
+        NEW.stage_entered_at := NOW();
+        NEW.sla_escalated_at := NULL;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_track_stage_entered_at ON public.viral_analyses;
+CREATE TRIGGER trg_track_stage_entered_at
+  BEFORE INSERT OR UPDATE OF production_stage ON public.viral_analyses
+  FOR EACH ROW EXECUTE FUNCTION track_stage_entered_at();
+
+-- ─── stage_slas ─────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.stage_slas (
+  stage TEXT NOT NULL CHECK (stage IN ('SHOOTING', 'READY_FOR_EDIT', 'EDITING', 'EDIT_REVIEW')),
+  priority TEXT NOT NULL CHECK (priority IN ('LOW', 'NORMAL', 'HIGH', 'URGENT')),
+  -- NULL means no limit for this stage and priority
+  hours INTEGER CHECK (hours > 0),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (stage, priority)
+);
+
+INSERT INTO public.stage_slas (stage, priority, hours)
+VALUES
+  ('SHOOTING', 'URGENT', 24), ('SHOOTING', 'HIGH', 48), ('SHOOTING', 'NORMAL', 96), ('SHOOTING', 'LOW', 168),
+  ('READY_FOR_EDIT', 'URGENT', 12), ('READY_FOR_EDIT', 'HIGH', 24), ('READY_FOR_EDIT', 'NORMAL', 48), ('READY_FOR_EDIT', 'LOW', 96),
+  ('EDITING', 'URGENT', 24), ('EDITING', 'HIGH', 48), ('EDITING', 'NORMAL', 72), ('EDITING', 'LOW', 120),
+  ('EDIT_REVIEW', 'URGENT', 12), ('EDIT_REVIEW', 'HIGH', 24), ('EDIT_REVIEW', 'NORMAL', 48), ('EDIT_REVIEW', 'LOW', 72)
+ON CONFLICT (stage, priority) DO NOTHING;
+
+-- ─── escalate_overdue_projects ──────────────────────────────────────────────
+-- Notifies admins about every active project past its stage SLA that hasn't
+-- been escalated yet, and marks it so the next run skips it. Moving the
+-- project to another stage clears the mark (see track_stage_entered_at).
+-- Returns how many projects were escalated.
+
+CREATE OR REPLACE FUNCTION escalate_overdue_projects()
+RETURNS INTEGER AS $$
+DECLARE
+    v_project RECORD;
+    v_count INTEGER := 0;
+BEGIN
+    FOR v_project IN
+        SELECT va.id, va.production_stage, s.hours
+        FROM viral_analyses va
+        JOIN stage_slas s
+          ON s.stage = va.production_stage
+         AND s.priority = COALESCE(va.priority, 'NORMAL')
+        WHERE va.status = 'APPROVED'
+          AND COALESCE(va.is_dissolved, false) = false
+          AND va.sla_escalated_at IS NULL
+          AND va.stage_entered_at IS NOT NULL
+          AND s.hours IS NOT NULL
+          AND va.stage_entered_at + make_interval(hours => s.hours) < NOW()
+        FOR UPDATE OF va SKIP LOCKED
+    LOOP
+        UPDATE viral_analyses SET sla_escalated_at = NOW() WHERE id = v_project.id;
+
+        PERFORM create_notifications(
+            'SLA_OVERDUE',
+            'Overdue in ' || INITCAP(REPLACE(v_project.production_stage, '_', ' '))
+              || ' (over ' || v_project.hours || 'h)',
+            v_project.id,
+            NULL,
+            NULL,
+            '{}',
+            ARRAY['SUPER_ADMIN', 'CREATOR']
+        );
+
+        v_count := v_count + 1;
+    END LOOP;
+
+    RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION escalate_overdue_projects() TO service_role;
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.stage_slas ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read stage_slas" ON public.stage_slas;
+CREATE POLICY "Anon can read stage_slas"
+  ON public.stage_slas FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can update stage_slas" ON public.stage_slas;
+CREATE POLICY "Anon can update stage_slas"
+  ON public.stage_slas FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+GRANT SELECT, UPDATE ON public.stage_slas TO anon;
@@ -0,0 +1,125 @@
+-- Migration: Talent roster
+-- Date: 2026-10-18
+-- Purpose: Keep a roster of on-screen talent (category matching the
+--          cast_composition keys, contact details, photos) with the dates
+--          each person is unavailable, and record which talent is booked
+--          for a project and who actually appeared. Matching talent to a
+--          project's cast and planned_date happens in the app. Photos live
+--          in the backend's talent-photos storage; only their URLs are here.
+
+-- ─── talent ─────────────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.talent (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  full_name TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN (
+    'man', 'woman', 'boy', 'girl', 'teen_boy', 'teen_girl', 'senior_man', 'senior_woman'
+  )),
+  phone TEXT,
+  email TEXT,
+  instagram TEXT,
+  notes TEXT,
+  photo_urls TEXT[] NOT NULL DEFAULT '{}',
+  -- Archived talent stays linked to past projects but isn't proposed
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_talent_category
+  ON public.talent(category) WHERE is_active;
+
+-- ─── talent_unavailability ──────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.talent_unavailability (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  talent_id UUID NOT NULL REFERENCES public.talent(id) ON DELETE CASCADE,
+  -- Inclusive range
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_talent_unavailability_talent
+  ON public.talent_unavailability(talent_id, start_date);
+
+-- ─── project_talent ─────────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.project_talent (
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  talent_id UUID NOT NULL REFERENCES public.talent(id) ON DELETE CASCADE,
+  -- The cast slot they fill; usually the talent's own category
+  category TEXT NOT NULL,
+  -- booked: picked for the shoot; appeared: confirmed on camera
+  status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'appeared')),
+  added_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (analysis_id, talent_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_talent_talent
+  ON public.project_talent(talent_id, status);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.talent ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.talent_unavailability ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.project_talent ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read talent" ON public.talent;
+CREATE POLICY "Anon can read talent"
+  ON public.talent FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert talent" ON public.talent;
+CREATE POLICY "Anon can insert talent"
+  ON public.talent FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update talent" ON public.talent;
+CREATE POLICY "Anon can update talent"
+  ON public.talent FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can read talent_unavailability" ON public.talent_unavailability;
+CREATE POLICY "Anon can read talent_unavailability"
+  ON public.talent_unavailability FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert talent_unavailability" ON public.talent_unavailability;
+CREATE POLICY "Anon can insert talent_unavailability"
+  ON public.talent_unavailability FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can delete talent_unavailability" ON public.talent_unavailability;
+CREATE POLICY "Anon can delete talent_unavailability"
+  ON public.talent_unavailability FOR DELETE TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can read project_talent" ON public.project_talent;
+CREATE POLICY "Anon can read project_talent"
+  ON public.project_talent FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert project_talent" ON public.project_talent;
+CREATE POLICY "Anon can insert project_talent"
+  ON public.project_talent FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update project_talent" ON public.project_talent;
+CREATE POLICY "Anon can update project_talent"
+  ON public.project_talent FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can delete project_talent" ON public.project_talent;
+CREATE POLICY "Anon can delete project_talent"
+  ON public.project_talent FOR DELETE TO anon
+  USING (true);
+
+GRANT SELECT, INSERT, UPDATE ON public.talent TO anon;
+GRANT SELECT, INSERT, DELETE ON public.talent_unavailability TO anon;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.project_talent TO anon;
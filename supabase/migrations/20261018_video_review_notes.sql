@@ -0,0 +1,55 @@
+-- Migration: Timestamped video review notes
+-- Date: 2026-10-18
+-- Purpose: Let admins pin feedback to an exact moment of an edited video
+--          ("0:42.480 — the cut is late") from the in-app review player
+--          instead of describing it in the rejection reason. Notes belong to
+--          one production_files row; the editor ticks them off as a
+--          checklist on their project page.
+
+-- ─── video_review_notes ─────────────────────────────────────────────────────
+
+CREATE TABLE IF NOT EXISTS public.video_review_notes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  analysis_id UUID NOT NULL REFERENCES public.viral_analyses(id) ON DELETE CASCADE,
+  file_id UUID NOT NULL REFERENCES public.production_files(id) ON DELETE CASCADE,
+  author_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  -- Millisecond precision so a note lands on the frame it was written at
+  timestamp_seconds NUMERIC(10, 3) NOT NULL CHECK (timestamp_seconds >= 0),
+  body TEXT NOT NULL CHECK (body <> ''),
+  is_resolved BOOLEAN NOT NULL DEFAULT false,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_review_notes_file_time
+  ON public.video_review_notes(file_id, timestamp_seconds);
+
+CREATE INDEX IF NOT EXISTS idx_video_review_notes_analysis
+  ON public.video_review_notes(analysis_id);
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+
+ALTER TABLE public.video_review_notes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anon can read video_review_notes" ON public.video_review_notes;
+CREATE POLICY "Anon can read video_review_notes"
+  ON public.video_review_notes FOR SELECT TO anon
+  USING (true);
+
+DROP POLICY IF EXISTS "Anon can insert video_review_notes" ON public.video_review_notes;
+CREATE POLICY "Anon can insert video_review_notes"
+  ON public.video_review_notes FOR INSERT TO anon
+  WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can update video_review_notes" ON public.video_review_notes;
+CREATE POLICY "Anon can update video_review_notes"
+  ON public.video_review_notes FOR UPDATE TO anon
+  USING (true) WITH CHECK (true);
+
+DROP POLICY IF EXISTS "Anon can delete video_review_notes" ON public.video_review_notes;
+CREATE POLICY "Anon can delete video_review_notes"
+  ON public.video_review_notes FOR DELETE TO anon
+  USING (true);
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.video_review_notes TO anon;
@@ -0,0 +1,19 @@
+-- Migration: Video thumbnails and durations
+-- Date: 2026-10-18
+-- Purpose: The upload flow grabs a poster frame and the duration of each video
+--          in the browser before uploading it. The frame is stored in the
+--          backend's thumbnails bucket and both values are saved with the
+--          production_files row on finalize. The latest edited video's
+--          duration is copied to viral_analyses.video_duration.
+
+-- ─── production_files ───────────────────────────────────────────────────────
+
+ALTER TABLE public.production_files
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT,
+  ADD COLUMN IF NOT EXISTS duration_seconds INTEGER;
+
+-- ─── viral_analyses ─────────────────────────────────────────────────────────
+
+-- Whole seconds of the final edit
+ALTER TABLE public.viral_analyses
+  ADD COLUMN IF NOT EXISTS video_duration INTEGER;
@@ -0,0 +1,119 @@
+-- Migration: Voice note transcripts
+-- Date: 2026-10-18
+-- Purpose: Transcribe recorded voice notes (hook, why-viral, review feedback)
+--          so they can be read and searched. The backend transcribes each
+--          voice note after upload (see backend voiceNoteService) and stores
+--          the text next to the URL that points at it.
+
+-- ─── Transcript columns ─────────────────────────────────────────────────────
+
+ALTER TABLE public.viral_analyses
+  ADD COLUMN IF NOT EXISTS hook_voice_note_transcript TEXT,
+  ADD COLUMN IF NOT EXISTS why_viral_voice_note_transcript TEXT,
+  ADD COLUMN IF NOT EXISTS feedback_voice_note_transcript TEXT;
+
+ALTER TABLE public.script_review_rounds
+  ADD COLUMN IF NOT EXISTS feedback_voice_note_transcript TEXT;
+
+-- ─── voice_note_transcripts ─────────────────────────────────────────────────
+-- One row per uploaded voice note, keyed by its storage path
+-- ("userId/hook_1700000000000.webm"). Notes are usually uploaded before the
+-- row that links to them is saved, so transcripts are kept here and copied
+-- onto whichever row points at the note, whichever comes first.
+
+CREATE TABLE IF NOT EXISTS public.voice_note_transcripts (
+  path TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'DONE', 'FAILED')),
+  transcript TEXT,
+  -- Engine that produced the transcript (whisper, stub, ...)
+  engine TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Storage path of a voice note URL (".../files/voice-notes/<path>")
+CREATE OR REPLACE FUNCTION voice_note_path(p_url TEXT)
+RETURNS TEXT AS $$
+    SELECT substring(p_url FROM '/files/voice-notes/(.+)$');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- ─── apply_voice_note_transcript ────────────────────────────────────────────
+-- Called by the backend when a transcript is ready: stores it and fills the
+-- transcript column of every row already linking to the note.
+
+CREATE OR REPLACE FUNCTION apply_voice_note_transcript(p_path TEXT, p_transcript TEXT, p_engine TEXT)
+RETURNS VOID AS $$
+BEGIN
+    INSERT INTO voice_note_transcripts (path, status, transcript, engine, error, completed_at)
+    VALUES (p_path, 'DONE', p_transcript, p_engine, NULL, NOW())
+    ON CONFLICT (path) DO UPDATE
+      SET status = 'DONE',
+          transcript = EXCLUDED.transcript,
+          engine = EXCLUDED.engine,
+          error = NULL,
+          completed_at = NOW();
+
+    UPDATE viral_analyses SET hook_voice_note_transcript = p_transcript
+      WHERE voice_note_path(hook_voice_note_url) = p_path;
+    UPDATE viral_analyses SET why_viral_voice_note_transcript = p_transcript
+      WHERE voice_note_path(why_viral_voice_note_url) = p_path;
+    UPDATE viral_analyses SET feedback_voice_note_transcript = p_transcript
+      WHERE voice_note_path(feedback_voice_note_url) = p_path;
+    UPDATE script_review_rounds SET feedback_voice_note_transcript = p_transcript
+      WHERE voice_note_path(feedback_voice_note_url) = p_path;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION apply_voice_note_transcript(TEXT, TEXT, TEXT) TO service_role;
+
+-- ─── Copy finished transcripts onto new links ───────────────────────────────
+-- When a row starts pointing at a voice note that was already transcribed,
+-- pick the transcript up straight away. Clearing the URL clears the text.
+
+CREATE OR REPLACE FUNCTION voice_note_transcript_for(p_url TEXT)
+RETURNS TEXT AS $$
+    SELECT transcript FROM voice_note_transcripts
+    WHERE path = voice_note_path(p_url) AND status = 'DONE';
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION fill_analysis_voice_note_transcripts()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.hook_voice_note_url IS DISTINCT FROM OLD.hook_voice_note_url THEN
+        NEW.hook_voice_note_transcript := voice_note_transcript_for(NEW.hook_voice_note_url);
+    END IF;
+    IF TG_OP = 'INSERT' OR NEW.why_viral_voice_note_url IS DISTINCT FROM OLD.why_viral_voice_note_url THEN
+        NEW.why_viral_voice_note_transcript := voice_note_transcript_for(NEW.why_viral_voice_note_url);
+    END IF;
+    IF TG_OP = 'INSERT' OR NEW.feedback_voice_note_url IS DISTINCT FROM OLD.feedback_voice_note_url THEN
+        NEW.feedback_voice_note_transcript := voice_note_transcript_for(NEW.feedback_voice_note_url);
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_fill_analysis_voice_note_transcripts ON public.viral_analyses;
+CREATE TRIGGER trg_fill_analysis_voice_note_transcripts
+  BEFORE INSERT OR UPDATE OF hook_voice_note_url, why_viral_voice_note_url, feedback_voice_note_url
+  ON public.viral_analyses
+  FOR EACH ROW EXECUTE FUNCTION fill_analysis_voice_note_transcripts();
+
+CREATE OR REPLACE FUNCTION fill_round_voice_note_transcript()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.feedback_voice_note_transcript := voice_note_transcript_for(NEW.feedback_voice_note_url);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trg_fill_round_voice_note_transcript ON public.script_review_rounds;
+CREATE TRIGGER trg_fill_round_voice_note_transcript
+  BEFORE INSERT ON public.script_review_rounds
+  FOR EACH ROW EXECUTE FUNCTION fill_round_voice_note_transcript();
+
+-- ─── RLS ────────────────────────────────────────────────────────────────────
+-- Only the backend reads and writes voice_note_transcripts; the app reads the
+-- copied columns.
+
+ALTER TABLE public.voice_note_transcripts ENABLE ROW LEVEL SECURITY;